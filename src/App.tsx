@@ -16,6 +16,8 @@ import BattleFieldPage from "./pages/BattleFieldPage";
 import GamificationPage from "./pages/GamificationPage";
 import AdvancedAnalytics from './pages/AdvancedAnalytics';
 import FlashcardsPage from './pages/FlashcardsPage';
+import TodayPage from './pages/TodayPage';
+import MockExamPage from './pages/MockExamPage';
 import NotFound from "./pages/NotFound";
 
 // Only import DatabaseViewer in development
@@ -44,6 +46,8 @@ const App = () => (
                   <Route path="/gamification" element={<GamificationPage />} />
           <Route path="/analytics" element={<AdvancedAnalytics />} />
           <Route path="/flashcards" element={<FlashcardsPage />} />
+          <Route path="/today" element={<TodayPage />} />
+          <Route path="/mock-exams" element={<MockExamPage />} />
                   {import.meta.env.DEV && DatabaseViewer && (
                     <Route 
                       path="/database" 
@@ -11,7 +11,8 @@ import {
   Sword,
   Gamepad2,
   TrendingUp,
-  CreditCard
+  CreditCard,
+  CalendarCheck
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
@@ -33,6 +34,11 @@ const BottomNavigation = () => {
       icon: BookOpen,
       label: 'Planner'
     },
+    {
+      path: '/today',
+      icon: CalendarCheck,
+      label: 'Hoje'
+    },
     {
       path: '/study-session',
       icon: Clock,
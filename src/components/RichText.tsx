@@ -0,0 +1,33 @@
+import React, { useMemo } from 'react';
+import 'katex/dist/katex.min.css';
+import { highlightPassages, renderRichText, renderRichTextInline } from '@/utils/richText';
+
+interface RichTextProps {
+  text: string;
+  inline?: boolean;
+  className?: string;
+  highlights?: string[]; // Trechos marcados pelo usuário (ex.: no enunciado da questão)
+}
+
+/**
+ * Exibe Markdown com fórmulas LaTeX e blocos de código (HTML já sanitizado em renderRichText)
+ */
+const RichText: React.FC<RichTextProps> = ({ text, inline = false, className, highlights }) => {
+  const html = useMemo(() => {
+    const rendered = inline ? renderRichTextInline(text) : renderRichText(text);
+    return highlights?.length ? highlightPassages(rendered, highlights) : rendered;
+  }, [text, inline, highlights]);
+
+  if (inline) {
+    return <span className={className} dangerouslySetInnerHTML={{ __html: html }} />;
+  }
+
+  return (
+    <div
+      className={`prose dark:prose-invert max-w-none break-words ${className || ''}`}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
+
+export default RichText;
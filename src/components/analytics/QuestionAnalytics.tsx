@@ -20,6 +20,8 @@ import {
   AreaChart
 } from 'recharts';
 import { QuestionAttempt } from '@/types/battle';
+import { createScoringPolicyResolver } from '@/db/crud/scoringPolicies';
+import { answerOutcome, summarizeScore } from '@/utils/questionScoring';
 import { 
   Target, 
   TrendingUp, 
@@ -36,6 +38,7 @@ interface QuestionAnalyticsProps {
     questionTitle?: string; 
     difficulty?: 'easy' | 'medium' | 'hard'; 
     room?: 'triagem' | 'vermelha' | 'amarela' | 'verde';
+    examiningBoard?: string;
     topicName?: string;
     subjectName?: string;
   })[];
@@ -71,6 +74,7 @@ export function QuestionAnalytics({ attempts, accuracyByRoom, errorAnalysis }: Q
         accuracyRate: 0,
         avgTimeTaken: 0,
         totalXpEarned: 0,
+        score: summarizeScore([]),
         difficultyStats: [],
         confidenceStats: [],
         roomStats: [],
@@ -81,13 +85,21 @@ export function QuestionAnalytics({ attempts, accuracyByRoom, errorAnalysis }: Q
 
     const totalAttempts = attempts.length;
     const correctAttempts = attempts.filter(a => a.isCorrect).length;
-    const accuracyRate = (correctAttempts / totalAttempts) * 100;
+    // Discursivas contam pela nota parcial da autocorreção
+    const accuracyRate = (attempts.reduce((sum, a) => sum + (a.score ?? (a.isCorrect ? 1 : 0)), 0) / totalAttempts) * 100;
     const avgTimeTaken = attempts
       .filter(a => a.timeTaken)
       .reduce((sum, a) => sum + (a.timeTaken || 0), 0) / 
       attempts.filter(a => a.timeTaken).length || 0;
     const totalXpEarned = attempts.reduce((sum, a) => sum + a.xpEarned, 0);
 
+    // Nota líquida: nas bancas que descontam, cada erro anula um acerto
+    const resolvePolicy = createScoringPolicyResolver();
+    const score = summarizeScore(attempts.map(a => ({
+      outcome: answerOutcome(a.answer, a.isCorrect),
+      policy: resolvePolicy(a.examiningBoard)
+    })));
+
     // Difficulty statistics
     const difficultyMap = attempts.reduce((acc, attempt) => {
       const diff = attempt.difficulty || 'medium';
@@ -181,6 +193,7 @@ export function QuestionAnalytics({ attempts, accuracyByRoom, errorAnalysis }: Q
       accuracyRate,
       avgTimeTaken,
       totalXpEarned,
+      score,
       difficultyStats,
       confidenceStats,
       roomStats,
@@ -219,6 +232,13 @@ export function QuestionAnalytics({ attempts, accuracyByRoom, errorAnalysis }: Q
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Taxa de Acurácia</p>
                 <p className="text-2xl font-bold">{analytics.accuracyRate.toFixed(1)}%</p>
+                {(analytics.score.penalized || analytics.score.blank > 0) && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {analytics.score.penalized && `Nota líquida: ${analytics.score.netScore}`}
+                    {analytics.score.penalized && analytics.score.blank > 0 && ' · '}
+                    {analytics.score.blank > 0 && `${analytics.score.blank} em branco`}
+                  </p>
+                )}
               </div>
               <CheckCircle className="h-8 w-8 text-study-success" />
             </div>
@@ -0,0 +1,130 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { format, parseISO } from 'date-fns';
+import type { ReviewItemKind, ReviewLogSummary } from '@/db/crud/reviewLogs';
+import { History, CheckCircle, Timer } from 'lucide-react';
+
+interface ReviewLogAnalyticsProps {
+  summary: ReviewLogSummary;
+}
+
+const KIND_LABELS: Record<ReviewItemKind, string> = {
+  flashcard: 'Flashcards',
+  enemy_topic: 'Inimigos',
+  question: 'Questões'
+};
+
+const KIND_COLORS: Record<ReviewItemKind, string> = {
+  flashcard: 'hsl(var(--study-info))',
+  enemy_topic: 'hsl(var(--study-danger))',
+  question: 'hsl(var(--study-success))'
+};
+
+export function ReviewLogAnalytics({ summary }: ReviewLogAnalyticsProps) {
+  const dailyData = useMemo(() => summary.daily.map(day => ({
+    date: format(parseISO(day.date), 'dd/MM'),
+    ...day.byKind
+  })), [summary]);
+
+  return (
+    <div className="space-y-6">
+      {/* Quick Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Revisões (30 dias)</p>
+                <p className="text-2xl font-bold">{summary.totalReviews}</p>
+              </div>
+              <History className="h-8 w-8 text-study-primary" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Retenção</p>
+                <p className="text-2xl font-bold">{summary.retentionRate.toFixed(1)}%</p>
+              </div>
+              <CheckCircle className="h-8 w-8 text-study-success" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Tempo Médio</p>
+                <p className="text-2xl font-bold">{summary.averageResponseTime.toFixed(0)}s</p>
+              </div>
+              <Timer className="h-8 w-8 text-study-warning" />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Daily Reviews */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Revisões por Dia</CardTitle>
+          <CardDescription>Histórico de revisões dos últimos 30 dias por tipo de item</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={dailyData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              {(Object.keys(KIND_LABELS) as ReviewItemKind[]).map(kind => (
+                <Bar key={kind} dataKey={kind} stackId="reviews" fill={KIND_COLORS[kind]} name={KIND_LABELS[kind]} />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      {/* Retention by Kind */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Retenção por Tipo</CardTitle>
+          <CardDescription>Percentual de revisões lembradas (nota 3 ou maior)</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {(Object.keys(KIND_LABELS) as ReviewItemKind[]).map(kind => {
+            const stats = summary.byKind[kind];
+            const retention = stats.total > 0 ? (stats.correct / stats.total) * 100 : 0;
+
+            return (
+              <div key={kind} className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">{KIND_LABELS[kind]}</span>
+                  <span className="text-muted-foreground">
+                    {stats.correct}/{stats.total} ({retention.toFixed(1)}%)
+                  </span>
+                </div>
+                <Progress value={retention} className="h-2" />
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
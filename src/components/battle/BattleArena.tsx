@@ -1,15 +1,56 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
-import { ArrowLeft, ArrowRight, Trophy, Zap, CheckCircle, XCircle, Brain, Target, Lightbulb, Clock } from 'lucide-react';
-import { getQuestionById, recordQuestionAttempt } from '@/db/crud/questions';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  ArrowLeft,
+  ArrowRight,
+  Trophy,
+  Zap,
+  CheckCircle,
+  XCircle,
+  Brain,
+  Target,
+  Lightbulb,
+  Clock,
+  BookOpen,
+  RefreshCw,
+  ClipboardCheck
+} from 'lucide-react';
+import { getQuestionById, recordQuestionAttempt, type AttemptGrading } from '@/db/crud/questions';
 import { startBattleSession, completeBattleSession, addXpToUser } from '@/db/crud/battle';
+import { getReviewSettings } from '@/db/crud/reviewSettings';
+import { createScoringPolicyResolver } from '@/db/crud/scoringPolicies';
+import {
+  createFlashcardFromQuestion,
+  refreshFlashcardFromQuestion,
+  type QuestionFlashcardResult
+} from '@/db/crud/questionFlashcards';
 import { toast } from '@/hooks/use-toast';
-import type { Question, Room, ConfidenceLevel, ErrorType } from '@/types/battle';
+import RichText from '@/components/RichText';
+import MediaImage from '@/components/media/MediaImage';
+import { QuestionNotesPanel } from '@/components/questions/QuestionNotesPanel';
+import {
+  BLANK_ANSWER,
+  DEFAULT_RUBRIC,
+  FALSE_ANSWER,
+  PASSING_SCORE,
+  RUBRIC_LEVELS,
+  TRUE_ANSWER,
+  answerOutcome,
+  calculateQuestionXp,
+  isAnswerCorrect,
+  rubricScore,
+  summarizeScore,
+  type AnswerOutcome
+} from '@/utils/questionScoring';
+import type { Question, Room, ConfidenceLevel, ErrorType, ScoringPolicy } from '@/types/battle';
 
 interface BattleArenaProps {
   questionIds: string[];
@@ -22,13 +63,25 @@ interface QuestionResult {
   question: Question;
   userAnswer: string;
   isCorrect: boolean;
+  outcome: AnswerOutcome;
+  policy: ScoringPolicy;
+  score?: number; // Nota parcial da autocorreção (discursivas)
   confidence: ConfidenceLevel;
   errorType?: ErrorType;
   xpEarned: number;
+  flashcard?: QuestionFlashcardResult;
 }
 
+// Precisão da batalha: discursivas contam pela nota parcial
+const battleAccuracy = (results: QuestionResult[], total: number) =>
+  total > 0 ? (results.reduce((sum, r) => sum + (r.score ?? (r.isCorrect ? 1 : 0)), 0) / total) * 100 : 0;
+
+// Valor do rádio "Deixar em branco" (o RadioGroup não aceita string vazia como seleção)
+const BLANK_CHOICE = '__blank__';
+
 const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete, onBack }) => {
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [scoringPolicies, setScoringPolicies] = useState<Record<string, ScoringPolicy>>({});
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [userAnswer, setUserAnswer] = useState<string>('');
   const [confidence, setConfidence] = useState<ConfidenceLevel>('certeza');
@@ -36,8 +89,14 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
   const [battleSessionId, setBattleSessionId] = useState<string>('');
   const [results, setResults] = useState<QuestionResult[]>([]);
   const [showResult, setShowResult] = useState(false);
+  // Discursivas: depois de escrever, a resposta é comparada com a modelo e autocorrigida
+  const [selfGrading, setSelfGrading] = useState(false);
+  const [rubricGrades, setRubricGrades] = useState<number[]>([]);
   const [battleComplete, setBattleComplete] = useState(false);
   const [loading, setLoading] = useState(true);
+  // Questões erradas viram flashcards (padrão global, ajustável nesta batalha)
+  const [autoFlashcards, setAutoFlashcards] = useState(() => getReviewSettings().autoFlashcardsFromErrors);
+  const statementRef = useRef<HTMLDivElement>(null);
   
   // Timer states
   const [globalTime, setGlobalTime] = useState(0);
@@ -63,7 +122,7 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
 
   // Timer effects
   useEffect(() => {
-    if (!loading && timersStarted && !showResult && !battleComplete) {
+    if (!loading && timersStarted && !showResult && !selfGrading && !battleComplete) {
       const interval = setInterval(() => {
         setGlobalTime(prev => prev + 1);
         setQuestionTime(prev => prev + 1);
@@ -71,7 +130,7 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
 
       return () => clearInterval(interval);
     }
-  }, [loading, timersStarted, showResult, battleComplete]);
+  }, [loading, timersStarted, showResult, selfGrading, battleComplete]);
 
   // Start timers when battle starts
   useEffect(() => {
@@ -111,6 +170,8 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
       }
 
       setQuestions(loadedQuestions);
+      const resolvePolicy = createScoringPolicyResolver();
+      setScoringPolicies(Object.fromEntries(loadedQuestions.map(q => [q.id, resolvePolicy(q.examiningBoard)])));
       
       // Start battle session
       const sessionId = startBattleSession(room, loadedQuestions.length);
@@ -128,59 +189,123 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
     }
   };
 
-  const handleSubmitAnswer = () => {
-    if (!userAnswer) {
+  const handleSubmitAnswer = async () => {
+    const currentQuestion = questions[currentQuestionIndex];
+    const isTyped = currentQuestion.questionType === 'discursive' || currentQuestion.questionType === 'short_answer';
+
+    if (!userAnswer.trim()) {
       toast({
         title: "Atenção",
-        description: "Selecione uma resposta antes de continuar",
+        description: isTyped ? "Escreva sua resposta antes de continuar" : "Selecione uma resposta antes de continuar",
         variant: "destructive"
       });
       return;
     }
 
+    if (currentQuestion.questionType === 'discursive') {
+      const criteria = currentQuestion.rubric?.length ? currentQuestion.rubric : DEFAULT_RUBRIC;
+      setRubricGrades(criteria.map(() => 0));
+      setSelfGrading(true);
+      return;
+    }
+
+    const answer = userAnswer === BLANK_CHOICE ? BLANK_ANSWER : userAnswer.trim();
+    await saveAnswer(currentQuestion, answer, isAnswerCorrect(currentQuestion, answer));
+  };
+
+  // Nota da autocorreção: média ponderada dos critérios; acerto a partir de PASSING_SCORE
+  const handleConfirmSelfGrade = async () => {
     const currentQuestion = questions[currentQuestionIndex];
-    const isCorrect = userAnswer === currentQuestion.correctAnswer;
+    const score = rubricScore(currentQuestion.rubric ?? [], rubricGrades);
+    setSelfGrading(false);
+    await saveAnswer(currentQuestion, userAnswer.trim(), score >= PASSING_SCORE, { score, rubricGrades });
+  };
+
+  const saveAnswer = async (currentQuestion: Question, answer: string, isCorrect: boolean, grading?: AttemptGrading) => {
+    const outcome = answerOutcome(answer, isCorrect);
+    const policy = scoringPolicies[currentQuestion.id] ?? 'standard';
     
     // Record the attempt
-    recordQuestionAttempt(
-      currentQuestion.id,
-      userAnswer,
-      isCorrect,
-      confidence,
-      battleSessionId,
-      undefined, // timeTaken
-      isCorrect ? undefined : errorType
-    );
+    try {
+      recordQuestionAttempt(
+        currentQuestion.id,
+        answer,
+        isCorrect,
+        confidence,
+        battleSessionId,
+        undefined, // timeTaken
+        outcome === 'wrong' ? errorType : undefined,
+        grading
+      );
+    } catch (error) {
+      console.error('Error saving battle answer:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível salvar a resposta",
+        variant: "destructive"
+      });
+      return;
+    }
 
-    // Calculate XP
-    let xpEarned = 0;
-    if (isCorrect) {
-      const baseXp = 10;
-      const confidenceBonus = confidence === 'certeza' ? 5 : confidence === 'duvida' ? 3 : 1;
-      const difficultyMultiplier = currentQuestion.difficulty === 'hard' ? 2 : 
-                                  currentQuestion.difficulty === 'medium' ? 1.5 : 1;
-      
-      xpEarned = Math.floor(baseXp * difficultyMultiplier + confidenceBonus);
-      
+    // Calculate XP (wrong answers cost XP under net scoring; partial scores earn their share)
+    const xpEarned = calculateQuestionXp(currentQuestion.difficulty, confidence, outcome, policy, grading?.score);
+    if (xpEarned !== 0) {
       // Add XP to user progress immediately
       addXpToUser(xpEarned);
     }
 
+    let flashcard: QuestionFlashcardResult | undefined;
+    if (outcome === 'wrong' && autoFlashcards) {
+      try {
+        flashcard = (await createFlashcardFromQuestion(currentQuestion.id)) ?? undefined;
+      } catch (error) {
+        console.error('Error creating flashcard from question:', error);
+      }
+    }
+
     const result: QuestionResult = {
       question: currentQuestion,
-      userAnswer,
+      userAnswer: answer,
       isCorrect,
+      outcome,
+      policy,
+      score: grading?.score,
       confidence,
-      errorType: isCorrect ? undefined : errorType,
-      xpEarned
+      errorType: outcome === 'wrong' ? errorType : undefined,
+      xpEarned,
+      flashcard
     };
 
     setResults(prev => [...prev, result]);
     setShowResult(true);
   };
 
+  const handleRefreshFlashcard = async (flashcard: QuestionFlashcardResult) => {
+    const refreshed = await refreshFlashcardFromQuestion(flashcard.flashcardId);
+    if (refreshed) {
+      setResults(prev => prev.map(result =>
+        result.flashcard?.flashcardId === flashcard.flashcardId
+          ? { ...result, flashcard: { ...flashcard, status: 'exists' } }
+          : result
+      ));
+      toast({
+        title: "Flashcard atualizado",
+        description: "O card agora reflete a versão atual da questão"
+      });
+    }
+  };
+
+  // Anotações já gravadas pelo painel; aqui só atualizam a questão exibida
+  const handleNotesSaved = (questionId: string, notes: string, highlights: string[]) => {
+    setQuestions(prev => prev.map(question =>
+      question.id === questionId ? { ...question, notes: notes || undefined, highlights } : question
+    ));
+  };
+
   const handleNextQuestion = () => {
     setShowResult(false);
+    setSelfGrading(false);
+    setRubricGrades([]);
     setUserAnswer('');
     setConfidence('certeza');
     setErrorType('nao_definido');
@@ -196,12 +321,13 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
   const finalizeBattle = () => {
     const correctAnswers = results.filter(r => r.isCorrect).length;
     const totalXp = results.reduce((sum, r) => sum + r.xpEarned, 0);
+    const score = summarizeScore(results);
     
     completeBattleSession(battleSessionId, correctAnswers, totalXp);
     setBattleComplete(true);
     
     // Show epic feedback
-    const accuracy = (correctAnswers / questions.length) * 100;
+    const accuracy = battleAccuracy(results, questions.length);
     let message = '';
     
     if (accuracy >= 90) {
@@ -216,7 +342,9 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
     
     toast({
       title: message,
-      description: `${correctAnswers}/${questions.length} acertos - ${totalXp} XP ganhos!`,
+      description: `${correctAnswers}/${questions.length} acertos` +
+        (score.penalized ? ` - nota líquida ${score.netScore}` : '') +
+        ` - ${totalXp} XP ganhos!`,
     });
   };
 
@@ -234,7 +362,8 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
   if (battleComplete) {
     const correctAnswers = results.filter(r => r.isCorrect).length;
     const totalXp = results.reduce((sum, r) => sum + r.xpEarned, 0);
-    const accuracy = (correctAnswers / questions.length) * 100;
+    const accuracy = battleAccuracy(results, questions.length);
+    const score = summarizeScore(results);
 
     return (
       <div className="min-h-screen bg-gradient-to-br from-background to-muted p-4 pb-24">
@@ -268,10 +397,34 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
                 </div>
               </div>
 
+              {(score.penalized || score.blank > 0) && (
+                <div className="grid grid-cols-3 gap-4 p-4 border rounded-lg bg-muted/30">
+                  <div className="text-center">
+                    <p className="text-xl font-bold text-red-600">{score.wrong}</p>
+                    <p className="text-sm text-muted-foreground">Erros</p>
+                  </div>
+                  <div className="text-center">
+                    <p className="text-xl font-bold text-muted-foreground">{score.blank}</p>
+                    <p className="text-sm text-muted-foreground">Em branco</p>
+                  </div>
+                  <div className="text-center">
+                    <p className={`text-xl font-bold ${score.netScore < 0 ? 'text-red-600' : 'text-primary'}`}>{score.netScore}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {score.penalized ? 'Nota líquida (certos − errados)' : 'Nota'}
+                    </p>
+                  </div>
+                </div>
+              )}
+
               <div className="space-y-4">
                 <h3 className="text-lg font-semibold">Resultados Detalhados</h3>
                 {results.map((result, index) => (
-                  <Card key={index} className={`border-l-4 ${result.isCorrect ? 'border-l-green-500' : 'border-l-red-500'}`}>
+                  <Card
+                    key={index}
+                    className={`border-l-4 ${
+                      result.outcome === 'correct' ? 'border-l-green-500' : result.outcome === 'blank' ? 'border-l-muted-foreground' : 'border-l-red-500'
+                    }`}
+                  >
                     <CardContent className="p-4">
                       <div className="flex items-start justify-between">
                         <div className="flex-1">
@@ -281,13 +434,23 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
                           </p>
                         </div>
                         <div className="flex items-center space-x-2">
-                          {result.isCorrect ? (
+                          {result.outcome === 'correct' ? (
                             <CheckCircle className="h-5 w-5 text-green-500" />
+                          ) : result.outcome === 'blank' ? (
+                            <Badge variant="outline">Em branco</Badge>
                           ) : (
                             <XCircle className="h-5 w-5 text-red-500" />
                           )}
-                          {result.xpEarned > 0 && (
-                            <Badge variant="secondary">+{result.xpEarned} XP</Badge>
+                          {result.score !== undefined && (
+                            <Badge variant="outline">Nota {Math.round(result.score * 100)}%</Badge>
+                          )}
+                          {result.xpEarned !== 0 && (
+                            <Badge variant={result.xpEarned > 0 ? 'secondary' : 'destructive'}>
+                              {result.xpEarned > 0 ? '+' : ''}{result.xpEarned} XP
+                            </Badge>
+                          )}
+                          {result.flashcard?.status === 'created' && (
+                            <Badge variant="outline">Flashcard criado</Badge>
                           )}
                         </div>
                       </div>
@@ -308,6 +471,14 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
 
   const currentQuestion = questions[currentQuestionIndex];
   const progress = ((currentQuestionIndex + 1) / questions.length) * 100;
+  const lastResult = results[results.length - 1];
+  const lastFlashcard = lastResult?.flashcard;
+  const isTyped = currentQuestion.questionType === 'discursive' || currentQuestion.questionType === 'short_answer';
+  const isTrueFalse = currentQuestion.questionType === 'true_false' || (!isTyped && !currentQuestion.options?.length);
+  // Deixar em branco só faz diferença quando o erro desconta ou em itens certo/errado
+  const canLeaveBlank = !isTyped &&
+    (scoringPolicies[currentQuestion.id] === 'net' || currentQuestion.questionType === 'true_false');
+  const gradingCriteria = currentQuestion.rubric?.length ? currentQuestion.rubric : DEFAULT_RUBRIC;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background to-muted p-4 pb-24">
@@ -340,9 +511,17 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
             </div>
           </div>
           
-          <div className="flex items-center space-x-2">
-            <Zap className="h-4 w-4 text-yellow-500" />
-            <span className="font-semibold">Batalha Ativa</span>
+          <div className="flex flex-col items-end gap-2">
+            <div className="flex items-center space-x-2">
+              <Zap className="h-4 w-4 text-yellow-500" />
+              <span className="font-semibold">Batalha Ativa</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="auto-flashcards" checked={autoFlashcards} onCheckedChange={setAutoFlashcards} />
+              <Label htmlFor="auto-flashcards" className="text-xs text-muted-foreground cursor-pointer">
+                Erros viram flashcards
+              </Label>
+            </div>
           </div>
         </div>
 
@@ -350,30 +529,47 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
           /* Result Screen */
           <Card>
             <CardHeader className="text-center">
-              <div className={`mx-auto mb-4 p-3 rounded-full ${results[results.length - 1]?.isCorrect ? 'bg-green-100' : 'bg-red-100'}`}>
-                {results[results.length - 1]?.isCorrect ? (
+              <div className={`mx-auto mb-4 p-3 rounded-full ${
+                lastResult?.outcome === 'correct' ? 'bg-green-100' : lastResult?.outcome === 'blank' ? 'bg-muted' : 'bg-red-100'
+              }`}>
+                {lastResult?.outcome === 'correct' ? (
                   <CheckCircle className="h-8 w-8 text-green-600" />
+                ) : lastResult?.outcome === 'blank' ? (
+                  <Target className="h-8 w-8 text-muted-foreground" />
                 ) : (
                   <XCircle className="h-8 w-8 text-red-600" />
                 )}
               </div>
-              <CardTitle className={results[results.length - 1]?.isCorrect ? 'text-green-600' : 'text-red-600'}>
-                {results[results.length - 1]?.isCorrect ? 'Correto!' : 'Incorreto'}
+              <CardTitle className={
+                lastResult?.outcome === 'correct' ? 'text-green-600' : lastResult?.outcome === 'blank' ? 'text-muted-foreground' : 'text-red-600'
+              }>
+                {lastResult?.outcome === 'correct' ? 'Correto!' : lastResult?.outcome === 'blank' ? 'Em branco' : 'Incorreto'}
               </CardTitle>
-              {results[results.length - 1]?.xpEarned > 0 && (
-                <Badge variant="secondary" className="mt-2">
-                  +{results[results.length - 1]?.xpEarned} XP
+              {lastResult?.xpEarned !== 0 && lastResult && (
+                <Badge variant={lastResult.xpEarned > 0 ? 'secondary' : 'destructive'} className="mt-2">
+                  {lastResult.xpEarned > 0 ? '+' : ''}{lastResult.xpEarned} XP
+                  {lastResult.xpEarned < 0 && ' (erro descontado)'}
                 </Badge>
               )}
+              {lastResult?.score !== undefined && (
+                <Badge variant="outline" className="mt-2">Nota {Math.round(lastResult.score * 100)}%</Badge>
+              )}
             </CardHeader>
             <CardContent className="space-y-4">
-              <div>
-                <p className="font-medium mb-2">Resposta correta:</p>
-                <p className="text-primary">{currentQuestion.correctAnswer}</p>
-              </div>
+              {currentQuestion.questionType === 'discursive' ? (
+                <div>
+                  <p className="font-medium mb-2">Resposta modelo:</p>
+                  <RichText text={currentQuestion.correctAnswer} className="prose-sm" />
+                </div>
+              ) : (
+                <div>
+                  <p className="font-medium mb-2">Resposta correta:</p>
+                  <RichText text={currentQuestion.correctAnswer} inline className="text-primary" />
+                </div>
+              )}
               
               {/* Seleção do tipo de erro quando incorreto */}
-              {!results[results.length - 1]?.isCorrect && (
+              {lastResult?.outcome === 'wrong' && (
                 <div>
                   <p className="font-medium mb-3 flex items-center text-red-600">
                     <XCircle className="h-4 w-4 mr-2" />
@@ -395,12 +591,37 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
                 </div>
               )}
               
+              {lastFlashcard && (
+                <div className="flex items-center justify-between gap-2 p-3 border rounded-lg bg-muted/30">
+                  <p className="text-sm flex items-center">
+                    <BookOpen className="h-4 w-4 mr-2" />
+                    {lastFlashcard.status === 'created' && 'Flashcard criado a partir desta questão'}
+                    {lastFlashcard.status === 'exists' && 'Esta questão já tem um flashcard'}
+                    {lastFlashcard.status === 'outdated' && 'A questão mudou desde que o flashcard foi criado'}
+                  </p>
+                  {lastFlashcard.status === 'outdated' && (
+                    <Button variant="outline" size="sm" onClick={() => handleRefreshFlashcard(lastFlashcard)}>
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Atualizar
+                    </Button>
+                  )}
+                </div>
+              )}
+              
               {currentQuestion.explanation && (
                 <div>
                   <p className="font-medium mb-2">Explicação:</p>
-                  <p className="text-muted-foreground">{currentQuestion.explanation}</p>
+                  <RichText text={currentQuestion.explanation} className="prose-sm prose-p:text-muted-foreground" />
                 </div>
               )}
+
+              <QuestionNotesPanel
+                key={currentQuestion.id}
+                questionId={currentQuestion.id}
+                notes={currentQuestion.notes}
+                highlights={currentQuestion.highlights}
+                onSaved={(notes, highlights) => handleNotesSaved(currentQuestion.id, notes, highlights)}
+              />
               
               <Button onClick={handleNextQuestion} className="w-full" size="lg">
                 {currentQuestionIndex + 1 >= questions.length ? (
@@ -417,6 +638,71 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
               </Button>
             </CardContent>
           </Card>
+        ) : selfGrading ? (
+          /* Self-grading Screen (discursive) */
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardCheck className="h-5 w-5 text-study-primary" />
+                Autocorreção
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">{currentQuestion.title}</p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="p-4 border rounded-lg">
+                  <p className="font-medium mb-2">Sua resposta</p>
+                  <p className="text-sm whitespace-pre-wrap">{userAnswer}</p>
+                </div>
+                <div className="p-4 border rounded-lg bg-muted/30">
+                  <p className="font-medium mb-2">Resposta modelo</p>
+                  <RichText text={currentQuestion.correctAnswer} className="prose-sm" />
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <p className="font-medium">Quanto sua resposta atende a cada critério?</p>
+                {gradingCriteria.map((criterion, index) => (
+                  <div key={index} className="p-3 border rounded-lg space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm">{criterion.description}</p>
+                      {gradingCriteria.length > 1 && (
+                        <Badge variant="outline" className="shrink-0">Peso {criterion.weight}</Badge>
+                      )}
+                    </div>
+                    <RadioGroup
+                      value={String(rubricGrades[index] ?? 0)}
+                      onValueChange={(value) => setRubricGrades(prev => prev.map((grade, i) => (i === index ? Number(value) : grade)))}
+                      className="flex flex-wrap gap-4"
+                    >
+                      {RUBRIC_LEVELS.map(level => (
+                        <div key={level.value} className="flex items-center space-x-2">
+                          <RadioGroupItem value={String(level.value)} id={`criterion-${index}-${level.value}`} />
+                          <Label htmlFor={`criterion-${index}-${level.value}`} className="text-sm cursor-pointer">
+                            {level.label}
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between p-3 border rounded-lg bg-muted/30">
+                <span className="text-sm text-muted-foreground">
+                  Nota (acerto a partir de {Math.round(PASSING_SCORE * 100)}%)
+                </span>
+                <span className="text-xl font-bold text-primary">
+                  {Math.round(rubricScore(currentQuestion.rubric ?? [], rubricGrades) * 100)}%
+                </span>
+              </div>
+
+              <Button onClick={handleConfirmSelfGrade} className="w-full" size="lg">
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Confirmar Nota
+              </Button>
+            </CardContent>
+          </Card>
         ) : (
           /* Question Screen */
           <Card>
@@ -463,8 +749,12 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
               <CardTitle className="text-xl">{currentQuestion.title}</CardTitle>
             </CardHeader>
             <CardContent className="space-y-6">
-              <div>
-                <p className="text-lg leading-relaxed">{currentQuestion.content}</p>
+              <div ref={statementRef}>
+                <RichText
+                  text={currentQuestion.content}
+                  highlights={currentQuestion.highlights}
+                  className="prose-lg leading-relaxed"
+                />
                 
                 {/* Imagens da Questão */}
                 {currentQuestion.images && currentQuestion.images.length > 0 && (
@@ -472,7 +762,7 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                       {currentQuestion.images.map((image, index) => (
                         <div key={index} className="relative">
-                          <img
+                          <MediaImage
                             src={image}
                             alt={`Imagem da questão ${index + 1}`}
                             className="w-full max-h-64 object-contain rounded-lg border shadow-sm"
@@ -484,39 +774,88 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
                 )}
               </div>
 
+              {/* Anotações fechadas por padrão para não entregar a resposta antes da hora */}
+              <QuestionNotesPanel
+                key={currentQuestion.id}
+                questionId={currentQuestion.id}
+                notes={currentQuestion.notes}
+                highlights={currentQuestion.highlights}
+                statementRef={statementRef}
+                defaultOpen={false}
+                onSaved={(notes, highlights) => handleNotesSaved(currentQuestion.id, notes, highlights)}
+              />
+
               {/* Options */}
-              {currentQuestion.options && currentQuestion.options.length > 0 ? (
+              {currentQuestion.questionType === 'discursive' ? (
+                <div className="space-y-2">
+                  <Label htmlFor="discursive-answer">Sua resposta</Label>
+                  <Textarea
+                    id="discursive-answer"
+                    value={userAnswer}
+                    onChange={(e) => setUserAnswer(e.target.value)}
+                    placeholder="Escreva sua resposta; depois você a compara com a resposta modelo..."
+                    rows={8}
+                  />
+                </div>
+              ) : currentQuestion.questionType === 'short_answer' ? (
+                <div className="space-y-2">
+                  <Label htmlFor="short-answer">Sua resposta</Label>
+                  <Input
+                    id="short-answer"
+                    value={userAnswer}
+                    onChange={(e) => setUserAnswer(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleSubmitAnswer();
+                    }}
+                    placeholder="Digite a resposta"
+                    autoComplete="off"
+                  />
+                </div>
+              ) : (
                 <RadioGroup value={userAnswer} onValueChange={setUserAnswer}>
                   <div className="space-y-3">
-                    {currentQuestion.options.map((option) => (
-                      <div key={option.id} className="flex items-center space-x-2 p-3 border rounded-lg hover:bg-muted/50">
-                        <RadioGroupItem value={option.content} id={option.id} />
-                        <Label htmlFor={option.id} className="flex-1 cursor-pointer">
-                          <span className="font-medium mr-2">{option.label})</span>
-                          {option.content}
+                    {isTrueFalse ? (
+                      /* True/False Questions */
+                      <>
+                        <div className="flex items-center space-x-2 p-3 border rounded-lg hover:bg-muted/50">
+                          <RadioGroupItem value={TRUE_ANSWER} id="true" />
+                          <Label htmlFor="true" className="flex-1 cursor-pointer">
+                            <span className="font-medium mr-2">C)</span>
+                            Certo
+                          </Label>
+                        </div>
+                        <div className="flex items-center space-x-2 p-3 border rounded-lg hover:bg-muted/50">
+                          <RadioGroupItem value={FALSE_ANSWER} id="false" />
+                          <Label htmlFor="false" className="flex-1 cursor-pointer">
+                            <span className="font-medium mr-2">E)</span>
+                            Errado
+                          </Label>
+                        </div>
+                      </>
+                    ) : (
+                      currentQuestion.options?.map((option) => (
+                        <div key={option.id} className="flex items-center space-x-2 p-3 border rounded-lg hover:bg-muted/50">
+                          <RadioGroupItem value={option.content} id={option.id} />
+                          <Label htmlFor={option.id} className="flex-1 cursor-pointer">
+                            <span className="font-medium mr-2">{option.label})</span>
+                            <RichText text={option.content} inline />
+                          </Label>
+                        </div>
+                      ))
+                    )}
+                    {canLeaveBlank && (
+                      <div className="flex items-center space-x-2 p-3 border border-dashed rounded-lg hover:bg-muted/50">
+                        <RadioGroupItem value={BLANK_CHOICE} id="blank" />
+                        <Label htmlFor="blank" className="flex-1 cursor-pointer">
+                          <p className="font-medium text-sm">Deixar em branco</p>
+                          <p className="text-xs text-muted-foreground">
+                            {scoringPolicies[currentQuestion.id] === 'net'
+                              ? 'Nesta banca cada erro anula um acerto; em branco vale zero'
+                              : 'Não conta como acerto nem como erro'}
+                          </p>
                         </Label>
                       </div>
-                    ))}
-                  </div>
-                </RadioGroup>
-              ) : (
-                /* True/False Questions */
-                <RadioGroup value={userAnswer} onValueChange={setUserAnswer}>
-                  <div className="space-y-3">
-                    <div className="flex items-center space-x-2 p-3 border rounded-lg hover:bg-muted/50">
-                      <RadioGroupItem value="Verdadeiro" id="true" />
-                      <Label htmlFor="true" className="flex-1 cursor-pointer">
-                        <span className="font-medium mr-2">V)</span>
-                        Verdadeiro
-                      </Label>
-                    </div>
-                    <div className="flex items-center space-x-2 p-3 border rounded-lg hover:bg-muted/50">
-                      <RadioGroupItem value="Falso" id="false" />
-                      <Label htmlFor="false" className="flex-1 cursor-pointer">
-                        <span className="font-medium mr-2">F)</span>
-                        Falso
-                      </Label>
-                    </div>
+                    )}
                   </div>
                 </RadioGroup>
               )}
@@ -544,8 +883,17 @@ const BattleArena: React.FC<BattleArenaProps> = ({ questionIds, room, onComplete
               </div>
 
               <Button onClick={handleSubmitAnswer} className="w-full" size="lg">
-                <CheckCircle className="h-4 w-4 mr-2" />
-                Confirmar Resposta
+                {currentQuestion.questionType === 'discursive' ? (
+                  <>
+                    <ClipboardCheck className="h-4 w-4 mr-2" />
+                    Comparar com a Resposta Modelo
+                  </>
+                ) : (
+                  <>
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Confirmar Resposta
+                  </>
+                )}
               </Button>
             </CardContent>
           </Card>
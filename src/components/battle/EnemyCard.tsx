@@ -14,7 +14,8 @@ import {
   Zap,
   Clock,
   Lock,
-  Unlock
+  Unlock,
+  Bug
 } from 'lucide-react';
 import { Enemy } from '@/types/enemy';
 import { cn } from '@/lib/utils';
@@ -77,7 +78,8 @@ const useEnemyStatus = (enemy: Enemy, onStatusUpdate?: (enemyId: string, updates
 
   // Check if enemy should be unlocked
   const checkAndUpdateStatus = () => {
-    if (enemy.isBlocked && enemy.nextReviewDate) {
+    // Sanguessugas suspensas continuam bloqueadas até o usuário reativá-las
+    if (enemy.isBlocked && enemy.nextReviewDate && !enemy.isSuspended) {
       const now = new Date();
       if (enemy.nextReviewDate <= now) {
         const updatedEnemy = { ...enemy, isBlocked: false };
@@ -97,7 +99,7 @@ const useEnemyStatus = (enemy: Enemy, onStatusUpdate?: (enemyId: string, updates
     const interval = setInterval(checkAndUpdateStatus, 60000);
 
     return () => clearInterval(interval);
-  }, [enemy.isBlocked, enemy.nextReviewDate, enemy.id, onStatusUpdate]);
+  }, [enemy.isBlocked, enemy.isSuspended, enemy.nextReviewDate, enemy.id, onStatusUpdate]);
 
   // Update local state when enemy prop changes
   useEffect(() => {
@@ -134,6 +136,10 @@ const formatNextReviewDate = (date?: Date) => {
 };
 
 const getStatusMessage = (enemy: Enemy) => {
+  if (enemy.isSuspended) {
+    return 'Sanguessuga suspensa. Revise a teoria do tópico e reative-o em Flashcards > Sanguessugas.';
+  }
+  
   // Check if should be unlocked but still blocked (edge case)
   if (enemy.isBlocked && enemy.nextReviewDate) {
     const today = new Date();
@@ -180,7 +186,7 @@ export const EnemyCard: React.FC<EnemyCardProps> = ({ enemy, onBattle, onStatusU
   const RoomIcon = roomConfig.icon;
 
   // Check if enemy is truly available (not blocked and either no review date or review date passed)
-  const isAvailable = !currentEnemy.isBlocked && (
+  const isAvailable = !currentEnemy.isBlocked && !currentEnemy.isSuspended && (
     !currentEnemy.nextReviewDate || 
     currentEnemy.nextReviewDate <= new Date()
   );
@@ -214,6 +220,12 @@ export const EnemyCard: React.FC<EnemyCardProps> = ({ enemy, onBattle, onStatusU
                   <RoomIcon className="h-3 w-3 mr-1" />
                   {roomConfig.name}
                 </Badge>
+                {currentEnemy.isLeech && (
+                  <Badge variant="destructive" className="text-xs">
+                    <Bug className="h-3 w-3 mr-1" />
+                    Sanguessuga
+                  </Badge>
+                )}
               </CardTitle>
               <CardDescription className="text-sm">
                 {currentEnemy.subjectName}
@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from 'react';
+import { ImageOff } from 'lucide-react';
+import { getMediaUrl } from '@/db/media/mediaStore';
+
+interface MediaImageProps {
+  src: string;
+  alt: string;
+  className?: string;
+}
+
+/**
+ * Exibe uma imagem do media store (media:<hash>), um data URL antigo ou um URL externo
+ */
+const MediaImage: React.FC<MediaImageProps> = ({ src, alt, className }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMissing(false);
+
+    getMediaUrl(src)
+      .then(resolved => {
+        if (cancelled) return;
+        setUrl(resolved);
+        setMissing(!resolved);
+      })
+      .catch(() => !cancelled && setMissing(true));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  if (missing) {
+    return (
+      <div className={`flex items-center justify-center bg-muted text-muted-foreground ${className || ''}`} title="Imagem não encontrada">
+        <ImageOff className="h-6 w-6" />
+      </div>
+    );
+  }
+
+  return url ? <img src={url} alt={alt} className={className} /> : <div className={`bg-muted animate-pulse ${className || ''}`} />;
+};
+
+export default MediaImage;
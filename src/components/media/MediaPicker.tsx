@@ -0,0 +1,118 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { storeMedia } from '@/db/media/mediaStore';
+import MediaImage from './MediaImage';
+
+interface MediaPickerProps {
+  images: string[];
+  onChange: (images: string[]) => void;
+  label?: string;
+}
+
+/**
+ * Envio de imagens (arquivo ou colar da área de transferência) para o media store.
+ * As imagens são redimensionadas e deduplicadas; o formulário guarda só as referências.
+ */
+const MediaPicker: React.FC<MediaPickerProps> = ({ images, onChange, label = 'Adicionar Imagens' }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isStoring, setIsStoring] = useState(false);
+
+  // Lista atual também para envios que terminam depois de um novo render
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
+
+  const addFiles = useCallback(async (files: File[]) => {
+    const imageFiles = files.filter(file => file.type.startsWith('image/'));
+    if (imageFiles.length === 0) return;
+
+    setIsStoring(true);
+    try {
+      const refs: string[] = [];
+      for (const file of imageFiles) {
+        refs.push(await storeMedia(file));
+      }
+      // Mesma imagem duas vezes vira uma só referência
+      onChange(Array.from(new Set([...imagesRef.current, ...refs])));
+    } catch (error) {
+      console.error('Error storing images:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível salvar a imagem",
+        variant: "destructive"
+      });
+    } finally {
+      setIsStoring(false);
+    }
+  }, [onChange]);
+
+  // Ctrl+V com imagem em qualquer campo do formulário aberto
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const files = Array.from(event.clipboardData?.files || []).filter(file => file.type.startsWith('image/'));
+      if (files.length === 0) return;
+      event.preventDefault();
+      addFiles(files);
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [addFiles]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <Button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          variant="outline"
+          className="gap-2"
+          disabled={isStoring}
+        >
+          <Upload className="h-4 w-4" />
+          {isStoring ? 'Processando...' : label}
+        </Button>
+        <span className="text-xs text-muted-foreground">ou cole (Ctrl+V) uma imagem</span>
+      </div>
+
+      {images.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {images.map((image, index) => (
+            <div key={image} className="relative group">
+              <MediaImage
+                src={image}
+                alt={`Preview ${index + 1}`}
+                className="w-full h-24 object-cover rounded-md border"
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="destructive"
+                className="absolute top-1 right-1 h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                onClick={() => onChange(images.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaPicker;
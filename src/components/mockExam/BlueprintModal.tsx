@@ -0,0 +1,376 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  MOCK_EXAM_SCORING_LABELS,
+  countBlueprintQuestions,
+  createMockExamBlueprint,
+  difficultyTargets,
+  updateMockExamBlueprint,
+  type DifficultyMix,
+  type MockExamBlueprint,
+  type MockExamBlueprintInput,
+  type MockExamScoring,
+  type MockExamSection
+} from '@/db/crud/mockExams';
+import { getQuestionFacets } from '@/db/crud/questionSearch';
+import type { Difficulty } from '@/types/battle';
+import type { StudySubject } from '@/types/study';
+
+interface BlueprintModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  blueprint: MockExamBlueprint | null; // null = novo simulado
+  subjects: StudySubject[];
+  onSaved: () => void;
+}
+
+const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: 'Fácil',
+  medium: 'Médio',
+  hard: 'Difícil'
+};
+
+const DEFAULT_MIX: DifficultyMix = { easy: 30, medium: 50, hard: 20 };
+
+// Valor do Select para "qualquer" (o Select não aceita string vazia)
+const ANY = '__any__';
+
+const EMPTY_BLUEPRINT: MockExamBlueprintInput = {
+  name: '',
+  sections: [],
+  timeLimitMinutes: 60,
+  scoring: 'board',
+  cutoffScore: 60
+};
+
+const parseOptionalYear = (value: string): number | undefined =>
+  value === '' ? undefined : parseInt(value, 10) || undefined;
+
+const BlueprintModal: React.FC<BlueprintModalProps> = ({ open, onOpenChange, blueprint, subjects, onSaved }) => {
+  const [form, setForm] = useState<MockExamBlueprintInput>(EMPTY_BLUEPRINT);
+
+  useEffect(() => {
+    if (open) {
+      setForm(blueprint ? {
+        name: blueprint.name,
+        sections: blueprint.sections,
+        examiningBoard: blueprint.examiningBoard,
+        yearFrom: blueprint.yearFrom,
+        yearTo: blueprint.yearTo,
+        difficultyMix: blueprint.difficultyMix,
+        timeLimitMinutes: blueprint.timeLimitMinutes,
+        scoring: blueprint.scoring,
+        cutoffScore: blueprint.cutoffScore
+      } : EMPTY_BLUEPRINT);
+    }
+  }, [open, blueprint]);
+
+  const examiningBoards = useMemo(() => (open ? getQuestionFacets().examiningBoards : []), [open]);
+
+  const availableCounts = useMemo(
+    () => (open ? countBlueprintQuestions(form) : []),
+    [open, form]
+  );
+
+  const totalQuestions = form.sections.reduce((sum, section) => sum + section.questionCount, 0);
+  const targets = difficultyTargets(totalQuestions, form.difficultyMix);
+
+  const updateSection = (index: number, changes: Partial<MockExamSection>) => {
+    setForm(prev => ({
+      ...prev,
+      sections: prev.sections.map((section, i) => (i === index ? { ...section, ...changes } : section))
+    }));
+  };
+
+  const addSection = () => {
+    setForm(prev => ({
+      ...prev,
+      sections: [...prev.sections, { subjectId: subjects[0]?.id ?? '', questionCount: 10 }]
+    }));
+  };
+
+  const removeSection = (index: number) => {
+    setForm(prev => ({ ...prev, sections: prev.sections.filter((_, i) => i !== index) }));
+  };
+
+  const setMix = (difficulty: Difficulty, value: string) => {
+    setForm(prev => ({
+      ...prev,
+      difficultyMix: { ...(prev.difficultyMix ?? DEFAULT_MIX), [difficulty]: Math.max(0, parseInt(value, 10) || 0) }
+    }));
+  };
+
+  const handleSave = () => {
+    const error = !form.name.trim()
+      ? 'Dê um nome ao simulado'
+      : form.sections.length === 0 || totalQuestions === 0
+        ? 'Adicione ao menos uma matéria com questões'
+        : form.sections.some(section => !section.subjectId)
+          ? 'Escolha a matéria de cada linha'
+          : form.yearFrom && form.yearTo && form.yearFrom > form.yearTo
+            ? 'O ano inicial deve ser menor ou igual ao final'
+            : null;
+    if (error) {
+      toast({
+        title: "Erro",
+        description: error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const input: MockExamBlueprintInput = {
+        ...form,
+        name: form.name.trim(),
+        sections: form.sections.filter(section => section.questionCount > 0),
+        timeLimitMinutes: Math.max(1, form.timeLimitMinutes),
+        cutoffScore: Math.min(100, Math.max(0, form.cutoffScore))
+      };
+      if (blueprint) {
+        updateMockExamBlueprint(blueprint.id, input);
+      } else {
+        createMockExamBlueprint(input);
+      }
+      toast({
+        title: "Sucesso",
+        description: blueprint ? "Simulado atualizado" : "Simulado criado"
+      });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving mock exam blueprint:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao salvar simulado",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{blueprint ? 'Editar Simulado' : 'Novo Simulado'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="blueprint-name">Nome</Label>
+            <Input
+              id="blueprint-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Ex.: Simulado TRF - Analista Judiciário"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Questões por matéria</Label>
+              <Button type="button" variant="outline" size="sm" onClick={addSection} disabled={subjects.length === 0}>
+                <Plus className="h-4 w-4 mr-2" />
+                Matéria
+              </Button>
+            </div>
+            {form.sections.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Adicione as matérias da prova e quantas questões cada uma terá.
+              </p>
+            ) : (
+              form.sections.map((section, index) => {
+                const topics = subjects.find(subject => subject.id === section.subjectId)?.topics ?? [];
+                const available = availableCounts[index] ?? 0;
+                return (
+                  <div key={index} className="flex flex-wrap items-center gap-2">
+                    <Select
+                      value={section.subjectId || undefined}
+                      onValueChange={(value) => updateSection(index, { subjectId: value, topicId: undefined })}
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue placeholder="Matéria" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {subjects.map(subject => (
+                          <SelectItem key={subject.id} value={subject.id}>{subject.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={section.topicId ?? ANY}
+                      onValueChange={(value) => updateSection(index, { topicId: value === ANY ? undefined : value })}
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Todos os tópicos</SelectItem>
+                        {topics.map(topic => (
+                          <SelectItem key={topic.id} value={topic.id}>{topic.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={section.questionCount}
+                      onChange={(e) => updateSection(index, { questionCount: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                      className="w-20"
+                      aria-label="Quantidade de questões"
+                    />
+                    <Badge variant={available < section.questionCount ? 'destructive' : 'secondary'}>
+                      {available} disponíveis
+                    </Badge>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeSection(index)}
+                      className="h-8 w-8 p-0 text-study-danger hover:text-study-danger"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })
+            )}
+            {totalQuestions > 0 && (
+              <p className="text-sm text-muted-foreground">{totalQuestions} questões no total</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label>Banca</Label>
+              <Select
+                value={form.examiningBoard ?? ANY}
+                onValueChange={(value) => setForm({ ...form, examiningBoard: value === ANY ? undefined : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Todas as bancas</SelectItem>
+                  {examiningBoards.map(board => (
+                    <SelectItem key={board.value} value={board.value}>{board.value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="blueprint-year-from">Ano de</Label>
+              <Input
+                id="blueprint-year-from"
+                type="number"
+                value={form.yearFrom ?? ''}
+                onChange={(e) => setForm({ ...form, yearFrom: parseOptionalYear(e.target.value) })}
+                placeholder="Qualquer"
+              />
+            </div>
+            <div>
+              <Label htmlFor="blueprint-year-to">Ano até</Label>
+              <Input
+                id="blueprint-year-to"
+                type="number"
+                value={form.yearTo ?? ''}
+                onChange={(e) => setForm({ ...form, yearTo: parseOptionalYear(e.target.value) })}
+                placeholder="Qualquer"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="blueprint-mix">Mistura de dificuldade</Label>
+                <p className="text-xs text-muted-foreground">
+                  Desligado: questões de qualquer dificuldade.
+                </p>
+              </div>
+              <Switch
+                id="blueprint-mix"
+                checked={!!form.difficultyMix}
+                onCheckedChange={(checked) => setForm({ ...form, difficultyMix: checked ? DEFAULT_MIX : undefined })}
+              />
+            </div>
+            {form.difficultyMix && (
+              <div className="grid grid-cols-3 gap-4">
+                {(Object.keys(DIFFICULTY_LABELS) as Difficulty[]).map(difficulty => (
+                  <div key={difficulty}>
+                    <Label htmlFor={`blueprint-mix-${difficulty}`}>{DIFFICULTY_LABELS[difficulty]} (%)</Label>
+                    <Input
+                      id={`blueprint-mix-${difficulty}`}
+                      type="number"
+                      min={0}
+                      value={form.difficultyMix?.[difficulty] ?? 0}
+                      onChange={(e) => setMix(difficulty, e.target.value)}
+                    />
+                    {targets && (
+                      <p className="text-xs text-muted-foreground mt-1">≈ {targets[difficulty]} questões</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="blueprint-time">Tempo (minutos)</Label>
+              <Input
+                id="blueprint-time"
+                type="number"
+                min={1}
+                value={form.timeLimitMinutes}
+                onChange={(e) => setForm({ ...form, timeLimitMinutes: parseInt(e.target.value, 10) || 1 })}
+              />
+            </div>
+            <div>
+              <Label>Pontuação</Label>
+              <Select value={form.scoring} onValueChange={(value: MockExamScoring) => setForm({ ...form, scoring: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MOCK_EXAM_SCORING_LABELS) as MockExamScoring[]).map(scoring => (
+                    <SelectItem key={scoring} value={scoring}>{MOCK_EXAM_SCORING_LABELS[scoring]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="blueprint-cutoff">Nota de corte (%)</Label>
+              <Input
+                id="blueprint-cutoff"
+                type="number"
+                min={0}
+                max={100}
+                value={form.cutoffScore}
+                onChange={(e) => setForm({ ...form, cutoffScore: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            A nota é o percentual da nota máxima (uma questão vale um ponto). Questões discursivas não entram em simulados.
+          </p>
+
+          <Button onClick={handleSave} className="w-full">
+            {blueprint ? 'Atualizar Simulado' : 'Criar Simulado'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BlueprintModal;
@@ -0,0 +1,209 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, CheckCircle, MinusCircle, RotateCcw, Shuffle, XCircle } from 'lucide-react';
+import RichText from '@/components/RichText';
+import { MOCK_EXAM_SCORING_LABELS, getSubjectScores, type MockExamResult } from '@/db/crud/mockExams';
+
+interface MockExamReportProps {
+  result: MockExamResult;
+  previous?: MockExamResult; // Tentativa anterior do mesmo simulado, para comparar
+  onRetakeSameQuestions: () => void;
+  onRetakeNewDraw?: () => void; // Ausente quando o gabarito foi excluído
+  onBack: () => void;
+}
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h${mins.toString().padStart(2, '0')}` : `${mins} min`;
+};
+
+const formatPercent = (value: number) => `${value.toFixed(1).replace('.', ',')}%`;
+
+// Diferença em pontos percentuais para a tentativa anterior
+const Delta: React.FC<{ value?: number }> = ({ value }) => {
+  if (value === undefined || Math.abs(value) < 0.05) return null;
+  return (
+    <span className={`text-xs font-medium ml-1 ${value > 0 ? 'text-green-600' : 'text-red-600'}`}>
+      {value > 0 ? '+' : '−'}{Math.abs(value).toFixed(1).replace('.', ',')}
+    </span>
+  );
+};
+
+const OUTCOME_ICONS = {
+  correct: <CheckCircle className="h-4 w-4 text-green-600 shrink-0" />,
+  wrong: <XCircle className="h-4 w-4 text-red-600 shrink-0" />,
+  blank: <MinusCircle className="h-4 w-4 text-muted-foreground shrink-0" />
+};
+
+const MockExamReport: React.FC<MockExamReportProps> = ({
+  result,
+  previous,
+  onRetakeSameQuestions,
+  onRetakeNewDraw,
+  onBack
+}) => {
+  const subjectScores = getSubjectScores(result.answers);
+  const previousBySubject = new Map(
+    (previous ? getSubjectScores(previous.answers) : []).map(score => [score.subjectName, score.scorePercent])
+  );
+  const gap = result.scorePercent - result.cutoffScore;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted p-4 pb-24">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <Button variant="ghost" onClick={onBack}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onRetakeSameQuestions}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Refazer estas questões
+            </Button>
+            {onRetakeNewDraw && (
+              <Button onClick={onRetakeNewDraw}>
+                <Shuffle className="h-4 w-4 mr-2" />
+                Novo sorteio
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle className="text-2xl">{result.blueprintName}</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  {new Date(result.finishedAt).toLocaleString('pt-BR')} · {formatDuration(result.timeSpent)} de {formatDuration(result.timeLimitMinutes * 60)} · {MOCK_EXAM_SCORING_LABELS[result.scoring]}
+                </p>
+              </div>
+              <Badge variant={result.passed ? 'default' : 'destructive'} className="shrink-0">
+                {result.passed ? 'Acima da nota de corte' : 'Abaixo da nota de corte'}
+              </Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <div className="flex items-end justify-between">
+                <p className="text-4xl font-bold text-primary">
+                  {formatPercent(result.scorePercent)}
+                  <Delta value={previous ? result.scorePercent - previous.scorePercent : undefined} />
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Corte: {formatPercent(result.cutoffScore)} ({gap >= 0 ? '+' : '−'}{Math.abs(gap).toFixed(1).replace('.', ',')} p.p.)
+                </p>
+              </div>
+              <div className="relative">
+                <Progress value={Math.max(0, result.scorePercent)} className="h-3" />
+                <div
+                  className="absolute top-[-4px] h-5 w-0.5 bg-foreground"
+                  style={{ left: `${Math.min(100, result.cutoffScore)}%` }}
+                  title="Nota de corte"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+              <div>
+                <p className="text-2xl font-bold text-green-600">{result.correct}</p>
+                <p className="text-sm text-muted-foreground">Certas</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-red-600">{result.wrong}</p>
+                <p className="text-sm text-muted-foreground">Erradas</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-muted-foreground">{result.blank}</p>
+                <p className="text-sm text-muted-foreground">Em branco</p>
+              </div>
+              <div>
+                <p className={`text-2xl font-bold ${result.score < 0 ? 'text-red-600' : 'text-primary'}`}>
+                  {result.score}/{result.questionCount}
+                </p>
+                <p className="text-sm text-muted-foreground">Pontos</p>
+              </div>
+            </div>
+            {previous && (
+              <p className="text-xs text-muted-foreground">
+                Comparado com a tentativa de {new Date(previous.finishedAt).toLocaleDateString('pt-BR')} ({formatPercent(previous.scorePercent)}).
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Desempenho por matéria</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Matéria</TableHead>
+                  <TableHead className="text-center">Certas</TableHead>
+                  <TableHead className="text-center">Erradas</TableHead>
+                  <TableHead className="text-center">Em branco</TableHead>
+                  <TableHead className="text-right">Nota</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {subjectScores.map(score => {
+                  const previousPercent = previousBySubject.get(score.subjectName);
+                  return (
+                    <TableRow key={score.subjectName}>
+                      <TableCell className="font-medium">
+                        {score.subjectName}
+                        <span className="text-xs text-muted-foreground ml-2">{score.total} questões</span>
+                      </TableCell>
+                      <TableCell className="text-center">{score.correct}</TableCell>
+                      <TableCell className="text-center">{score.wrong}</TableCell>
+                      <TableCell className="text-center">{score.blank}</TableCell>
+                      <TableCell className={`text-right font-medium ${score.scorePercent < result.cutoffScore ? 'text-red-600' : ''}`}>
+                        {formatPercent(score.scorePercent)}
+                        <Delta value={previousPercent !== undefined ? score.scorePercent - previousPercent : undefined} />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Gabarito</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {result.answers.map((answer, index) => (
+              <div key={answer.questionId} className="flex items-start gap-3 p-3 border rounded-lg">
+                {OUTCOME_ICONS[answer.outcome]}
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium text-sm">
+                    {index + 1}. {answer.questionTitle}
+                    <span className="text-xs text-muted-foreground ml-2">{answer.subjectName}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Sua resposta: {answer.answer ? <RichText text={answer.answer} inline /> : 'em branco'}
+                    {!answer.isCorrect && (
+                      <> · Gabarito: <RichText text={answer.correctAnswer} inline /></>
+                    )}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default MockExamReport;
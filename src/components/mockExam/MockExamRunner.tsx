@@ -0,0 +1,344 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ArrowLeft, ArrowRight, Clock, Flag, Loader2, Send, X } from 'lucide-react';
+import { getQuestionById } from '@/db/crud/questions';
+import { saveMockExamResult, type MockExamConfig, type MockExamResult } from '@/db/crud/mockExams';
+import { toast } from '@/hooks/use-toast';
+import RichText from '@/components/RichText';
+import MediaImage from '@/components/media/MediaImage';
+import { FALSE_ANSWER, TRUE_ANSWER } from '@/utils/questionScoring';
+import type { Question } from '@/types/battle';
+
+interface MockExamRunnerProps {
+  config: MockExamConfig;
+  questionIds: string[];
+  onFinish: (result: MockExamResult) => void;
+  onBack: () => void;
+}
+
+// Avisa quando faltar este tempo (segundos)
+const TIME_WARNING = 5 * 60;
+
+const formatTime = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const clock = `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${clock}` : clock;
+};
+
+// Prova sem correção até o fim: as respostas podem ser trocadas à vontade até entregar
+const MockExamRunner: React.FC<MockExamRunnerProps> = ({ config, questionIds, onFinish, onBack }) => {
+  const [questions] = useState<Question[]>(() => questionIds
+    .map(id => getQuestionById(id))
+    .filter((q): q is Question => q !== null));
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [flagged, setFlagged] = useState<string[]>([]);
+  // Milissegundos já gastos em cada questão, sem contar a visita em andamento
+  const [timeTaken, setTimeTaken] = useState<Record<string, number>>({});
+  const [now, setNow] = useState(() => Date.now());
+  const [finishing, setFinishing] = useState(false);
+  const startedAt = useRef(new Date());
+  const questionOpenedAt = useRef(Date.now());
+  const warned = useRef(false);
+
+  // O tempo vem do relógio: abas em segundo plano atrasam os timers, mas não a prova
+  const elapsed = Math.floor((now - startedAt.current.getTime()) / 1000);
+  const timeLimit = config.timeLimitMinutes * 60;
+  const remaining = Math.max(0, timeLimit - elapsed);
+  const currentQuestion = questions[currentIndex];
+
+  useEffect(() => {
+    if (questions.length === 0) {
+      toast({
+        title: "Erro",
+        description: "Nenhuma questão encontrada para o simulado",
+        variant: "destructive"
+      });
+      onBack();
+    }
+  }, [questions.length, onBack]);
+
+  // O intervalo só redesenha o cronômetro
+  useEffect(() => {
+    if (questions.length === 0 || finishing) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+
+    return () => clearInterval(interval);
+  }, [questions.length, finishing]);
+
+  // Tempo por questão com a visita em andamento, em segundos
+  const currentTimeTaken = useCallback((): Record<string, number> => {
+    const questionId = questions[currentIndex]?.id;
+    const total = questionId
+      ? { ...timeTaken, [questionId]: (timeTaken[questionId] || 0) + Date.now() - questionOpenedAt.current }
+      : timeTaken;
+    return Object.fromEntries(Object.entries(total).map(([id, ms]) => [id, Math.round(ms / 1000)]));
+  }, [questions, currentIndex, timeTaken]);
+
+  const goToQuestion = (index: number) => {
+    const questionId = questions[currentIndex]?.id;
+    if (questionId) {
+      const spent = Date.now() - questionOpenedAt.current;
+      setTimeTaken(prev => ({ ...prev, [questionId]: (prev[questionId] || 0) + spent }));
+    }
+    questionOpenedAt.current = Date.now();
+    setCurrentIndex(index);
+  };
+
+  const finishExam = useCallback(() => {
+    if (finishing) return;
+    setFinishing(true);
+    try {
+      const result = saveMockExamResult({
+        config,
+        questions,
+        answers,
+        flagged,
+        timeTaken: currentTimeTaken(),
+        startedAt: startedAt.current,
+        timeSpent: Math.min(Math.floor((Date.now() - startedAt.current.getTime()) / 1000), timeLimit)
+      });
+      onFinish(result);
+    } catch (error) {
+      console.error('Error saving mock exam result:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao salvar o resultado do simulado",
+        variant: "destructive"
+      });
+      setFinishing(false);
+    }
+  }, [finishing, config, questions, answers, flagged, currentTimeTaken, timeLimit, onFinish]);
+
+  useEffect(() => {
+    if (questions.length === 0 || finishing) return;
+    if (remaining === 0) {
+      toast({
+        title: "Tempo esgotado",
+        description: "A prova foi entregue com as respostas marcadas até agora"
+      });
+      finishExam();
+    } else if (remaining <= TIME_WARNING && !warned.current) {
+      warned.current = true;
+      toast({
+        title: "Reta final",
+        description: `Faltam ${Math.ceil(remaining / 60)} minutos para o fim da prova`
+      });
+    }
+  }, [remaining, questions.length, finishing, finishExam]);
+
+  const setAnswer = (value: string) => {
+    if (!currentQuestion) return;
+    setAnswers(prev => ({ ...prev, [currentQuestion.id]: value }));
+  };
+
+  const toggleFlag = () => {
+    if (!currentQuestion) return;
+    setFlagged(prev => prev.includes(currentQuestion.id)
+      ? prev.filter(id => id !== currentQuestion.id)
+      : [...prev, currentQuestion.id]);
+  };
+
+  const answeredCount = questions.filter(q => answers[q.id]?.trim()).length;
+
+  const handleFinishClick = () => {
+    const unanswered = questions.length - answeredCount;
+    const message = unanswered > 0
+      ? `Entregar a prova com ${unanswered} questões em branco?`
+      : 'Entregar a prova?';
+    if (confirm(message)) finishExam();
+  };
+
+  const handleExit = () => {
+    if (confirm('Sair do simulado? As respostas desta prova serão descartadas.')) onBack();
+  };
+
+  if (!currentQuestion || finishing) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background to-muted p-4 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
+          <p className="text-muted-foreground">{finishing ? 'Corrigindo a prova...' : 'Montando o simulado...'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isTyped = currentQuestion.questionType === 'short_answer';
+  const isTrueFalse = currentQuestion.questionType === 'true_false' || (!isTyped && !currentQuestion.options?.length);
+  const currentAnswer = answers[currentQuestion.id] ?? '';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted p-4 pb-24">
+      <div className="max-w-4xl mx-auto space-y-4">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <Button variant="ghost" onClick={handleExit}>
+            <X className="h-4 w-4 mr-2" />
+            Sair
+          </Button>
+          <div className="text-center min-w-0">
+            <p className="font-semibold truncate">{config.name}</p>
+            <p className="text-xs text-muted-foreground">
+              {answeredCount} de {questions.length} respondidas
+            </p>
+          </div>
+          <Badge
+            variant={remaining <= TIME_WARNING ? 'destructive' : 'outline'}
+            className="font-mono text-sm px-3 py-1"
+          >
+            <Clock className="h-4 w-4 mr-2" />
+            {formatTime(remaining)}
+          </Badge>
+        </div>
+        <Progress value={(elapsed / timeLimit) * 100} className="h-1" />
+
+        {/* Question map */}
+        <div className="flex flex-wrap gap-1">
+          {questions.map((question, index) => (
+            <Button
+              key={question.id}
+              variant={index === currentIndex ? 'default' : answers[question.id]?.trim() ? 'secondary' : 'outline'}
+              size="sm"
+              className={`h-8 w-9 p-0 text-xs ${flagged.includes(question.id) ? 'ring-2 ring-yellow-500' : ''}`}
+              onClick={() => goToQuestion(index)}
+            >
+              {index + 1}
+            </Button>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline">Questão {currentIndex + 1}</Badge>
+                <Badge variant="secondary">{currentQuestion.subjectName}</Badge>
+                {currentQuestion.examiningBoard && (
+                  <Badge variant="outline" className="text-xs">Banca: {currentQuestion.examiningBoard}</Badge>
+                )}
+                {currentQuestion.examYear && (
+                  <Badge variant="outline" className="text-xs">Ano: {currentQuestion.examYear}</Badge>
+                )}
+              </div>
+              <Button
+                variant={flagged.includes(currentQuestion.id) ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={toggleFlag}
+              >
+                <Flag className="h-4 w-4 mr-2" />
+                {flagged.includes(currentQuestion.id) ? 'Marcada' : 'Revisar depois'}
+              </Button>
+            </div>
+            <CardTitle className="text-xl">{currentQuestion.title}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div>
+              <RichText
+                text={currentQuestion.content}
+                highlights={currentQuestion.highlights}
+                className="prose-lg leading-relaxed"
+              />
+              {currentQuestion.images && currentQuestion.images.length > 0 && (
+                <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {currentQuestion.images.map((image, index) => (
+                    <MediaImage
+                      key={index}
+                      src={image}
+                      alt={`Imagem da questão ${index + 1}`}
+                      className="w-full max-h-64 object-contain rounded-lg border shadow-sm"
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {isTyped ? (
+              <div className="space-y-2">
+                <Label htmlFor="mock-short-answer">Sua resposta</Label>
+                <Input
+                  id="mock-short-answer"
+                  value={currentAnswer}
+                  onChange={(e) => setAnswer(e.target.value)}
+                  placeholder="Digite a resposta"
+                  autoComplete="off"
+                />
+              </div>
+            ) : (
+              <RadioGroup value={currentAnswer} onValueChange={setAnswer}>
+                <div className="space-y-3">
+                  {isTrueFalse ? (
+                    [{ value: TRUE_ANSWER, label: 'C' }, { value: FALSE_ANSWER, label: 'E' }].map(choice => (
+                      <div key={choice.value} className="flex items-center space-x-2 p-3 border rounded-lg hover:bg-muted/50">
+                        <RadioGroupItem value={choice.value} id={`mock-${choice.value}`} />
+                        <Label htmlFor={`mock-${choice.value}`} className="flex-1 cursor-pointer">
+                          <span className="font-medium mr-2">{choice.label})</span>
+                          {choice.value}
+                        </Label>
+                      </div>
+                    ))
+                  ) : (
+                    currentQuestion.options?.map(option => (
+                      <div key={option.id} className="flex items-center space-x-2 p-3 border rounded-lg hover:bg-muted/50">
+                        <RadioGroupItem value={option.content} id={`mock-${option.id}`} />
+                        <Label htmlFor={`mock-${option.id}`} className="flex-1 cursor-pointer">
+                          <span className="font-medium mr-2">{option.label})</span>
+                          <RichText text={option.content} inline />
+                        </Label>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </RadioGroup>
+            )}
+
+            {currentAnswer && (
+              <Button variant="link" size="sm" className="px-0 text-muted-foreground" onClick={() => setAnswer('')}>
+                Limpar resposta (deixar em branco)
+              </Button>
+            )}
+
+            <div className="flex items-center justify-between gap-2">
+              <Button
+                variant="outline"
+                onClick={() => goToQuestion(currentIndex - 1)}
+                disabled={currentIndex === 0}
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Anterior
+              </Button>
+              {currentIndex < questions.length - 1 ? (
+                <Button onClick={() => goToQuestion(currentIndex + 1)}>
+                  Próxima
+                  <ArrowRight className="h-4 w-4 ml-2" />
+                </Button>
+              ) : (
+                <Button onClick={handleFinishClick}>
+                  <Send className="h-4 w-4 mr-2" />
+                  Entregar Prova
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {currentIndex < questions.length - 1 && (
+          <Button variant="outline" className="w-full" onClick={handleFinishClick}>
+            <Send className="h-4 w-4 mr-2" />
+            Entregar Prova
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MockExamRunner;
@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Plus, X, Save, Upload, Trash2 } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Plus, X, Save, Eye, EyeOff, Pencil } from 'lucide-react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,11 +8,23 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
-import { Subject, Topic, QuestionFormData } from '@/types/questions';
-import { createQuestion } from '@/db/crud/questions';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Subject, Topic, Question, QuestionFormData } from '@/types/questions';
+import { createQuestion, getQuestionById, updateQuestion } from '@/db/crud/questions';
 import { useStudyContext } from '@/contexts/StudyContext';
 import { toast } from '@/hooks/use-toast';
-import type { Difficulty } from '@/types/battle';
+import RichText from '@/components/RichText';
+import MediaPicker from '@/components/media/MediaPicker';
+import { QuestionRevisionHistory } from './QuestionRevisionHistory';
+import { RubricEditor } from './RubricEditor';
+import {
+  ANSWER_SEPARATOR,
+  FALSE_ANSWER,
+  TRUE_ANSWER,
+  normalizeTrueFalseAnswer,
+  parseAnswerNumber
+} from '@/utils/questionScoring';
+import type { Difficulty, QuestionType } from '@/types/battle';
 
 interface AddQuestionModalProps {
   isOpen: boolean;
@@ -20,18 +32,29 @@ interface AddQuestionModalProps {
   topic?: Topic | null;
   subjects: Subject[];
   onQuestionAdded?: () => void;
+  question?: Question | null; // Preenchida no modo de edição
 }
 
-export function AddQuestionModal({ isOpen, onClose, topic, subjects, onQuestionAdded }: AddQuestionModalProps) {
+// Letra da alternativa correta (ou o texto do gabarito quando não há alternativas)
+const answerKeyOf = (options: Array<{ label: string; isCorrect: boolean }>, correctAnswer?: string) =>
+  options.find(option => option.isCorrect)?.label ?? correctAnswer ?? '';
+
+const EMPTY_OPTIONS = [
+  { label: 'A', content: '', isCorrect: false },
+  { label: 'B', content: '', isCorrect: false },
+  { label: 'C', content: '', isCorrect: false },
+  { label: 'D', content: '', isCorrect: false },
+];
+
+export function AddQuestionModal({ isOpen, onClose, topic, subjects, onQuestionAdded, question }: AddQuestionModalProps) {
+  const isEditing = !!question;
   const [formData, setFormData] = useState<QuestionFormData>({
     title: '',
     content: '',
-    options: [
-      { label: 'A', content: '', isCorrect: false },
-      { label: 'B', content: '', isCorrect: false },
-      { label: 'C', content: '', isCorrect: false },
-      { label: 'D', content: '', isCorrect: false },
-    ],
+    questionType: 'multiple_choice',
+    rubric: [],
+    answerTolerance: '',
+    options: EMPTY_OPTIONS,
     correctAnswer: '',
     explanation: '',
     difficulty: 'medium',
@@ -46,7 +69,36 @@ export function AddQuestionModal({ isOpen, onClose, topic, subjects, onQuestionA
   const [selectedTopicId, setSelectedTopicId] = useState('');
   const [newTag, setNewTag] = useState('');
   const [selectedImages, setSelectedImages] = useState<string[]>([]);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [attemptCount, setAttemptCount] = useState(0);
+  const [regradeAttempts, setRegradeAttempts] = useState(false);
+
+  // Modo de edição: carrega a questão no formulário a cada abertura
+  useEffect(() => {
+    if (!isOpen || !question) return;
+
+    setFormData({
+      title: question.title,
+      content: question.content,
+      questionType: question.questionType || 'multiple_choice',
+      rubric: question.rubric || [],
+      answerTolerance: question.answerTolerance !== undefined ? String(question.answerTolerance) : '',
+      options: (question.options || []).map(({ label, content, isCorrect }) => ({ label, content, isCorrect })),
+      correctAnswer: question.correctAnswer || '',
+      explanation: question.explanation || '',
+      difficulty: question.difficulty,
+      tags: question.tags || [],
+      examiningBoard: question.examiningBoard || '',
+      position: question.position || '',
+      examYear: question.examYear || '',
+      institution: question.institution || ''
+    });
+    setSelectedImages(question.images || []);
+    setSelectedSubjectId(subjects.find(s => s.topics.some(t => t.id === question.topicId))?.id || '');
+    setSelectedTopicId(question.topicId);
+    setAttemptCount(getQuestionById(question.id)?.timesAnswered || 0);
+    setRegradeAttempts(false);
+  }, [isOpen, question, subjects]);
 
   useEffect(() => {
     if (topic) {
@@ -63,13 +115,38 @@ export function AddQuestionModal({ isOpen, onClose, topic, subjects, onQuestionA
     if (selectedSubjectId) {
       const subject = subjects.find(s => s.id === selectedSubjectId);
       if (subject?.topics && subject.topics.length > 0) {
-        setSelectedTopicId(subject.topics[0].id);
+        // Mantém o tema atual se ele pertence à matéria (modo de edição)
+        setSelectedTopicId(current => subject.topics.some(t => t.id === current) ? current : subject.topics[0].id);
       }
     }
   }, [selectedSubjectId, subjects]);
 
   const selectedSubject = subjects.find(s => s.id === selectedSubjectId);
   const availableTopics = selectedSubject?.topics || [];
+  const topicNames = Object.fromEntries(subjects.flatMap(s => s.topics.map(t => [t.id, `${s.name} / ${t.name}`])));
+
+  const isTrueFalse = formData.questionType === 'true_false';
+  const isDiscursive = formData.questionType === 'discursive';
+  const isShortAnswer = formData.questionType === 'short_answer';
+  // Tipos sem alternativas: o gabarito é o texto digitado
+  const hasOptions = formData.questionType === 'multiple_choice';
+  const toleranceValue = formData.answerTolerance.trim() ? parseAnswerNumber(formData.answerTolerance) : undefined;
+  // Discursivas são autocorrigidas: mudar a resposta modelo não recorrige tentativas
+  const answerKeyEdited = isEditing && !isDiscursive && (
+    answerKeyOf(question.options || [], question.correctAnswer) !==
+      answerKeyOf(hasOptions ? formData.options : [], formData.correctAnswer) ||
+    (isShortAnswer && (question.answerTolerance ?? undefined) !== (toleranceValue ?? undefined))
+  );
+
+  // As alternativas ficam guardadas ao trocar de tipo; certo/errado só usa o gabarito
+  const handleTypeChange = (questionType: QuestionType) => {
+    setFormData(prev => ({
+      ...prev,
+      questionType,
+      options: questionType === 'multiple_choice' && prev.options.length === 0 ? EMPTY_OPTIONS : prev.options,
+      correctAnswer: questionType === 'true_false' ? normalizeTrueFalseAnswer(prev.correctAnswer) ?? '' : prev.correctAnswer
+    }));
+  };
 
   const handleOptionChange = (index: number, field: 'content' | 'isCorrect', value: string | boolean) => {
     setFormData(prev => ({
@@ -123,18 +200,84 @@ export function AddQuestionModal({ isOpen, onClose, topic, subjects, onQuestionA
     }
 
     // Find correct answer from options
-    const correctOption = formData.options.find(option => option.isCorrect);
+    const correctOption = hasOptions ? formData.options.find(option => option.isCorrect) : undefined;
     const correctAnswer = correctOption ? correctOption.content : formData.correctAnswer;
 
     if (!correctAnswer.trim()) {
       toast({
         title: "Erro",
-        description: "Marque a alternativa correta",
+        description: isTrueFalse
+          ? "Marque se o item está certo ou errado"
+          : isDiscursive
+            ? "Escreva a resposta modelo"
+            : isShortAnswer ? "Informe a resposta esperada" : "Marque a alternativa correta",
         variant: "destructive"
       });
       return;
     }
 
+    if (isShortAnswer && toleranceValue === null) {
+      toast({
+        title: "Erro",
+        description: "A tolerância precisa ser um número",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const options = hasOptions && formData.options.length > 0 && formData.options.some(opt => opt.content.trim())
+      ? formData.options.filter(opt => opt.content.trim())
+      : undefined;
+    const rubric = isDiscursive
+      ? formData.rubric.filter(criterion => criterion.description.trim() && criterion.weight > 0)
+      : undefined;
+    const answerTolerance = isShortAnswer ? toleranceValue ?? undefined : undefined;
+
+    if (question) {
+      const result = updateQuestion(question.id, {
+        topicId: selectedTopicId,
+        title: formData.title,
+        content: formData.content,
+        questionType: formData.questionType,
+        rubric,
+        answerTolerance,
+        options,
+        correctAnswer,
+        explanation: formData.explanation || undefined,
+        difficulty: formData.difficulty as Difficulty,
+        tags: formData.tags,
+        images: selectedImages,
+        examiningBoard: formData.examiningBoard || undefined,
+        position: formData.position || undefined,
+        examYear: formData.examYear || undefined,
+        institution: formData.institution || undefined
+      }, { regradeAttempts: answerKeyEdited && regradeAttempts });
+
+      if (!result) {
+        toast({
+          title: "Erro",
+          description: "Erro ao salvar a questão",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      toast({
+        title: "Questão atualizada",
+        description: result.changedFields === 0
+          ? "Nenhuma alteração para salvar"
+          : `Revisão ${result.revision} salva` +
+            (result.regradedAttempts > 0 ? `; ${result.regradedAttempts} tentativas recorrigidas` : '')
+      });
+
+      if (onQuestionAdded) {
+        onQuestionAdded();
+      }
+
+      handleClose();
+      return;
+    }
+
     try {
       // Create question in database
       const questionId = createQuestion(
@@ -142,9 +285,7 @@ export function AddQuestionModal({ isOpen, onClose, topic, subjects, onQuestionA
         formData.title,
         formData.content,
         correctAnswer,
-        formData.options.length > 0 && formData.options.some(opt => opt.content.trim()) 
-          ? formData.options.filter(opt => opt.content.trim())
-          : undefined,
+        options,
         formData.explanation || undefined,
         formData.difficulty as Difficulty,
         formData.tags,
@@ -152,7 +293,10 @@ export function AddQuestionModal({ isOpen, onClose, topic, subjects, onQuestionA
         formData.examiningBoard || undefined,
         formData.position || undefined,
         formData.examYear || undefined,
-        formData.institution || undefined
+        formData.institution || undefined,
+        formData.questionType,
+        rubric,
+        answerTolerance
       );
 
       // Topic will be marked as enemy via database trigger
@@ -178,37 +322,14 @@ export function AddQuestionModal({ isOpen, onClose, topic, subjects, onQuestionA
     }
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (!files) return;
-
-    Array.from(files).forEach(file => {
-      if (file.type.startsWith('image/')) {
-        const reader = new FileReader();
-        reader.onload = (event) => {
-          if (event.target?.result) {
-            setSelectedImages(prev => [...prev, event.target.result as string]);
-          }
-        };
-        reader.readAsDataURL(file);
-      }
-    });
-  };
-
-  const removeImage = (indexToRemove: number) => {
-    setSelectedImages(prev => prev.filter((_, index) => index !== indexToRemove));
-  };
-
   const resetForm = () => {
     setFormData({
       title: '',
       content: '',
-      options: [
-        { label: 'A', content: '', isCorrect: false },
-        { label: 'B', content: '', isCorrect: false },
-        { label: 'C', content: '', isCorrect: false },
-        { label: 'D', content: '', isCorrect: false },
-      ],
+      questionType: 'multiple_choice',
+      rubric: [],
+      answerTolerance: '',
+      options: EMPTY_OPTIONS,
       correctAnswer: '',
       explanation: '',
       difficulty: 'medium',
@@ -222,16 +343,26 @@ export function AddQuestionModal({ isOpen, onClose, topic, subjects, onQuestionA
     setSelectedImages([]);
   };
 
+  // A edição não deixa rascunho: a próxima "Nova Questão" começa vazia
+  const handleClose = () => {
+    if (isEditing) {
+      resetForm();
+    }
+    onClose();
+  };
+
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
-            <Plus className="h-5 w-5 text-study-primary" />
-            Nova Questão
+            {isEditing ? <Pencil className="h-5 w-5 text-study-primary" /> : <Plus className="h-5 w-5 text-study-primary" />}
+            {isEditing ? 'Editar Questão' : 'Nova Questão'}
           </DialogTitle>
           <DialogDescription>
-            Adicione uma nova questão ao banco de dados
+            {isEditing
+              ? 'As alterações viram uma nova revisão; tentativas e revisões espaçadas são mantidas'
+              : 'Adicione uma nova questão ao banco de dados'}
           </DialogDescription>
         </DialogHeader>
 
@@ -370,9 +501,95 @@ export function AddQuestionModal({ isOpen, onClose, topic, subjects, onQuestionA
 
           {/* Alternativas */}
           <div className="space-y-4">
-            <Label>Alternativas</Label>
+            <div className="flex items-center justify-between gap-4">
+              <Label>{hasOptions ? 'Alternativas' : 'Gabarito'}</Label>
+              <Select value={formData.questionType} onValueChange={handleTypeChange}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="multiple_choice">Múltipla escolha</SelectItem>
+                  <SelectItem value="true_false">Certo ou errado</SelectItem>
+                  <SelectItem value="short_answer">Resposta curta</SelectItem>
+                  <SelectItem value="discursive">Discursiva</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {isTrueFalse && (
+              <div className="flex gap-3">
+                {[TRUE_ANSWER, FALSE_ANSWER].map(value => (
+                  <Card key={value} className="p-4 flex-1">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="trueFalseAnswer"
+                        checked={formData.correctAnswer === value}
+                        onChange={() => setFormData(prev => ({ ...prev, correctAnswer: value }))}
+                        className="text-study-primary"
+                      />
+                      <span className="font-medium">{value}</span>
+                    </label>
+                  </Card>
+                ))}
+              </div>
+            )}
+            {isDiscursive && (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="modelAnswer" className="text-sm font-normal">Resposta modelo</Label>
+                  <Textarea
+                    id="modelAnswer"
+                    value={formData.correctAnswer}
+                    onChange={(e) => setFormData(prev => ({ ...prev, correctAnswer: e.target.value }))}
+                    placeholder="Resposta esperada, mostrada ao lado da sua para a autocorreção..."
+                    rows={5}
+                  />
+                </div>
+                <RubricEditor
+                  rubric={formData.rubric}
+                  onChange={(rubric) => setFormData(prev => ({ ...prev, rubric }))}
+                />
+              </div>
+            )}
+            {isShortAnswer && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="md:col-span-2 space-y-2">
+                  <Label htmlFor="expectedAnswer" className="text-sm font-normal">Resposta esperada</Label>
+                  <Input
+                    id="expectedAnswer"
+                    value={formData.correctAnswer}
+                    onChange={(e) => setFormData(prev => ({ ...prev, correctAnswer: e.target.value }))}
+                    placeholder={`Ex: 42 ou São Paulo ${ANSWER_SEPARATOR} SP`}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Separe respostas aceitas com "{ANSWER_SEPARATOR}". Acentos, maiúsculas e espaços extras são ignorados.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="answerTolerance" className="text-sm font-normal">Tolerância (numérica)</Label>
+                  <Input
+                    id="answerTolerance"
+                    value={formData.answerTolerance}
+                    onChange={(e) => setFormData(prev => ({ ...prev, answerTolerance: e.target.value }))}
+                    placeholder="Ex: 0,5"
+                    inputMode="decimal"
+                  />
+                </div>
+              </div>
+            )}
+            {hasOptions && formData.options.length === 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="correctAnswer" className="text-sm font-normal">Resposta correta</Label>
+                <Input
+                  id="correctAnswer"
+                  value={formData.correctAnswer}
+                  onChange={(e) => setFormData(prev => ({ ...prev, correctAnswer: e.target.value }))}
+                  placeholder="Ex: Verdadeiro"
+                />
+              </div>
+            )}
             <div className="space-y-3">
-              {formData.options.map((option, index) => (
+              {hasOptions && formData.options.map((option, index) => (
                 <Card key={index} className="p-4">
                   <div className="flex items-center gap-3">
                     <div className="flex items-center gap-2">
@@ -409,53 +626,60 @@ export function AddQuestionModal({ isOpen, onClose, topic, subjects, onQuestionA
             />
           </div>
 
+          {/* Pré-visualização (Markdown e fórmulas LaTeX) */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Pré-visualização</Label>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setShowPreview(prev => !prev)}>
+                {showPreview ? <EyeOff className="h-4 w-4 mr-2" /> : <Eye className="h-4 w-4 mr-2" />}
+                {showPreview ? 'Ocultar' : 'Mostrar'}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Enunciado, alternativas e explicação aceitam Markdown, código entre crases e fórmulas em $...$ ou $$...$$
+            </p>
+            {showPreview && (
+              <Card>
+                <CardContent className="p-4 space-y-4">
+                  {formData.content.trim() ? (
+                    <RichText text={formData.content} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Enunciado vazio</p>
+                  )}
+                  {!hasOptions && formData.correctAnswer.trim() && (
+                    <div className="text-sm">
+                      <p className="font-medium mb-1">{isDiscursive ? 'Resposta modelo:' : 'Gabarito:'}</p>
+                      <RichText text={formData.correctAnswer} />
+                    </div>
+                  )}
+                  {hasOptions && formData.options.some(opt => opt.content.trim()) && (
+                    <div className="space-y-2">
+                      {formData.options.filter(opt => opt.content.trim()).map(option => (
+                        <div
+                          key={option.label}
+                          className={`p-2 border rounded-md text-sm ${option.isCorrect ? 'border-green-500 bg-green-50/50' : ''}`}
+                        >
+                          <span className="font-medium mr-2">{option.label})</span>
+                          <RichText text={option.content} inline />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {formData.explanation.trim() && (
+                    <div>
+                      <p className="font-medium text-sm mb-2">Explicação:</p>
+                      <RichText text={formData.explanation} className="prose-sm" />
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
           {/* Imagens */}
           <div className="space-y-2">
             <Label htmlFor="images">Imagens (Opcional)</Label>
-            <div className="space-y-4">
-              <div className="flex gap-2">
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  accept="image/*"
-                  multiple
-                  onChange={handleImageUpload}
-                  className="hidden"
-                />
-                <Button 
-                  type="button" 
-                  onClick={() => fileInputRef.current?.click()}
-                  variant="outline"
-                  className="gap-2"
-                >
-                  <Upload className="h-4 w-4" />
-                  Adicionar Imagens
-                </Button>
-              </div>
-              
-              {selectedImages.length > 0 && (
-                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                  {selectedImages.map((image, index) => (
-                    <div key={index} className="relative group">
-                      <img
-                        src={image}
-                        alt={`Preview ${index + 1}`}
-                        className="w-full h-24 object-cover rounded-md border"
-                      />
-                      <Button
-                        type="button"
-                        size="sm"
-                        variant="destructive"
-                        className="absolute top-1 right-1 h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
-                        onClick={() => removeImage(index)}
-                      >
-                        <Trash2 className="h-3 w-3" />
-                      </Button>
-                    </div>
-                  ))}
-                </div>
-              )}
-            </div>
+            <MediaPicker images={selectedImages} onChange={setSelectedImages} />
           </div>
 
           {/* Tags */}
@@ -491,9 +715,28 @@ export function AddQuestionModal({ isOpen, onClose, topic, subjects, onQuestionA
             )}
           </div>
 
+          {isEditing && answerKeyEdited && attemptCount > 0 && (
+            <Card className="border-study-warning/40 bg-study-warning/5">
+              <CardContent className="p-4 flex items-start gap-3">
+                <Checkbox
+                  id="regradeAttempts"
+                  checked={regradeAttempts}
+                  onCheckedChange={(checked) => setRegradeAttempts(checked === true)}
+                  className="mt-0.5"
+                />
+                <Label htmlFor="regradeAttempts" className="font-normal leading-snug cursor-pointer">
+                  O gabarito mudou. Recorrigir as {attemptCount} tentativas anteriores com o novo gabarito
+                  (acertos, taxa de acerto e sala são recalculados)
+                </Label>
+              </CardContent>
+            </Card>
+          )}
+
+          {question && <QuestionRevisionHistory questionId={question.id} topicNames={topicNames} />}
+
           {/* Botões */}
           <div className="flex gap-3 pt-4">
-            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+            <Button type="button" variant="outline" onClick={handleClose} className="flex-1">
               Cancelar
             </Button>
             <Button type="submit" className="flex-1 gap-2">
@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getQuestionFacets, type FacetValue } from '@/db/crud/questionSearch';
+import { createScoringPolicyResolver, saveBoardScoringPolicy } from '@/db/crud/scoringPolicies';
+import { toast } from '@/hooks/use-toast';
+import type { ScoringPolicy } from '@/types/battle';
+
+const POLICY_LABELS: Record<ScoringPolicy, string> = {
+  standard: 'Só acertos',
+  net: 'Certo − Errado'
+};
+
+// Política de pontuação de cada banca que aparece no banco de questões
+export function BoardScoringPanel() {
+  const [boards, setBoards] = useState<FacetValue[]>([]);
+  const [policies, setPolicies] = useState<Record<string, ScoringPolicy>>({});
+
+  useEffect(() => {
+    const examiningBoards = getQuestionFacets().examiningBoards;
+    const resolvePolicy = createScoringPolicyResolver();
+    setBoards(examiningBoards);
+    setPolicies(Object.fromEntries(examiningBoards.map(board => [board.value, resolvePolicy(board.value)])));
+  }, []);
+
+  const handlePolicyChange = (board: string, policy: ScoringPolicy) => {
+    saveBoardScoringPolicy(board, policy);
+    setPolicies(prev => ({ ...prev, [board]: policy }));
+    toast({
+      title: "Pontuação atualizada",
+      description: `${board}: ${POLICY_LABELS[policy]}`
+    });
+  };
+
+  if (boards.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Cadastre a banca nas questões para escolher como cada uma é pontuada.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Em "Certo − Errado" cada erro anula um acerto e deixar em branco vale zero (padrão do Cebraspe).
+        Vale para batalhas, XP e estatísticas.
+      </p>
+      {boards.map(board => (
+        <div key={board.value} className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="font-medium truncate">{board.value}</span>
+            <Badge variant="secondary" className="text-xs">{board.count} questões</Badge>
+          </div>
+          <Select
+            value={policies[board.value] ?? 'standard'}
+            onValueChange={(value) => handlePolicyChange(board.value, value as ScoringPolicy)}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="standard">{POLICY_LABELS.standard}</SelectItem>
+              <SelectItem value="net">{POLICY_LABELS.net}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import {
+  CSV_DELIMITERS,
+  QUESTION_CSV_FIELDS,
+  applyMappingToHeaders,
+  type CsvDelimiter,
+  type CsvTable,
+  type QuestionColumnMapping,
+  type QuestionCsvField
+} from '@/utils/questionCsv';
+import {
+  deleteQuestionImportPreset,
+  getQuestionImportPresets,
+  saveQuestionImportPreset,
+  type QuestionImportPreset
+} from '@/db/crud/questionImportPresets';
+
+interface CsvColumnMappingStepProps {
+  fileName: string;
+  table: CsvTable;
+  mapping: QuestionColumnMapping;
+  onMappingChange: (mapping: QuestionColumnMapping) => void;
+  onDelimiterChange: (delimiter: CsvDelimiter) => void;
+  onBack: () => void;
+  onContinue: () => void;
+}
+
+const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': 'Vírgula (,)',
+  ';': 'Ponto e vírgula (;)',
+  '\t': 'Tabulação (TSV)',
+  '|': 'Barra vertical (|)'
+};
+
+// Valor do Select para "coluna não usada" (o Select não aceita valor vazio)
+const UNMAPPED = '__unmapped__';
+
+// Linhas de exemplo mostradas ao lado de cada coluna
+const SAMPLE_ROWS = 3;
+
+export function CsvColumnMappingStep({
+  fileName,
+  table,
+  mapping,
+  onMappingChange,
+  onDelimiterChange,
+  onBack,
+  onContinue
+}: CsvColumnMappingStepProps) {
+  const [presets, setPresets] = useState<QuestionImportPreset[]>(() => getQuestionImportPresets());
+  const [presetName, setPresetName] = useState('');
+
+  const sampleFor = (header: string | undefined): string => {
+    if (!header) return '';
+    const column = table.headers.indexOf(header);
+    return table.rows
+      .slice(0, SAMPLE_ROWS)
+      .map(row => (row[column] ?? '').trim())
+      .filter(Boolean)
+      .join(' • ');
+  };
+
+  const handleFieldChange = (field: QuestionCsvField, header: string) => {
+    const next = { ...mapping };
+    if (header === UNMAPPED) {
+      delete next[field];
+    } else {
+      next[field] = header;
+    }
+    onMappingChange(next);
+  };
+
+  const handleApplyPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name);
+    if (!preset) return;
+
+    if (preset.delimiter && preset.delimiter !== table.delimiter) {
+      onDelimiterChange(preset.delimiter);
+    }
+    const applied = applyMappingToHeaders(preset.mapping, table.headers);
+    onMappingChange(applied);
+    setPresetName(preset.name);
+
+    const missing = Object.keys(preset.mapping).length - Object.keys(applied).length;
+    if (missing > 0) {
+      toast({
+        title: 'Preset aplicado parcialmente',
+        description: `${missing} colunas do preset não existem neste arquivo`
+      });
+    }
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    saveQuestionImportPreset(presetName, mapping, table.delimiter);
+    setPresets(getQuestionImportPresets());
+    toast({
+      title: 'Preset salvo',
+      description: `O mapeamento "${presetName.trim()}" pode ser reutilizado nas próximas importações`
+    });
+  };
+
+  const handleDeletePreset = () => {
+    deleteQuestionImportPreset(presetName.trim());
+    setPresets(getQuestionImportPresets());
+    setPresetName('');
+  };
+
+  const canContinue = !!mapping.content && table.rows.length > 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Mapear colunas</h3>
+          <p className="text-sm text-muted-foreground">
+            {fileName}: {table.rows.length} linhas, {table.headers.length} colunas
+          </p>
+        </div>
+        <Button variant="outline" onClick={onBack}>
+          Voltar
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Arquivo</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Separador</Label>
+            <Select value={table.delimiter} onValueChange={value => onDelimiterChange(value as CsvDelimiter)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CSV_DELIMITERS.map(delimiter => (
+                  <SelectItem key={delimiter} value={delimiter}>
+                    {DELIMITER_LABELS[delimiter]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Codificação detectada</Label>
+            <div>
+              <Badge variant="outline">{table.encoding === 'utf-8' ? 'UTF-8' : 'Latin-1 (Windows-1252)'}</Badge>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Presets</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {presets.length > 0 && (
+            <Select value="" onValueChange={handleApplyPreset}>
+              <SelectTrigger>
+                <SelectValue placeholder="Aplicar um preset salvo" />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map(preset => (
+                  <SelectItem key={preset.name} value={preset.name}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <div className="flex gap-2">
+            <Input
+              value={presetName}
+              onChange={e => setPresetName(e.target.value)}
+              placeholder="Nome do preset (ex.: Planilha do cursinho)"
+            />
+            <Button variant="outline" onClick={handleSavePreset} disabled={!presetName.trim()} className="gap-2">
+              <Save className="h-4 w-4" />
+              Salvar
+            </Button>
+            {presets.some(p => p.name === presetName.trim()) && (
+              <Button variant="ghost" size="icon" onClick={handleDeletePreset} title="Excluir preset">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Campos da questão</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {QUESTION_CSV_FIELDS.map(({ field, label, required }) => (
+            <div key={field} className="grid grid-cols-[10rem_1fr] items-center gap-3">
+              <Label>
+                {label}
+                {required && <span className="text-red-500"> *</span>}
+              </Label>
+              <div className="space-y-1 min-w-0">
+                <Select value={mapping[field] ?? UNMAPPED} onValueChange={value => handleFieldChange(field, value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Não importar</SelectItem>
+                    {table.headers.map(header => (
+                      <SelectItem key={header} value={header}>
+                        {header}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {mapping[field] && (
+                  <p className="text-xs text-muted-foreground truncate">{sampleFor(mapping[field])}</p>
+                )}
+              </div>
+            </div>
+          ))}
+          <p className="text-sm text-muted-foreground">
+            Gabarito aceita a letra (A–E) ou o texto da alternativa. Sem título, ele é gerado a partir do enunciado.
+            Matéria e tópico são procurados pelo nome; quando não encontrados, vale o tópico padrão.
+          </p>
+        </CardContent>
+      </Card>
+
+      <div className="flex gap-3">
+        <Button variant="outline" onClick={onBack} className="flex-1">
+          Cancelar
+        </Button>
+        <Button onClick={onContinue} disabled={!canContinue} className="flex-1">
+          Pré-visualizar
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CheckCircle, Copy, GitMerge, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { findDuplicateGroups, mergeDuplicateQuestions, type DuplicateGroup } from '@/db/crud/questionDuplicates';
+
+interface DuplicateQuestionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onQuestionsMerged: () => void;
+}
+
+// Semelhança mínima oferecida na busca (1 = só idênticas)
+const SIMILARITY_OPTIONS = [
+  { value: '1', label: 'Só idênticas' },
+  { value: '0.9', label: '90% parecidas' },
+  { value: '0.85', label: '85% parecidas' },
+  { value: '0.75', label: '75% parecidas' }
+];
+
+const groupKey = (group: DuplicateGroup) => group.questions.map(question => question.id).join('|');
+
+export function DuplicateQuestionsModal({ isOpen, onClose, onQuestionsMerged }: DuplicateQuestionsModalProps) {
+  const [minSimilarity, setMinSimilarity] = useState('0.85');
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null);
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+
+  const loadGroups = useCallback(() => {
+    const found = findDuplicateGroups(parseFloat(minSimilarity));
+    setGroups(found);
+    // A mais respondida fica por padrão (vem primeiro no grupo)
+    setKeepers(Object.fromEntries(found.map(group => [groupKey(group), group.questions[0].id])));
+  }, [minSimilarity]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setGroups(null);
+    // Deixa o diálogo abrir antes da varredura
+    const timer = setTimeout(loadGroups, 0);
+    return () => clearTimeout(timer);
+  }, [isOpen, loadGroups]);
+
+  const handleMerge = (group: DuplicateGroup) => {
+    const key = groupKey(group);
+    const keepId = keepers[key] ?? group.questions[0].id;
+    const merged = mergeDuplicateQuestions(keepId, group.questions.map(question => question.id));
+
+    if (!merged) {
+      toast({
+        title: 'Erro ao mesclar',
+        description: 'Não foi possível mesclar as questões',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    const attempts = group.questions.reduce((sum, question) => sum + question.timesAnswered, 0);
+    toast({
+      title: 'Questões mescladas',
+      description: `${group.questions.length - 1} duplicadas removidas; ${attempts} tentativas mantidas na questão escolhida`
+    });
+    setGroups(current => current?.filter(g => groupKey(g) !== key) ?? null);
+    onQuestionsMerged();
+  };
+
+  const visibleGroups = (groups || []).filter(group => !dismissed.has(groupKey(group)));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Copy className="h-5 w-5 text-study-primary" />
+            Questões Duplicadas
+          </DialogTitle>
+          <DialogDescription>
+            Encontre questões repetidas e mescle cada grupo numa só, somando as tentativas
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Label className="shrink-0">Considerar duplicadas</Label>
+            <Select value={minSimilarity} onValueChange={setMinSimilarity}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SIMILARITY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {groups && <Badge variant="outline">{visibleGroups.length} grupos</Badge>}
+          </div>
+
+          {!groups ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : visibleGroups.length === 0 ? (
+            <div className="text-center py-8">
+              <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+              <p className="text-muted-foreground">Nenhuma questão duplicada encontrada.</p>
+            </div>
+          ) : (
+            visibleGroups.map(group => {
+              const key = groupKey(group);
+              return (
+                <Card key={key}>
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <Badge variant={group.kind === 'exact' ? 'destructive' : 'secondary'}>
+                        {group.kind === 'exact' ? 'Idênticas' : `${Math.round(group.similarity * 100)}% parecidas`}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">Escolha a questão que fica</span>
+                    </div>
+
+                    <RadioGroup
+                      value={keepers[key] ?? group.questions[0].id}
+                      onValueChange={value => setKeepers(current => ({ ...current, [key]: value }))}
+                    >
+                      {group.questions.map(question => (
+                        <div key={question.id} className="flex items-start gap-2 border rounded-md p-2">
+                          <RadioGroupItem value={question.id} id={`${key}-${question.id}`} className="mt-1" />
+                          <Label htmlFor={`${key}-${question.id}`} className="flex-1 cursor-pointer space-y-1 font-normal">
+                            <p className="text-sm font-medium">{question.title}</p>
+                            <p className="text-xs text-muted-foreground line-clamp-2">{question.content}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {question.subjectName} / {question.topicName} • {question.timesAnswered} tentativas
+                              {question.timesAnswered > 0 && ` • ${Math.round(question.accuracyRate)}% de acerto`}
+                            </p>
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDismissed(current => new Set(current).add(key))}
+                      >
+                        Não são duplicadas
+                      </Button>
+                      <Button size="sm" onClick={() => handleMerge(group)} className="gap-2">
+                        <GitMerge className="h-4 w-4" />
+                        Mesclar {group.questions.length} questões
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
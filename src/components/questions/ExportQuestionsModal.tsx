@@ -8,8 +8,18 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Subject } from '@/types/questions';
 import { getQuestionsByTopic, getQuestionsByRoom } from '@/db/crud/questions';
+import { inlineMediaRefs } from '@/db/media/mediaStore';
 import { toast } from '@/hooks/use-toast';
 import type { Room } from '@/types/battle';
+import { exportGift, exportMoodleXml, type MoodleFormat } from '@/utils/moodleQuestions';
+
+type ExportFormat = 'json' | MoodleFormat;
+
+const FORMAT_FILES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  'moodle-xml': { extension: 'xml', mimeType: 'application/xml' },
+  gift: { extension: 'gift.txt', mimeType: 'text/plain' }
+};
 
 interface ExportQuestionsModalProps {
   isOpen: boolean;
@@ -19,11 +29,13 @@ interface ExportQuestionsModalProps {
 
 export function ExportQuestionsModal({ isOpen, onClose, subjects }: ExportQuestionsModalProps) {
   const [exportType, setExportType] = useState<'topic' | 'subject' | 'room' | 'all'>('topic');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
   const [selectedSubjectId, setSelectedSubjectId] = useState<string>('');
   const [selectedTopicId, setSelectedTopicId] = useState<string>('');
   const [selectedRoom, setSelectedRoom] = useState<Room>('triagem');
   const [includeMetadata, setIncludeMetadata] = useState(true);
   const [includeStats, setIncludeStats] = useState(false);
+  const [includeNotes, setIncludeNotes] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
 
   const selectedSubject = subjects.find(s => s.id === selectedSubjectId);
@@ -93,60 +105,91 @@ export function ExportQuestionsModal({ isOpen, onClose, subjects }: ExportQuesti
         return;
       }
 
-      // Format questions for export
-      const exportData = {
-        metadata: includeMetadata ? {
-          exportDate: new Date().toISOString(),
-          exportType,
-          totalQuestions: questions.length,
-          source: 'Sistema de Questões'
-        } : undefined,
-        questions: questions.map(q => ({
-          topicId: q.topicId,
-          title: q.title,
-          content: q.content,
-          options: q.options?.map((opt: any) => ({
-            label: opt.label,
-            content: opt.content,
-            isCorrect: opt.isCorrect
-          })),
-          correctAnswer: q.correctAnswer,
-          explanation: q.explanation,
-          difficulty: q.difficulty,
-          tags: q.tags || [],
-          images: q.images || [],
-          examiningBoard: q.examiningBoard,
-          position: q.position,
-          examYear: q.examYear,
-          institution: q.institution,
-          ...(includeStats ? {
-            timesAnswered: q.timesAnswered,
-            timesCorrect: q.timesCorrect,
-            accuracyRate: q.accuracyRate,
-            room: q.room,
-            createdAt: q.createdAt,
-            updatedAt: q.updatedAt,
-            topicName: q.topicName,
-            subjectName: q.subjectName
-          } : {})
-        }))
-      };
+      // Imagens do media store vão embutidas como data URL para o arquivo ser autossuficiente
+      const inlinedImages = await Promise.all(questions.map(q => inlineMediaRefs(q.images || [])));
+
+      let dataStr: string;
+      let warnings: string[] = [];
+
+      if (exportFormat === 'json') {
+        // Format questions for export
+        const exportData = {
+          metadata: includeMetadata ? {
+            exportDate: new Date().toISOString(),
+            exportType,
+            totalQuestions: questions.length,
+            source: 'Sistema de Questões'
+          } : undefined,
+          questions: questions.map((q, index) => ({
+            topicId: q.topicId,
+            title: q.title,
+            content: q.content,
+            options: q.options?.map((opt: any) => ({
+              label: opt.label,
+              content: opt.content,
+              isCorrect: opt.isCorrect
+            })),
+            correctAnswer: q.correctAnswer,
+            explanation: q.explanation,
+            difficulty: q.difficulty,
+            questionType: q.questionType,
+            rubric: q.rubric,
+            answerTolerance: q.answerTolerance,
+            ...(includeNotes ? {
+              notes: q.notes,
+              highlights: q.highlights || []
+            } : {}),
+            tags: q.tags || [],
+            images: inlinedImages[index],
+            examiningBoard: q.examiningBoard,
+            position: q.position,
+            examYear: q.examYear,
+            institution: q.institution,
+            ...(includeStats ? {
+              timesAnswered: q.timesAnswered,
+              timesCorrect: q.timesCorrect,
+              accuracyRate: q.accuracyRate,
+              room: q.room,
+              createdAt: q.createdAt,
+              updatedAt: q.updatedAt,
+              topicName: q.topicName,
+              subjectName: q.subjectName
+            } : {})
+          }))
+        };
+
+        dataStr = JSON.stringify(exportData, null, 2);
+      } else {
+        // Moodle: categorias por matéria/tópico; o que o formato não comporta vira aviso
+        const withImages = questions.map((q, index) => ({ ...q, images: inlinedImages[index] }));
+        ({ content: dataStr, warnings } = exportFormat === 'moodle-xml' ? exportMoodleXml(withImages) : exportGift(withImages));
+        const annotated = questions.filter(q => q.notes || q.highlights?.length).length;
+        if (annotated > 0) {
+          warnings.push(`o formato Moodle não tem campo para anotações pessoais: ${annotated} questões anotadas saíram sem elas (use JSON)`);
+        }
+      }
 
       // Create and download file
-      const dataStr = JSON.stringify(exportData, null, 2);
-      const dataBlob = new Blob([dataStr], { type: 'application/json' });
+      const { extension, mimeType } = FORMAT_FILES[exportFormat];
+      const dataBlob = new Blob([dataStr], { type: mimeType });
       const url = URL.createObjectURL(dataBlob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `${filename}.json`;
+      link.download = `${filename}.${extension}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
       URL.revokeObjectURL(url);
 
+      if (warnings.length > 0) {
+        console.warn(`⚠️ Exportação ${exportFormat} com ressalvas:`, warnings);
+      }
+
       toast({
         title: 'Exportação concluída',
-        description: `${questions.length} questões exportadas com sucesso!`
+        description: warnings.length > 0
+          ? `${questions.length} questões exportadas, ${warnings.length} com ressalvas: ${warnings.slice(0, 2).join(' • ')}`
+          : `${questions.length} questões exportadas com sucesso!`
       });
 
       onClose();
@@ -192,7 +235,7 @@ export function ExportQuestionsModal({ isOpen, onClose, subjects }: ExportQuesti
             Exportar Questões
           </DialogTitle>
           <DialogDescription>
-            Exporte questões em formato JSON para backup ou transferência
+            Exporte questões em JSON (backup completo) ou nos formatos do Moodle (XML e GIFT)
           </DialogDescription>
         </DialogHeader>
 
@@ -304,10 +347,25 @@ export function ExportQuestionsModal({ isOpen, onClose, subjects }: ExportQuesti
               <CardTitle className="text-base">Opções de Exportação</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Formato</Label>
+                <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="json">JSON (reimportável aqui, com estatísticas)</SelectItem>
+                    <SelectItem value="moodle-xml">Moodle XML (com imagens)</SelectItem>
+                    <SelectItem value="gift">GIFT (texto, sem imagens)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="flex items-center space-x-2">
                 <Checkbox 
                   id="metadata" 
                   checked={includeMetadata}
+                  disabled={exportFormat !== 'json'}
                   onCheckedChange={(checked) => setIncludeMetadata(checked as boolean)}
                 />
                 <Label htmlFor="metadata" className="text-sm">
@@ -319,12 +377,25 @@ export function ExportQuestionsModal({ isOpen, onClose, subjects }: ExportQuesti
                 <Checkbox 
                   id="stats" 
                   checked={includeStats}
+                  disabled={exportFormat !== 'json'}
                   onCheckedChange={(checked) => setIncludeStats(checked as boolean)}
                 />
                 <Label htmlFor="stats" className="text-sm">
                   Incluir estatísticas (tentativas, acertos, sala atual)
                 </Label>
               </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox 
+                  id="notes" 
+                  checked={includeNotes}
+                  disabled={exportFormat !== 'json'}
+                  onCheckedChange={(checked) => setIncludeNotes(checked as boolean)}
+                />
+                <Label htmlFor="notes" className="text-sm">
+                  Incluir anotações pessoais (notas e trechos destacados)
+                </Label>
+              </div>
             </CardContent>
           </Card>
 
@@ -0,0 +1,101 @@
+import React from 'react';
+import { Copy } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ImportQuestion } from '@/types/questions';
+import type { DuplicateResolution, ImportDuplicate } from '@/db/crud/questionDuplicates';
+
+interface ImportDuplicatesPanelProps {
+  duplicates: ImportDuplicate[];
+  questions: ImportQuestion[];
+  choices: Record<number, DuplicateResolution>;
+  onChoicesChange: (choices: Record<number, DuplicateResolution>) => void;
+}
+
+const RESOLUTION_LABELS: Record<DuplicateResolution, string> = {
+  skip: 'Ignorar',
+  overwrite: 'Sobrescrever a existente',
+  keep: 'Manter as duas'
+};
+
+const RESOLUTIONS = Object.keys(RESOLUTION_LABELS) as DuplicateResolution[];
+
+export function ImportDuplicatesPanel({ duplicates, questions, choices, onChoicesChange }: ImportDuplicatesPanelProps) {
+  const exactCount = duplicates.filter(duplicate => duplicate.kind === 'exact').length;
+
+  const applyToAll = (resolution: DuplicateResolution) => {
+    onChoicesChange(Object.fromEntries(duplicates.map(duplicate => [duplicate.index, resolution])));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Copy className="h-4 w-4" />
+          {duplicates.length} questões já existem no banco
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {exactCount} idênticas (ignorando espaços, pontuação e maiúsculas) e {duplicates.length - exactCount} muito parecidas.
+          Sobrescrever troca o conteúdo da existente e mantém suas tentativas e revisões.
+        </p>
+
+        <div className="flex items-center gap-3">
+          <Label className="shrink-0">Para todas</Label>
+          <Select value="" onValueChange={value => applyToAll(value as DuplicateResolution)}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Escolher ação" />
+            </SelectTrigger>
+            <SelectContent>
+              {RESOLUTIONS.map(resolution => (
+                <SelectItem key={resolution} value={resolution}>
+                  {RESOLUTION_LABELS[resolution]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <ScrollArea className="h-48">
+          <div className="space-y-2 pr-3">
+            {duplicates.map(duplicate => (
+              <div key={duplicate.index} className="border rounded-md p-3 space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-sm font-medium truncate">{questions[duplicate.index]?.title}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      Existente: {duplicate.match.title} • {duplicate.match.subjectName} / {duplicate.match.topicName}
+                      {duplicate.match.timesAnswered > 0 && ` • ${duplicate.match.timesAnswered} tentativas`}
+                    </p>
+                  </div>
+                  <Badge variant={duplicate.kind === 'exact' ? 'destructive' : 'secondary'} className="shrink-0">
+                    {duplicate.kind === 'exact' ? 'Idêntica' : `${Math.round(duplicate.similarity * 100)}% parecida`}
+                  </Badge>
+                </div>
+                <Select
+                  value={choices[duplicate.index] ?? 'skip'}
+                  onValueChange={value => onChoicesChange({ ...choices, [duplicate.index]: value as DuplicateResolution })}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RESOLUTIONS.map(resolution => (
+                      <SelectItem key={resolution} value={resolution}>
+                        {RESOLUTION_LABELS[resolution]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
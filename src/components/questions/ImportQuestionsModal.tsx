@@ -8,9 +8,25 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Progress } from '@/components/ui/progress';
-import { Subject } from '@/types/questions';
+import { Subject, type ImportQuestion } from '@/types/questions';
 import { toast } from '@/hooks/use-toast';
 import { importQuestionsInBatch } from '@/db/crud/questions';
+import { findImportDuplicates, type DuplicateResolution, type ImportDuplicate } from '@/db/crud/questionDuplicates';
+import { storeImageSources } from '@/db/media/mediaStore';
+import {
+  applyMappingToHeaders,
+  decodeCsvBytes,
+  guessColumnMapping,
+  mapCsvRows,
+  parseCsvText,
+  type CsvDelimiter,
+  type CsvEncoding,
+  type CsvTable,
+  type QuestionColumnMapping
+} from '@/utils/questionCsv';
+import { looksLikeGift, parseGift, parseMoodleXml } from '@/utils/moodleQuestions';
+import { CsvColumnMappingStep } from './CsvColumnMappingStep';
+import { ImportDuplicatesPanel } from './ImportDuplicatesPanel';
 
 interface ImportQuestionsModalProps {
   isOpen: boolean;
@@ -19,56 +35,167 @@ interface ImportQuestionsModalProps {
   onQuestionsImported: () => void;
 }
 
-interface ImportQuestion {
-  topicId?: string;
-  title: string;
-  content: string;
-  options?: Array<{
-    label: string;
-    content: string;
-    isCorrect: boolean;
-  }>;
-  correctAnswer?: string;
-  explanation?: string;
-  difficulty?: 'easy' | 'medium' | 'hard';
-  tags?: string[];
-  images?: string[];
-  examiningBoard?: string;
-  position?: string;
-  examYear?: string;
-  institution?: string;
-}
-
 interface ImportResult {
   success: number;
   failed: number;
+  skipped: number;
+  overwritten: number;
   errors: string[];
 }
 
+interface CsvSource {
+  fileName: string;
+  text: string;
+  encoding: CsvEncoding;
+}
+
+const isSpreadsheetFile = (file: File) => /\.(csv|tsv)$/i.test(file.name);
+
 export function ImportQuestionsModal({ isOpen, onClose, subjects, onQuestionsImported }: ImportQuestionsModalProps) {
   const [importData, setImportData] = useState<ImportQuestion[]>([]);
   const [defaultTopicId, setDefaultTopicId] = useState<string>('');
   const [selectedSubjectId, setSelectedSubjectId] = useState<string>('');
   const [isImporting, setIsImporting] = useState(false);
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
-  const [step, setStep] = useState<'upload' | 'preview' | 'result'>('upload');
+  const [step, setStep] = useState<'upload' | 'mapping' | 'preview' | 'result'>('upload');
   const [importProgress, setImportProgress] = useState(0);
+  const [csvSource, setCsvSource] = useState<CsvSource | null>(null);
+  const [csvTable, setCsvTable] = useState<CsvTable | null>(null);
+  const [csvMapping, setCsvMapping] = useState<QuestionColumnMapping>({});
+  const [importIssues, setImportIssues] = useState<{ errors: string[]; warnings: string[] }>({ errors: [], warnings: [] });
+  const [duplicates, setDuplicates] = useState<ImportDuplicate[]>([]);
+  const [duplicateChoices, setDuplicateChoices] = useState<Record<number, DuplicateResolution>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const selectedSubject = subjects.find(s => s.id === selectedSubjectId);
   const availableTopics = selectedSubject?.topics || [];
+  const duplicateByIndex = new Map(duplicates.map(duplicate => [duplicate.index, duplicate]));
+
+  /**
+   * Prévia comum a todos os formatos: já aponta as questões que existem no banco
+   */
+  const showPreview = (questions: ImportQuestion[], issues: { errors: string[]; warnings: string[] }) => {
+    const found = findImportDuplicates(questions);
+    setImportData(questions);
+    setImportIssues(issues);
+    setDuplicates(found);
+    setDuplicateChoices(Object.fromEntries(found.map(duplicate => [duplicate.index, 'skip' as DuplicateResolution])));
+    setStep('preview');
+  };
+
+  const handleSpreadsheetUpload = async (file: File) => {
+    try {
+      const { text, encoding } = decodeCsvBytes(await file.arrayBuffer());
+      const table = parseCsvText(text, encoding, /\.tsv$/i.test(file.name) ? '\t' : undefined);
+      if (table.rows.length === 0) {
+        throw new Error('Planilha sem linhas de dados');
+      }
+
+      setCsvSource({ fileName: file.name, text, encoding });
+      setCsvTable(table);
+      setCsvMapping(guessColumnMapping(table.headers));
+      setStep('mapping');
+    } catch (error) {
+      toast({
+        title: 'Erro na planilha',
+        description: error instanceof Error ? error.message : 'Não foi possível ler o arquivo CSV/TSV',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleDelimiterChange = (delimiter: CsvDelimiter) => {
+    if (!csvSource) return;
+    const table = parseCsvText(csvSource.text, csvSource.encoding, delimiter);
+    const kept = applyMappingToHeaders(csvMapping, table.headers);
+    setCsvTable(table);
+    setCsvMapping(Object.keys(kept).length > 0 ? kept : guessColumnMapping(table.headers));
+  };
+
+  const handleMappingContinue = () => {
+    if (!csvTable) return;
+    const { questions, errors, warnings } = mapCsvRows(csvTable, csvMapping, subjects);
+
+    if (questions.length === 0) {
+      toast({
+        title: 'Nenhuma questão válida',
+        description: errors[0] || 'Verifique o mapeamento das colunas',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    showPreview(questions, { errors, warnings });
+  };
+
+  const handleMoodleUpload = (fileName: string, text: string) => {
+    const isXml = /\.xml$/i.test(fileName);
+    try {
+      const { questions, errors, warnings } = isXml ? parseMoodleXml(text, subjects) : parseGift(text, subjects);
+      console.log(`📥 ${isXml ? 'Moodle XML' : 'GIFT'}: ${questions.length} questões lidas, ${errors.length} ignoradas`);
+
+      if (questions.length === 0) {
+        toast({
+          title: 'Nenhuma questão suportada',
+          description: errors[0] || 'O arquivo não contém questões',
+          variant: 'destructive'
+        });
+        return;
+      }
+
+      setCsvSource(null);
+      setCsvTable(null);
+      showPreview(questions, { errors, warnings });
+    } catch (error) {
+      toast({
+        title: isXml ? 'Erro no Moodle XML' : 'Erro no GIFT',
+        description: error instanceof Error ? error.message : 'Arquivo inválido ou mal formatado',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleTextUpload = async (file: File) => {
+    try {
+      const text = await file.text();
+      // .txt pode ser GIFT ou uma planilha exportada como texto
+      if (/\.(xml|gift)$/i.test(file.name) || looksLikeGift(text)) {
+        handleMoodleUpload(file.name, text);
+      } else {
+        await handleSpreadsheetUpload(file);
+      }
+    } catch (error) {
+      toast({
+        title: 'Erro ao ler o arquivo',
+        description: error instanceof Error ? error.message : 'Não foi possível ler o arquivo',
+        variant: 'destructive'
+      });
+    }
+  };
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    // Permite escolher o mesmo arquivo de novo depois de voltar
+    e.target.value = '';
+
+    if (isSpreadsheetFile(file)) {
+      handleSpreadsheetUpload(file);
+      return;
+    }
+    if (/\.(xml|gift|txt)$/i.test(file.name)) {
+      handleTextUpload(file);
+      return;
+    }
 
     const reader = new FileReader();
     reader.onload = (event) => {
       try {
         const jsonContent = JSON.parse(event.target?.result as string);
         const validatedQuestions = validateImportData(jsonContent);
-        setImportData(validatedQuestions);
-        setStep('preview');
+        setCsvSource(null);
+        setCsvTable(null);
+        showPreview(validatedQuestions, { errors: [], warnings: [] });
       } catch (error) {
         toast({
           title: 'Erro no JSON',
@@ -113,6 +240,13 @@ export function ImportQuestionsModal({ isOpen, onClose, subjects, onQuestionsImp
         correctAnswer: q.correctAnswer || undefined,
         explanation: q.explanation || undefined,
         difficulty: q.difficulty || 'medium',
+        questionType: q.questionType || undefined,
+        rubric: q.rubric || undefined,
+        answerTolerance: q.answerTolerance ?? undefined,
+        notes: typeof q.notes === 'string' ? q.notes : undefined,
+        highlights: Array.isArray(q.highlights)
+          ? q.highlights.filter((passage: unknown): passage is string => typeof passage === 'string')
+          : undefined,
         tags: q.tags || [],
         images: q.images || [],
         examiningBoard: q.examiningBoard || undefined,
@@ -132,8 +266,11 @@ export function ImportQuestionsModal({ isOpen, onClose, subjects, onQuestionsImp
     try {
       console.log(`🚀 Iniciando importação de ${importData.length} questões`);
       
+      // Data URLs do arquivo vão para o media store antes de gravar as questões
+      const storedImages = await Promise.all(importData.map(q => storeImageSources(q.images || [])));
+
       const result = await importQuestionsInBatch(
-        importData.map(q => ({
+        importData.map((q, index) => ({
           topicId: q.topicId || defaultTopicId,
           title: q.title,
           content: q.content,
@@ -141,14 +278,23 @@ export function ImportQuestionsModal({ isOpen, onClose, subjects, onQuestionsImp
           correctAnswer: q.correctAnswer,
           explanation: q.explanation,
           difficulty: q.difficulty || 'medium',
+          questionType: q.questionType,
+          rubric: q.rubric,
+          answerTolerance: q.answerTolerance,
+          notes: q.notes,
+          highlights: q.highlights,
           tags: q.tags || [],
-          images: q.images || [],
+          images: storedImages[index],
           examiningBoard: q.examiningBoard,
           position: q.position,
           examYear: q.examYear,
           institution: q.institution
         })),
-        defaultTopicId
+        defaultTopicId,
+        Object.fromEntries(duplicates.map(duplicate => [
+          duplicate.index,
+          { resolution: duplicateChoices[duplicate.index] ?? 'skip', questionId: duplicate.match.id }
+        ]))
       );
 
       // Atualizar progresso para 100%
@@ -157,17 +303,19 @@ export function ImportQuestionsModal({ isOpen, onClose, subjects, onQuestionsImp
       setImportResult({
         success: result.success,
         failed: result.failed,
+        skipped: result.skipped,
+        overwritten: result.overwritten,
         errors: result.errors
       });
 
       setIsImporting(false);
       setStep('result');
 
-      if (result.success > 0) {
-        console.log(`✅ Importação concluída: ${result.success} questões importadas`);
+      if (result.success > 0 || result.overwritten > 0) {
+        console.log(`✅ Importação concluída: ${result.success} questões importadas, ${result.overwritten} sobrescritas`);
         toast({
           title: "Importação concluída!",
-          description: `${result.success} questões foram importadas com sucesso.`,
+          description: `${result.success} questões importadas, ${result.overwritten} atualizadas e ${result.skipped} duplicadas ignoradas.`,
         });
         onQuestionsImported();
       }
@@ -200,6 +348,12 @@ export function ImportQuestionsModal({ isOpen, onClose, subjects, onQuestionsImp
     setImportResult(null);
     setStep('upload');
     setImportProgress(0);
+    setCsvSource(null);
+    setCsvTable(null);
+    setCsvMapping({});
+    setImportIssues({ errors: [], warnings: [] });
+    setDuplicates([]);
+    setDuplicateChoices({});
     onClose();
   };
 
@@ -259,10 +413,10 @@ export function ImportQuestionsModal({ isOpen, onClose, subjects, onQuestionsImp
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Upload className="h-5 w-5 text-study-primary" />
-            Importar Questões JSON
+            Importar Questões
           </DialogTitle>
           <DialogDescription>
-            Importe questões em lote usando arquivo JSON
+            Importe questões em lote a partir de JSON, planilha CSV/TSV ou Moodle (XML/GIFT)
           </DialogDescription>
         </DialogHeader>
 
@@ -272,14 +426,14 @@ export function ImportQuestionsModal({ isOpen, onClose, subjects, onQuestionsImp
               <div className="border-2 border-dashed border-border rounded-lg p-8 space-y-4">
                 <FileText className="h-12 w-12 text-muted-foreground mx-auto" />
                 <div>
-                  <h3 className="text-lg font-semibold mb-2">Selecione um arquivo JSON</h3>
+                  <h3 className="text-lg font-semibold mb-2">Selecione um arquivo JSON, CSV, TSV, Moodle XML ou GIFT</h3>
                   <p className="text-muted-foreground mb-4">
-                    Faça upload de um arquivo JSON contendo as questões
+                    Planilhas passam por um passo de mapeamento de colunas antes da prévia
                   </p>
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".json"
+                    accept=".json,.csv,.tsv,.txt,.xml,.gift"
                     onChange={handleFileUpload}
                     className="hidden"
                   />
@@ -331,20 +485,85 @@ export function ImportQuestionsModal({ isOpen, onClose, subjects, onQuestionsImp
                 </pre>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Planilha CSV/TSV</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm text-muted-foreground space-y-2">
+                <p>
+                  A primeira linha deve ter os nomes das colunas. Separador (vírgula, ponto e vírgula, tabulação ou |)
+                  e codificação (UTF-8 ou Latin-1, comum em arquivos salvos pelo Excel) são detectados automaticamente.
+                </p>
+                <p>
+                  Colunas aceitas: título, enunciado, alternativas A–E, gabarito, explicação, banca, ano,
+                  instituição, tags, matéria e tópico.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Moodle XML e GIFT</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm text-muted-foreground space-y-2">
+                <p>
+                  Questões de múltipla escolha (uma alternativa correta), verdadeiro/falso, resposta curta e dissertativas.
+                  O feedback geral vira a explicação e a categoria (…/Matéria/Tópico) define o tópico quando os nomes existem aqui.
+                </p>
+                <p>
+                  Tipos não suportados (associação, numérica, cloze, múltiplas corretas) são listados na prévia sem impedir o resto.
+                </p>
+              </CardContent>
+            </Card>
           </div>
         )}
 
+        {step === 'mapping' && csvSource && csvTable && (
+          <CsvColumnMappingStep
+            fileName={csvSource.fileName}
+            table={csvTable}
+            mapping={csvMapping}
+            onMappingChange={setCsvMapping}
+            onDelimiterChange={handleDelimiterChange}
+            onBack={() => setStep('upload')}
+            onContinue={handleMappingContinue}
+          />
+        )}
+
         {step === 'preview' && (
           <div className="space-y-6">
             <div className="flex items-center justify-between">
               <h3 className="text-lg font-semibold">
                 Preview: {importData.length} questões encontradas
               </h3>
-              <Button variant="outline" onClick={() => setStep('upload')}>
+              <Button variant="outline" onClick={() => setStep(csvTable ? 'mapping' : 'upload')}>
                 Voltar
               </Button>
             </div>
 
+            {(importIssues.errors.length > 0 || importIssues.warnings.length > 0) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">
+                    {importIssues.errors.length} ignoradas, {importIssues.warnings.length} avisos
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ScrollArea className="h-32">
+                    <ul className="space-y-1">
+                      {importIssues.errors.map((error, index) => (
+                        <li key={`e-${index}`} className="text-sm text-red-600">• {error}</li>
+                      ))}
+                      {importIssues.warnings.map((warning, index) => (
+                        <li key={`w-${index}`} className="text-sm text-yellow-600">• {warning}</li>
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Default topic selection for questions without topicId */}
             <Card>
               <CardHeader>
@@ -394,6 +613,15 @@ export function ImportQuestionsModal({ isOpen, onClose, subjects, onQuestionsImp
               </CardContent>
             </Card>
 
+            {duplicates.length > 0 && (
+              <ImportDuplicatesPanel
+                duplicates={duplicates}
+                questions={importData}
+                choices={duplicateChoices}
+                onChoicesChange={setDuplicateChoices}
+              />
+            )}
+
             {/* Questions preview */}
             <ScrollArea className="h-64">
               <div className="space-y-3">
@@ -414,6 +642,13 @@ export function ImportQuestionsModal({ isOpen, onClose, subjects, onQuestionsImp
                             {question.tags?.map(tag => (
                               <Badge key={tag} variant="outline">{tag}</Badge>
                             ))}
+                            {duplicateByIndex.has(index) && (
+                              <Badge variant="destructive">
+                                {duplicateByIndex.get(index)?.kind === 'exact'
+                                  ? 'Duplicada'
+                                  : `Parecida (${Math.round((duplicateByIndex.get(index)?.similarity ?? 0) * 100)}%)`}
+                              </Badge>
+                            )}
                           </div>
                         </div>
                         {question.topicId ? (
@@ -437,7 +672,7 @@ export function ImportQuestionsModal({ isOpen, onClose, subjects, onQuestionsImp
                 disabled={importData.length === 0 || (!defaultTopicId && importData.some(q => !q.topicId))}
                 className="flex-1"
               >
-                Importar {importData.length} Questões
+                Importar {importData.length - Object.values(duplicateChoices).filter(choice => choice === 'skip').length} Questões
               </Button>
             </div>
           </div>
@@ -467,6 +702,18 @@ export function ImportQuestionsModal({ isOpen, onClose, subjects, onQuestionsImp
                         </div>
                         <div className="text-sm text-muted-foreground">Sucessos</div>
                       </div>
+                      <div className="text-center">
+                        <div className="text-2xl font-bold text-blue-600">
+                          {importResult?.overwritten || 0}
+                        </div>
+                        <div className="text-sm text-muted-foreground">Sobrescritas</div>
+                      </div>
+                      <div className="text-center">
+                        <div className="text-2xl font-bold text-muted-foreground">
+                          {importResult?.skipped || 0}
+                        </div>
+                        <div className="text-sm text-muted-foreground">Duplicadas ignoradas</div>
+                      </div>
                       <div className="text-center">
                         <div className="text-2xl font-bold text-red-600">
                           {importResult?.failed || 0}
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Highlighter, NotebookPen, Pencil, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import RichText from '@/components/RichText';
+import { updateQuestionNotes } from '@/db/crud/questions';
+import { normalizePassage } from '@/utils/richText';
+import { toast } from '@/hooks/use-toast';
+
+interface QuestionNotesPanelProps {
+  questionId: string;
+  notes?: string;
+  highlights?: string[];
+  statementRef?: React.RefObject<HTMLElement>; // Enunciado na tela: habilita destacar o trecho selecionado
+  defaultOpen?: boolean;
+  onSaved?: (notes: string, highlights: string[]) => void;
+}
+
+/**
+ * Anotações pessoais de uma questão: nota em Markdown e trechos destacados do enunciado.
+ * Cada alteração é gravada na hora; o componente pai atualiza a questão exibida via onSaved.
+ */
+export function QuestionNotesPanel({
+  questionId,
+  notes = '',
+  highlights = [],
+  statementRef,
+  defaultOpen = true,
+  onSaved
+}: QuestionNotesPanelProps) {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(notes);
+
+  const annotationCount = (notes ? 1 : 0) + highlights.length;
+
+  const save = (nextNotes: string, nextHighlights: string[]): boolean => {
+    if (!updateQuestionNotes(questionId, nextNotes, nextHighlights)) {
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível salvar as anotações',
+        variant: 'destructive'
+      });
+      return false;
+    }
+    onSaved?.(nextNotes.trim(), nextHighlights);
+    return true;
+  };
+
+  const handleHighlightSelection = () => {
+    const statement = statementRef?.current;
+    const selection = window.getSelection();
+    const passage = normalizePassage(selection?.toString() ?? '');
+
+    if (!statement || !selection || !passage ||
+        !statement.contains(selection.anchorNode) || !statement.contains(selection.focusNode)) {
+      toast({
+        title: 'Nenhum trecho selecionado',
+        description: 'Selecione com o mouse um trecho do enunciado e clique em "Destacar seleção"'
+      });
+      return;
+    }
+
+    if (!highlights.includes(passage) && save(notes, [...highlights, passage])) {
+      selection.removeAllRanges();
+      setIsOpen(true);
+    }
+  };
+
+  const handleRemoveHighlight = (passage: string) => {
+    save(notes, highlights.filter(highlight => highlight !== passage));
+  };
+
+  const handleStartEditing = () => {
+    setDraft(notes);
+    setIsEditing(true);
+    setIsOpen(true);
+  };
+
+  const handleSaveNotes = () => {
+    if (save(draft, highlights)) {
+      setIsEditing(false);
+    }
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="border rounded-lg p-3">
+      <div className="flex items-center justify-between gap-2">
+        <CollapsibleTrigger asChild>
+          <Button type="button" variant="ghost" size="sm" className="gap-2 px-0">
+            {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            <NotebookPen className="h-4 w-4" />
+            Minhas anotações
+            {annotationCount > 0 && <Badge variant="secondary">{annotationCount}</Badge>}
+          </Button>
+        </CollapsibleTrigger>
+        {statementRef && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            // Sem isso o clique no botão desfaz a seleção do texto antes de lê-la
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={handleHighlightSelection}
+          >
+            <Highlighter className="h-4 w-4 mr-2" />
+            Destacar seleção
+          </Button>
+        )}
+      </div>
+
+      <CollapsibleContent className="space-y-3 pt-2">
+        {highlights.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Trechos destacados</p>
+            <div className="flex flex-wrap gap-1">
+              {highlights.map(passage => (
+                <Badge key={passage} variant="outline" className="gap-1 max-w-full font-normal">
+                  <mark className="bg-yellow-200 dark:bg-yellow-500/40 text-inherit rounded-sm truncate">{passage}</mark>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveHighlight(passage)}
+                    className="shrink-0 text-muted-foreground hover:text-foreground"
+                    aria-label="Remover destaque"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {isEditing ? (
+          <div className="space-y-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="Por que errei, mnemônico, pegadinha da banca... (aceita Markdown e LaTeX)"
+              rows={5}
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                Cancelar
+              </Button>
+              <Button type="button" size="sm" onClick={handleSaveNotes}>
+                Salvar anotação
+              </Button>
+            </div>
+          </div>
+        ) : notes ? (
+          <div className="space-y-1">
+            <RichText text={notes} className="prose-sm" />
+            <Button type="button" variant="link" size="sm" className="px-0 text-muted-foreground" onClick={handleStartEditing}>
+              <Pencil className="h-3 w-3 mr-1" />
+              Editar anotação
+            </Button>
+          </div>
+        ) : (
+          <Button type="button" variant="outline" size="sm" onClick={handleStartEditing}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Escrever anotação
+          </Button>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, History } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  QUESTION_FIELD_LABELS,
+  getQuestionRevisions,
+  type QuestionFieldChange,
+  type QuestionRevision
+} from '@/db/crud/questionRevisions';
+
+interface QuestionRevisionHistoryProps {
+  questionId: string;
+  topicNames: Record<string, string>; // Tema aparece pelo nome, não pelo id
+}
+
+const DIFFICULTY_LABELS: Record<string, string> = {
+  easy: 'Fácil',
+  medium: 'Médio',
+  hard: 'Difícil'
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  multiple_choice: 'Múltipla escolha',
+  true_false: 'Certo ou errado',
+  discursive: 'Discursiva',
+  short_answer: 'Resposta curta'
+};
+
+// Valor de um campo em texto curto para o diff
+const describeValue = (
+  change: QuestionFieldChange,
+  value: QuestionFieldChange['before'],
+  topicNames: Record<string, string>
+): string => {
+  if (value === null || value === '') return '—';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    if (change.field === 'options') {
+      return (value as Array<{ label: string; content: string; isCorrect: boolean }>)
+        .map(option => `${option.label}) ${option.content}${option.isCorrect ? ' ✓' : ''}`)
+        .join('\n');
+    }
+    if (change.field === 'images') return `${value.length} imagens`;
+    if (change.field === 'rubric') {
+      return (value as Array<{ description: string; weight: number }>)
+        .map(criterion => `${criterion.description} (peso ${criterion.weight})`)
+        .join('\n');
+    }
+    return (value as string[]).join(', ');
+  }
+  if (change.field === 'topicId') return topicNames[value as string] ?? String(value);
+  if (change.field === 'difficulty') return DIFFICULTY_LABELS[value as string] ?? String(value);
+  if (change.field === 'questionType') return TYPE_LABELS[value as string] ?? String(value);
+  return String(value);
+};
+
+export function QuestionRevisionHistory({ questionId, topicNames }: QuestionRevisionHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [revisions, setRevisions] = useState<QuestionRevision[]>([]);
+
+  useEffect(() => {
+    setRevisions(getQuestionRevisions(questionId));
+  }, [questionId]);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger asChild>
+        <Button type="button" variant="ghost" size="sm" className="gap-2 px-0">
+          {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          <History className="h-4 w-4" />
+          Histórico de edições ({revisions.length})
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-2">
+        {revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Esta questão ainda não foi editada.</p>
+        ) : (
+          revisions.map(revision => (
+            <div key={revision.id} className="border rounded-md p-3 space-y-2">
+              <div className="flex items-center gap-2 flex-wrap text-sm">
+                <Badge variant="outline">Revisão {revision.revision}</Badge>
+                <span className="text-muted-foreground">{revision.createdAt.toLocaleString('pt-BR')}</span>
+                {revision.regradedAttempts > 0 && (
+                  <Badge variant="secondary">{revision.regradedAttempts} tentativas recorrigidas</Badge>
+                )}
+              </div>
+              {revision.changes.map(change => (
+                <div key={change.field} className="text-xs space-y-1">
+                  <p className="font-medium">{QUESTION_FIELD_LABELS[change.field]}</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <p className="whitespace-pre-wrap rounded bg-red-500/10 p-2 line-through decoration-red-500/50">
+                      {describeValue(change, change.before, topicNames)}
+                    </p>
+                    <p className="whitespace-pre-wrap rounded bg-green-500/10 p-2">
+                      {describeValue(change, change.after, topicNames)}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,100 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { FacetValue, QuestionFacets, QuestionSearchFilters as Filters } from '@/db/crud/questionSearch';
+
+interface QuestionSearchFiltersProps {
+  facets: QuestionFacets;
+  filters: Filters;
+  onFiltersChange: (filters: Filters) => void;
+}
+
+type FacetKey = 'examiningBoard' | 'examYear' | 'institution' | 'position' | 'tag' | 'room' | 'status';
+
+const ALL = 'all';
+
+const ROOM_OPTIONS: FacetValue[] = [
+  { value: 'triagem', count: 0 },
+  { value: 'vermelha', count: 0 },
+  { value: 'amarela', count: 0 },
+  { value: 'verde', count: 0 }
+];
+
+const ROOM_LABELS: Record<string, string> = {
+  triagem: 'Triagem',
+  vermelha: 'Sala Vermelha',
+  amarela: 'Sala Amarela',
+  verde: 'Sala Verde'
+};
+
+const STATUS_OPTIONS: FacetValue[] = [
+  { value: 'unanswered', count: 0 },
+  { value: 'wrong', count: 0 }
+];
+
+const STATUS_LABELS: Record<string, string> = {
+  unanswered: 'Nunca respondidas',
+  wrong: 'Já errei'
+};
+
+export function QuestionSearchFilters({ facets, filters, onFiltersChange }: QuestionSearchFiltersProps) {
+  const selects: Array<{
+    key: FacetKey;
+    placeholder: string;
+    allLabel: string;
+    options: FacetValue[];
+    labels?: Record<string, string>;
+  }> = [
+    { key: 'examiningBoard', placeholder: 'Banca', allLabel: 'Todas as bancas', options: facets.examiningBoards },
+    { key: 'examYear', placeholder: 'Ano', allLabel: 'Todos os anos', options: facets.examYears },
+    { key: 'institution', placeholder: 'Instituição', allLabel: 'Todas as instituições', options: facets.institutions },
+    { key: 'position', placeholder: 'Cargo', allLabel: 'Todos os cargos', options: facets.positions },
+    { key: 'tag', placeholder: 'Tag', allLabel: 'Todas as tags', options: facets.tags },
+    { key: 'room', placeholder: 'Sala', allLabel: 'Todas as salas', options: ROOM_OPTIONS, labels: ROOM_LABELS },
+    { key: 'status', placeholder: 'Situação', allLabel: 'Qualquer situação', options: STATUS_OPTIONS, labels: STATUS_LABELS }
+  ];
+
+  const activeCount = selects.filter(({ key }) => filters[key]).length;
+
+  const updateFilter = (key: FacetKey, value: string) => {
+    onFiltersChange({ ...filters, [key]: value === ALL ? undefined : value });
+  };
+
+  const clearFilters = () => {
+    const cleared = { ...filters };
+    selects.forEach(({ key }) => delete cleared[key]);
+    onFiltersChange(cleared);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {selects
+        // Metadados que nenhuma questão tem não viram filtro
+        .filter(({ key, options }) => options.length > 0 || filters[key])
+        .map(({ key, placeholder, allLabel, options, labels }) => (
+          <Select key={key} value={filters[key] ?? ALL} onValueChange={value => updateFilter(key, value)}>
+            <SelectTrigger className="w-full sm:w-44 h-9">
+              <SelectValue placeholder={placeholder} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{allLabel}</SelectItem>
+              {options.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {labels?.[option.value] ?? option.value}
+                  {option.count > 0 && <span className="text-muted-foreground"> ({option.count})</span>}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ))}
+
+      {activeCount > 0 && (
+        <Button variant="ghost" size="sm" onClick={clearFilters} className="gap-1 h-9">
+          <X className="h-4 w-4" />
+          Limpar filtros ({activeCount})
+        </Button>
+      )}
+    </div>
+  );
+}
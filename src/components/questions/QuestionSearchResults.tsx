@@ -0,0 +1,131 @@
+import React from 'react';
+import { Edit, Eye, NotebookPen, SearchX, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { getRoomColor } from '@/types/enemy';
+import type { Question } from '@/types/battle';
+import { SNIPPET_END, SNIPPET_START, type QuestionSearchResult } from '@/db/crud/questionSearch';
+
+interface QuestionSearchResultsProps {
+  result: QuestionSearchResult;
+  onViewQuestion: (question: Question) => void;
+  onEditQuestion: (question: Question) => void;
+  onDeleteQuestion: (questionId: string) => void;
+}
+
+const DIFFICULTY_LABELS: Record<string, string> = {
+  easy: 'Fácil',
+  medium: 'Médio',
+  hard: 'Difícil'
+};
+
+// Trechos entre os marcadores do snippet() ficam destacados
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(SNIPPET_START);
+  return (
+    <p className="text-sm text-muted-foreground line-clamp-2">
+      {parts[0]}
+      {parts.slice(1).map((part, index) => {
+        const [highlighted, rest = ''] = part.split(SNIPPET_END);
+        return (
+          <React.Fragment key={index}>
+            <mark className="bg-study-primary/20 text-foreground rounded px-0.5">{highlighted}</mark>
+            {rest}
+          </React.Fragment>
+        );
+      })}
+    </p>
+  );
+}
+
+export function QuestionSearchResults({ result, onViewQuestion, onEditQuestion, onDeleteQuestion }: QuestionSearchResultsProps) {
+  if (result.total === 0) {
+    return (
+      <Card>
+        <CardContent className="p-12 text-center">
+          <SearchX className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-foreground mb-2">Nenhuma questão encontrada</h3>
+          <p className="text-muted-foreground">Tente outras palavras ou remova alguns filtros</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">
+          {result.total} {result.total === 1 ? 'questão encontrada' : 'questões encontradas'}
+          {result.hits.length < result.total && (
+            <span className="text-sm font-normal text-muted-foreground"> (mostrando as {result.hits.length} primeiras)</span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {result.hits.map(({ question, snippet }) => (
+          <div key={question.id} className="p-4 border border-border rounded-lg bg-card/50 hover:bg-card/80 transition-colors">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex-1 min-w-0 space-y-2">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className={`h-2.5 w-2.5 rounded-full shrink-0 ${getRoomColor(question.room)}`} />
+                  <h4 className="font-medium text-foreground">{question.title}</h4>
+                  <Badge variant="outline">{DIFFICULTY_LABELS[question.difficulty] ?? question.difficulty}</Badge>
+                  {question.notes && (
+                    <Badge variant="secondary" className="gap-1">
+                      <NotebookPen className="h-3 w-3" />
+                      Anotada
+                    </Badge>
+                  )}
+                </div>
+
+                {snippet ? (
+                  <Snippet text={snippet} />
+                ) : (
+                  <p className="text-sm text-muted-foreground line-clamp-2">{question.content}</p>
+                )}
+
+                <div className="flex gap-1 flex-wrap text-xs">
+                  <Badge variant="secondary" className="text-xs">
+                    {question.subjectName} / {question.topicName}
+                  </Badge>
+                  {[question.examiningBoard, question.examYear, question.institution, question.position]
+                    .filter(Boolean)
+                    .map(value => (
+                      <Badge key={value} variant="outline" className="text-xs">{value}</Badge>
+                    ))}
+                  {(question.tags || []).map(tag => (
+                    <Badge key={`tag-${tag}`} variant="secondary" className="text-xs">#{tag}</Badge>
+                  ))}
+                </div>
+
+                <div className="text-xs text-muted-foreground">
+                  {question.timesAnswered > 0
+                    ? `${question.timesCorrect}/${question.timesAnswered} acertos (${Math.round(question.accuracyRate)}%)`
+                    : 'Nunca respondida'}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="sm" onClick={() => onViewQuestion(question)} className="h-8 w-8 p-0">
+                  <Eye className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => onEditQuestion(question)} className="h-8 w-8 p-0">
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onDeleteQuestion(question.id)}
+                  className="h-8 w-8 p-0 text-study-danger hover:text-study-danger"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,12 @@
 import React, { useState } from 'react';
-import { ChevronDown, ChevronRight, Plus, AlertTriangle, FileText, Edit, Trash2, Eye } from 'lucide-react';
+import { ChevronDown, ChevronRight, Plus, AlertTriangle, FileText, Edit, Trash2, Eye, NotebookPen } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { cn } from '@/lib/utils';
 import { Subject, Topic, Question } from '@/types/questions';
+import RichText from '@/components/RichText';
 
 interface QuestionsSectionProps {
   subject: Subject;
@@ -69,9 +70,18 @@ function QuestionItem({ question, onEdit, onDelete, onView }: QuestionItemProps)
             </Badge>
           </div>
           
-          <p className="text-sm text-muted-foreground line-clamp-2">
-            {question.content}
-          </p>
+          <RichText
+            text={question.content}
+            highlights={question.highlights}
+            className="prose-sm line-clamp-2 prose-p:text-muted-foreground"
+          />
+
+          {question.notes && (
+            <div className="flex items-start gap-2 border-l-2 border-yellow-400 pl-2">
+              <NotebookPen className="h-3 w-3 mt-1 shrink-0 text-muted-foreground" />
+              <RichText text={question.notes} className="prose-sm line-clamp-2 prose-p:text-muted-foreground" />
+            </div>
+          )}
           
           {question.tags && question.tags.length > 0 && (
             <div className="flex gap-1 flex-wrap">
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { RubricCriterion } from '@/types/battle';
+
+interface RubricEditorProps {
+  rubric: RubricCriterion[];
+  onChange: (rubric: RubricCriterion[]) => void;
+}
+
+// Critérios com peso da autocorreção de uma discursiva
+export function RubricEditor({ rubric, onChange }: RubricEditorProps) {
+  const totalWeight = rubric.reduce((sum, criterion) => sum + (criterion.weight > 0 ? criterion.weight : 0), 0);
+
+  const updateCriterion = (index: number, changes: Partial<RubricCriterion>) => {
+    onChange(rubric.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Rubrica de correção</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...rubric, { description: '', weight: 1 }])}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Critério
+        </Button>
+      </div>
+      {rubric.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Sem critérios, a resposta é avaliada como um todo (atendeu, parcial ou não atendeu).
+        </p>
+      ) : (
+        rubric.map((criterion, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={criterion.description}
+              onChange={(e) => updateCriterion(index, { description: e.target.value })}
+              placeholder="Ex: Cita o princípio da legalidade"
+              className="flex-1"
+            />
+            <Input
+              type="number"
+              min={0}
+              step={0.5}
+              value={criterion.weight}
+              onChange={(e) => updateCriterion(index, { weight: Number(e.target.value) })}
+              className="w-20"
+              aria-label="Peso"
+            />
+            <span className="text-xs text-muted-foreground w-10 text-right">
+              {totalWeight > 0 && criterion.weight > 0 ? `${Math.round((criterion.weight / totalWeight) * 100)}%` : '—'}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(rubric.filter((_, i) => i !== index))}
+              className="h-8 w-8 p-0 text-study-danger hover:text-study-danger"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import React, { useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Download, Loader2, Upload } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { exportAnkiPackage, importAnkiPackage, type AnkiImportSummary } from '@/db/crud/ankiPackages';
+
+interface AnkiTopic {
+  id: string;
+  name: string;
+  subject_name: string;
+}
+
+interface AnkiPackageModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  topics: AnkiTopic[];
+  onImported: () => void;
+}
+
+const AnkiPackageModal: React.FC<AnkiPackageModalProps> = ({ open, onOpenChange, topics, onImported }) => {
+  const [isImporting, setIsImporting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [importSummary, setImportSummary] = useState<AnkiImportSummary | null>(null);
+  const [selectedTopics, setSelectedTopics] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsImporting(true);
+    setImportSummary(null);
+    try {
+      const summary = await importAnkiPackage(await file.arrayBuffer());
+      setImportSummary(summary);
+      toast({
+        title: 'Importação concluída',
+        description: `${summary.cardsImported} flashcards importados do Anki`
+      });
+      onImported();
+    } catch (error) {
+      console.error('Error importing Anki package:', error);
+      toast({
+        title: 'Erro na importação',
+        description: error instanceof Error ? error.message : 'Não foi possível ler o arquivo .apkg',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const toggleTopic = (topicId: string, checked: boolean) => {
+    setSelectedTopics(prev => checked ? [...prev, topicId] : prev.filter(id => id !== topicId));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const { data, cardCount } = await exportAnkiPackage(selectedTopics);
+      const blob = new Blob([data], { type: 'application/octet-stream' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `flashcards-${format(new Date(), 'yyyy-MM-dd')}.apkg`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: 'Exportação concluída',
+        description: `${cardCount} flashcards exportados para o Anki`
+      });
+    } catch (error) {
+      console.error('Error exporting Anki package:', error);
+      toast({
+        title: 'Erro na exportação',
+        description: 'Não foi possível gerar o arquivo .apkg',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Anki</DialogTitle>
+          <DialogDescription>
+            Importe baralhos (.apkg) com histórico de revisões ou exporte seus flashcards para o Anki.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="import">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="import">Importar</TabsTrigger>
+            <TabsTrigger value="export">Exportar</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="import" className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Cada baralho vira uma matéria e um tópico ("Matéria::Tópico"). Notas de omissão são mantidas
+              como cards de omissão e o agendamento do Anki é preservado. Cards já importados são ignorados.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".apkg"
+              className="hidden"
+              onChange={handleFileSelected}
+            />
+            <Button onClick={() => fileInputRef.current?.click()} disabled={isImporting} className="w-full">
+              {isImporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Selecionar arquivo .apkg
+            </Button>
+
+            {importSummary && (
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">{importSummary.cardsImported} cards importados</Badge>
+                {importSummary.cardsSkipped > 0 && (
+                  <Badge variant="outline">{importSummary.cardsSkipped} já existentes</Badge>
+                )}
+                <Badge variant="outline">{importSummary.reviewsImported} revisões no histórico</Badge>
+                <Badge variant="outline">{importSummary.subjectsCreated} matérias novas</Badge>
+                <Badge variant="outline">{importSummary.topicsCreated} tópicos novos</Badge>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="export" className="space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">Cada tópico vira um baralho "Matéria::Tópico".</p>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelectedTopics(selectedTopics.length === topics.length ? [] : topics.map(topic => topic.id))}
+              >
+                {selectedTopics.length === topics.length ? 'Limpar' : 'Selecionar todos'}
+              </Button>
+            </div>
+            <ScrollArea className="h-64 border rounded-md p-3">
+              <div className="space-y-2">
+                {topics.map(topic => (
+                  <div key={topic.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`anki-topic-${topic.id}`}
+                      checked={selectedTopics.includes(topic.id)}
+                      onCheckedChange={(checked) => toggleTopic(topic.id, checked as boolean)}
+                    />
+                    <Label htmlFor={`anki-topic-${topic.id}`} className="text-sm">
+                      {topic.subject_name} - {topic.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+            <Button onClick={handleExport} disabled={isExporting || selectedTopics.length === 0} className="w-full">
+              {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              Exportar .apkg
+            </Button>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AnkiPackageModal;
@@ -3,23 +3,24 @@
  * Native backup/restore functionality following HeroTask pattern
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { toast } from '@/hooks/use-toast';
-import { Download, Upload, Database, FileJson, HardDrive, RotateCcw } from 'lucide-react';
+import { Download, Upload, Database, FileArchive, HardDrive, RotateCcw, Image, Trash2 } from 'lucide-react';
 import { 
-  createJsonBackup, 
+  createArchiveBackup, 
   createSQLiteBackup, 
-  restoreFromJsonBackup, 
+  restoreFromBackup, 
   validateBackupFile,
   getBackupStats,
   getAutomaticBackups,
   restoreFromAutomaticBackup
 } from '@/utils/backupRestore';
 import { useDatabaseStats } from '@/hooks/useStudyDatabase';
+import { collectMediaGarbage, getMediaStats, type MediaStats } from '@/db/media/mediaStore';
 
 interface BackupRestoreManagerProps {
   onBackupCreated?: () => void;
@@ -32,17 +33,23 @@ export function BackupRestoreManager({ onBackupCreated, onDataRestored }: Backup
   const [isRestoring, setIsRestoring] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [fileValidation, setFileValidation] = useState<{ isValid: boolean; metadata?: any; error?: string } | null>(null);
+  const [mediaStats, setMediaStats] = useState<MediaStats>({ count: 0, totalSize: 0 });
+  const [isCleaningMedia, setIsCleaningMedia] = useState(false);
   
   const automaticBackups = getAutomaticBackups();
   const backupStats = getBackupStats();
 
-  const handleCreateJsonBackup = async () => {
+  useEffect(() => {
+    getMediaStats().then(setMediaStats);
+  }, []);
+
+  const handleCreateArchiveBackup = async () => {
     try {
       setIsCreatingBackup(true);
-      await createJsonBackup();
+      await createArchiveBackup();
       onBackupCreated?.();
     } catch (error) {
-      // Error already handled in createJsonBackup
+      // Error already handled in createArchiveBackup
     } finally {
       setIsCreatingBackup(false);
     }
@@ -83,7 +90,7 @@ export function BackupRestoreManager({ onBackupCreated, onDataRestored }: Backup
 
     try {
       setIsRestoring(true);
-      await restoreFromJsonBackup(selectedFile);
+      await restoreFromBackup(selectedFile);
       onDataRestored?.();
       
       // Reset form
@@ -93,7 +100,7 @@ export function BackupRestoreManager({ onBackupCreated, onDataRestored }: Backup
       if (fileInput) fileInput.value = '';
       
     } catch (error) {
-      // Error already handled in restoreFromJsonBackup
+      // Error already handled in restoreFromBackup
     } finally {
       setIsRestoring(false);
     }
@@ -111,6 +118,21 @@ export function BackupRestoreManager({ onBackupCreated, onDataRestored }: Backup
     }
   };
 
+  const handleCleanMedia = async () => {
+    try {
+      setIsCleaningMedia(true);
+      // Sem carência: limpeza pedida pelo usuário, nenhum formulário aberto aqui
+      const removed = await collectMediaGarbage(0);
+      setMediaStats(await getMediaStats());
+      toast({
+        title: "Mídias verificadas",
+        description: removed > 0 ? `${removed} imagens sem uso foram removidas` : "Nenhuma imagem sem uso encontrada"
+      });
+    } finally {
+      setIsCleaningMedia(false);
+    }
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -169,20 +191,20 @@ export function BackupRestoreManager({ onBackupCreated, onDataRestored }: Backup
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-3">
               <div className="flex items-center gap-2">
-                <FileJson className="h-4 w-4" />
-                <span className="font-medium">Backup JSON</span>
+                <FileArchive className="h-4 w-4" />
+                <span className="font-medium">Backup Completo</span>
                 <Badge variant="secondary">Recomendado</Badge>
               </div>
               <p className="text-sm text-muted-foreground">
-                Backup completo em formato JSON. Compatível com importação e fácil de ler.
+                Arquivo .zip com os dados em JSON e todas as imagens de questões e flashcards.
               </p>
               <Button 
-                onClick={handleCreateJsonBackup}
+                onClick={handleCreateArchiveBackup}
                 disabled={isCreatingBackup}
                 className="w-full"
               >
-                <FileJson className="h-4 w-4 mr-2" />
-                {isCreatingBackup ? 'Criando...' : 'Backup JSON'}
+                <FileArchive className="h-4 w-4 mr-2" />
+                {isCreatingBackup ? 'Criando...' : 'Backup Completo (.zip)'}
               </Button>
             </div>
 
@@ -208,6 +230,30 @@ export function BackupRestoreManager({ onBackupCreated, onDataRestored }: Backup
         </CardContent>
       </Card>
 
+      {/* Media Store */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Image className="h-5 w-5" />
+            Mídias
+          </CardTitle>
+          <CardDescription>
+            Imagens de questões e flashcards, guardadas fora do banco de dados e sem duplicatas
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-between gap-4">
+            <div className="text-sm text-muted-foreground">
+              {mediaStats.count} imagens • {formatFileSize(mediaStats.totalSize)}
+            </div>
+            <Button variant="outline" onClick={handleCleanMedia} disabled={isCleaningMedia}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              {isCleaningMedia ? 'Verificando...' : 'Remover imagens sem uso'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Restore Backup */}
       <Card>
         <CardHeader>
@@ -223,12 +269,12 @@ export function BackupRestoreManager({ onBackupCreated, onDataRestored }: Backup
           <div className="space-y-4">
             <div>
               <label htmlFor="backup-file" className="block text-sm font-medium mb-2">
-                Selecionar arquivo de backup (JSON)
+                Selecionar arquivo de backup (.zip ou JSON)
               </label>
               <input
                 id="backup-file"
                 type="file"
-                accept=".json"
+                accept=".zip,.json"
                 onChange={handleFileSelect}
                 className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary file:text-primary-foreground hover:file:bg-primary/90"
               />
@@ -246,6 +292,9 @@ export function BackupRestoreManager({ onBackupCreated, onDataRestored }: Backup
                         <p>Data: {new Date(fileValidation.metadata.exportedAt).toLocaleString()}</p>
                         <p>Registros: {fileValidation.metadata.totalRecords}</p>
                         <p>Tabelas: {fileValidation.metadata.tables?.length || 0}</p>
+                        {fileValidation.metadata.mediaFiles !== undefined && (
+                          <p>Mídias: {fileValidation.metadata.mediaFiles}</p>
+                        )}
                       </div>
                     )}
                   </div>
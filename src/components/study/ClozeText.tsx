@@ -0,0 +1,38 @@
+import React from 'react';
+import { parseClozeSegments } from '@/utils/cloze';
+
+interface ClozeTextProps {
+  text: string;
+  clozeIndex: number;
+  revealed: boolean;
+  className?: string;
+}
+
+/**
+ * Exibe uma nota de omissão escondendo (ou destacando) apenas a omissão do cartão atual
+ */
+const ClozeText: React.FC<ClozeTextProps> = ({ text, clozeIndex, revealed, className }) => {
+  const segments = parseClozeSegments(text);
+
+  return (
+    <p className={`whitespace-pre-wrap ${className || ''}`}>
+      {segments.map((segment, index) => {
+        if (segment.clozeIndex !== clozeIndex) {
+          return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+        }
+
+        return revealed ? (
+          <span key={index} className="font-semibold text-primary underline decoration-dotted">
+            {segment.text}
+          </span>
+        ) : (
+          <span key={index} className="font-semibold text-primary">
+            [{segment.hint || '...'}]
+          </span>
+        );
+      })}
+    </p>
+  );
+};
+
+export default ClozeText;
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { CalendarCheck, ChevronDown, ChevronRight, ShieldCheck } from 'lucide-react';
+import type { ReviewSettings } from '@/db/crud/reviewSettings';
+import { ensureFinalTopicReviews, getExamPreview, type ExamPlanItemKind, type ExamPreview } from '@/db/crud/examPlan';
+
+interface ExamModePreviewPanelProps {
+  draftSettings: ReviewSettings;
+}
+
+const KIND_LABELS: Record<ExamPlanItemKind, string> = {
+  flashcard: 'Flashcard',
+  question: 'Questão',
+  enemy_topic: 'Inimigo'
+};
+
+// Itens listados por tópico ao expandir
+const MAX_ITEMS_PER_TOPIC = 10;
+
+const ExamModePreviewPanel: React.FC<ExamModePreviewPanelProps> = ({ draftSettings }) => {
+  const [preview, setPreview] = useState<ExamPreview | null>(null);
+  const [expandedTopic, setExpandedTopic] = useState<string | null>(null);
+
+  const { examFinalReviewDays, examNewCardCutoffDays } = draftSettings;
+
+  useEffect(() => {
+    setPreview(getExamPreview({ examFinalReviewDays, examNewCardCutoffDays }));
+  }, [examFinalReviewDays, examNewCardCutoffDays]);
+
+  const handleEnsureFinalReviews = () => {
+    const moved = ensureFinalTopicReviews();
+    toast({
+      title: moved > 0 ? "Revisões finais agendadas" : "Nada a agendar",
+      description: moved > 0
+        ? `${moved} tópicos ganharam uma revisão na reta final`
+        : "Todos os tópicos já têm revisão na reta final (ou o modo exame salvo ainda não está ativo)"
+    });
+    setPreview(getExamPreview({ examFinalReviewDays, examNewCardCutoffDays }));
+  };
+
+  if (!preview) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <CalendarCheck className="h-4 w-4" />
+            <span>Prévia até o Exame</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            Defina uma data de exame futura no plano de estudos para ver a prévia.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <CalendarCheck className="h-4 w-4" />
+          <span>Prévia até o Exame</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Itens já estudados que vencem antes do exame ({format(preview.examDate, 'dd/MM/yyyy')}), por tópico.
+          A reta final começa em {format(preview.finalWindowStart, 'dd/MM')} e não entra material novo a partir de {format(preview.newCardsCutoff, 'dd/MM')}.
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="outline">{preview.daysUntilExam} dias até o exame</Badge>
+          <Badge variant="outline">{preview.totalItems} itens a revisar</Badge>
+          <Badge variant="outline">{preview.topics.length} tópicos estudados</Badge>
+          {preview.uncoveredTopics > 0 ? (
+            <Badge variant="destructive">{preview.uncoveredTopics} sem revisão na reta final</Badge>
+          ) : (
+            <Badge variant="secondary">Todos os tópicos cobertos</Badge>
+          )}
+        </div>
+
+        {preview.uncoveredTopics > 0 && (
+          <Button variant="outline" onClick={handleEnsureFinalReviews}>
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Garantir revisão final
+          </Button>
+        )}
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {preview.topics.map(topic => {
+            const expanded = expandedTopic === topic.topicId;
+            return (
+              <div key={topic.topicId} className="border rounded-md">
+                <button
+                  type="button"
+                  className="w-full flex items-center justify-between gap-2 p-2 text-left hover:bg-muted/50"
+                  onClick={() => setExpandedTopic(expanded ? null : topic.topicId)}
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    {expanded ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+                    <span className="text-sm truncate">{topic.subjectName} • {topic.topicName}</span>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Badge variant="outline">{topic.items.length} itens</Badge>
+                    {!topic.coveredInFinalWindow && <Badge variant="destructive">Sem reta final</Badge>}
+                  </div>
+                </button>
+
+                {expanded && (
+                  <div className="border-t p-2 space-y-1">
+                    {topic.items.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">Nenhum item vence antes do exame</p>
+                    ) : (
+                      topic.items.slice(0, MAX_ITEMS_PER_TOPIC).map(item => (
+                        <div key={`${item.kind}-${item.id}`} className="flex items-center justify-between gap-2 text-xs">
+                          <span className="truncate">
+                            <span className="text-muted-foreground">{KIND_LABELS[item.kind]}:</span> {item.label}
+                          </span>
+                          <span className="shrink-0 text-muted-foreground">
+                            {format(item.dueDate, 'dd/MM')} • {(item.retrievability * 100).toFixed(0)}%
+                          </span>
+                        </div>
+                      ))
+                    )}
+                    {topic.items.length > MAX_ITEMS_PER_TOPIC && (
+                      <p className="text-xs text-muted-foreground">+{topic.items.length - MAX_ITEMS_PER_TOPIC} itens</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExamModePreviewPanel;
@@ -0,0 +1,334 @@
+import React, { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import {
+  FILTERED_DECK_ORDER_LABELS,
+  createFilteredDeck,
+  getFilteredDeckCards,
+  updateFilteredDeck,
+  type FilteredDeck,
+  type FilteredDeckCriteria,
+  type FilteredDeckInput,
+  type FilteredDeckOrder
+} from '@/db/crud/filteredDecks';
+import type { Flashcard } from '@/db/crud/flashcards';
+
+interface DeckTopic {
+  id: string;
+  name: string;
+  subject_id: string;
+  subject_name: string;
+}
+
+interface FilteredDeckModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  deck: FilteredDeck | null; // null = novo deck
+  topics: DeckTopic[];
+  availableTags: string[];
+  onSaved: () => void;
+}
+
+const TYPE_LABELS: Record<Flashcard['type'], string> = {
+  concept: 'Conceito',
+  definition: 'Definição',
+  formula: 'Fórmula',
+  custom: 'Personalizado',
+  cloze: 'Omissão'
+};
+
+const DIFFICULTY_LABELS: Record<Flashcard['difficulty'], string> = {
+  easy: 'Fácil',
+  medium: 'Médio',
+  hard: 'Difícil'
+};
+
+const EMPTY_DECK: FilteredDeckInput = {
+  name: '',
+  criteria: {},
+  cardLimit: 50,
+  order: 'due',
+  reschedule: false
+};
+
+const toggleValue = <T,>(values: T[] | undefined, value: T, checked: boolean): T[] =>
+  checked ? [...(values || []), value] : (values || []).filter(item => item !== value);
+
+const FilteredDeckModal: React.FC<FilteredDeckModalProps> = ({
+  open,
+  onOpenChange,
+  deck,
+  topics,
+  availableTags,
+  onSaved
+}) => {
+  const [form, setForm] = useState<FilteredDeckInput>(EMPTY_DECK);
+
+  useEffect(() => {
+    if (open) {
+      setForm(deck ? { name: deck.name, criteria: deck.criteria, cardLimit: deck.cardLimit, order: deck.order, reschedule: deck.reschedule } : EMPTY_DECK);
+    }
+  }, [open, deck]);
+
+  const subjects = useMemo(() => {
+    const unique = new Map<string, string>();
+    topics.forEach(topic => unique.set(topic.subject_id, topic.subject_name));
+    return Array.from(unique, ([id, name]) => ({ id, name }));
+  }, [topics]);
+
+  const setCriteria = (criteria: Partial<FilteredDeckCriteria>) => {
+    setForm(prev => ({ ...prev, criteria: { ...prev.criteria, ...criteria } }));
+  };
+
+  // Tópicos visíveis respeitam as matérias escolhidas
+  const visibleTopics = form.criteria.subjectIds?.length
+    ? topics.filter(topic => form.criteria.subjectIds!.includes(topic.subject_id))
+    : topics;
+
+  // A contagem só depende dos critérios; o valor adiado mantém os campos numéricos responsivos
+  const deferredCriteria = useDeferredValue(form.criteria);
+  const matchingCount = useMemo(
+    () => open
+      ? getFilteredDeckCards({ criteria: deferredCriteria, cardLimit: Number.MAX_SAFE_INTEGER, order: 'due' }).length
+      : 0,
+    [open, deferredCriteria]
+  );
+
+  const handleSave = () => {
+    if (!form.name.trim()) {
+      toast({
+        title: "Erro",
+        description: "Dê um nome ao deck filtrado",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const input = { ...form, name: form.name.trim(), cardLimit: Math.max(1, form.cardLimit) };
+      if (deck) {
+        updateFilteredDeck(deck.id, input);
+      } else {
+        createFilteredDeck(input);
+      }
+      toast({
+        title: "Sucesso",
+        description: deck ? "Deck filtrado atualizado" : "Deck filtrado criado"
+      });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving filtered deck:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao salvar deck filtrado",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const parseOptionalNumber = (value: string): number | undefined =>
+    value === '' ? undefined : Math.max(0, parseInt(value, 10) || 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{deck ? 'Editar Deck Filtrado' : 'Novo Deck Filtrado'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="deck-name">Nome</Label>
+            <Input
+              id="deck-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Ex.: Constitucional - erros da semana"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Matérias</Label>
+              <ScrollArea className="h-32 border rounded-md p-2">
+                {subjects.map(subject => (
+                  <div key={subject.id} className="flex items-center space-x-2 py-0.5">
+                    <Checkbox
+                      id={`deck-subject-${subject.id}`}
+                      checked={form.criteria.subjectIds?.includes(subject.id) || false}
+                      onCheckedChange={(checked) => setCriteria({ subjectIds: toggleValue(form.criteria.subjectIds, subject.id, checked as boolean) })}
+                    />
+                    <Label htmlFor={`deck-subject-${subject.id}`} className="text-sm font-normal">{subject.name}</Label>
+                  </div>
+                ))}
+              </ScrollArea>
+            </div>
+            <div>
+              <Label>Tópicos</Label>
+              <ScrollArea className="h-32 border rounded-md p-2">
+                {visibleTopics.map(topic => (
+                  <div key={topic.id} className="flex items-center space-x-2 py-0.5">
+                    <Checkbox
+                      id={`deck-topic-${topic.id}`}
+                      checked={form.criteria.topicIds?.includes(topic.id) || false}
+                      onCheckedChange={(checked) => setCriteria({ topicIds: toggleValue(form.criteria.topicIds, topic.id, checked as boolean) })}
+                    />
+                    <Label htmlFor={`deck-topic-${topic.id}`} className="text-sm font-normal">{topic.name}</Label>
+                  </div>
+                ))}
+              </ScrollArea>
+            </div>
+          </div>
+
+          {availableTags.length > 0 && (
+            <div>
+              <Label>Tags</Label>
+              <div className="flex flex-wrap gap-2 mt-1">
+                {availableTags.map(tag => {
+                  const selected = form.criteria.tags?.includes(tag) || false;
+                  return (
+                    <Badge
+                      key={tag}
+                      variant={selected ? 'default' : 'outline'}
+                      className="cursor-pointer"
+                      onClick={() => setCriteria({ tags: toggleValue(form.criteria.tags, tag, !selected) })}
+                    >
+                      {tag}
+                    </Badge>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Tipos</Label>
+              <div className="space-y-1 mt-1">
+                {(Object.keys(TYPE_LABELS) as Flashcard['type'][]).map(type => (
+                  <div key={type} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`deck-type-${type}`}
+                      checked={form.criteria.types?.includes(type) || false}
+                      onCheckedChange={(checked) => setCriteria({ types: toggleValue(form.criteria.types, type, checked as boolean) })}
+                    />
+                    <Label htmlFor={`deck-type-${type}`} className="text-sm font-normal">{TYPE_LABELS[type]}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <Label>Dificuldades</Label>
+              <div className="space-y-1 mt-1">
+                {(Object.keys(DIFFICULTY_LABELS) as Flashcard['difficulty'][]).map(difficulty => (
+                  <div key={difficulty} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`deck-difficulty-${difficulty}`}
+                      checked={form.criteria.difficulties?.includes(difficulty) || false}
+                      onCheckedChange={(checked) => setCriteria({ difficulties: toggleValue(form.criteria.difficulties, difficulty, checked as boolean) })}
+                    />
+                    <Label htmlFor={`deck-difficulty-${difficulty}`} className="text-sm font-normal">{DIFFICULTY_LABELS[difficulty]}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="deck-lapses">Lapsos acima de</Label>
+              <Input
+                id="deck-lapses"
+                type="number"
+                min={0}
+                value={form.criteria.minLapses ?? ''}
+                onChange={(e) => setCriteria({ minLapses: parseOptionalNumber(e.target.value) })}
+                placeholder="Qualquer"
+              />
+            </div>
+            <div>
+              <Label htmlFor="deck-not-reviewed">Sem revisão há (dias)</Label>
+              <Input
+                id="deck-not-reviewed"
+                type="number"
+                min={0}
+                value={form.criteria.notReviewedDays ?? ''}
+                onChange={(e) => setCriteria({ notReviewedDays: parseOptionalNumber(e.target.value) })}
+                placeholder="Qualquer"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="deck-failed-today">Somente cards errados hoje</Label>
+            <Switch
+              id="deck-failed-today"
+              checked={form.criteria.failedToday || false}
+              onCheckedChange={(checked) => setCriteria({ failedToday: checked })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="deck-limit">Limite de cards</Label>
+              <Input
+                id="deck-limit"
+                type="number"
+                min={1}
+                value={form.cardLimit}
+                onChange={(e) => setForm({ ...form, cardLimit: parseInt(e.target.value, 10) || 1 })}
+              />
+            </div>
+            <div>
+              <Label>Ordem</Label>
+              <Select value={form.order} onValueChange={(value: FilteredDeckOrder) => setForm({ ...form, order: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FILTERED_DECK_ORDER_LABELS) as FilteredDeckOrder[]).map(order => (
+                    <SelectItem key={order} value={order}>{FILTERED_DECK_ORDER_LABELS[order]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="deck-reschedule">Reagendar cards</Label>
+              <p className="text-xs text-muted-foreground">
+                Desligado: as respostas não alteram a próxima revisão dos cards.
+              </p>
+            </div>
+            <Switch
+              id="deck-reschedule"
+              checked={form.reschedule}
+              onCheckedChange={(checked) => setForm({ ...form, reschedule: checked })}
+            />
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {matchingCount} cards atendem aos critérios
+            {matchingCount > form.cardLimit && ` (${form.cardLimit} por sessão)`}
+          </p>
+
+          <Button onClick={handleSave} className="w-full">
+            {deck ? 'Atualizar Deck' : 'Criar Deck'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FilteredDeckModal;
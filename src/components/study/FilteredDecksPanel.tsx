@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Edit, Filter, Play, Plus, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  FILTERED_DECK_ORDER_LABELS,
+  deleteFilteredDeck,
+  getFilteredDeckCards,
+  getFilteredDecks,
+  type FilteredDeck
+} from '@/db/crud/filteredDecks';
+import type { FlashcardWithTopic } from '@/db/crud/flashcards';
+import FilteredDeckModal from './FilteredDeckModal';
+import FlashcardReviewSession from './FlashcardReviewSession';
+
+interface FilteredDecksPanelProps {
+  topics: { id: string; name: string; subject_id: string; subject_name: string }[];
+  availableTags: string[];
+  onSessionComplete: () => void;
+}
+
+const FilteredDecksPanel: React.FC<FilteredDecksPanelProps> = ({ topics, availableTags, onSessionComplete }) => {
+  const [decks, setDecks] = useState<FilteredDeck[]>([]);
+  const [cardCounts, setCardCounts] = useState<Record<string, number>>({});
+  const [editingDeck, setEditingDeck] = useState<FilteredDeck | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [session, setSession] = useState<{ deck: FilteredDeck; cards: FlashcardWithTopic[] } | null>(null);
+
+  const loadDecks = () => {
+    const loaded = getFilteredDecks();
+    setDecks(loaded);
+    setCardCounts(Object.fromEntries(loaded.map(deck => [deck.id, getFilteredDeckCards(deck).length])));
+  };
+
+  useEffect(() => {
+    loadDecks();
+  }, []);
+
+  const openModal = (deck: FilteredDeck | null) => {
+    setEditingDeck(deck);
+    setIsModalOpen(true);
+  };
+
+  const handleStart = (deck: FilteredDeck) => {
+    const cards = getFilteredDeckCards(deck);
+    if (cards.length === 0) {
+      toast({
+        title: "Deck vazio",
+        description: "Nenhum card atende aos critérios deste deck no momento"
+      });
+      return;
+    }
+    setSession({ deck, cards });
+  };
+
+  const handleDelete = (deck: FilteredDeck) => {
+    if (!confirm(`Excluir o deck filtrado "${deck.name}"? Os cards não serão apagados.`)) return;
+
+    try {
+      deleteFilteredDeck(deck.id);
+      loadDecks();
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: "Erro ao excluir deck filtrado",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-muted-foreground">
+          Sessões extras montadas a partir de critérios, sem mexer no agendamento (a menos que o deck reagende).
+        </p>
+        <Button onClick={() => openModal(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Novo Deck
+        </Button>
+      </div>
+
+      {decks.length === 0 ? (
+        <div className="text-center py-8">
+          <Filter className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">Nenhum deck filtrado criado</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {decks.map(deck => (
+            <Card key={deck.id}>
+              <CardHeader className="pb-2">
+                <div className="flex items-start justify-between">
+                  <CardTitle className="text-base">{deck.name}</CardTitle>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => openModal(deck)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(deck)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="secondary">{cardCounts[deck.id] ?? 0} cards</Badge>
+                  <Badge variant="outline">Limite {deck.cardLimit}</Badge>
+                  <Badge variant="outline">{FILTERED_DECK_ORDER_LABELS[deck.order]}</Badge>
+                  {deck.reschedule && <Badge variant="outline">Reagenda</Badge>}
+                </div>
+                <Button
+                  size="sm"
+                  className="w-full"
+                  onClick={() => handleStart(deck)}
+                  disabled={!cardCounts[deck.id]}
+                >
+                  <Play className="h-4 w-4 mr-2" />
+                  Estudar
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <FilteredDeckModal
+        open={isModalOpen}
+        onOpenChange={setIsModalOpen}
+        deck={editingDeck}
+        topics={topics}
+        availableTags={availableTags}
+        onSaved={loadDecks}
+      />
+
+      {session && (
+        <FlashcardReviewSession
+          cards={session.cards}
+          title={session.deck.name}
+          reschedule={session.deck.reschedule}
+          onComplete={() => {
+            setSession(null);
+            loadDecks();
+            onSessionComplete();
+          }}
+          onClose={() => setSession(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default FilteredDecksPanel;
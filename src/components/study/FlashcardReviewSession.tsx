@@ -14,20 +14,30 @@ import {
 } from 'lucide-react';
 import { FlashcardWithTopic, updateFlashcardReview } from '@/db/crud/flashcards';
 import { useToast } from '@/hooks/use-toast';
+import ClozeText from './ClozeText';
+import RichText from '@/components/RichText';
+import MediaImage from '@/components/media/MediaImage';
 
 interface FlashcardReviewSessionProps {
   cards: FlashcardWithTopic[];
   onComplete: () => void;
   onClose: () => void;
+  title?: string;
+  reschedule?: boolean; // false = estudo extra, sem alterar o agendamento dos cartões
 }
 
 const FlashcardReviewSession: React.FC<FlashcardReviewSessionProps> = ({
   cards,
   onComplete,
-  onClose
+  onClose,
+  title = 'Sessão de Revisão',
+  reschedule = true
 }) => {
+  // Fila da sessão: irmãos de uma nota de omissão já revisada saem da fila
+  const [queue, setQueue] = useState(cards);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [showAnswer, setShowAnswer] = useState(false);
+  const [cardShownAt, setCardShownAt] = useState(Date.now());
   const [sessionStats, setSessionStats] = useState({
     correct: 0,
     incorrect: 0,
@@ -35,15 +45,23 @@ const FlashcardReviewSession: React.FC<FlashcardReviewSessionProps> = ({
   });
   const { toast } = useToast();
 
-  const currentCard = cards[currentIndex];
-  const progress = ((currentIndex) / cards.length) * 100;
+  const currentCard = queue[currentIndex];
+
+  // Reinicia o cronômetro de resposta a cada novo cartão
+  useEffect(() => {
+    setCardShownAt(Date.now());
+  }, [currentIndex]);
+  const progress = ((currentIndex) / queue.length) * 100;
 
   const handleAnswer = async (quality: 'easy' | 'good' | 'hard' | 'again') => {
     if (!currentCard) return;
 
     try {
       // Atualiza o flashcard com o resultado da revisão
-      await updateFlashcardReview(currentCard.id, quality);
+      if (reschedule) {
+        const responseTime = Math.round((Date.now() - cardShownAt) / 1000);
+        await updateFlashcardReview(currentCard.id, quality, responseTime);
+      }
       
       // Atualiza estatísticas da sessão
       setSessionStats(prev => ({
@@ -52,15 +70,21 @@ const FlashcardReviewSession: React.FC<FlashcardReviewSessionProps> = ({
         incorrect: quality === 'again' ? prev.incorrect + 1 : prev.incorrect
       }));
 
+      // Enterra os irmãos da mesma nota pelo resto da sessão
+      const remaining = currentCard.note_id
+        ? queue.filter((card, index) => index <= currentIndex || card.note_id !== currentCard.note_id)
+        : queue;
+      setQueue(remaining);
+
       // Próximo card ou finaliza sessão
-      if (currentIndex < cards.length - 1) {
+      if (currentIndex < remaining.length - 1) {
         setCurrentIndex(prev => prev + 1);
         setShowAnswer(false);
       } else {
         // Sessão completa
         toast({
           title: "Sessão Concluída!",
-          description: `Revisão completa: ${sessionStats.correct + (quality === 'again' ? 0 : 1)}/${cards.length} corretas`
+          description: `Revisão completa: ${sessionStats.correct + (quality === 'again' ? 0 : 1)}/${remaining.length} corretas`
         });
         onComplete();
       }
@@ -94,11 +118,14 @@ const FlashcardReviewSession: React.FC<FlashcardReviewSessionProps> = ({
             <div>
               <CardTitle className="flex items-center space-x-2">
                 <Target className="h-5 w-5 text-primary" />
-                <span>Sessão de Revisão</span>
+                <span>{title}</span>
               </CardTitle>
               <p className="text-sm text-muted-foreground mt-1">
                 {currentCard.subject_name} - {currentCard.topic_name}
               </p>
+              {!reschedule && (
+                <Badge variant="outline" className="mt-1">Sem reagendamento</Badge>
+              )}
             </div>
             <Button variant="ghost" size="sm" onClick={onClose}>
               ✕
@@ -108,7 +135,7 @@ const FlashcardReviewSession: React.FC<FlashcardReviewSessionProps> = ({
           {/* Progress */}
           <div className="space-y-2">
             <div className="flex justify-between text-sm">
-              <span>Progresso: {currentIndex + 1}/{cards.length}</span>
+              <span>Progresso: {currentIndex + 1}/{queue.length}</span>
               <span>{Math.round(progress)}%</span>
             </div>
             <Progress value={progress} className="h-2" />
@@ -132,18 +159,41 @@ const FlashcardReviewSession: React.FC<FlashcardReviewSessionProps> = ({
             <CardContent className="p-6">
               <div className="text-center">
                 <h3 className="text-lg font-semibold mb-4">Pergunta:</h3>
-                <p className="text-xl">{currentCard.front}</p>
+                {currentCard.type === 'cloze' ? (
+                  <ClozeText
+                    text={currentCard.front}
+                    clozeIndex={currentCard.cloze_index ?? 1}
+                    revealed={showAnswer}
+                    className="text-xl"
+                  />
+                ) : (
+                  <RichText text={currentCard.front} className="prose-lg mx-auto" />
+                )}
+                {currentCard.images && currentCard.images.length > 0 && (
+                  <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {currentCard.images.map((image, index) => (
+                      <MediaImage
+                        key={image}
+                        src={image}
+                        alt={`Imagem do flashcard ${index + 1}`}
+                        className="w-full max-h-64 object-contain rounded-lg border"
+                      />
+                    ))}
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
 
           {/* Answer */}
-          {showAnswer && (
+          {showAnswer && (currentCard.type !== 'cloze' || currentCard.back.trim()) && (
             <Card className="border-2 border-green-200 bg-green-50/50">
               <CardContent className="p-6">
                 <div className="text-center">
-                  <h3 className="text-lg font-semibold mb-4 text-green-800">Resposta:</h3>
-                  <p className="text-xl text-green-900">{currentCard.back}</p>
+                  <h3 className="text-lg font-semibold mb-4 text-green-800">
+                    {currentCard.type === 'cloze' ? 'Extra:' : 'Resposta:'}
+                  </h3>
+                  <RichText text={currentCard.back} className="prose-lg mx-auto prose-p:text-green-900" />
                 </div>
               </CardContent>
             </Card>
@@ -209,7 +259,7 @@ const FlashcardReviewSession: React.FC<FlashcardReviewSessionProps> = ({
               <div>Incorretas</div>
             </div>
             <div className="text-center">
-              <div className="text-lg font-semibold text-blue-600">{cards.length - currentIndex - 1}</div>
+              <div className="text-lg font-semibold text-blue-600">{queue.length - currentIndex - 1}</div>
               <div>Restantes</div>
             </div>
           </div>
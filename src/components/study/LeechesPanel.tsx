@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { startOfTomorrow } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { BookOpen, Bug, CheckCircle, Edit, Pause, Play, Scissors } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  LEECH_KIND_LABELS,
+  dismissLeech,
+  getLeeches,
+  scheduleLeechTheorySession,
+  setLeechSuspended,
+  type LeechItem
+} from '@/db/crud/leeches';
+import { renderClozeText } from '@/utils/cloze';
+import SplitFlashcardModal from './SplitFlashcardModal';
+
+interface LeechesPanelProps {
+  onEditFlashcard: (id: string) => void;
+  onChanged: () => void;
+}
+
+const LeechesPanel: React.FC<LeechesPanelProps> = ({ onEditFlashcard, onChanged }) => {
+  const navigate = useNavigate();
+  const [leeches, setLeeches] = useState<LeechItem[]>([]);
+  const [splittingId, setSplittingId] = useState<string | null>(null);
+
+  const loadLeeches = () => {
+    setLeeches(getLeeches());
+  };
+
+  useEffect(() => {
+    loadLeeches();
+  }, []);
+
+  const refresh = () => {
+    loadLeeches();
+    onChanged();
+  };
+
+  const handleToggleSuspended = (leech: LeechItem) => {
+    setLeechSuspended(leech, !leech.suspended);
+    refresh();
+  };
+
+  const handleDismiss = (leech: LeechItem) => {
+    dismissLeech(leech);
+    toast({
+      title: "Sanguessuga resolvida",
+      description: "O item voltou para as filas normais"
+    });
+    refresh();
+  };
+
+  const handleRewrite = (leech: LeechItem) => {
+    if (leech.kind === 'flashcard') {
+      onEditFlashcard(leech.id);
+    } else {
+      navigate('/questions');
+    }
+  };
+
+  const handleScheduleTheory = (leech: LeechItem) => {
+    const sessionId = scheduleLeechTheorySession(leech.topicId, startOfTomorrow());
+    if (!sessionId) {
+      toast({
+        title: "Erro",
+        description: "Tópico não encontrado no plano de estudos",
+        variant: "destructive"
+      });
+      return;
+    }
+    toast({
+      title: "Sessão de teoria agendada",
+      description: `${leech.subjectName} - ${leech.topicName} para amanhã`
+    });
+  };
+
+  const renderLabel = (leech: LeechItem) =>
+    leech.flashcardType === 'cloze' && leech.clozeIndex
+      ? renderClozeText(leech.label, leech.clozeIndex, true)
+      : leech.label;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Itens que você errou muitas vezes. Repetir não está funcionando: reescreva, divida ou volte à teoria do tópico.
+      </p>
+
+      {leeches.length === 0 ? (
+        <div className="text-center py-8">
+          <Bug className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">Nenhuma sanguessuga encontrada</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {leeches.map(leech => (
+            <Card key={`${leech.kind}-${leech.id}`}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline">{LEECH_KIND_LABELS[leech.kind]}</Badge>
+                      <Badge variant="destructive">{leech.lapses} falhas</Badge>
+                      {leech.suspended && <Badge variant="secondary">Suspenso</Badge>}
+                    </div>
+                    <p className="font-medium line-clamp-2">{renderLabel(leech)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {leech.subjectName} • {leech.topicName}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleToggleSuspended(leech)}
+                      title={leech.suspended ? 'Reativar' : 'Suspender'}
+                    >
+                      {leech.suspended ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDismiss(leech)} title="Marcar como resolvida">
+                      <CheckCircle className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {leech.kind !== 'enemy_topic' && (
+                    <Button variant="outline" size="sm" onClick={() => handleRewrite(leech)}>
+                      <Edit className="h-4 w-4 mr-2" />
+                      Reescrever
+                    </Button>
+                  )}
+                  {leech.kind === 'flashcard' && leech.flashcardType !== 'cloze' && (
+                    <Button variant="outline" size="sm" onClick={() => setSplittingId(leech.id)}>
+                      <Scissors className="h-4 w-4 mr-2" />
+                      Dividir
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => handleScheduleTheory(leech)}>
+                    <BookOpen className="h-4 w-4 mr-2" />
+                    Agendar teoria
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <SplitFlashcardModal
+        flashcardId={splittingId}
+        onOpenChange={(open) => !open && setSplittingId(null)}
+        onSplit={refresh}
+      />
+    </div>
+  );
+};
+
+export default LeechesPanel;
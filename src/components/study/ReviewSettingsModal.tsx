@@ -14,20 +14,30 @@ import { Separator } from '@/components/ui/separator';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from '@/hooks/use-toast';
-import { Brain, Settings, Target, Clock, Zap, RotateCcw } from 'lucide-react';
+import { Brain, Settings, Target, Clock, Zap, RotateCcw, Bug } from 'lucide-react';
 import { getReviewSettings, updateReviewSettings, resetReviewSettings, type ReviewSettings } from '@/db/crud/reviewSettings';
+import { switchReviewAlgorithm } from '@/db/crud/reviewScheduler';
+import { ensureFinalTopicReviews } from '@/db/crud/examPlan';
+import SchedulerOptimizerPanel from './SchedulerOptimizerPanel';
+import WorkloadSimulatorPanel from './WorkloadSimulatorPanel';
+import ExamModePreviewPanel from './ExamModePreviewPanel';
+import { getAvailableSchedulers, getScheduler, type SchedulerAlgorithm } from '@/utils/spacedRepetition';
 
 interface ReviewSettingsModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  examDate?: Date;
 }
 
 const ReviewSettingsModal: React.FC<ReviewSettingsModalProps> = ({
   open,
   onOpenChange,
+  examDate,
 }) => {
   const [settings, setSettings] = useState<ReviewSettings | null>(null);
+  const [savedAlgorithm, setSavedAlgorithm] = useState<SchedulerAlgorithm>('sm2');
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -41,6 +51,7 @@ const ReviewSettingsModal: React.FC<ReviewSettingsModalProps> = ({
       setLoading(true);
       const currentSettings = getReviewSettings();
       setSettings(currentSettings);
+      setSavedAlgorithm(currentSettings.algorithm);
     } catch (error) {
       console.error('Error loading settings:', error);
       toast({
@@ -57,11 +68,26 @@ const ReviewSettingsModal: React.FC<ReviewSettingsModalProps> = ({
     if (!settings) return;
 
     try {
+      // Converte o estado dos cartões antes de gravar o novo algoritmo
+      let migratedCount = 0;
+      if (settings.algorithm !== savedAlgorithm) {
+        const switchResult = switchReviewAlgorithm(settings.algorithm);
+        if (!switchResult.success) {
+          throw new Error('Failed to switch review algorithm');
+        }
+        migratedCount = switchResult.enemyReviewsMigrated + switchResult.flashcardsMigrated + switchResult.questionsMigrated;
+      }
+
       const success = updateReviewSettings(settings);
       if (success) {
+        // Modo exame: todo tópico estudado ganha uma revisão na reta final (só ao salvar, não ao abrir as telas)
+        const finalReviews = settings.examModeEnabled ? ensureFinalTopicReviews() : 0;
         toast({
           title: "Configurações Salvas",
-          description: "As configurações de revisão foram atualizadas com sucesso"
+          description: (settings.algorithm !== savedAlgorithm
+            ? `Algoritmo alterado para ${getScheduler(settings.algorithm).label} (${migratedCount} revisões convertidas)`
+            : "As configurações de revisão foram atualizadas com sucesso") +
+            (finalReviews > 0 ? `. ${finalReviews} tópicos ganharam uma revisão na reta final` : '')
         });
         onOpenChange(false);
       } else {
@@ -135,6 +161,52 @@ const ReviewSettingsModal: React.FC<ReviewSettingsModalProps> = ({
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Motor de Agendamento</Label>
+                  <Select
+                    value={settings.algorithm}
+                    onValueChange={(value) => updateSetting('algorithm', value as SchedulerAlgorithm)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getAvailableSchedulers().map(scheduler => (
+                        <SelectItem key={scheduler.algorithm} value={scheduler.algorithm}>
+                          {scheduler.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    {settings.algorithm === 'fsrs'
+                      ? 'Modela estabilidade, dificuldade e probabilidade de lembrar'
+                      : 'Fator de facilidade com ajustes por tempo e confiança'}
+                  </p>
+                </div>
+
+                {settings.algorithm === 'fsrs' && (
+                  <div className="space-y-2">
+                    <Label>Retenção Desejada</Label>
+                    <Slider
+                      value={[settings.requestRetention]}
+                      onValueChange={([value]) => updateSetting('requestRetention', value)}
+                      min={0.7}
+                      max={0.97}
+                      step={0.01}
+                    />
+                    <p className="text-sm text-muted-foreground">{(settings.requestRetention * 100).toFixed(0)}%</p>
+                  </div>
+                )}
+              </div>
+
+              {settings.algorithm !== savedAlgorithm && (
+                <p className="text-sm text-muted-foreground">
+                  Ao salvar, o estado de revisão existente será convertido para o novo algoritmo.
+                </p>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label>Fator Máximo de Facilidade</Label>
@@ -306,6 +378,11 @@ const ReviewSettingsModal: React.FC<ReviewSettingsModalProps> = ({
             </CardContent>
           </Card>
 
+          {/* Otimização pelo histórico */}
+          <SchedulerOptimizerPanel
+            onApplied={(tuning) => setSettings(prev => prev ? { ...prev, ...tuning } : prev)}
+          />
+
           {/* Configurações de Sessão */}
           <Card>
             <CardHeader>
@@ -341,6 +418,70 @@ const ReviewSettingsModal: React.FC<ReviewSettingsModalProps> = ({
             </CardContent>
           </Card>
 
+          {/* Sanguessugas */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Bug className="h-4 w-4" />
+                <span>Sanguessugas</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Itens que falham repetidamente recebem a tag "leech". Use 0 para desligar a detecção.
+              </p>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Lapsos (Flashcards)</Label>
+                  <Input
+                    type="number"
+                    value={settings.flashcardLeechThreshold}
+                    onChange={(e) => updateSetting('flashcardLeechThreshold', parseInt(e.target.value) || 0)}
+                    min={0}
+                    max={50}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Falhas (Inimigos)</Label>
+                  <Input
+                    type="number"
+                    value={settings.enemyLeechThreshold}
+                    onChange={(e) => updateSetting('enemyLeechThreshold', parseInt(e.target.value) || 0)}
+                    min={0}
+                    max={50}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Erros (Questões)</Label>
+                  <Input
+                    type="number"
+                    value={settings.questionLeechThreshold}
+                    onChange={(e) => updateSetting('questionLeechThreshold', parseInt(e.target.value) || 0)}
+                    min={0}
+                    max={50}
+                  />
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <Label>Suspender Sanguessugas</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Tira o item das filas de revisão e batalha até você reescrevê-lo ou reativá-lo
+                  </p>
+                </div>
+                <Switch
+                  checked={settings.suspendLeeches}
+                  onCheckedChange={(checked) => updateSetting('suspendLeeches', checked)}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Configurações Avançadas */}
           <Card>
             <CardHeader>
@@ -392,11 +533,41 @@ const ReviewSettingsModal: React.FC<ReviewSettingsModalProps> = ({
               
               <Separator />
               
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <Label>Distribuir Revisões</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Espalha itens estudados no mesmo dia entre dias vizinhos menos carregados
+                  </p>
+                </div>
+                <Switch
+                  checked={settings.loadBalancing}
+                  onCheckedChange={(checked) => updateSetting('loadBalancing', checked)}
+                />
+              </div>
+              
+              <Separator />
+              
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <Label>Flashcards de Questões Erradas</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Cria um flashcard (enunciado + resposta e explicação) para cada questão errada nas batalhas
+                  </p>
+                </div>
+                <Switch
+                  checked={settings.autoFlashcardsFromErrors}
+                  onCheckedChange={(checked) => updateSetting('autoFlashcardsFromErrors', checked)}
+                />
+              </div>
+              
+              <Separator />
+              
               <div className="flex items-center justify-between">
                 <div className="space-y-1">
                   <Label>Modo Exame</Label>
                   <p className="text-sm text-muted-foreground">
-                    Acelera revisões baseado na proximidade do exame
+                    Encolhe os intervalos conforme o exame se aproxima, prioriza o que você tem mais chance de ter esquecido e corta material novo na reta final
                   </p>
                 </div>
                 <Switch
@@ -406,21 +577,67 @@ const ReviewSettingsModal: React.FC<ReviewSettingsModalProps> = ({
               </div>
               
               {settings.examModeEnabled && (
-                <div className="space-y-2">
-                  <Label>Fator de Urgência do Exame</Label>
-                  <Slider
-                    value={[settings.examUrgencyFactor]}
-                    onValueChange={([value]) => updateSetting('examUrgencyFactor', value)}
-                    min={0.3}
-                    max={1.0}
-                    step={0.1}
-                  />
-                  <p className="text-sm text-muted-foreground">{settings.examUrgencyFactor.toFixed(1)}x</p>
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Fator de Urgência do Exame</Label>
+                    <Slider
+                      value={[settings.examUrgencyFactor]}
+                      onValueChange={([value]) => updateSetting('examUrgencyFactor', value)}
+                      min={0.3}
+                      max={1.0}
+                      step={0.1}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Intervalos chegam a {settings.examUrgencyFactor.toFixed(1)}x no dia do exame
+                    </p>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label>Início do Modo Exame</Label>
+                      <Input
+                        type="number"
+                        value={settings.examModeWindowDays}
+                        onChange={(e) => updateSetting('examModeWindowDays', parseInt(e.target.value))}
+                        min={7}
+                        max={365}
+                      />
+                      <p className="text-xs text-muted-foreground">Dias antes do exame</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Sem Material Novo</Label>
+                      <Input
+                        type="number"
+                        value={settings.examNewCardCutoffDays}
+                        onChange={(e) => updateSetting('examNewCardCutoffDays', parseInt(e.target.value))}
+                        min={0}
+                        max={60}
+                      />
+                      <p className="text-xs text-muted-foreground">Últimos dias sem cartões novos</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Revisão Final</Label>
+                      <Input
+                        type="number"
+                        value={settings.examFinalReviewDays}
+                        onChange={(e) => updateSetting('examFinalReviewDays', parseInt(e.target.value))}
+                        min={1}
+                        max={60}
+                      />
+                      <p className="text-xs text-muted-foreground">Todo tópico revisto nesses últimos dias</p>
+                    </div>
+                  </div>
                 </div>
               )}
             </CardContent>
           </Card>
 
+          {/* O que será visto antes do exame */}
+          {settings.examModeEnabled && <ExamModePreviewPanel draftSettings={settings} />}
+
+          {/* Simulação de carga até o exame */}
+          <WorkloadSimulatorPanel draftSettings={settings} examDate={examDate} />
+
           {/* Status Atual */}
           <Card>
             <CardHeader>
@@ -431,7 +648,7 @@ const ReviewSettingsModal: React.FC<ReviewSettingsModalProps> = ({
                 <div className="text-center">
                   <Badge variant="outline">Algoritmo Ativo</Badge>
                   <p className="text-sm text-muted-foreground mt-1">
-                    SM-2 Inteligente {settings.adaptiveLearning && '+ Adaptativo'}
+                    {getScheduler(settings.algorithm).label} {settings.adaptiveLearning && '+ Adaptativo'}
                   </p>
                 </div>
                 <div className="text-center">
@@ -13,8 +13,9 @@ import {
   AlertTriangle,
   CheckCircle2
 } from 'lucide-react';
-import { calculateReviewStats } from '@/utils/spacedRepetition';
+import { calculateReviewStats, getScheduler } from '@/utils/spacedRepetition';
 import { getEnemyReviewData, checkAndUnlockEnemies } from '@/db/crud/enemyReviews';
+import { getReviewSettings } from '@/db/crud/reviewSettings';
 
 interface ReviewStats {
   totalCards: number;
@@ -37,6 +38,7 @@ const ReviewStatsWidget: React.FC<ReviewStatsWidgetProps> = ({
   className = ""
 }) => {
   const [stats, setStats] = useState<ReviewStats | null>(null);
+  const [algorithmLabel, setAlgorithmLabel] = useState('SM-2');
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -52,6 +54,7 @@ const ReviewStatsWidget: React.FC<ReviewStatsWidgetProps> = ({
       
       // Desbloqueia inimigos prontos para revisão
       const unlockedEnemies = checkAndUnlockEnemies();
+      setAlgorithmLabel(getScheduler(getReviewSettings().algorithm).label);
       
       // Aqui você carregaria os dados reais do banco
       // Por enquanto, dados de exemplo
@@ -211,7 +214,7 @@ const ReviewStatsWidget: React.FC<ReviewStatsWidgetProps> = ({
           
           <Badge variant="secondary" className="text-xs flex items-center space-x-1">
             <TrendingUp className="h-3 w-3" />
-            <span>Algoritmo SM-2</span>
+            <span>Algoritmo {algorithmLabel}</span>
           </Badge>
         </div>
 
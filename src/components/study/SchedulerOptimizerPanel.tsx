@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+import { Sparkles, Loader2 } from 'lucide-react';
+import { optimizeSchedulerTuning, applySchedulerTuning } from '@/db/crud/reviewScheduler';
+import { MIN_REVIEWS_FOR_OPTIMIZATION, type TuningOptimizationResult } from '@/utils/schedulerOptimizer';
+import type { SchedulerTuning } from '@/utils/spacedRepetition';
+
+interface SchedulerOptimizerPanelProps {
+  onApplied: (tuning: SchedulerTuning) => void;
+}
+
+const PARAMETER_LABELS: Record<keyof SchedulerTuning, string> = {
+  easeFactorModifier: 'Modificador do Fator',
+  hardMultiplier: 'Multiplicador Difícil',
+  lapseMultiplier: 'Multiplicador de Lapso',
+  intervalMultiplier: 'Multiplicador de Intervalo'
+};
+
+const SchedulerOptimizerPanel: React.FC<SchedulerOptimizerPanelProps> = ({ onApplied }) => {
+  const [result, setResult] = useState<TuningOptimizationResult | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const handleOptimize = () => {
+    setRunning(true);
+    // Deixa o indicador de carregamento aparecer antes do cálculo síncrono
+    setTimeout(() => {
+      try {
+        setResult(optimizeSchedulerTuning());
+      } catch (error) {
+        console.error('Error optimizing scheduler:', error);
+        toast({
+          title: "Erro",
+          description: "Não foi possível otimizar os parâmetros",
+          variant: "destructive"
+        });
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  const handleApply = () => {
+    if (!result) return;
+
+    if (applySchedulerTuning(result.after.tuning)) {
+      onApplied(result.after.tuning);
+      toast({
+        title: "Parâmetros Aplicados",
+        description: "Os valores otimizados foram salvos nas suas configurações"
+      });
+      setResult(null);
+    } else {
+      toast({
+        title: "Erro",
+        description: "Não foi possível aplicar os parâmetros",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const hasChanges = result && (Object.keys(PARAMETER_LABELS) as (keyof SchedulerTuning)[])
+    .some(key => result.before.tuning[key] !== result.after.tuning[key]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Sparkles className="h-4 w-4" />
+          <span>Otimizar com Meu Histórico</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Ajusta os multiplicadores ao seu histórico de revisões, escolhendo os valores que melhor
+          preveem quando você lembra ou esquece cada item.
+        </p>
+
+        <Button variant="outline" onClick={handleOptimize} disabled={running}>
+          {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+          Otimizar Parâmetros
+        </Button>
+
+        {result && !result.sufficientData && (
+          <p className="text-sm text-muted-foreground">
+            Histórico insuficiente: são necessárias pelo menos {MIN_REVIEWS_FOR_OPTIMIZATION} revisões repetidas
+            ({result.reviewsUsed} disponíveis).
+          </p>
+        )}
+
+        {result && result.sufficientData && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              <span className="font-medium">Parâmetro</span>
+              <span className="font-medium">Atual</span>
+              <span className="font-medium">Otimizado</span>
+              {(Object.keys(PARAMETER_LABELS) as (keyof SchedulerTuning)[]).map(key => (
+                <React.Fragment key={key}>
+                  <span className="text-muted-foreground">{PARAMETER_LABELS[key]}</span>
+                  <span>{result.before.tuning[key].toFixed(2)}</span>
+                  <span className={result.before.tuning[key] !== result.after.tuning[key] ? 'font-semibold text-primary' : ''}>
+                    {result.after.tuning[key].toFixed(2)}
+                  </span>
+                </React.Fragment>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">Retenção real: {result.actualRetention.toFixed(1)}%</Badge>
+              <Badge variant="outline">Prevista antes: {result.before.expectedRetention.toFixed(1)}%</Badge>
+              <Badge variant="outline">Prevista depois: {result.after.expectedRetention.toFixed(1)}%</Badge>
+              <Badge variant="secondary">{result.reviewsUsed} revisões analisadas</Badge>
+            </div>
+
+            <Button onClick={handleApply} disabled={!hasChanges}>
+              {hasChanges ? 'Aplicar Valores Otimizados' : 'Configuração Atual Já é a Melhor'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SchedulerOptimizerPanel;
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Plus, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { getFlashcardById, splitFlashcard } from '@/db/crud/flashcards';
+import { LEECH_TAG } from '@/db/crud/leeches';
+
+interface SplitFlashcardModalProps {
+  flashcardId: string | null;
+  onOpenChange: (open: boolean) => void;
+  onSplit: () => void;
+}
+
+interface CardPart {
+  front: string;
+  back: string;
+}
+
+const SplitFlashcardModal: React.FC<SplitFlashcardModalProps> = ({ flashcardId, onOpenChange, onSplit }) => {
+  const [parts, setParts] = useState<CardPart[]>([]);
+
+  useEffect(() => {
+    if (!flashcardId) return;
+
+    getFlashcardById(flashcardId).then(card => {
+      // Começa com duas cópias do card para o usuário enxugar cada uma
+      const part = { front: card?.front || '', back: card?.back || '' };
+      setParts([part, { ...part }]);
+    });
+  }, [flashcardId]);
+
+  const updatePart = (index: number, updates: Partial<CardPart>) => {
+    setParts(prev => prev.map((part, i) => (i === index ? { ...part, ...updates } : part)));
+  };
+
+  const handleSplit = async () => {
+    if (!flashcardId) return;
+
+    const validParts = parts.filter(part => part.front.trim() && part.back.trim());
+    if (validParts.length < 2) {
+      toast({
+        title: "Erro",
+        description: "Preencha frente e verso de pelo menos dois cards",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      // Os novos cards nascem sem histórico, então a marca de sanguessuga não é herdada
+      const ids = await splitFlashcard(flashcardId, validParts, [LEECH_TAG]);
+      toast({
+        title: "Card dividido",
+        description: `${ids.length} cards criados no lugar do original`
+      });
+      onSplit();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error splitting flashcard:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao dividir flashcard",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!flashcardId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Dividir Flashcard</DialogTitle>
+          <DialogDescription>
+            Quebre o card em perguntas menores, cada uma cobrindo um único fato.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {parts.map((part, index) => (
+            <div key={index} className="border rounded-md p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Card {index + 1}</Label>
+                {parts.length > 2 && (
+                  <Button variant="ghost" size="sm" onClick={() => setParts(parts.filter((_, i) => i !== index))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              <Textarea
+                value={part.front}
+                onChange={(e) => updatePart(index, { front: e.target.value })}
+                placeholder="Frente"
+                rows={2}
+              />
+              <Textarea
+                value={part.back}
+                onChange={(e) => updatePart(index, { back: e.target.value })}
+                placeholder="Verso"
+                rows={2}
+              />
+            </div>
+          ))}
+
+          <Button variant="outline" className="w-full" onClick={() => setParts([...parts, { front: '', back: '' }])}>
+            <Plus className="h-4 w-4 mr-2" />
+            Adicionar Card
+          </Button>
+
+          <Button onClick={handleSplit} className="w-full">
+            Dividir
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SplitFlashcardModal;
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { addDays, format, parseISO } from 'date-fns';
+import { LineChart as LineChartIcon, Loader2 } from 'lucide-react';
+import { getReviewSettings, type ReviewSettings } from '@/db/crud/reviewSettings';
+import { getSimulationDaySettings, getSimulationItems } from '@/db/crud/reviewScheduler';
+import { getUserProfile } from '@/db/crud/enemyReviews';
+import { simulateWorkload, type SimulationResult } from '@/utils/workloadSimulator';
+
+interface WorkloadSimulatorPanelProps {
+  draftSettings: ReviewSettings;
+  examDate?: Date;
+}
+
+// Horizonte usado quando o plano não tem data de exame
+const DEFAULT_HORIZON_DAYS = 90;
+
+const WorkloadSimulatorPanel: React.FC<WorkloadSimulatorPanelProps> = ({ draftSettings, examDate }) => {
+  const [results, setResults] = useState<{ saved: SimulationResult; draft: SimulationResult } | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const endDate = examDate ? new Date(examDate) : addDays(new Date(), DEFAULT_HORIZON_DAYS);
+
+  const handleSimulate = () => {
+    setRunning(true);
+    // Deixa o indicador de carregamento aparecer antes do cálculo síncrono
+    setTimeout(() => {
+      try {
+        const items = getSimulationItems();
+        const userProfile = getUserProfile();
+        const savedSettings = getReviewSettings();
+        setResults({
+          saved: simulateWorkload(items, savedSettings, { endDate, userProfile, settingsForDay: getSimulationDaySettings(savedSettings) }),
+          draft: simulateWorkload(items, draftSettings, { endDate, userProfile, settingsForDay: getSimulationDaySettings(draftSettings) })
+        });
+      } catch (error) {
+        console.error('Error simulating workload:', error);
+        toast({
+          title: "Erro",
+          description: "Não foi possível simular a carga de revisões",
+          variant: "destructive"
+        });
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  const chartData = results?.saved.days.map((day, index) => {
+    const draftDay = results.draft.days[index];
+    return {
+      date: format(parseISO(day.date), 'dd/MM'),
+      savedReviews: day.reviews + day.newCards,
+      draftReviews: draftDay.reviews + draftDay.newCards,
+      savedRetention: Number(day.expectedRetention.toFixed(1)),
+      draftRetention: Number(draftDay.expectedRetention.toFixed(1))
+    };
+  }) || [];
+
+  const renderSummary = (label: string, result: SimulationResult) => (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">{label}</p>
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="outline">{result.averageDailyReviews.toFixed(1)} revisões/dia</Badge>
+        <Badge variant="outline">Pico: {result.peakReviews}</Badge>
+        <Badge variant="outline">Novos: {result.newCardsIntroduced}</Badge>
+        {result.newCardsRemaining > 0 && (
+          <Badge variant="destructive">{result.newCardsRemaining} novos não vistos</Badge>
+        )}
+        <Badge variant="secondary">Retenção no exame: {result.finalRetention.toFixed(1)}%</Badge>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <LineChartIcon className="h-4 w-4" />
+          <span>Simulador de Carga</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Compara as configurações salvas com as editadas nesta tela, projetando revisões diárias,
+          cartões novos e retenção esperada até {examDate ? `o exame (${format(endDate, 'dd/MM/yyyy')})` : `os próximos ${DEFAULT_HORIZON_DAYS} dias`}.
+        </p>
+
+        <Button variant="outline" onClick={handleSimulate} disabled={running}>
+          {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LineChartIcon className="h-4 w-4 mr-2" />}
+          Simular
+        </Button>
+
+        {results && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              {renderSummary('Configuração salva', results.saved)}
+              {renderSummary('Configuração editada', results.draft)}
+            </div>
+
+            <div>
+              <p className="text-sm font-medium mb-2">Revisões por dia</p>
+              <ResponsiveContainer width="100%" height={220}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="savedReviews" stroke="hsl(var(--muted-foreground))" name="Salva" dot={false} />
+                  <Line type="monotone" dataKey="draftReviews" stroke="hsl(var(--primary))" name="Editada" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium mb-2">Retenção esperada (%)</p>
+              <ResponsiveContainer width="100%" height={220}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" />
+                  <YAxis domain={[0, 100]} />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="savedRetention" stroke="hsl(var(--muted-foreground))" name="Salva" dot={false} />
+                  <Line type="monotone" dataKey="draftRetention" stroke="hsl(var(--primary))" name="Editada" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WorkloadSimulatorPanel;
@@ -0,0 +1,114 @@
+import { getDBOrThrow } from './singleton';
+
+const FLASHCARD_COLUMNS = [
+  'id', 'topic_id', 'front', 'back', 'type', 'difficulty', 'times_reviewed', 'last_reviewed',
+  'due_date', 'ease_factor', 'interval_days', 'repetitions', 'lapses', 'stability',
+  'fsrs_difficulty', 'algorithm', 'note_id', 'cloze_index', 'buried_until', 'created_at', 'updated_at'
+];
+
+/**
+ * Rebuild the flashcards table so its type CHECK constraint accepts 'cloze'
+ * (SQLite cannot alter an existing constraint in place)
+ */
+const rebuildFlashcardsTable = () => {
+  const database = getDBOrThrow();
+
+  database.run('BEGIN TRANSACTION');
+  try {
+    database.run(`
+      CREATE TABLE flashcards_new (
+        id TEXT PRIMARY KEY,
+        topic_id TEXT NOT NULL,
+        front TEXT NOT NULL,
+        back TEXT NOT NULL,
+        type TEXT CHECK (type IN ('concept', 'definition', 'formula', 'custom', 'cloze')) DEFAULT 'concept',
+        difficulty TEXT CHECK (difficulty IN ('easy', 'medium', 'hard')) DEFAULT 'medium',
+        times_reviewed INTEGER DEFAULT 0,
+        last_reviewed TEXT,
+        due_date TEXT,
+        ease_factor REAL DEFAULT 2.5,
+        interval_days INTEGER DEFAULT 0,
+        repetitions INTEGER DEFAULT 0,
+        lapses INTEGER DEFAULT 0,
+        stability REAL,
+        fsrs_difficulty REAL,
+        algorithm TEXT CHECK (algorithm IN ('sm2', 'fsrs')) DEFAULT 'sm2',
+        note_id TEXT,
+        cloze_index INTEGER,
+        buried_until TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        FOREIGN KEY (topic_id) REFERENCES study_topics(id) ON DELETE CASCADE
+      )
+    `);
+
+    const columns = FLASHCARD_COLUMNS.join(', ');
+    database.run(`INSERT INTO flashcards_new (${columns}) SELECT ${columns} FROM flashcards`);
+    database.run('DROP TABLE flashcards');
+    database.run('ALTER TABLE flashcards_new RENAME TO flashcards');
+
+    database.run(`
+      CREATE TRIGGER IF NOT EXISTS update_flashcards_updated_at
+        AFTER UPDATE ON flashcards
+      BEGIN
+        UPDATE flashcards SET updated_at = datetime('now') WHERE id = NEW.id;
+      END
+    `);
+
+    database.run('COMMIT');
+  } catch (error) {
+    database.run('ROLLBACK');
+    throw error;
+  }
+};
+
+/**
+ * Migration to support cloze flashcards: sibling columns on flashcards and the 'cloze' type
+ */
+export const runClozeMigration = () => {
+  const database = getDBOrThrow();
+
+  try {
+    const checkColumn = database.prepare(`
+      PRAGMA table_info(flashcards)
+    `);
+
+    const columns = [];
+    while (checkColumn.step()) {
+      const row = checkColumn.getAsObject();
+      columns.push(row.name);
+    }
+    checkColumn.free();
+
+    const missingColumns = [
+      ['note_id', 'TEXT'],
+      ['cloze_index', 'INTEGER'],
+      ['buried_until', 'TEXT']
+    ].filter(([name]) => !columns.includes(name));
+
+    missingColumns.forEach(([name, definition]) => {
+      database.run(`ALTER TABLE flashcards ADD COLUMN ${name} ${definition}`);
+    });
+
+    const checkTable = database.prepare(`
+      SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'flashcards'
+    `);
+    const tableSql = checkTable.step() ? checkTable.getAsObject().sql as string : '';
+    checkTable.free();
+
+    if (tableSql && !tableSql.includes("'cloze'")) {
+      rebuildFlashcardsTable();
+      console.log('✅ flashcards table rebuilt with cloze type');
+    } else {
+      console.log('📋 flashcards table already supports cloze cards');
+    }
+
+    database.run('CREATE INDEX IF NOT EXISTS idx_flashcards_topic_id ON flashcards(topic_id)');
+    database.run('CREATE INDEX IF NOT EXISTS idx_flashcards_last_reviewed ON flashcards(last_reviewed)');
+    database.run('CREATE INDEX IF NOT EXISTS idx_flashcards_due_date ON flashcards(due_date)');
+    database.run('CREATE INDEX IF NOT EXISTS idx_flashcards_note_id ON flashcards(note_id)');
+  } catch (error) {
+    console.error('❌ Error running cloze migration:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,297 @@
+import { getDBOrThrow, getScheduleSave } from '../singleton';
+import {
+  buildAnkiPackage,
+  readAnkiPackage,
+  type AnkiCardData,
+  type AnkiExportCard
+} from '@/utils/ankiPackage';
+import { getReviewLogs, importReviewLogs, type ReviewLogEntry } from './reviewLogs';
+
+/**
+ * Importação e exportação de baralhos do Anki (.apkg)
+ * Baralhos viram matérias/tópicos ("Matéria::Tópico"), notas viram flashcards
+ * e o revlog do Anki vira histórico no review log.
+ */
+
+export interface AnkiImportSummary {
+  cardsImported: number;
+  cardsSkipped: number;     // Já existiam no mesmo tópico (reimportação)
+  reviewsImported: number;
+  subjectsCreated: number;
+  topicsCreated: number;
+}
+
+// Botões do Anki (1-4) <-> qualidade 0-5 usada pelo review log
+const EASE_TO_QUALITY: Record<number, number> = { 1: 1, 2: 3, 3: 4, 4: 5 };
+
+const qualityToEase = (quality: number): number => {
+  if (quality <= 2) return 1;
+  if (quality === 3) return 2;
+  if (quality === 4) return 3;
+  return 4;
+};
+
+/**
+ * "Direito::Constitucional::Art. 5" -> matéria "Direito", tópico "Constitucional / Art. 5"
+ */
+const splitDeckName = (deckName: string): { subjectName: string; topicName: string } => {
+  const parts = deckName.split('::').map(part => part.trim()).filter(Boolean);
+  return {
+    subjectName: parts[0] || 'Anki',
+    topicName: parts.slice(1).join(' / ') || 'Geral'
+  };
+};
+
+const getCurrentPlanId = (): string | null => {
+  const database = getDBOrThrow();
+  const stmt = database.prepare('SELECT id FROM study_plans ORDER BY updated_at DESC LIMIT 1');
+  const planId = stmt.step() ? stmt.getAsObject().id as string : null;
+  stmt.free();
+  return planId;
+};
+
+/**
+ * Resolve (criando quando necessário) o tópico de cada baralho, reaproveitando nomes existentes
+ */
+const resolveDeckTopics = (
+  deckNames: string[],
+  planId: string,
+  summary: AnkiImportSummary
+): Map<string, string> => {
+  const database = getDBOrThrow();
+  const subjects = new Map<string, string>();
+  const topics = new Map<string, string>();
+
+  const stmt = database.prepare(`
+    SELECT s.id as subject_id, s.name as subject_name, t.id as topic_id, t.name as topic_name
+    FROM study_subjects s
+    LEFT JOIN study_topics t ON t.subject_id = s.id
+    WHERE s.plan_id = ?
+  `);
+  stmt.bind([planId]);
+  while (stmt.step()) {
+    const row = stmt.getAsObject();
+    const subjectKey = (row.subject_name as string).toLowerCase();
+    subjects.set(subjectKey, row.subject_id as string);
+    if (row.topic_id) {
+      topics.set(`${subjectKey}\x1f${(row.topic_name as string).toLowerCase()}`, row.topic_id as string);
+    }
+  }
+  stmt.free();
+
+  const deckTopics = new Map<string, string>();
+  deckNames.forEach(deckName => {
+    const { subjectName, topicName } = splitDeckName(deckName);
+    const subjectKey = subjectName.toLowerCase();
+    const topicKey = `${subjectKey}\x1f${topicName.toLowerCase()}`;
+
+    let subjectId = subjects.get(subjectKey);
+    if (!subjectId) {
+      subjectId = crypto.randomUUID();
+      database.run(
+        'INSERT INTO study_subjects (id, plan_id, name, custom_subject) VALUES (?, ?, ?, TRUE)',
+        [subjectId, planId, subjectName]
+      );
+      subjects.set(subjectKey, subjectId);
+      summary.subjectsCreated++;
+    }
+
+    let topicId = topics.get(topicKey);
+    if (!topicId) {
+      topicId = crypto.randomUUID();
+      database.run('INSERT INTO study_topics (id, subject_id, name) VALUES (?, ?, ?)', [topicId, subjectId, topicName]);
+      topics.set(topicKey, topicId);
+      summary.topicsCreated++;
+    }
+
+    deckTopics.set(deckName, topicId);
+  });
+
+  return deckTopics;
+};
+
+const flashcardKey = (topicId: string, front: string, clozeIndex?: number | null) =>
+  `${topicId}\x1f${front}\x1f${clozeIndex ?? ''}`;
+
+/**
+ * Import an Anki .apkg file into flashcards, creating subjects/topics for its decks
+ */
+export const importAnkiPackage = async (data: ArrayBuffer | Uint8Array): Promise<AnkiImportSummary> => {
+  const { cards, reviews } = await readAnkiPackage(data);
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+
+  const planId = getCurrentPlanId();
+  if (!planId) {
+    throw new Error('Crie um plano de estudos antes de importar baralhos do Anki');
+  }
+
+  const summary: AnkiImportSummary = {
+    cardsImported: 0,
+    cardsSkipped: 0,
+    reviewsImported: 0,
+    subjectsCreated: 0,
+    topicsCreated: 0
+  };
+
+  // Última revisão de cada cartão, para preencher last_reviewed
+  const lastReviewByCard = new Map<number, number>();
+  reviews.forEach(review => {
+    lastReviewByCard.set(review.cardId, Math.max(lastReviewByCard.get(review.cardId) || 0, review.id));
+  });
+
+  const existing = new Set<string>();
+  const existingStmt = database.prepare('SELECT topic_id, front, cloze_index FROM flashcards');
+  while (existingStmt.step()) {
+    const row = existingStmt.getAsObject();
+    existing.add(flashcardKey(row.topic_id as string, row.front as string, row.cloze_index as number | null));
+  }
+  existingStmt.free();
+
+  const importedCards = new Map<number, { id: string; topicId: string }>();
+  const clozeNotes = new Map<number, string>();
+
+  database.run('BEGIN TRANSACTION');
+  try {
+    const deckTopics = resolveDeckTopics(Array.from(new Set(cards.map(card => card.deckName))), planId, summary);
+
+    const insertStmt = database.prepare(`
+      INSERT INTO flashcards (
+        id, topic_id, front, back, type, difficulty, times_reviewed, last_reviewed, due_date,
+        ease_factor, interval_days, repetitions, lapses, algorithm, note_id, cloze_index, tags
+      ) VALUES (?, ?, ?, ?, ?, 'medium', ?, ?, ?, ?, ?, ?, ?, 'sm2', ?, ?, ?)
+    `);
+
+    cards.forEach((card: AnkiCardData) => {
+      const topicId = deckTopics.get(card.deckName)!;
+      const key = flashcardKey(topicId, card.front, card.clozeIndex);
+      if (existing.has(key)) {
+        summary.cardsSkipped++;
+        return;
+      }
+      existing.add(key);
+
+      let noteId: string | null = null;
+      if (card.kind === 'cloze') {
+        noteId = clozeNotes.get(card.noteId) || crypto.randomUUID();
+        clozeNotes.set(card.noteId, noteId);
+      }
+
+      const lastReview = lastReviewByCard.get(card.ankiId);
+      const id = crypto.randomUUID();
+      insertStmt.run([
+        id,
+        topicId,
+        card.front,
+        card.back,
+        card.kind === 'cloze' ? 'cloze' : 'concept',
+        card.reviews,
+        // Mesmo formato de datetime('now'), em UTC
+        lastReview ? new Date(lastReview).toISOString().replace('T', ' ').slice(0, 19) : null,
+        card.dueDate ? card.dueDate.toISOString() : null,
+        card.easeFactor,
+        card.interval,
+        card.isNew ? 0 : Math.max(1, card.reviews - card.lapses),
+        card.lapses,
+        noteId,
+        card.clozeIndex ?? null,
+        JSON.stringify(card.tags)
+      ]);
+
+      importedCards.set(card.ankiId, { id, topicId });
+      summary.cardsImported++;
+    });
+    insertStmt.free();
+
+    database.run('COMMIT');
+  } catch (error) {
+    database.run('ROLLBACK');
+    throw error;
+  }
+
+  const logEntries: ReviewLogEntry[] = [];
+  reviews.forEach(review => {
+    const card = importedCards.get(review.cardId);
+    if (!card) return;
+
+    logEntries.push({
+      id: `anki-${review.cardId}-${review.id}`,
+      itemId: card.id,
+      itemKind: 'flashcard',
+      topicId: card.topicId,
+      reviewedAt: new Date(review.id),
+      rating: EASE_TO_QUALITY[review.ease] ?? 1,
+      responseTime: Math.round(review.timeMs / 1000),
+      intervalBefore: Math.max(0, review.lastInterval),
+      intervalAfter: Math.max(0, review.interval),
+      algorithm: 'sm2'
+    });
+  });
+  summary.reviewsImported = importReviewLogs(logEntries);
+
+  scheduleSave();
+  console.log('Anki package imported:', summary);
+  return summary;
+};
+
+/**
+ * Export the flashcards of the given topics as an Anki .apkg (one deck per topic)
+ */
+export const exportAnkiPackage = async (topicIds: string[]): Promise<{ data: Uint8Array; cardCount: number }> => {
+  const database = getDBOrThrow();
+  if (topicIds.length === 0) {
+    return { data: await buildAnkiPackage([]), cardCount: 0 };
+  }
+
+  const stmt = database.prepare(`
+    SELECT f.*, t.name as topic_name, s.name as subject_name
+    FROM flashcards f
+    JOIN study_topics t ON f.topic_id = t.id
+    JOIN study_subjects s ON t.subject_id = s.id
+    WHERE f.topic_id IN (${topicIds.map(() => '?').join(', ')})
+    ORDER BY f.created_at ASC
+  `);
+  stmt.bind(topicIds);
+  const rows: Record<string, unknown>[] = [];
+  while (stmt.step()) {
+    rows.push(stmt.getAsObject());
+  }
+  stmt.free();
+
+  const logsByCard = new Map<string, ReviewLogEntry[]>();
+  getReviewLogs({ itemKind: 'flashcard' }).forEach(log => {
+    logsByCard.set(log.itemId, [...(logsByCard.get(log.itemId) || []), log]);
+  });
+
+  const cards: AnkiExportCard[] = rows.map(row => {
+    const isCloze = row.type === 'cloze';
+    const isNew = !row.due_date || !(row.times_reviewed as number);
+
+    return {
+      noteKey: (isCloze && (row.note_id as string)) || (row.id as string),
+      deckName: `${row.subject_name}::${row.topic_name}`,
+      kind: isCloze ? 'cloze' : 'basic',
+      front: row.front as string,
+      back: row.back as string,
+      clozeIndex: isCloze ? (row.cloze_index as number) || 1 : undefined,
+      tags: JSON.parse((row.tags as string) || '[]'),
+      isNew,
+      dueDate: row.due_date ? new Date(row.due_date as string) : undefined,
+      interval: (row.interval_days as number) || 0,
+      easeFactor: (row.ease_factor as number) || 2.5,
+      reviews: (row.times_reviewed as number) || 0,
+      lapses: (row.lapses as number) || 0,
+      reviewLog: (logsByCard.get(row.id as string) || [])
+        .sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime())
+        .map(log => ({
+          reviewedAt: log.reviewedAt,
+          ease: qualityToEase(log.rating),
+          interval: log.intervalAfter,
+          lastInterval: log.intervalBefore,
+          timeMs: (log.responseTime ?? 0) * 1000
+        }))
+    };
+  });
+
+  return { data: await buildAnkiPackage(cards), cardCount: cards.length };
+};
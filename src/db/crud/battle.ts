@@ -285,7 +285,8 @@ export const addXpToUser = (xpAmount: number): UserProgress => {
 
   try {
     const currentProgress = getUserProgress();
-    const newTotalXp = currentProgress.totalXp + xpAmount;
+    // Erros descontados (pontuação líquida) tiram XP, mas o total nunca fica negativo
+    const newTotalXp = Math.max(0, currentProgress.totalXp + xpAmount);
     const { level, xpForNext } = calculateLevel(newTotalXp);
     
     database.run(`
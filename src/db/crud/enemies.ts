@@ -4,6 +4,7 @@ import type { Enemy, EnemyStats } from '@/types/enemy';
 import type { Room } from '@/types/battle';
 import { classifyEnemyRoom } from '@/types/enemy';
 import { getEnemyReviewData, createOrUpdateEnemyReview } from './enemyReviews';
+import { deriveTopicRoom, deriveTopicRooms } from './questionReviews';
 
 /**
  * Get all enemies (topics with questions) grouped by room
@@ -21,6 +22,7 @@ export const getEnemiesByRoom = (): EnemyStats => {
         COUNT(q.id) as total_questions,
         COALESCE(SUM(CASE WHEN qa.is_correct IS NOT NULL THEN 1 ELSE 0 END), 0) as questions_answered,
         COALESCE(SUM(CASE WHEN qa.is_correct = 1 THEN 1 ELSE 0 END), 0) as questions_correct,
+        COALESCE(SUM(COALESCE(qa.score, qa.is_correct)), 0) as questions_score,
         MAX(qa.created_at) as last_battle_date,
         COALESCE(SUM(qa.xp_earned), 0) as total_xp_earned,
         MIN(q.created_at) as created_at,
@@ -28,22 +30,25 @@ export const getEnemiesByRoom = (): EnemyStats => {
       FROM study_topics t
       JOIN study_subjects s ON t.subject_id = s.id
       INNER JOIN questions q ON q.topic_id = t.id
-      LEFT JOIN question_attempts qa ON qa.question_id = q.id
+      LEFT JOIN question_attempts qa ON qa.question_id = q.id AND qa.answer <> ''
       GROUP BY t.id, t.name, s.name, s.color
       HAVING total_questions > 0
       ORDER BY questions_answered ASC, total_questions DESC
     `);
 
     const enemies: Enemy[] = [];
+    const derivedRooms = deriveTopicRooms();
     
     while (stmt.step()) {
       const row = stmt.getAsObject();
       const questionsAnswered = row.questions_answered as number;
       const questionsCorrect = row.questions_correct as number;
-      const accuracyRate = questionsAnswered > 0 ? (questionsCorrect / questionsAnswered) * 100 : 0;
+      // Notas parciais (discursivas) entram na acurácia pelo valor obtido
+      const accuracyRate = questionsAnswered > 0 ? ((row.questions_score as number) / questionsAnswered) * 100 : 0;
       
-      // Calculate room based on current performance
-      const calculatedRoom = classifyEnemyRoom(accuracyRate, questionsAnswered);
+      // Room comes from the review state of the topic's questions (accuracy for legacy data)
+      const calculatedRoom = derivedRooms.get(row.topic_id as string)
+        ?? classifyEnemyRoom(accuracyRate, questionsAnswered);
       
       // Get review data
       const reviewData = getEnemyReviewData(row.topic_id as string);
@@ -68,7 +73,9 @@ export const getEnemiesByRoom = (): EnemyStats => {
         nextReviewDate: reviewData?.nextReviewDate,
         isBlocked: reviewData?.isBlocked || false,
         currentReviewCycle: reviewData?.currentReviewCycle || 0,
-        totalReviews: reviewData?.totalReviews || 0
+        totalReviews: reviewData?.totalReviews || 0,
+        isLeech: reviewData?.isLeech || false,
+        isSuspended: reviewData?.isSuspended || false
       };
       
       console.log(`Enemy ${enemy.topicName}: ${enemy.questionsCorrect}/${enemy.questionsAnswered} (${enemy.accuracyRate.toFixed(1)}%) -> ${enemy.room}`);
@@ -115,7 +122,7 @@ export const getEnemyQuestions = (topicId: string) => {
       FROM questions q
       JOIN study_topics t ON q.topic_id = t.id
       JOIN study_subjects s ON t.subject_id = s.id
-      WHERE q.topic_id = ?
+      WHERE q.topic_id = ? AND (q.suspended IS NULL OR q.suspended = 0)
       ORDER BY q.created_at DESC
     `);
     
@@ -159,50 +166,27 @@ export const getEnemyQuestions = (topicId: string) => {
 };
 
 /**
- * Update enemy room after battle completion - calculates in real time
+ * Update enemy room after battle completion - derived from the review state of its questions
  */
 export const updateEnemyRoom = (topicId: string): Room => {
   const database = getDBOrThrow();
   const scheduleSave = getScheduleSave();
 
   try {
-    // Calculate new accuracy rate for this topic based on question attempts
-    const stmt = database.prepare(`
-      SELECT 
-        COUNT(qa.id) as questions_answered,
-        SUM(CASE WHEN qa.is_correct = 1 THEN 1 ELSE 0 END) as questions_correct
-      FROM questions q
-      LEFT JOIN question_attempts qa ON qa.question_id = q.id
-      WHERE q.topic_id = ? AND qa.id IS NOT NULL
-    `);
+    const newRoom = deriveTopicRoom(topicId);
     
-    stmt.bind([topicId]);
+    console.log(`Updating enemy ${topicId} from question review state -> ${newRoom}`);
     
-    if (stmt.step()) {
-      const row = stmt.getAsObject();
-      const questionsAnswered = row.questions_answered as number;
-      const questionsCorrect = row.questions_correct as number;
-      const accuracyRate = questionsAnswered > 0 ? (questionsCorrect / questionsAnswered) * 100 : 0;
-      
-      const newRoom = classifyEnemyRoom(accuracyRate, questionsAnswered);
-      
-      console.log(`Updating enemy ${topicId}: ${questionsCorrect}/${questionsAnswered} (${accuracyRate.toFixed(1)}%) -> ${newRoom}`);
-      
-      // Update all questions of this topic to the new room
-      const updateStmt = database.prepare('UPDATE questions SET room = ? WHERE topic_id = ?');
-      updateStmt.run([newRoom, topicId]);
-      updateStmt.free();
-      
-      // Create or update enemy review schedule
-      createOrUpdateEnemyReview(topicId, newRoom);
-      
-      scheduleSave();
-      stmt.free();
-      return newRoom;
-    }
+    // Update all questions of this topic to the new room
+    const updateStmt = database.prepare('UPDATE questions SET room = ? WHERE topic_id = ?');
+    updateStmt.run([newRoom, topicId]);
+    updateStmt.free();
     
-    stmt.free();
-    return 'triagem';
+    // Create or update enemy review schedule
+    createOrUpdateEnemyReview(topicId, newRoom);
+    
+    scheduleSave();
+    return newRoom;
   } catch (error) {
     console.error('Error updating enemy room:', error);
     return 'triagem';
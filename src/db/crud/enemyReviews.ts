@@ -1,17 +1,24 @@
 import { getDBOrThrow, getScheduleSave } from '../singleton';
 import type { Room } from '@/types/battle';
-import { addDays, isAfter, startOfDay } from 'date-fns';
+import { differenceInDays, isAfter, startOfDay } from 'date-fns';
 import { 
   calculateNextReview, 
   createReviewCard, 
   updateUserProfile, 
   getCardsReadyForReview,
   calculateReviewStats,
+  getScheduler,
+  convertReviewCard,
   type ReviewCard, 
   type ReviewResult, 
-  type UserProfile 
+  type UserProfile,
+  type SchedulerAlgorithm
 } from '@/utils/spacedRepetition';
-import { getReviewSettings, getDifficultySettings, getExamModeSettings, getPersonalizedSettings } from './reviewSettings';
+import { getReviewSettings, getDifficultySettings, getExamAdjustedSettings, getPersonalizedSettings, getSchedulerOptions } from './reviewSettings';
+import { addReviewLog } from './reviewLogs';
+import { balanceReviewDate } from './reviewLoad';
+import { checkEnemyLeech } from './leeches';
+import { deriveTopicRoom } from './questionReviews';
 
 export interface EnemyReviewData {
   topicId: string;
@@ -28,6 +35,15 @@ export interface EnemyReviewData {
   failureCount: number;
   personalizedMultiplier: number;
   reviewHistory: ReviewHistoryEntry[];
+  // Estado do motor de agendamento
+  intervalDays: number;
+  stability?: number;
+  difficulty?: number;
+  algorithm: SchedulerAlgorithm;
+  // Detecção de sanguessugas
+  lapses: number;
+  isLeech: boolean;
+  isSuspended: boolean;
 }
 
 export interface ReviewHistoryEntry {
@@ -38,6 +54,63 @@ export interface ReviewHistoryEntry {
   confidenceLevel: string;
 }
 
+/**
+ * Limita a qualidade da revisão de acordo com a sala do inimigo
+ */
+const adjustQualityForRoom = (room: Room, quality: number): number => {
+  if (room === 'vermelha' && quality > 2) return 2;
+  if (room === 'amarela' && quality > 3) return 3;
+  return quality;
+};
+
+/**
+ * Qualidade estimada quando a batalha não informa uma qualidade explícita
+ */
+const roomToQuality = (room: Room): number => {
+  switch (room) {
+    case 'vermelha':
+      return 2;
+    case 'verde':
+      return 4;
+    default:
+      return 3;
+  }
+};
+
+/**
+ * Monta um ReviewCard a partir de uma linha de enemy_reviews
+ */
+const enemyRowToReviewCard = (row: Record<string, unknown>, examDate?: Date): ReviewCard => {
+  const lastReviewDate = row.last_review_date ? new Date(row.last_review_date as string) : undefined;
+  const nextReviewDate = new Date(row.next_review_date as string);
+  const storedInterval = (row.interval_days as number) || 0;
+  const interval = storedInterval > 0
+    ? storedInterval
+    : lastReviewDate
+      ? Math.max(1, differenceInDays(nextReviewDate, lastReviewDate))
+      : 1;
+
+  return {
+    id: row.id as string,
+    topicId: row.topic_id as string,
+    easeFactor: (row.ease_factor as number) || 2.5,
+    interval,
+    repetition: (row.current_review_cycle as number) || 0,
+    nextReviewDate,
+    lastReviewDate,
+    averageQuality: (row.average_quality as number) || 0,
+    totalReviews: (row.total_reviews as number) || 0,
+    streakCount: (row.streak_count as number) || 0,
+    failureCount: (row.failure_count as number) || 0,
+    isBlocked: Boolean(row.is_blocked),
+    personalizedMultiplier: (row.personalized_multiplier as number) || 1.0,
+    examDate: examDate || (row.exam_date ? new Date(row.exam_date as string) : undefined),
+    stability: (row.stability as number) || undefined,
+    difficulty: (row.difficulty as number) || undefined,
+    algorithm: (row.algorithm as SchedulerAlgorithm) || 'sm2'
+  };
+};
+
 /**
  * Calculate next review date using intelligent spaced repetition
  */
@@ -64,7 +137,7 @@ export const calculateNextReviewDate = (
       }
     }
     
-    const nextDate = addDays(new Date(), daysToAdd);
+    const nextDate = balanceReviewDate(daysToAdd, examDate).nextReviewDate;
     
     if (examDate && isAfter(nextDate, examDate)) {
       return examDate;
@@ -74,13 +147,11 @@ export const calculateNextReviewDate = (
   }
 
   // Sistema inteligente - converte room para qualidade
-  let adjustedQuality = quality;
-  if (room === 'vermelha' && quality > 2) adjustedQuality = 2;
-  if (room === 'amarela' && quality > 3) adjustedQuality = 3;
+  const adjustedQuality = adjustQualityForRoom(room, quality);
   
   // Obtém configurações personalizadas
   const settings = getReviewSettings();
-  const examSettings = examDate ? getExamModeSettings(Math.ceil((examDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24))) : settings;
+  const examSettings = getExamAdjustedSettings(settings, examDate);
   
   // Cria resultado de revisão
   const result: ReviewResult = {
@@ -110,10 +181,11 @@ export const calculateNextReviewDate = (
     examDate
   };
   
-  // Calcula próxima revisão usando algoritmo inteligente
-  const updated = calculateNextReview(tempCard, result, userProfile);
+  // Calcula próxima revisão usando o motor escolhido nas configurações
+  const scheduler = getScheduler(settings.algorithm);
+  const updated = scheduler.schedule(tempCard, result, userProfile, getSchedulerOptions(examSettings));
   
-  return updated.nextReviewDate || addDays(new Date(), 1);
+  return balanceReviewDate(updated.interval ?? 1, examDate).nextReviewDate;
 };
 
 /**
@@ -232,67 +304,26 @@ export const completeEnemyReview = (
       const currentCycle = review.current_review_cycle as number;
       const newCycle = Math.min(currentCycle + 1, 5); // Max 5 cycles (30 days)
       
-      // Calculate room based on current performance
-      const roomStmt = database.prepare(`
-        SELECT 
-          COUNT(qa.id) as questions_answered,
-          SUM(CASE WHEN qa.is_correct = 1 THEN 1 ELSE 0 END) as questions_correct
-        FROM questions q
-        LEFT JOIN question_attempts qa ON qa.question_id = q.id
-        WHERE q.topic_id = ? AND qa.id IS NOT NULL
-      `);
-      roomStmt.bind([topicId]);
-      
-      let newRoom: Room = 'triagem';
-      if (roomStmt.step()) {
-        const roomData = roomStmt.getAsObject();
-        const questionsAnswered = roomData.questions_answered as number;
-        const questionsCorrect = roomData.questions_correct as number;
-        const accuracyRate = questionsAnswered > 0 ? (questionsCorrect / questionsAnswered) * 100 : 0;
-        
-        if (questionsAnswered === 0) {
-          newRoom = 'triagem';
-        } else if (accuracyRate < 70) {
-          newRoom = 'vermelha';
-        } else if (accuracyRate < 85) {
-          newRoom = 'amarela';
-        } else {
-          newRoom = 'verde';
-        }
-      }
-      roomStmt.free();
+      // Room derived from the review state of the topic's questions
+      const newRoom: Room = deriveTopicRoom(topicId);
       
-      const nextReviewDate = calculateNextReviewDate(
-        newRoom, 
-        newCycle, 
-        examDate, 
-        quality, 
-        responseTime, 
-        confidenceLevel
-      );
+      // Agenda a próxima revisão com o motor escolhido (SM-2 ou FSRS)
+      const settings = getReviewSettings();
+      const scheduler = getScheduler(settings.algorithm);
+      const card = convertReviewCard(enemyRowToReviewCard(review, examDate), settings.algorithm);
+      const effectiveQuality = adjustQualityForRoom(newRoom, quality ?? roomToQuality(newRoom));
       
-      // Calcula novos parâmetros inteligentes
-      let newEaseFactor = 2.5;
-      let newAverageQuality = quality || 3;
-      let newStreakCount = 0;
-      let newFailureCount = 0;
+      const result: ReviewResult = {
+        quality: effectiveQuality,
+        responseTime: responseTime || 60,
+        confidenceLevel: (confidenceLevel as ReviewResult['confidenceLevel']) || 'certeza',
+        wasCorrect: effectiveQuality >= 3
+      };
       
-      if (quality !== undefined) {
-        const wasCorrect = quality >= 3;
-        newStreakCount = wasCorrect ? (review.streak_count as number || 0) + 1 : 0;
-        newFailureCount = wasCorrect ? 0 : (review.failure_count as number || 0) + 1;
-        
-        // Atualiza fator de facilidade
-        const currentEase = review.ease_factor as number || 2.5;
-        newEaseFactor = Math.max(1.3, Math.min(2.5, 
-          currentEase + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
-        ));
-        
-        // Atualiza qualidade média
-        const currentAvg = review.average_quality as number || 0;
-        const totalReviews = review.total_reviews as number || 0;
-        newAverageQuality = (currentAvg * totalReviews + quality) / (totalReviews + 1);
-      }
+      const updated = scheduler.schedule(card, result, getUserProfile(), getSchedulerOptions(getExamAdjustedSettings(settings, card.examDate)));
+      // Espalha a data entre dias vizinhos para evitar picos de revisão
+      const balanced = balanceReviewDate(updated.interval ?? card.interval, card.examDate);
+      const nextReviewDate = balanced.nextReviewDate;
       
       // Update review with enhanced data
       const updateStmt = database.prepare(`
@@ -307,6 +338,11 @@ export const completeEnemyReview = (
           average_quality = ?,
           streak_count = ?,
           failure_count = ?,
+          lapses = lapses + ?,
+          interval_days = ?,
+          stability = ?,
+          difficulty = ?,
+          algorithm = ?,
           updated_at = datetime('now')
         WHERE topic_id = ?
       `);
@@ -315,14 +351,34 @@ export const completeEnemyReview = (
         newCycle,
         nextReviewDate.toISOString(),
         true, // Block again until next review
-        newEaseFactor,
-        newAverageQuality,
-        newStreakCount,
-        newFailureCount,
+        updated.easeFactor ?? card.easeFactor,
+        updated.averageQuality ?? card.averageQuality,
+        updated.streakCount ?? 0,
+        updated.failureCount ?? 0,
+        result.wasCorrect ? 0 : 1,
+        balanced.interval,
+        updated.stability ?? null,
+        updated.difficulty ?? null,
+        settings.algorithm,
         topicId
       ]);
       updateStmt.free();
       
+      if (!result.wasCorrect) {
+        checkEnemyLeech(topicId);
+      }
+      
+      addReviewLog({
+        itemId: topicId,
+        itemKind: 'enemy_topic',
+        topicId,
+        rating: effectiveQuality,
+        responseTime,
+        intervalBefore: card.interval,
+        intervalAfter: balanced.interval,
+        algorithm: settings.algorithm
+      });
+      
       stmt.free();
       scheduleSave();
       return newRoom;
@@ -349,6 +405,7 @@ export const checkAndUnlockEnemies = (): string[] => {
     const selectStmt = database.prepare(`
       SELECT topic_id FROM enemy_reviews 
       WHERE is_blocked = 1 AND next_review_date <= ?
+        AND (suspended IS NULL OR suspended = 0)
     `);
     selectStmt.bind([today]);
     
@@ -411,7 +468,14 @@ export const getEnemyReviewData = (topicId: string): EnemyReviewData | null => {
         streakCount: (row.streak_count as number) || 0,
         failureCount: (row.failure_count as number) || 0,
         personalizedMultiplier: (row.personalized_multiplier as number) || 1.0,
-        reviewHistory: [] // Por enquanto vazio, pode ser expandido
+        reviewHistory: [], // Por enquanto vazio, pode ser expandido
+        intervalDays: (row.interval_days as number) || 0,
+        stability: (row.stability as number) || undefined,
+        difficulty: (row.difficulty as number) || undefined,
+        algorithm: (row.algorithm as SchedulerAlgorithm) || 'sm2',
+        lapses: (row.lapses as number) || 0,
+        isLeech: Boolean(row.is_leech),
+        isSuspended: Boolean(row.suspended)
       };
       
       stmt.free();
@@ -521,4 +585,79 @@ export const recalculateAllReviewDates = (newExamDate?: Date): void => {
   } catch (error) {
     console.error('Error recalculating review dates:', error);
   }
-};
\ No newline at end of file
+};
+/**
+ * Get the scheduler state of every enemy review (used by the workload simulator)
+ */
+export const getEnemyReviewCards = (): ReviewCard[] => {
+  const database = getDBOrThrow();
+
+  try {
+    const stmt = database.prepare('SELECT * FROM enemy_reviews WHERE suspended IS NULL OR suspended = 0');
+    const cards: ReviewCard[] = [];
+    
+    while (stmt.step()) {
+      cards.push(enemyRowToReviewCard(stmt.getAsObject()));
+    }
+    stmt.free();
+    
+    return cards;
+  } catch (error) {
+    console.error('Error getting enemy review cards:', error);
+    return [];
+  }
+};
+
+/**
+ * Convert the stored scheduler state of every enemy review to another algorithm
+ */
+export const migrateEnemyReviewsToAlgorithm = (algorithm: SchedulerAlgorithm): number => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+
+  try {
+    const stmt = database.prepare('SELECT * FROM enemy_reviews');
+    const cards: ReviewCard[] = [];
+    
+    while (stmt.step()) {
+      cards.push(enemyRowToReviewCard(stmt.getAsObject()));
+    }
+    stmt.free();
+    
+    const updateStmt = database.prepare(`
+      UPDATE enemy_reviews 
+      SET 
+        ease_factor = ?,
+        interval_days = ?,
+        stability = ?,
+        difficulty = ?,
+        algorithm = ?,
+        updated_at = datetime('now')
+      WHERE id = ?
+    `);
+    
+    let migrated = 0;
+    cards.forEach(card => {
+      if (card.algorithm === algorithm) return;
+      
+      const converted = convertReviewCard(card, algorithm);
+      updateStmt.run([
+        converted.easeFactor,
+        converted.interval,
+        converted.stability ?? null,
+        converted.difficulty ?? null,
+        algorithm,
+        card.id
+      ]);
+      migrated++;
+    });
+    updateStmt.free();
+    
+    scheduleSave();
+    console.log(`Migrated ${migrated} enemy reviews to ${algorithm}`);
+    return migrated;
+  } catch (error) {
+    console.error('Error migrating enemy reviews:', error);
+    return 0;
+  }
+};
@@ -0,0 +1,71 @@
+import { differenceInCalendarDays, startOfDay } from 'date-fns';
+import { getDBOrThrow } from '../singleton';
+import { getScheduler, convertReviewCard, type ReviewCard } from '@/utils/spacedRepetition';
+import { getExamAdjustedSettings, getReviewSettings, isExamModeActive, type ReviewSettings } from './reviewSettings';
+import { getCurrentExamDate } from './reviewLoad';
+import type { ReviewItemKind } from './reviewLogs';
+
+/**
+ * Modo exame: estado atual e regras usadas pelas filas de revisão
+ * (prioridade por probabilidade de lembrar e corte de material novo na reta final)
+ */
+
+export interface ExamModeState {
+  active: boolean;
+  examDate?: Date;
+  daysUntilExam: number;
+  settings: ReviewSettings; // Configurações já ajustadas para hoje
+}
+
+/**
+ * Exam mode state for the current study plan
+ */
+export const getExamModeState = (now: Date = new Date()): ExamModeState => {
+  const settings = getReviewSettings();
+  const examDate = getCurrentExamDate();
+  const daysUntilExam = examDate ? differenceInCalendarDays(examDate, now) : 0;
+
+  return {
+    active: isExamModeActive(settings, daysUntilExam),
+    examDate,
+    daysUntilExam,
+    settings: getExamAdjustedSettings(settings, examDate, now)
+  };
+};
+
+/**
+ * Sort items so the ones the user is most likely to have forgotten come first
+ */
+export const orderByRetrievability = <T>(
+  items: T[],
+  toCard: (item: T) => ReviewCard,
+  settings: ReviewSettings,
+  now: Date = new Date()
+): T[] => {
+  const scheduler = getScheduler(settings.algorithm);
+  return items
+    .map(item => ({ item, retrievability: scheduler.retrievability(convertReviewCard(toCard(item), settings.algorithm), now) }))
+    .sort((a, b) => a.retrievability - b.retrievability)
+    .map(({ item }) => item);
+};
+
+/**
+ * How many never-seen items of a kind were introduced today (first review has no interval yet)
+ */
+export const getNewItemsIntroducedToday = (kind: ReviewItemKind, now: Date = new Date()): number => {
+  try {
+    const database = getDBOrThrow();
+    const stmt = database.prepare(`
+      SELECT COUNT(DISTINCT item_id) as count FROM review_logs
+      WHERE item_kind = ? AND interval_before = 0 AND reviewed_at >= ?
+    `);
+    stmt.bind([kind, startOfDay(now).toISOString()]);
+    const count = stmt.step() ? stmt.getAsObject().count as number : 0;
+    stmt.free();
+
+    return count;
+  } catch (error) {
+    console.error('Error counting new items introduced today:', error);
+    return 0;
+  }
+};
@@ -0,0 +1,255 @@
+import { addDays, differenceInCalendarDays, startOfDay, subDays } from 'date-fns';
+import { getDBOrThrow, getScheduleSave } from '../singleton';
+import { getScheduler, convertReviewCard, type ReviewCard } from '@/utils/spacedRepetition';
+import { dueLoadKey } from '@/utils/loadBalancer';
+import { getDueLoad } from './reviewLoad';
+import type { ReviewSettings } from './reviewSettings';
+import { getExamModeState } from './examMode';
+import { getFlashcardReviewCards } from './flashcards';
+import { getQuestionReviewCards } from './questionReviews';
+import { getEnemyReviewCards } from './enemyReviews';
+
+/**
+ * Reta final do modo exame: garante que todo tópico estudado tenha ao menos uma revisão
+ * nos últimos dias antes da prova e mostra o que será visto até lá.
+ */
+
+export type ExamPlanItemKind = 'flashcard' | 'question' | 'enemy_topic';
+
+export interface ExamPlanItem {
+  id: string;
+  kind: ExamPlanItemKind;
+  label: string;
+  dueDate: Date;
+  retrievability: number; // Probabilidade de lembrar hoje (0-1)
+}
+
+export interface ExamPlanTopic {
+  topicId: string;
+  topicName: string;
+  subjectName: string;
+  items: ExamPlanItem[];          // Itens que vencem antes do exame, por data
+  coveredInFinalWindow: boolean;  // Tem revisão (feita ou agendada) na reta final
+}
+
+export interface ExamPreview {
+  examDate: Date;
+  daysUntilExam: number;
+  finalWindowStart: Date;
+  newCardsCutoff: Date;           // A partir desse dia não entra material novo
+  topics: ExamPlanTopic[];
+  totalItems: number;
+  uncoveredTopics: number;
+}
+
+interface StudiedItem {
+  kind: ExamPlanItemKind;
+  card: ReviewCard;
+  label: string;
+  topicName: string;
+  subjectName: string;
+}
+
+// Tabela, rótulo exibido e coluna da data de revisão de cada tipo de item
+const ITEM_SOURCES: Record<ExamPlanItemKind, { table: string; labelColumn: string; dueColumn: string }> = {
+  flashcard: { table: 'flashcards', labelColumn: 'i.front', dueColumn: 'due_date' },
+  question: { table: 'questions', labelColumn: 'i.title', dueColumn: 'due_date' },
+  enemy_topic: { table: 'enemy_reviews', labelColumn: 't.name', dueColumn: 'next_review_date' }
+};
+
+const readItemLabels = (kind: ExamPlanItemKind): Map<string, { label: string; topicName: string; subjectName: string }> => {
+  const database = getDBOrThrow();
+  const { table, labelColumn } = ITEM_SOURCES[kind];
+  const stmt = database.prepare(`
+    SELECT i.id, ${labelColumn} as label, t.name as topic_name, s.name as subject_name
+    FROM ${table} i
+    JOIN study_topics t ON i.topic_id = t.id
+    JOIN study_subjects s ON t.subject_id = s.id
+  `);
+
+  const labels = new Map<string, { label: string; topicName: string; subjectName: string }>();
+  while (stmt.step()) {
+    const row = stmt.getAsObject();
+    labels.set(row.id as string, {
+      label: row.label as string,
+      topicName: row.topic_name as string,
+      subjectName: row.subject_name as string
+    });
+  }
+  stmt.free();
+
+  return labels;
+};
+
+/**
+ * Flashcards already reviewed, answered questions and enemy topics, grouped by topic
+ */
+const getStudiedItemsByTopic = (): Map<string, StudiedItem[]> => {
+  const sources: [ExamPlanItemKind, ReviewCard[]][] = [
+    ['flashcard', getFlashcardReviewCards().filter(card => card.totalReviews > 0)],
+    ['question', getQuestionReviewCards()],
+    ['enemy_topic', getEnemyReviewCards()]
+  ];
+
+  const byTopic = new Map<string, StudiedItem[]>();
+  sources.forEach(([kind, cards]) => {
+    const labels = readItemLabels(kind);
+    cards.forEach(card => {
+      const info = labels.get(card.id);
+      if (!info) return;
+      byTopic.set(card.topicId, [...(byTopic.get(card.topicId) || []), { kind, card, ...info }]);
+    });
+  });
+
+  return byTopic;
+};
+
+/**
+ * Topics with a review already done since the given date
+ */
+const getTopicsReviewedSince = (since: Date): Set<string> => {
+  const database = getDBOrThrow();
+  const stmt = database.prepare('SELECT DISTINCT topic_id FROM review_logs WHERE topic_id IS NOT NULL AND reviewed_at >= ?');
+  stmt.bind([since.toISOString()]);
+
+  const topics = new Set<string>();
+  while (stmt.step()) {
+    topics.add(stmt.getAsObject().topic_id as string);
+  }
+  stmt.free();
+
+  return topics;
+};
+
+/**
+ * An item lands in the final window if it is due there, or if it is pending once the window has started
+ */
+const isSeenInFinalWindow = (dueDate: Date, windowStart: Date, examDate: Date, now: Date): boolean =>
+  dueDate < examDate && (dueDate >= windowStart || now >= windowStart);
+
+/**
+ * Give every studied topic at least one review in the final days before the exam.
+ * Topics with nothing due (or reviewed) in that window get the item they are most likely to
+ * have forgotten moved to the lightest day of the window. Returns how many items were moved.
+ */
+export const ensureFinalTopicReviews = (now: Date = new Date()): number => {
+  const exam = getExamModeState(now);
+  if (!exam.active || !exam.examDate) return 0;
+
+  try {
+    const database = getDBOrThrow();
+    const scheduleSave = getScheduleSave();
+    const examDate = exam.examDate;
+    const windowStart = startOfDay(subDays(examDate, exam.settings.examFinalReviewDays));
+    const firstDay = windowStart > now ? windowStart : startOfDay(now);
+    const lastDay = subDays(startOfDay(examDate), 1);
+    if (lastDay < firstDay) return 0;
+
+    const scheduler = getScheduler(exam.settings.algorithm);
+    const reviewedInWindow = getTopicsReviewedSince(windowStart);
+    const dueLoad = getDueLoad(firstDay, lastDay);
+    let moved = 0;
+
+    getStudiedItemsByTopic().forEach((items, topicId) => {
+      const covered = reviewedInWindow.has(topicId) ||
+        items.some(item => isSeenInFinalWindow(item.card.nextReviewDate, windowStart, examDate, now));
+      if (covered) return;
+
+      // Só antecipa itens agendados para depois do exame; os anteriores ainda serão revistos
+      const candidates = items.filter(item => item.card.nextReviewDate >= examDate);
+      if (candidates.length === 0) return;
+
+      const retrievabilityAtExam = (item: StudiedItem) =>
+        scheduler.retrievability(convertReviewCard(item.card, exam.settings.algorithm), examDate);
+      const weakest = candidates.reduce((worst, item) =>
+        retrievabilityAtExam(item) < retrievabilityAtExam(worst) ? item : worst
+      );
+
+      // Dia mais vazio da reta final
+      let target = firstDay;
+      for (let day = firstDay; day <= lastDay; day = addDays(day, 1)) {
+        if ((dueLoad[dueLoadKey(day)] || 0) < (dueLoad[dueLoadKey(target)] || 0)) target = day;
+      }
+      dueLoad[dueLoadKey(target)] = (dueLoad[dueLoadKey(target)] || 0) + 1;
+
+      const { table, dueColumn } = ITEM_SOURCES[weakest.kind];
+      database.run(
+        `UPDATE ${table} SET ${dueColumn} = ? WHERE id = ?`,
+        [target.toISOString(), weakest.card.id]
+      );
+      moved++;
+    });
+
+    if (moved > 0) {
+      console.log(`🎯 Exam mode: ${moved} topics got a review in the final ${exam.settings.examFinalReviewDays} days`);
+      scheduleSave();
+    }
+    return moved;
+  } catch (error) {
+    console.error('Error ensuring final topic reviews:', error);
+    return 0;
+  }
+};
+
+/**
+ * Preview of what will be reviewed before the exam, topic by topic
+ * (draft values let the settings screen preview unsaved final-stretch lengths)
+ */
+export const getExamPreview = (
+  draft: Partial<Pick<ReviewSettings, 'examFinalReviewDays' | 'examNewCardCutoffDays'>> = {},
+  now: Date = new Date()
+): ExamPreview | null => {
+  const exam = getExamModeState(now);
+  if (!exam.examDate || exam.daysUntilExam <= 0) return null;
+
+  try {
+    const examDate = exam.examDate;
+    const scheduler = getScheduler(exam.settings.algorithm);
+    const { examFinalReviewDays, examNewCardCutoffDays } = { ...exam.settings, ...draft };
+    const windowStart = startOfDay(subDays(examDate, examFinalReviewDays));
+    const reviewedInWindow = getTopicsReviewedSince(windowStart);
+
+    const topics: ExamPlanTopic[] = [];
+    getStudiedItemsByTopic().forEach((items, topicId) => {
+      const seen = items
+        .filter(item => item.card.nextReviewDate < examDate)
+        .map(item => ({
+          id: item.card.id,
+          kind: item.kind,
+          label: item.label,
+          dueDate: item.card.nextReviewDate,
+          retrievability: scheduler.retrievability(convertReviewCard(item.card, exam.settings.algorithm), now)
+        }))
+        .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+
+      topics.push({
+        topicId,
+        topicName: items[0].topicName,
+        subjectName: items[0].subjectName,
+        items: seen,
+        coveredInFinalWindow: reviewedInWindow.has(topicId) ||
+          seen.some(item => isSeenInFinalWindow(item.dueDate, windowStart, examDate, now))
+      });
+    });
+
+    // Tópicos sem revisão na reta final primeiro
+    topics.sort((a, b) =>
+      Number(a.coveredInFinalWindow) - Number(b.coveredInFinalWindow) ||
+      a.subjectName.localeCompare(b.subjectName) ||
+      a.topicName.localeCompare(b.topicName)
+    );
+
+    return {
+      examDate,
+      daysUntilExam: differenceInCalendarDays(examDate, now),
+      finalWindowStart: windowStart,
+      newCardsCutoff: startOfDay(subDays(examDate, examNewCardCutoffDays)),
+      topics,
+      totalItems: topics.reduce((sum, topic) => sum + topic.items.length, 0),
+      uncoveredTopics: topics.filter(topic => !topic.coveredInFinalWindow).length
+    };
+  } catch (error) {
+    console.error('Error building exam preview:', error);
+    return null;
+  }
+};
@@ -0,0 +1,207 @@
+import { getDBOrThrow, getScheduleSave } from '../singleton';
+import { startOfDay } from 'date-fns';
+import { rowToFlashcard, type Flashcard, type FlashcardWithTopic } from './flashcards';
+
+/**
+ * Decks filtrados: consultas salvas sobre os flashcards para sessões de estudo extra
+ * Por padrão a sessão não altera o agendamento normal dos cartões.
+ */
+
+export interface FilteredDeckCriteria {
+  subjectIds?: string[];
+  topicIds?: string[];
+  tags?: string[];
+  types?: Flashcard['type'][];
+  difficulties?: Flashcard['difficulty'][];
+  minLapses?: number;        // Mais de N lapsos
+  notReviewedDays?: number;  // Sem revisão há X dias (ou nunca revisados)
+  failedToday?: boolean;     // Marcados como "Errei" hoje
+}
+
+export type FilteredDeckOrder = 'due' | 'random' | 'most_lapses' | 'least_recent' | 'newest' | 'oldest';
+
+export interface FilteredDeck {
+  id: string;
+  name: string;
+  criteria: FilteredDeckCriteria;
+  cardLimit: number;
+  order: FilteredDeckOrder;
+  reschedule: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type FilteredDeckInput = Pick<FilteredDeck, 'name' | 'criteria' | 'cardLimit' | 'order' | 'reschedule'>;
+
+export const FILTERED_DECK_ORDER_LABELS: Record<FilteredDeckOrder, string> = {
+  due: 'Vencimento',
+  random: 'Aleatória',
+  most_lapses: 'Mais lapsos',
+  least_recent: 'Revisados há mais tempo',
+  newest: 'Mais recentes',
+  oldest: 'Mais antigos'
+};
+
+const ORDER_CLAUSES: Record<FilteredDeckOrder, string> = {
+  due: 'f.due_date IS NULL, f.due_date ASC',
+  random: 'RANDOM()',
+  most_lapses: 'f.lapses DESC, f.due_date ASC',
+  least_recent: 'f.last_reviewed IS NOT NULL, f.last_reviewed ASC',
+  newest: 'f.created_at DESC',
+  oldest: 'f.created_at ASC'
+};
+
+const rowToFilteredDeck = (row: Record<string, unknown>): FilteredDeck => ({
+  id: row.id as string,
+  name: row.name as string,
+  criteria: JSON.parse((row.criteria as string) || '{}'),
+  cardLimit: row.card_limit as number,
+  order: row.order_by as FilteredDeckOrder,
+  reschedule: Boolean(row.reschedule),
+  createdAt: row.created_at as string,
+  updatedAt: row.updated_at as string
+});
+
+const placeholders = (values: unknown[]) => values.map(() => '?').join(', ');
+
+/**
+ * Get all saved filtered decks
+ */
+export const getFilteredDecks = (): FilteredDeck[] => {
+  try {
+    const database = getDBOrThrow();
+    const stmt = database.prepare('SELECT * FROM filtered_decks ORDER BY name ASC');
+    const decks: FilteredDeck[] = [];
+
+    while (stmt.step()) {
+      decks.push(rowToFilteredDeck(stmt.getAsObject()));
+    }
+    stmt.free();
+
+    return decks;
+  } catch (error) {
+    console.error('Error in getFilteredDecks:', error);
+    return [];
+  }
+};
+
+/**
+ * Create a filtered deck
+ */
+export const createFilteredDeck = (deck: FilteredDeckInput): string => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+  const id = crypto.randomUUID();
+
+  database.run(`
+    INSERT INTO filtered_decks (id, name, criteria, card_limit, order_by, reschedule)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `, [id, deck.name, JSON.stringify(deck.criteria), deck.cardLimit, deck.order, deck.reschedule ? 1 : 0]);
+
+  scheduleSave();
+  return id;
+};
+
+/**
+ * Update a filtered deck
+ */
+export const updateFilteredDeck = (id: string, deck: FilteredDeckInput): void => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+
+  database.run(`
+    UPDATE filtered_decks
+    SET name = ?, criteria = ?, card_limit = ?, order_by = ?, reschedule = ?
+    WHERE id = ?
+  `, [deck.name, JSON.stringify(deck.criteria), deck.cardLimit, deck.order, deck.reschedule ? 1 : 0, id]);
+
+  scheduleSave();
+};
+
+/**
+ * Delete a filtered deck (its cards are not affected)
+ */
+export const deleteFilteredDeck = (id: string): void => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+
+  database.run('DELETE FROM filtered_decks WHERE id = ?', [id]);
+  scheduleSave();
+};
+
+/**
+ * Get the cards matching a filtered deck, already ordered and limited
+ */
+export const getFilteredDeckCards = (
+  deck: Pick<FilteredDeck, 'criteria' | 'cardLimit' | 'order'>
+): FlashcardWithTopic[] => {
+  try {
+    const database = getDBOrThrow();
+    const { criteria } = deck;
+
+    // Cartões enterrados (irmãos de omissão) continuam fora até o dia seguinte; suspensos ficam sempre fora
+    const conditions = ['(f.buried_until IS NULL OR f.buried_until < ?)', '(f.suspended IS NULL OR f.suspended = 0)'];
+    const params: (string | number)[] = [new Date().toISOString()];
+
+    if (criteria.subjectIds?.length) {
+      conditions.push(`s.id IN (${placeholders(criteria.subjectIds)})`);
+      params.push(...criteria.subjectIds);
+    }
+    if (criteria.topicIds?.length) {
+      conditions.push(`f.topic_id IN (${placeholders(criteria.topicIds)})`);
+      params.push(...criteria.topicIds);
+    }
+    if (criteria.types?.length) {
+      conditions.push(`f.type IN (${placeholders(criteria.types)})`);
+      params.push(...criteria.types);
+    }
+    if (criteria.difficulties?.length) {
+      conditions.push(`f.difficulty IN (${placeholders(criteria.difficulties)})`);
+      params.push(...criteria.difficulties);
+    }
+    if (criteria.minLapses !== undefined && criteria.minLapses >= 0) {
+      conditions.push('f.lapses > ?');
+      params.push(criteria.minLapses);
+    }
+    if (criteria.notReviewedDays !== undefined && criteria.notReviewedDays > 0) {
+      // last_reviewed vem de datetime('now'), então a comparação também é feita em UTC
+      conditions.push("(f.last_reviewed IS NULL OR f.last_reviewed <= datetime('now', ?))");
+      params.push(`-${criteria.notReviewedDays} days`);
+    }
+    if (criteria.failedToday) {
+      conditions.push(`f.id IN (
+        SELECT item_id FROM review_logs
+        WHERE item_kind = 'flashcard' AND rating < 3 AND reviewed_at >= ?
+      )`);
+      params.push(startOfDay(new Date()).toISOString());
+    }
+
+    const stmt = database.prepare(`
+      SELECT
+        f.*,
+        t.name as topic_name,
+        s.name as subject_name
+      FROM flashcards f
+      JOIN study_topics t ON f.topic_id = t.id
+      JOIN study_subjects s ON t.subject_id = s.id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${ORDER_CLAUSES[deck.order] || ORDER_CLAUSES.due}
+    `);
+    stmt.bind(params);
+
+    const tags = (criteria.tags || []).map(tag => tag.toLowerCase());
+    const cards: FlashcardWithTopic[] = [];
+    while (stmt.step() && cards.length < deck.cardLimit) {
+      const card = rowToFlashcard<FlashcardWithTopic>(stmt.getAsObject());
+      // Tags ficam em JSON, então o filtro é feito aqui (qualquer uma das tags)
+      if (tags.length > 0 && !card.tags?.some(tag => tags.includes(tag.toLowerCase()))) continue;
+      cards.push(card);
+    }
+    stmt.free();
+
+    return cards;
+  } catch (error) {
+    console.error('Error in getFilteredDeckCards:', error);
+    return [];
+  }
+};
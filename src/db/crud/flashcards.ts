@@ -1,33 +1,94 @@
-import { getDBOrThrow } from '../singleton';
+import { getDBOrThrow, getScheduleSave } from '../singleton';
+import { endOfDay } from 'date-fns';
+import {
+  getScheduler,
+  convertReviewCard,
+  type ReviewCard,
+  type ReviewResult,
+  type SchedulerAlgorithm
+} from '@/utils/spacedRepetition';
+import { getExamAdjustedSettings, getReviewSettings, getSchedulerOptions } from './reviewSettings';
+import { getUserProfile } from './enemyReviews';
+import { addReviewLog, getReviewHistory, type ReviewHistory } from './reviewLogs';
+import { balanceReviewDate, getCurrentExamDate } from './reviewLoad';
+import { getClozeNumbers } from '@/utils/cloze';
+import { checkFlashcardLeech } from './leeches';
+import { getExamModeState, getNewItemsIntroducedToday, orderByRetrievability } from './examMode';
 
 export interface Flashcard {
   id: string;
   topic_id: string;
   front: string;
   back: string;
-  type: 'concept' | 'definition' | 'formula' | 'custom';
+  type: 'concept' | 'definition' | 'formula' | 'custom' | 'cloze';
   difficulty: 'easy' | 'medium' | 'hard';
   times_reviewed: number;
   last_reviewed?: string;
+  // Estado do agendamento (SM-2 / FSRS)
+  due_date?: string;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  stability?: number;
+  fsrs_difficulty?: number;
+  algorithm: SchedulerAlgorithm;
+  // Omissões: cartões irmãos compartilham note_id; front guarda o texto da nota
+  note_id?: string;
+  cloze_index?: number;
+  buried_until?: string;
+  tags?: string[];
+  suspended?: boolean; // Sanguessuga fora das filas
+  // Gerado a partir de uma questão errada
+  source_question_id?: string;
+  source_fingerprint?: string;
+  images?: string[]; // Referências do media store (media:<hash>)
   created_at: string;
   updated_at: string;
 }
 
+export type FlashcardRating = 'easy' | 'good' | 'hard' | 'again';
+
+type FlashcardSchedulingFields =
+  | 'due_date'
+  | 'ease_factor'
+  | 'interval_days'
+  | 'repetitions'
+  | 'lapses'
+  | 'stability'
+  | 'fsrs_difficulty'
+  | 'algorithm'
+  | 'buried_until'
+  | 'suspended';
+
 export interface FlashcardWithTopic extends Flashcard {
   topic_name: string;
   subject_name: string;
 }
 
+/**
+ * Converte uma linha do banco (tags gravadas como JSON) em Flashcard
+ */
+export const rowToFlashcard = <T extends Flashcard = Flashcard>(row: Record<string, unknown>): T => ({
+  ...row,
+  tags: JSON.parse((row.tags as string) || '[]'),
+  images: JSON.parse((row.images as string) || '[]'),
+  suspended: Boolean(row.suspended)
+}) as T;
+
 /**
  * Create a new flashcard
  */
-export const createFlashcard = async (flashcard: Omit<Flashcard, 'id' | 'created_at' | 'updated_at' | 'times_reviewed'>): Promise<string> => {
+export const createFlashcard = async (flashcard: Omit<Flashcard, 'id' | 'created_at' | 'updated_at' | 'times_reviewed' | FlashcardSchedulingFields>): Promise<string> => {
   const database = getDBOrThrow();
   const id = crypto.randomUUID();
   
   const stmt = database.prepare(`
-    INSERT INTO flashcards (id, topic_id, front, back, type, difficulty)
-    VALUES (?, ?, ?, ?, ?, ?)
+    INSERT INTO flashcards (
+      id, topic_id, front, back, type, difficulty, note_id, cloze_index, tags,
+      source_question_id, source_fingerprint, images
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
   
   stmt.run([
@@ -36,12 +97,108 @@ export const createFlashcard = async (flashcard: Omit<Flashcard, 'id' | 'created
     flashcard.front,
     flashcard.back,
     flashcard.type,
-    flashcard.difficulty
+    flashcard.difficulty,
+    flashcard.note_id ?? null,
+    flashcard.cloze_index ?? null,
+    JSON.stringify(flashcard.tags || []),
+    flashcard.source_question_id ?? null,
+    flashcard.source_fingerprint ?? null,
+    JSON.stringify(flashcard.images || [])
   ]);
   
   return id;
 };
 
+/**
+ * Create a cloze note: one card per cloze number, all sharing the same note_id
+ */
+export const createClozeNote = async (note: {
+  topic_id: string;
+  text: string;
+  extra: string;
+  difficulty: Flashcard['difficulty'];
+  tags?: string[];
+  images?: string[];
+}): Promise<string[]> => {
+  const clozeNumbers = getClozeNumbers(note.text);
+  if (clozeNumbers.length === 0) {
+    throw new Error('Cloze note has no {{cN::...}} deletions');
+  }
+  
+  const scheduleSave = getScheduleSave();
+  const noteId = crypto.randomUUID();
+  const ids: string[] = [];
+  
+  for (const clozeIndex of clozeNumbers) {
+    ids.push(await createFlashcard({
+      topic_id: note.topic_id,
+      front: note.text,
+      back: note.extra,
+      type: 'cloze',
+      difficulty: note.difficulty,
+      tags: note.tags,
+      images: note.images,
+      note_id: noteId,
+      cloze_index: clozeIndex
+    }));
+  }
+  
+  scheduleSave();
+  return ids;
+};
+
+/**
+ * Update the text of a cloze note, keeping the schedule of cards whose cloze number still exists.
+ * Cards for new cloze numbers are created and cards for removed numbers are deleted.
+ */
+export const updateClozeNote = async (
+  noteId: string,
+  updates: { text: string; extra: string; difficulty: Flashcard['difficulty']; tags?: string[]; images?: string[] }
+): Promise<void> => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+  const clozeNumbers = getClozeNumbers(updates.text);
+  if (clozeNumbers.length === 0) {
+    throw new Error('Cloze note has no {{cN::...}} deletions');
+  }
+  
+  const selectStmt = database.prepare('SELECT id, topic_id, cloze_index FROM flashcards WHERE note_id = ?');
+  selectStmt.bind([noteId]);
+  const siblings: { id: string; topic_id: string; cloze_index: number }[] = [];
+  while (selectStmt.step()) {
+    siblings.push(selectStmt.getAsObject() as { id: string; topic_id: string; cloze_index: number });
+  }
+  selectStmt.free();
+  
+  if (siblings.length === 0) return;
+  
+  database.run(
+    'UPDATE flashcards SET front = ?, back = ?, difficulty = ?, tags = ?, images = ? WHERE note_id = ?',
+    [updates.text, updates.extra, updates.difficulty, JSON.stringify(updates.tags || []), JSON.stringify(updates.images || []), noteId]
+  );
+  
+  siblings
+    .filter(card => !clozeNumbers.includes(card.cloze_index))
+    .forEach(card => database.run('DELETE FROM flashcards WHERE id = ?', [card.id]));
+  
+  const existing = siblings.map(card => card.cloze_index);
+  for (const clozeIndex of clozeNumbers.filter(number => !existing.includes(number))) {
+    await createFlashcard({
+      topic_id: siblings[0].topic_id,
+      front: updates.text,
+      back: updates.extra,
+      type: 'cloze',
+      difficulty: updates.difficulty,
+      tags: updates.tags,
+      images: updates.images,
+      note_id: noteId,
+      cloze_index: clozeIndex
+    });
+  }
+  
+  scheduleSave();
+};
+
 /**
  * Get all flashcards with topic information
  */
@@ -63,7 +220,7 @@ export const getAllFlashcards = async (): Promise<FlashcardWithTopic[]> => {
     const results = [];
     while (stmt.step()) {
       const row = stmt.getAsObject();
-      results.push(row);
+      results.push(rowToFlashcard(row));
     }
     stmt.free();
     
@@ -92,7 +249,7 @@ export const getFlashcardsByTopic = async (topicId: string): Promise<Flashcard[]
     stmt.bind([topicId]);
     while (stmt.step()) {
       const row = stmt.getAsObject();
-      results.push(row);
+      results.push(rowToFlashcard(row));
     }
     stmt.free();
     
@@ -117,13 +274,13 @@ export const getFlashcardById = async (id: string): Promise<Flashcard | null> =>
   const result = stmt.step() ? stmt.getAsObject() : null;
   stmt.free();
   
-  return result as Flashcard | null;
+  return result ? rowToFlashcard(result) : null;
 };
 
 /**
  * Update a flashcard
  */
-export const updateFlashcard = async (id: string, updates: Partial<Pick<Flashcard, 'front' | 'back' | 'type' | 'difficulty'>>): Promise<void> => {
+export const updateFlashcard = async (id: string, updates: Partial<Pick<Flashcard, 'front' | 'back' | 'type' | 'difficulty' | 'tags' | 'images'>>): Promise<void> => {
   const database = getDBOrThrow();
   
   const fields = [];
@@ -145,6 +302,14 @@ export const updateFlashcard = async (id: string, updates: Partial<Pick<Flashcar
     fields.push('difficulty = ?');
     values.push(updates.difficulty);
   }
+  if (updates.tags !== undefined) {
+    fields.push('tags = ?');
+    values.push(JSON.stringify(updates.tags));
+  }
+  if (updates.images !== undefined) {
+    fields.push('images = ?');
+    values.push(JSON.stringify(updates.images));
+  }
   
   if (fields.length === 0) return;
   
@@ -157,37 +322,214 @@ export const updateFlashcard = async (id: string, updates: Partial<Pick<Flashcar
   stmt.run([...values, id]);
 };
 
+/**
+ * Qualidade (0-5) equivalente a cada botão da sessão de revisão
+ */
+const RATING_QUALITY: Record<FlashcardRating, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+
+/**
+ * Monta um ReviewCard a partir de uma linha de flashcards e do histórico de revisões do cartão
+ */
+const flashcardRowToReviewCard = (row: Record<string, unknown>, history?: ReviewHistory): ReviewCard => {
+  const timesReviewed = (row.times_reviewed as number) || 0;
+
+  return {
+    id: row.id as string,
+    topicId: row.topic_id as string,
+    easeFactor: (row.ease_factor as number) || 2.5,
+    interval: (row.interval_days as number) || 0,
+    repetition: (row.repetitions as number) || 0,
+    nextReviewDate: row.due_date ? new Date(row.due_date as string) : new Date(),
+    // last_reviewed vem de datetime('now') (UTC sem fuso)
+    lastReviewDate: row.last_reviewed ? new Date(`${(row.last_reviewed as string).replace(' ', 'T')}Z`) : undefined,
+    averageQuality: history?.averageQuality ?? 0,
+    totalReviews: timesReviewed,
+    streakCount: (row.repetitions as number) || 0,
+    failureCount: history?.failureCount ?? 0,
+    isBlocked: false,
+    personalizedMultiplier: 1.0,
+    stability: (row.stability as number) || undefined,
+    difficulty: (row.fsrs_difficulty as number) || undefined,
+    algorithm: (row.algorithm as SchedulerAlgorithm) || 'sm2'
+  };
+};
+
 /**
  * Update flashcard review statistics with spaced repetition algorithm
  */
-export const updateFlashcardReview = async (id: string, quality: 'easy' | 'good' | 'hard' | 'again'): Promise<void> => {
+export const updateFlashcardReview = async (
+  id: string,
+  quality: FlashcardRating,
+  responseTime?: number
+): Promise<Date | null> => {
   const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
   
-  // Calculate next review interval based on quality
-  let interval = 1; // days
-  switch (quality) {
-    case 'again':
-      interval = 1;
-      break;
-    case 'hard':
-      interval = 2;
-      break;
-    case 'good':
-      interval = 4;
-      break;
-    case 'easy':
-      interval = 7;
-      break;
-  }
+  const selectStmt = database.prepare('SELECT * FROM flashcards WHERE id = ?');
+  selectStmt.bind([id]);
+  const row = selectStmt.step() ? selectStmt.getAsObject() : null;
+  selectStmt.free();
+  
+  if (!row) return null;
+  
+  // Agenda com o mesmo motor usado pelos inimigos (SM-2 ou FSRS)
+  const settings = getReviewSettings();
+  const scheduler = getScheduler(settings.algorithm);
+  const history = getReviewHistory('flashcard', id).get(id);
+  const card = convertReviewCard(flashcardRowToReviewCard(row, history), settings.algorithm);
+  const result: ReviewResult = {
+    quality: RATING_QUALITY[quality],
+    responseTime: responseTime ?? 30,
+    confidenceLevel: 'certeza',
+    wasCorrect: quality !== 'again'
+  };
+  
+  const examDate = getCurrentExamDate();
+  const updated = scheduler.schedule(
+    { ...card, examDate },
+    result,
+    getUserProfile(),
+    // Modo exame encolhe os intervalos conforme o exame se aproxima
+    getSchedulerOptions(getExamAdjustedSettings(settings, examDate))
+  );
+  // Espalha a data entre dias vizinhos para evitar picos de revisão
+  const { interval, nextReviewDate: dueDate } = balanceReviewDate(updated.interval ?? 1, examDate);
+  const isLapse = quality === 'again' && card.totalReviews > 0;
   
   const stmt = database.prepare(`
     UPDATE flashcards 
     SET times_reviewed = times_reviewed + 1,
-        last_reviewed = datetime('now')
+        last_reviewed = datetime('now'),
+        due_date = ?,
+        ease_factor = ?,
+        interval_days = ?,
+        repetitions = ?,
+        lapses = lapses + ?,
+        stability = ?,
+        fsrs_difficulty = ?,
+        algorithm = ?
     WHERE id = ?
   `);
   
-  stmt.run([id]);
+  stmt.run([
+    dueDate.toISOString(),
+    updated.easeFactor ?? card.easeFactor,
+    interval,
+    updated.repetition ?? 0,
+    isLapse ? 1 : 0,
+    updated.stability ?? null,
+    updated.difficulty ?? null,
+    settings.algorithm,
+    id
+  ]);
+  stmt.free();
+  
+  if (isLapse) {
+    checkFlashcardLeech(id);
+  }
+  
+  // Irmãos da mesma nota ficam enterrados até o fim do dia
+  if (row.note_id) {
+    database.run(
+      'UPDATE flashcards SET buried_until = ? WHERE note_id = ? AND id != ?',
+      [endOfDay(new Date()).toISOString(), row.note_id as string, id]
+    );
+  }
+  
+  addReviewLog({
+    itemId: id,
+    itemKind: 'flashcard',
+    topicId: card.topicId,
+    rating: RATING_QUALITY[quality],
+    responseTime,
+    intervalBefore: card.interval,
+    intervalAfter: interval,
+    algorithm: settings.algorithm
+  });
+  
+  scheduleSave();
+  return dueDate;
+};
+
+/**
+ * Get the scheduler state of every flashcard (used by the workload simulator)
+ */
+export const getFlashcardReviewCards = (): ReviewCard[] => {
+  try {
+    const database = getDBOrThrow();
+    const stmt = database.prepare('SELECT * FROM flashcards WHERE suspended IS NULL OR suspended = 0');
+    const history = getReviewHistory('flashcard');
+    const cards: ReviewCard[] = [];
+    
+    while (stmt.step()) {
+      const row = stmt.getAsObject();
+      cards.push(flashcardRowToReviewCard(row, history.get(row.id as string)));
+    }
+    stmt.free();
+    
+    return cards;
+  } catch (error) {
+    console.error('Error in getFlashcardReviewCards:', error);
+    return [];
+  }
+};
+
+/**
+ * Convert the stored scheduler state of every flashcard to another algorithm
+ */
+export const migrateFlashcardsToAlgorithm = (algorithm: SchedulerAlgorithm): number => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+
+  try {
+    const stmt = database.prepare('SELECT * FROM flashcards WHERE times_reviewed > 0');
+    const cards: ReviewCard[] = [];
+    
+    while (stmt.step()) {
+      cards.push(flashcardRowToReviewCard(stmt.getAsObject()));
+    }
+    stmt.free();
+    
+    const updateStmt = database.prepare(`
+      UPDATE flashcards 
+      SET 
+        ease_factor = ?,
+        interval_days = ?,
+        stability = ?,
+        fsrs_difficulty = ?,
+        algorithm = ?
+      WHERE id = ?
+    `);
+    
+    let migrated = 0;
+    cards.forEach(card => {
+      if (card.algorithm === algorithm) return;
+      
+      const converted = convertReviewCard(card, algorithm);
+      updateStmt.run([
+        converted.easeFactor,
+        converted.interval,
+        converted.stability ?? null,
+        converted.difficulty ?? null,
+        algorithm,
+        card.id
+      ]);
+      migrated++;
+    });
+    updateStmt.free();
+    
+    scheduleSave();
+    console.log(`Migrated ${migrated} flashcards to ${algorithm}`);
+    return migrated;
+  } catch (error) {
+    console.error('Error migrating flashcards:', error);
+    return 0;
+  }
 };
 
 /**
@@ -203,6 +545,62 @@ export const deleteFlashcard = async (id: string): Promise<void> => {
   stmt.run([id]);
 };
 
+/**
+ * Split a flashcard into smaller cards (same topic, type, difficulty, tags and images) and delete the original.
+ * The new cards start without review history.
+ */
+export const splitFlashcard = async (
+  id: string,
+  parts: Pick<Flashcard, 'front' | 'back'>[],
+  dropTags: string[] = []
+): Promise<string[]> => {
+  const original = await getFlashcardById(id);
+  if (!original) {
+    throw new Error('Flashcard not found');
+  }
+  if (original.type === 'cloze') {
+    throw new Error('Cloze cards are split by editing the note');
+  }
+  
+  const scheduleSave = getScheduleSave();
+  const tags = (original.tags || []).filter(tag => !dropTags.includes(tag));
+  const ids: string[] = [];
+  
+  for (const part of parts) {
+    ids.push(await createFlashcard({
+      topic_id: original.topic_id,
+      front: part.front,
+      back: part.back,
+      type: original.type,
+      difficulty: original.difficulty,
+      tags,
+      images: original.images
+    }));
+  }
+  await deleteFlashcard(id);
+  
+  scheduleSave();
+  return ids;
+};
+
+/**
+ * Modo exame: revisões com menor chance de lembrar primeiro e cartões novos limitados
+ * ao que ainda cabe no dia (nenhum na reta final)
+ */
+const prioritizeForExam = (rows: Record<string, unknown>[]): Record<string, unknown>[] => {
+  const exam = getExamModeState();
+  if (!exam.active) return rows;
+  
+  const reviews = rows.filter(row => row.due_date);
+  const newCards = rows.filter(row => !row.due_date);
+  const newAllowed = Math.max(0, exam.settings.newCardsPerDay - getNewItemsIntroducedToday('flashcard'));
+  
+  return [
+    ...orderByRetrievability(reviews, flashcardRowToReviewCard, exam.settings),
+    ...newCards.slice(0, newAllowed)
+  ];
+};
+
 /**
  * Get flashcards ready for review (based on spaced repetition)
  */
@@ -210,44 +608,41 @@ export const getFlashcardsForReview = async (topicId?: string): Promise<Flashcar
   try {
     const database = getDBOrThrow();
     
+    // Cartões novos (sem due_date) ou vencidos até o fim do dia
     let query = `
       SELECT 
         f.*,
         t.name as topic_name,
-        s.name as subject_name,
-        er.next_review_date,
-        er.is_blocked
+        s.name as subject_name
       FROM flashcards f
       JOIN study_topics t ON f.topic_id = t.id
       JOIN study_subjects s ON t.subject_id = s.id
-      LEFT JOIN enemy_reviews er ON f.topic_id = er.topic_id
-      WHERE (er.next_review_date IS NULL OR er.next_review_date <= datetime('now'))
-      AND (er.is_blocked IS NULL OR er.is_blocked = 0)
+      WHERE (f.due_date IS NULL OR f.due_date <= ?)
+        AND (f.buried_until IS NULL OR f.buried_until < ?)
+        AND (f.suspended IS NULL OR f.suspended = 0)
     `;
     
-    const params = [];
+    const params = [endOfDay(new Date()).toISOString(), new Date().toISOString()];
     
     if (topicId) {
       query += ' AND f.topic_id = ?';
       params.push(topicId);
     }
     
-    query += ' ORDER BY f.last_reviewed ASC NULLS FIRST, f.created_at ASC';
+    // Revisões vencidas primeiro (as mais atrasadas antes), depois cartões novos
+    query += ' ORDER BY f.due_date IS NULL, f.due_date ASC, f.created_at ASC';
     
     const stmt = database.prepare(query);
-    const results = [];
+    const rows: Record<string, unknown>[] = [];
     
-    if (params.length > 0) {
-      stmt.bind(params);
-    }
+    stmt.bind(params);
     
     while (stmt.step()) {
-      const row = stmt.getAsObject();
-      results.push(row);
+      rows.push(stmt.getAsObject());
     }
     stmt.free();
     
-    return results as FlashcardWithTopic[];
+    return prioritizeForExam(rows).map(row => rowToFlashcard<FlashcardWithTopic>(row));
   } catch (error) {
     console.error('Error in getFlashcardsForReview:', error);
     return [];
@@ -315,10 +710,11 @@ export const getFlashcardStats = async (): Promise<{
     // Needs review count
     const needsReviewStmt = database.prepare(`
       SELECT COUNT(*) as count FROM flashcards f
-      LEFT JOIN enemy_reviews er ON f.topic_id = er.topic_id
-      WHERE (er.next_review_date IS NULL OR er.next_review_date <= datetime('now'))
-      AND (er.is_blocked IS NULL OR er.is_blocked = 0)
+      WHERE (f.due_date IS NULL OR f.due_date <= ?)
+        AND (f.buried_until IS NULL OR f.buried_until < ?)
+        AND (f.suspended IS NULL OR f.suspended = 0)
     `);
+    needsReviewStmt.bind([endOfDay(new Date()).toISOString(), new Date().toISOString()]);
     const needsReviewResult = needsReviewStmt.step() ? needsReviewStmt.getAsObject() : { count: 0 };
     const needsReview = (needsReviewResult as any)?.count || 0;
     needsReviewStmt.free();
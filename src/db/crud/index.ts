@@ -14,7 +14,10 @@ export * from './questions';
 export * from './battle';
 export * from './enemies';
 export * from './enemyReviews';
+export * from './reviewScheduler';
 export * from './flashcards';
+export * from './questionReviews';
+export * from './reviewLogs';
 
 // Re-export types for convenience
 export type { AppSetting } from './appSettings';
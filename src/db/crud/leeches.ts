@@ -0,0 +1,303 @@
+import { getDBOrThrow, getScheduleSave } from '../singleton';
+import { getReviewSettings } from './reviewSettings';
+import type { ReviewItemKind } from './reviewLogs';
+
+/**
+ * Sanguessugas: flashcards, questões e inimigos que continuam falhando.
+ * Flashcards e questões recebem a tag "leech"; inimigos usam enemy_reviews.is_leech.
+ * Com suspendLeeches ligado, o item sai das filas até o usuário agir.
+ */
+
+export const LEECH_TAG = 'leech';
+
+export interface LeechItem {
+  kind: ReviewItemKind;
+  id: string;               // id do flashcard/questão; para inimigos, o id do tópico
+  topicId: string;
+  topicName: string;
+  subjectName: string;
+  label: string;            // Frente do card, título da questão ou nome do tópico
+  lapses: number;
+  suspended: boolean;
+  flashcardType?: string;
+  clozeIndex?: number;
+}
+
+export const LEECH_KIND_LABELS: Record<ReviewItemKind, string> = {
+  flashcard: 'Flashcard',
+  question: 'Questão',
+  enemy_topic: 'Inimigo'
+};
+
+/**
+ * Um item vira sanguessuga ao atingir o limite e volta a disparar a cada
+ * metade do limite depois disso (mesma regra do Anki)
+ */
+export const isLeechLapse = (lapses: number, threshold: number): boolean => {
+  if (threshold <= 0 || lapses < threshold) return false;
+  return (lapses - threshold) % Math.max(1, Math.ceil(threshold / 2)) === 0;
+};
+
+const parseTags = (value: unknown): string[] => {
+  try {
+    return JSON.parse((value as string) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Marca flashcards e questões (tabelas com tags em JSON) como sanguessuga
+ */
+const tagLeech = (table: 'flashcards' | 'questions', id: string, suspend: boolean) => {
+  const database = getDBOrThrow();
+
+  const stmt = database.prepare(`SELECT tags FROM ${table} WHERE id = ?`);
+  stmt.bind([id]);
+  const tags = stmt.step() ? parseTags(stmt.getAsObject().tags) : [];
+  stmt.free();
+
+  if (!tags.includes(LEECH_TAG)) tags.push(LEECH_TAG);
+
+  database.run(
+    `UPDATE ${table} SET tags = ?, suspended = CASE WHEN ? THEN 1 ELSE suspended END WHERE id = ?`,
+    [JSON.stringify(tags), suspend ? 1 : 0, id]
+  );
+};
+
+/**
+ * Check a flashcard after a lapse; returns true when it just became a leech
+ */
+export const checkFlashcardLeech = (id: string): boolean => {
+  const database = getDBOrThrow();
+  const settings = getReviewSettings();
+
+  const stmt = database.prepare('SELECT lapses FROM flashcards WHERE id = ?');
+  stmt.bind([id]);
+  const lapses = stmt.step() ? (stmt.getAsObject().lapses as number) || 0 : 0;
+  stmt.free();
+
+  if (!isLeechLapse(lapses, settings.flashcardLeechThreshold)) return false;
+
+  tagLeech('flashcards', id, settings.suspendLeeches);
+  console.log(`🩸 Flashcard ${id} marked as leech after ${lapses} lapses`);
+  return true;
+};
+
+/**
+ * Check a question after a wrong answer; returns true when it just became a leech
+ */
+export const checkQuestionLeech = (questionId: string): boolean => {
+  const database = getDBOrThrow();
+  const settings = getReviewSettings();
+
+  // times_answered/times_correct são mantidos pelo trigger de question_attempts
+  const stmt = database.prepare('SELECT times_answered - times_correct as wrong FROM questions WHERE id = ?');
+  stmt.bind([questionId]);
+  const wrong = stmt.step() ? (stmt.getAsObject().wrong as number) || 0 : 0;
+  stmt.free();
+
+  if (!isLeechLapse(wrong, settings.questionLeechThreshold)) return false;
+
+  tagLeech('questions', questionId, settings.suspendLeeches);
+  console.log(`🩸 Question ${questionId} marked as leech after ${wrong} wrong answers`);
+  return true;
+};
+
+/**
+ * Check an enemy topic after a failed review; returns true when it just became a leech
+ */
+export const checkEnemyLeech = (topicId: string): boolean => {
+  const database = getDBOrThrow();
+  const settings = getReviewSettings();
+
+  const stmt = database.prepare('SELECT lapses FROM enemy_reviews WHERE topic_id = ?');
+  stmt.bind([topicId]);
+  const lapses = stmt.step() ? (stmt.getAsObject().lapses as number) || 0 : 0;
+  stmt.free();
+
+  if (!isLeechLapse(lapses, settings.enemyLeechThreshold)) return false;
+
+  // Suspenso, o inimigo continua bloqueado mesmo depois da data de revisão
+  database.run(`
+    UPDATE enemy_reviews
+    SET is_leech = 1,
+        suspended = CASE WHEN ? THEN 1 ELSE suspended END,
+        is_blocked = CASE WHEN ? THEN 1 ELSE is_blocked END
+    WHERE topic_id = ?
+  `, [settings.suspendLeeches ? 1 : 0, settings.suspendLeeches ? 1 : 0, topicId]);
+  console.log(`🩸 Enemy ${topicId} marked as leech after ${lapses} failed reviews`);
+  return true;
+};
+
+/**
+ * Get every flashcard, question and enemy topic currently marked as a leech
+ */
+export const getLeeches = (): LeechItem[] => {
+  try {
+    const database = getDBOrThrow();
+    const leeches: LeechItem[] = [];
+    const tagPattern = `%"${LEECH_TAG}"%`;
+
+    const flashcardStmt = database.prepare(`
+      SELECT f.id, f.front, f.type, f.cloze_index, f.tags, f.lapses, f.suspended, f.topic_id,
+             t.name as topic_name, s.name as subject_name
+      FROM flashcards f
+      JOIN study_topics t ON f.topic_id = t.id
+      JOIN study_subjects s ON t.subject_id = s.id
+      WHERE f.tags LIKE ?
+    `);
+    flashcardStmt.bind([tagPattern]);
+    while (flashcardStmt.step()) {
+      const row = flashcardStmt.getAsObject();
+      if (!parseTags(row.tags).includes(LEECH_TAG)) continue;
+      leeches.push({
+        kind: 'flashcard',
+        id: row.id as string,
+        topicId: row.topic_id as string,
+        topicName: row.topic_name as string,
+        subjectName: row.subject_name as string,
+        label: row.front as string,
+        lapses: (row.lapses as number) || 0,
+        suspended: Boolean(row.suspended),
+        flashcardType: row.type as string,
+        clozeIndex: (row.cloze_index as number) || undefined
+      });
+    }
+    flashcardStmt.free();
+
+    const questionStmt = database.prepare(`
+      SELECT q.id, q.title, q.tags, q.times_answered - q.times_correct as wrong, q.suspended, q.topic_id,
+             t.name as topic_name, s.name as subject_name
+      FROM questions q
+      JOIN study_topics t ON q.topic_id = t.id
+      JOIN study_subjects s ON t.subject_id = s.id
+      WHERE q.tags LIKE ?
+    `);
+    questionStmt.bind([tagPattern]);
+    while (questionStmt.step()) {
+      const row = questionStmt.getAsObject();
+      if (!parseTags(row.tags).includes(LEECH_TAG)) continue;
+      leeches.push({
+        kind: 'question',
+        id: row.id as string,
+        topicId: row.topic_id as string,
+        topicName: row.topic_name as string,
+        subjectName: row.subject_name as string,
+        label: row.title as string,
+        lapses: (row.wrong as number) || 0,
+        suspended: Boolean(row.suspended)
+      });
+    }
+    questionStmt.free();
+
+    const enemyStmt = database.prepare(`
+      SELECT er.topic_id, er.lapses, er.suspended, t.name as topic_name, s.name as subject_name
+      FROM enemy_reviews er
+      JOIN study_topics t ON er.topic_id = t.id
+      JOIN study_subjects s ON t.subject_id = s.id
+      WHERE er.is_leech = 1
+    `);
+    while (enemyStmt.step()) {
+      const row = enemyStmt.getAsObject();
+      leeches.push({
+        kind: 'enemy_topic',
+        id: row.topic_id as string,
+        topicId: row.topic_id as string,
+        topicName: row.topic_name as string,
+        subjectName: row.subject_name as string,
+        label: row.topic_name as string,
+        lapses: (row.lapses as number) || 0,
+        suspended: Boolean(row.suspended)
+      });
+    }
+    enemyStmt.free();
+
+    return leeches.sort((a, b) => b.lapses - a.lapses);
+  } catch (error) {
+    console.error('Error in getLeeches:', error);
+    return [];
+  }
+};
+
+/**
+ * Suspend or reactivate a leech in its queues
+ */
+export const setLeechSuspended = (leech: Pick<LeechItem, 'kind' | 'id'>, suspended: boolean): void => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+
+  if (leech.kind === 'enemy_topic') {
+    database.run('UPDATE enemy_reviews SET suspended = ? WHERE topic_id = ?', [suspended ? 1 : 0, leech.id]);
+  } else {
+    const table = leech.kind === 'flashcard' ? 'flashcards' : 'questions';
+    database.run(`UPDATE ${table} SET suspended = ? WHERE id = ?`, [suspended ? 1 : 0, leech.id]);
+  }
+
+  scheduleSave();
+};
+
+/**
+ * Clear the leech mark (after rewriting the item) and bring it back to its queues
+ */
+export const dismissLeech = (leech: Pick<LeechItem, 'kind' | 'id'>): void => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+
+  if (leech.kind === 'enemy_topic') {
+    database.run('UPDATE enemy_reviews SET is_leech = 0, suspended = 0 WHERE topic_id = ?', [leech.id]);
+  } else {
+    const table = leech.kind === 'flashcard' ? 'flashcards' : 'questions';
+    const stmt = database.prepare(`SELECT tags FROM ${table} WHERE id = ?`);
+    stmt.bind([leech.id]);
+    const tags = stmt.step() ? parseTags(stmt.getAsObject().tags) : [];
+    stmt.free();
+
+    database.run(
+      `UPDATE ${table} SET tags = ?, suspended = 0 WHERE id = ?`,
+      [JSON.stringify(tags.filter(tag => tag !== LEECH_TAG)), leech.id]
+    );
+  }
+
+  scheduleSave();
+};
+
+/**
+ * Schedule a theory study session for the leech's topic in the study plan
+ */
+export const scheduleLeechTheorySession = (topicId: string, date: Date, duration = 30): string | null => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+
+  const stmt = database.prepare(`
+    SELECT t.name as topic_name, s.name as subject_name
+    FROM study_topics t
+    JOIN study_subjects s ON t.subject_id = s.id
+    WHERE t.id = ?
+  `);
+  stmt.bind([topicId]);
+  const topic = stmt.step() ? stmt.getAsObject() : null;
+  stmt.free();
+
+  if (!topic) return null;
+
+  const sessionId = `session_${topicId}_${Date.now()}`;
+  database.run(`
+    INSERT INTO study_sessions (
+      id, subject, topic, start_time, duration,
+      completed, notes, performance
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `, [
+    sessionId,
+    topic.subject_name as string,
+    topic.topic_name as string,
+    date.toISOString(),
+    duration,
+    0,
+    'Sessão de teoria agendada - Sanguessuga',
+    'low'
+  ]);
+
+  scheduleSave();
+  return sessionId;
+};
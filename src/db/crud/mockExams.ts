@@ -0,0 +1,579 @@
+import { getDBOrThrow, getScheduleSave } from '../singleton';
+import { recordQuestionAttempt } from './questions';
+import { addXpToUser } from './battle';
+import { createScoringPolicyResolver } from './scoringPolicies';
+import type { ConfidenceLevel, Difficulty, Question, ScoringPolicy } from '@/types/battle';
+import {
+  BLANK_ANSWER,
+  answerOutcome,
+  calculateQuestionXp,
+  isAnswerCorrect,
+  summarizeScore,
+  type AnswerOutcome
+} from '@/utils/questionScoring';
+
+/**
+ * Simulados: um gabarito de prova (quantas questões de cada matéria ou tópico, banca, anos,
+ * mistura de dificuldade, tempo e pontuação) sorteia questões para uma prova cronometrada
+ * sem correção até o fim. O resultado fica salvo com as respostas para o relatório por matéria.
+ * Discursivas ficam de fora: dependem de autocorreção questão a questão.
+ */
+
+export interface MockExamSection {
+  subjectId: string;
+  topicId?: string; // Sem tópico: qualquer tópico da matéria
+  questionCount: number;
+}
+
+export type DifficultyMix = Record<Difficulty, number>; // Percentuais (proporção relativa)
+
+// 'board' usa a política de cada banca (configurações); as outras valem para a prova inteira
+export type MockExamScoring = 'board' | ScoringPolicy;
+
+export interface MockExamBlueprint {
+  id: string;
+  name: string;
+  sections: MockExamSection[];
+  examiningBoard?: string;
+  yearFrom?: number;
+  yearTo?: number;
+  difficultyMix?: DifficultyMix; // Ausente = qualquer dificuldade
+  timeLimitMinutes: number;
+  scoring: MockExamScoring;
+  cutoffScore: number; // % da nota máxima
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MockExamBlueprintInput = Omit<MockExamBlueprint, 'id' | 'createdAt' | 'updatedAt'>;
+
+// O que a prova precisa saber para rodar e ser corrigida (vem do gabarito ou de um resultado refeito)
+export interface MockExamConfig {
+  blueprintId?: string;
+  name: string;
+  timeLimitMinutes: number;
+  scoring: MockExamScoring;
+  cutoffScore: number;
+}
+
+export interface MockExamAnswer {
+  questionId: string;
+  questionTitle: string;
+  subjectName: string;
+  topicName: string;
+  answer: string; // '' quando deixada em branco
+  correctAnswer: string;
+  isCorrect: boolean;
+  outcome: AnswerOutcome;
+  policy: ScoringPolicy;
+  timeTaken?: number; // seconds
+}
+
+export interface MockExamResult {
+  id: string;
+  blueprintId?: string;
+  blueprintName: string;
+  scoring: MockExamScoring;
+  cutoffScore: number;
+  timeLimitMinutes: number;
+  timeSpent: number; // seconds
+  questionCount: number;
+  correct: number;
+  wrong: number;
+  blank: number;
+  score: number;
+  scorePercent: number;
+  passed: boolean;
+  answers: MockExamAnswer[];
+  startedAt: string;
+  finishedAt: string;
+}
+
+export interface MockExamSubmission {
+  config: MockExamConfig;
+  questions: Question[];
+  answers: Record<string, string>; // questionId -> resposta (ausente ou '' = em branco)
+  flagged: string[]; // Marcadas para revisar: gravadas com confiança "dúvida"
+  timeTaken: Record<string, number>;
+  startedAt: Date;
+  timeSpent: number;
+}
+
+export interface MockExamDraw {
+  questionIds: string[];
+  shortages: string[]; // Seções que não puderam ser atendidas como pedido
+}
+
+export interface MockExamSubjectScore {
+  subjectName: string;
+  total: number;
+  correct: number;
+  wrong: number;
+  blank: number;
+  score: number;
+  scorePercent: number;
+}
+
+export const MOCK_EXAM_SCORING_LABELS: Record<MockExamScoring, string> = {
+  board: 'Política de cada banca',
+  standard: 'Só acertos',
+  net: 'Certo − Errado'
+};
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+const DIFFICULTY_NAMES: Record<Difficulty, string> = {
+  easy: 'fáceis',
+  medium: 'médias',
+  hard: 'difíceis'
+};
+
+const parseJson = <T>(value: unknown, fallback: T): T => {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value as string) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+const rowToBlueprint = (row: Record<string, unknown>): MockExamBlueprint => ({
+  id: row.id as string,
+  name: row.name as string,
+  sections: parseJson<MockExamSection[]>(row.sections, []),
+  examiningBoard: row.examining_board as string || undefined,
+  yearFrom: row.year_from as number ?? undefined,
+  yearTo: row.year_to as number ?? undefined,
+  difficultyMix: parseJson<DifficultyMix | undefined>(row.difficulty_mix, undefined),
+  timeLimitMinutes: row.time_limit_minutes as number,
+  scoring: (row.scoring as MockExamScoring) || 'board',
+  cutoffScore: row.cutoff_score as number,
+  createdAt: row.created_at as string,
+  updatedAt: row.updated_at as string
+});
+
+const rowToResult = (row: Record<string, unknown>): MockExamResult => ({
+  id: row.id as string,
+  blueprintId: row.blueprint_id as string || undefined,
+  blueprintName: row.blueprint_name as string,
+  scoring: row.scoring as MockExamScoring,
+  cutoffScore: row.cutoff_score as number,
+  timeLimitMinutes: row.time_limit_minutes as number,
+  timeSpent: row.time_spent as number,
+  questionCount: row.question_count as number,
+  correct: row.correct as number,
+  wrong: row.wrong as number,
+  blank: row.blank as number,
+  score: row.score as number,
+  scorePercent: row.score_percent as number,
+  passed: Boolean(row.passed),
+  answers: parseJson<MockExamAnswer[]>(row.answers, []),
+  startedAt: row.started_at as string,
+  finishedAt: row.finished_at as string
+});
+
+const blueprintParams = (blueprint: MockExamBlueprintInput) => [
+  blueprint.name,
+  JSON.stringify(blueprint.sections),
+  blueprint.examiningBoard || null,
+  blueprint.yearFrom ?? null,
+  blueprint.yearTo ?? null,
+  blueprint.difficultyMix ? JSON.stringify(blueprint.difficultyMix) : null,
+  blueprint.timeLimitMinutes,
+  blueprint.scoring,
+  blueprint.cutoffScore
+];
+
+/**
+ * Get all saved blueprints
+ */
+export const getMockExamBlueprints = (): MockExamBlueprint[] => {
+  try {
+    const database = getDBOrThrow();
+    const stmt = database.prepare('SELECT * FROM mock_exam_blueprints ORDER BY name ASC');
+    const blueprints: MockExamBlueprint[] = [];
+
+    while (stmt.step()) {
+      blueprints.push(rowToBlueprint(stmt.getAsObject()));
+    }
+    stmt.free();
+
+    return blueprints;
+  } catch (error) {
+    console.error('Error in getMockExamBlueprints:', error);
+    return [];
+  }
+};
+
+/**
+ * Create a blueprint
+ */
+export const createMockExamBlueprint = (blueprint: MockExamBlueprintInput): string => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+  const id = crypto.randomUUID();
+
+  database.run(`
+    INSERT INTO mock_exam_blueprints (
+      id, name, sections, examining_board, year_from, year_to,
+      difficulty_mix, time_limit_minutes, scoring, cutoff_score
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `, [id, ...blueprintParams(blueprint)]);
+
+  scheduleSave();
+  return id;
+};
+
+/**
+ * Update a blueprint (results already taken keep the settings they were taken with)
+ */
+export const updateMockExamBlueprint = (id: string, blueprint: MockExamBlueprintInput): void => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+
+  database.run(`
+    UPDATE mock_exam_blueprints
+    SET name = ?, sections = ?, examining_board = ?, year_from = ?, year_to = ?,
+      difficulty_mix = ?, time_limit_minutes = ?, scoring = ?, cutoff_score = ?
+    WHERE id = ?
+  `, [...blueprintParams(blueprint), id]);
+
+  scheduleSave();
+};
+
+/**
+ * Delete a blueprint. Its results stay in the history under the blueprint name.
+ */
+export const deleteMockExamBlueprint = (id: string): void => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+
+  database.run('UPDATE mock_exam_results SET blueprint_id = NULL WHERE blueprint_id = ?', [id]);
+  database.run('DELETE FROM mock_exam_blueprints WHERE id = ?', [id]);
+  scheduleSave();
+};
+
+/**
+ * Split a question count by the difficulty mix (largest remainder, so the parts add up to the count)
+ */
+export const difficultyTargets = (count: number, mix?: DifficultyMix): Record<Difficulty, number> | null => {
+  const total = mix ? DIFFICULTIES.reduce((sum, difficulty) => sum + Math.max(0, mix[difficulty] || 0), 0) : 0;
+  if (!mix || total === 0) return null;
+
+  const exact = DIFFICULTIES.map(difficulty => (count * Math.max(0, mix[difficulty] || 0)) / total);
+  const targets = exact.map(Math.floor);
+  let remaining = count - targets.reduce((sum, value) => sum + value, 0);
+  DIFFICULTIES
+    .map((_, index) => index)
+    .sort((a, b) => (exact[b] - targets[b]) - (exact[a] - targets[a]))
+    .forEach(index => {
+      if (remaining > 0) {
+        targets[index]++;
+        remaining--;
+      }
+    });
+
+  return { easy: targets[0], medium: targets[1], hard: targets[2] };
+};
+
+const sectionConditions = (blueprint: Pick<MockExamBlueprint, 'examiningBoard' | 'yearFrom' | 'yearTo'>, section: MockExamSection) => {
+  // Sanguessugas suspensas ficam fora, como nas batalhas
+  const conditions = [
+    '(q.suspended IS NULL OR q.suspended = 0)',
+    "COALESCE(q.question_type, 'multiple_choice') != 'discursive'",
+    't.subject_id = ?'
+  ];
+  const params: (string | number)[] = [section.subjectId];
+
+  if (section.topicId) {
+    conditions.push('q.topic_id = ?');
+    params.push(section.topicId);
+  }
+  if (blueprint.examiningBoard) {
+    conditions.push('q.examining_board = ?');
+    params.push(blueprint.examiningBoard);
+  }
+  // O ano é texto livre; questões sem ano ficam fora quando há intervalo
+  if (blueprint.yearFrom) {
+    conditions.push('CAST(q.exam_year AS INTEGER) >= ?');
+    params.push(blueprint.yearFrom);
+  }
+  if (blueprint.yearTo) {
+    conditions.push('CAST(q.exam_year AS INTEGER) <= ?');
+    params.push(blueprint.yearTo);
+  }
+
+  return { conditions, params };
+};
+
+/**
+ * How many questions match each section of a blueprint (sections may overlap)
+ */
+export const countBlueprintQuestions = (
+  blueprint: Pick<MockExamBlueprint, 'sections' | 'examiningBoard' | 'yearFrom' | 'yearTo'>
+): number[] => {
+  try {
+    const database = getDBOrThrow();
+    return blueprint.sections.map(section => {
+      if (!section.subjectId) return 0;
+      const { conditions, params } = sectionConditions(blueprint, section);
+      const stmt = database.prepare(`
+        SELECT COUNT(*) as count
+        FROM questions q
+        JOIN study_topics t ON q.topic_id = t.id
+        WHERE ${conditions.join(' AND ')}
+      `);
+      stmt.bind(params);
+      const count = stmt.step() ? (stmt.getAsObject().count as number) : 0;
+      stmt.free();
+      return count;
+    });
+  } catch (error) {
+    console.error('Error in countBlueprintQuestions:', error);
+    return blueprint.sections.map(() => 0);
+  }
+};
+
+const sectionLabel = (section: MockExamSection): string => {
+  const database = getDBOrThrow();
+  const stmt = database.prepare(`
+    SELECT s.name as subject_name, (SELECT name FROM study_topics WHERE id = ?) as topic_name
+    FROM study_subjects s WHERE s.id = ?
+  `);
+  stmt.bind([section.topicId ?? null, section.subjectId]);
+  const row = stmt.step() ? stmt.getAsObject() : {};
+  stmt.free();
+
+  const subjectName = (row.subject_name as string) || 'Matéria removida';
+  return row.topic_name ? `${subjectName} › ${row.topic_name}` : subjectName;
+};
+
+/**
+ * Draw the questions of a mock exam: each section gets its count at random, split by the
+ * difficulty mix. A missing difficulty is filled with other difficulties of the same section;
+ * a section without enough questions comes short. Questions keep the section order and never repeat.
+ */
+export const drawMockExamQuestions = (blueprint: Pick<MockExamBlueprint, 'sections' | 'examiningBoard' | 'yearFrom' | 'yearTo' | 'difficultyMix'>): MockExamDraw => {
+  const database = getDBOrThrow();
+  const used = new Set<string>();
+  const questionIds: string[] = [];
+  const shortages: string[] = [];
+
+  blueprint.sections.forEach(section => {
+    if (!section.subjectId || section.questionCount <= 0) return;
+
+    const { conditions, params } = sectionConditions(blueprint, section);
+    const stmt = database.prepare(`
+      SELECT q.id, q.difficulty
+      FROM questions q
+      JOIN study_topics t ON q.topic_id = t.id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY RANDOM()
+    `);
+    stmt.bind(params);
+    const pool: { id: string; difficulty: Difficulty }[] = [];
+    while (stmt.step()) {
+      const row = stmt.getAsObject();
+      if (!used.has(row.id as string)) {
+        pool.push({ id: row.id as string, difficulty: row.difficulty as Difficulty });
+      }
+    }
+    stmt.free();
+
+    const targets = difficultyTargets(section.questionCount, blueprint.difficultyMix);
+    const picked = new Set<string>();
+    const missing = targets
+      ? DIFFICULTIES.filter(difficulty => {
+          const ofDifficulty = pool.filter(question => question.difficulty === difficulty);
+          ofDifficulty.slice(0, targets[difficulty]).forEach(question => picked.add(question.id));
+          return ofDifficulty.length < targets[difficulty];
+        })
+      : [];
+    // Sem mistura (ou para completar a que faltou): qualquer dificuldade, na ordem sorteada
+    pool.forEach(question => {
+      if (picked.size < section.questionCount) picked.add(question.id);
+    });
+
+    if (picked.size < section.questionCount) {
+      shortages.push(`${sectionLabel(section)}: só ${picked.size} de ${section.questionCount} questões disponíveis`);
+    } else if (missing.length > 0) {
+      shortages.push(`${sectionLabel(section)}: faltaram questões ${missing.map(d => DIFFICULTY_NAMES[d]).join(' e ')}, completadas com outras dificuldades`);
+    }
+
+    // Mantém a ordem sorteada dentro da seção, independente da dificuldade
+    pool.filter(question => picked.has(question.id)).forEach(question => {
+      used.add(question.id);
+      questionIds.push(question.id);
+    });
+  });
+
+  return { questionIds, shortages };
+};
+
+/**
+ * Score by subject, in the order the subjects appear in the exam
+ */
+export const getSubjectScores = (answers: MockExamAnswer[]): MockExamSubjectScore[] => {
+  const bySubject = new Map<string, MockExamAnswer[]>();
+  answers.forEach(answer => {
+    bySubject.set(answer.subjectName, [...(bySubject.get(answer.subjectName) || []), answer]);
+  });
+
+  return Array.from(bySubject, ([subjectName, subjectAnswers]) => {
+    const summary = summarizeScore(subjectAnswers);
+    return {
+      subjectName,
+      total: subjectAnswers.length,
+      correct: summary.correct,
+      wrong: summary.wrong,
+      blank: summary.blank,
+      score: summary.netScore,
+      scorePercent: (summary.netScore / subjectAnswers.length) * 100
+    };
+  });
+};
+
+/**
+ * Grade a finished mock exam, record every answered question as an attempt (reviews, rooms
+ * and XP move as in a battle) and save the result. Blank questions only count in the exam
+ * score: often they were never opened (time ran out), so they must not reschedule reviews
+ * or count as lapses. The exam score uses the exam scoring; XP keeps the policy of each board.
+ * Everything is written in one transaction, so a failed save can be submitted again.
+ */
+export const saveMockExamResult = (submission: MockExamSubmission): MockExamResult => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+  const { config } = submission;
+  const resolvePolicy = createScoringPolicyResolver();
+  const flagged = new Set(submission.flagged);
+
+  database.run('BEGIN TRANSACTION');
+  let result: MockExamResult;
+  try {
+    let totalXp = 0;
+    const answers: MockExamAnswer[] = submission.questions.map(question => {
+      const answer = (submission.answers[question.id] ?? BLANK_ANSWER).trim();
+      const isCorrect = isAnswerCorrect(question, answer);
+      const outcome = answerOutcome(answer, isCorrect);
+      const boardPolicy = resolvePolicy(question.examiningBoard);
+      const confidence: ConfidenceLevel = flagged.has(question.id) ? 'duvida' : 'certeza';
+      const timeTaken = submission.timeTaken[question.id];
+
+      if (outcome !== 'blank') {
+        recordQuestionAttempt(question.id, answer, isCorrect, confidence, undefined, timeTaken);
+        totalXp += calculateQuestionXp(question.difficulty, confidence, outcome, boardPolicy);
+      }
+
+      return {
+        questionId: question.id,
+        questionTitle: question.title,
+        subjectName: question.subjectName || 'Sem matéria',
+        topicName: question.topicName || '',
+        answer,
+        correctAnswer: question.correctAnswer,
+        isCorrect,
+        outcome,
+        policy: config.scoring === 'board' ? boardPolicy : config.scoring,
+        timeTaken
+      };
+    });
+
+    if (totalXp !== 0) {
+      addXpToUser(totalXp);
+    }
+
+    const summary = summarizeScore(answers);
+    const questionCount = answers.length;
+    const scorePercent = questionCount > 0 ? (summary.netScore / questionCount) * 100 : 0;
+    result = {
+      id: crypto.randomUUID(),
+      blueprintId: config.blueprintId,
+      blueprintName: config.name,
+      scoring: config.scoring,
+      cutoffScore: config.cutoffScore,
+      timeLimitMinutes: config.timeLimitMinutes,
+      timeSpent: submission.timeSpent,
+      questionCount,
+      correct: summary.correct,
+      wrong: summary.wrong,
+      blank: summary.blank,
+      score: summary.netScore,
+      scorePercent,
+      passed: scorePercent >= config.cutoffScore,
+      answers,
+      startedAt: submission.startedAt.toISOString(),
+      finishedAt: new Date().toISOString()
+    };
+
+    database.run(`
+      INSERT INTO mock_exam_results (
+        id, blueprint_id, blueprint_name, scoring, cutoff_score, time_limit_minutes, time_spent,
+        question_count, correct, wrong, blank, score, score_percent, passed, answers, started_at, finished_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      result.id,
+      result.blueprintId ?? null,
+      result.blueprintName,
+      result.scoring,
+      result.cutoffScore,
+      result.timeLimitMinutes,
+      result.timeSpent,
+      result.questionCount,
+      result.correct,
+      result.wrong,
+      result.blank,
+      result.score,
+      result.scorePercent,
+      result.passed ? 1 : 0,
+      JSON.stringify(result.answers),
+      result.startedAt,
+      result.finishedAt
+    ]);
+    database.run('COMMIT');
+  } catch (error) {
+    try { database.run('ROLLBACK'); } catch { /* transação já encerrada */ }
+    console.error('Error saving mock exam result:', error);
+    throw error;
+  }
+
+  console.log(`📝 Simulado "${config.name}": ${result.score} pontos (${result.scorePercent.toFixed(1)}%), ${result.passed ? 'acima' : 'abaixo'} da nota de corte`);
+  scheduleSave();
+  return result;
+};
+
+/**
+ * Results of every mock exam (or of one blueprint), newest first
+ */
+export const getMockExamResults = (blueprintId?: string): MockExamResult[] => {
+  try {
+    const database = getDBOrThrow();
+    const stmt = database.prepare(`
+      SELECT * FROM mock_exam_results
+      ${blueprintId ? 'WHERE blueprint_id = ?' : ''}
+      ORDER BY finished_at DESC
+    `);
+    if (blueprintId) stmt.bind([blueprintId]);
+
+    const results: MockExamResult[] = [];
+    while (stmt.step()) {
+      results.push(rowToResult(stmt.getAsObject()));
+    }
+    stmt.free();
+
+    return results;
+  } catch (error) {
+    console.error('Error in getMockExamResults:', error);
+    return [];
+  }
+};
+
+/**
+ * Delete a result from the history (the question attempts it recorded stay)
+ */
+export const deleteMockExamResult = (id: string): void => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+
+  database.run('DELETE FROM mock_exam_results WHERE id = ?', [id]);
+  scheduleSave();
+};
@@ -0,0 +1,316 @@
+import { getDBOrThrow, getScheduleSave } from '../singleton';
+import type { ImportQuestion } from '@/types/questions';
+import {
+  DEFAULT_SIMILARITY_THRESHOLD,
+  createSimilarityIndex,
+  normalizeQuestionText,
+  questionFingerprint,
+  questionTokens
+} from '@/utils/questionFingerprint';
+import { updateEnemyRoom } from './enemies';
+import { recomputeQuestionStats } from './questions';
+import { getQuestionSnapshotAt, readQuestionSnapshot, type QuestionSnapshot } from './questionRevisions';
+
+/**
+ * Questões duplicadas: detecção na importação (idênticas pela impressão digital ou parecidas
+ * pela semelhança de palavras) e mesclagem das que já estão no banco, somando as tentativas.
+ */
+
+export type DuplicateKind = 'exact' | 'similar';
+
+// O que fazer com uma questão importada que já existe
+export type DuplicateResolution = 'skip' | 'overwrite' | 'keep';
+
+export interface DuplicateCandidate {
+  id: string;
+  title: string;
+  content: string;
+  topicId: string;
+  topicName: string;
+  subjectName: string;
+  timesAnswered: number;
+  accuracyRate: number;
+  createdAt: Date;
+}
+
+export interface ImportDuplicate {
+  index: number; // Posição na lista importada
+  kind: DuplicateKind;
+  similarity: number;
+  match: DuplicateCandidate;
+}
+
+export interface DuplicateGroup {
+  kind: DuplicateKind; // 'exact' só quando todas têm a mesma impressão digital
+  similarity: number;  // Menor semelhança entre os pares que formaram o grupo
+  questions: DuplicateCandidate[];
+}
+
+interface IndexedQuestion extends DuplicateCandidate {
+  fingerprint: string;
+  tokens: Set<string>;
+}
+
+const SCHEDULE_COLUMNS = [
+  'due_date', 'last_reviewed', 'ease_factor', 'interval_days',
+  'repetitions', 'stability', 'fsrs_difficulty', 'algorithm'
+];
+
+const loadIndexedQuestions = (): IndexedQuestion[] => {
+  const database = getDBOrThrow();
+  const stmt = database.prepare(`
+    SELECT q.id, q.title, q.content, q.options, q.topic_id, q.times_answered, q.accuracy_rate, q.created_at,
+      t.name as topic_name, s.name as subject_name
+    FROM questions q
+    JOIN study_topics t ON q.topic_id = t.id
+    JOIN study_subjects s ON t.subject_id = s.id
+    ORDER BY q.created_at
+  `);
+
+  const questions: IndexedQuestion[] = [];
+  while (stmt.step()) {
+    const row = stmt.getAsObject();
+    const source = {
+      content: row.content as string,
+      options: row.options ? JSON.parse(row.options as string) : undefined
+    };
+    questions.push({
+      id: row.id as string,
+      title: row.title as string,
+      content: row.content as string,
+      topicId: row.topic_id as string,
+      topicName: row.topic_name as string,
+      subjectName: row.subject_name as string,
+      timesAnswered: (row.times_answered as number) || 0,
+      accuracyRate: (row.accuracy_rate as number) || 0,
+      createdAt: new Date(row.created_at as string),
+      fingerprint: questionFingerprint(source),
+      tokens: questionTokens(source)
+    });
+  }
+  stmt.free();
+
+  return questions;
+};
+
+const toCandidate = ({ fingerprint: _fingerprint, tokens: _tokens, ...candidate }: IndexedQuestion): DuplicateCandidate =>
+  candidate;
+
+/**
+ * For each question about to be imported, the existing question it duplicates (exact first, then the most similar)
+ */
+export const findImportDuplicates = (
+  questions: ImportQuestion[],
+  minSimilarity: number = DEFAULT_SIMILARITY_THRESHOLD
+): ImportDuplicate[] => {
+  try {
+    const existing = loadIndexedQuestions();
+    const byFingerprint = new Map(existing.map(question => [question.fingerprint, question]));
+    const byId = new Map(existing.map(question => [question.id, question]));
+    const index = createSimilarityIndex(existing);
+
+    const duplicates: ImportDuplicate[] = [];
+    questions.forEach((question, position) => {
+      const exact = byFingerprint.get(questionFingerprint(question));
+      if (exact) {
+        duplicates.push({ index: position, kind: 'exact', similarity: 1, match: toCandidate(exact) });
+        return;
+      }
+
+      const [best] = index.findSimilar(questionTokens(question), minSimilarity);
+      const match = best && byId.get(best.id);
+      if (match) {
+        duplicates.push({ index: position, kind: 'similar', similarity: best.similarity, match: toCandidate(match) });
+      }
+    });
+
+    return duplicates;
+  } catch (error) {
+    console.error('Error finding import duplicates:', error);
+    return [];
+  }
+};
+
+/**
+ * Groups of duplicate questions already in the bank (most answered question first in each group)
+ */
+export const findDuplicateGroups = (minSimilarity: number = DEFAULT_SIMILARITY_THRESHOLD): DuplicateGroup[] => {
+  try {
+    const questions = loadIndexedQuestions();
+    const byId = new Map(questions.map(question => [question.id, question]));
+    const index = createSimilarityIndex(questions);
+
+    // Union-find: pares parecidos acabam no mesmo grupo
+    const parent = new Map(questions.map(question => [question.id, question.id]));
+    const find = (id: string): string => {
+      const root = parent.get(id) as string;
+      if (root === id) return id;
+      const top = find(root);
+      parent.set(id, top);
+      return top;
+    };
+    const lowest = new Map<string, number>();
+
+    questions.forEach(question => {
+      index.findSimilar(question.tokens, minSimilarity).forEach(({ id, similarity }) => {
+        if (id === question.id) return;
+        const other = byId.get(id) as IndexedQuestion;
+        const pairSimilarity = other.fingerprint === question.fingerprint ? 1 : similarity;
+        const [a, b] = [find(question.id), find(id)];
+        const groupLowest = Math.min(lowest.get(a) ?? 1, lowest.get(b) ?? 1, pairSimilarity);
+        parent.set(b, a);
+        lowest.set(a, groupLowest);
+      });
+    });
+
+    const groups = new Map<string, IndexedQuestion[]>();
+    questions.forEach(question => {
+      const root = find(question.id);
+      groups.set(root, [...(groups.get(root) || []), question]);
+    });
+
+    return Array.from(groups.entries())
+      .filter(([, members]) => members.length > 1)
+      .map(([root, members]) => ({
+        kind: members.every(member => member.fingerprint === members[0].fingerprint) ? 'exact' as const : 'similar' as const,
+        similarity: lowest.get(root) ?? 1,
+        questions: members
+          .sort((a, b) => b.timesAnswered - a.timesAnswered || a.createdAt.getTime() - b.createdAt.getTime())
+          .map(toCandidate)
+      }))
+      .sort((a, b) => b.similarity - a.similarity || b.questions.length - a.questions.length);
+  } catch (error) {
+    console.error('Error finding duplicate groups:', error);
+    return [];
+  }
+};
+
+/**
+ * Answers of the duplicates' attempts rewritten as options of the kept question: the option
+ * chosen in the answered revision is found by its normalized text (exact duplicates may list the
+ * options in another order), or else by its letter. Returns [attemptId, answer].
+ */
+const mapAttemptAnswersToKeeper = (keepId: string, ids: string[]): Array<[string, string]> => {
+  const keeper = readQuestionSnapshot(keepId);
+  if (!keeper || keeper.options.length === 0) return [];
+
+  const database = getDBOrThrow();
+  const snapshots = new Map<string, QuestionSnapshot | null>();
+  const snapshotAt = (questionId: string, revision: number) => {
+    const key = `${questionId}:${revision}`;
+    if (!snapshots.has(key)) snapshots.set(key, getQuestionSnapshotAt(questionId, revision));
+    return snapshots.get(key);
+  };
+
+  const stmt = database.prepare(`
+    SELECT id, question_id, answer, question_revision FROM question_attempts
+    WHERE question_id IN (${ids.map(() => '?').join(', ')})
+  `);
+  stmt.bind(ids);
+  const remapped: Array<[string, string]> = [];
+  while (stmt.step()) {
+    const row = stmt.getAsObject();
+    const answer = row.answer as string;
+    if (keeper.options.some(option => option.content === answer)) continue;
+
+    const chosen = snapshotAt(row.question_id as string, (row.question_revision as number) || 1)
+      ?.options.find(option => option.content === answer);
+    if (!chosen) continue;
+
+    const target = keeper.options.find(option => normalizeQuestionText(option.content) === normalizeQuestionText(chosen.content))
+      ?? keeper.options.find(option => option.label === chosen.label);
+    if (target) remapped.push([row.id as string, target.content]);
+  }
+  stmt.free();
+
+  return remapped;
+};
+
+/**
+ * Merge duplicates into one question: attempts (with the chosen option carried over to the kept
+ * question's options), review history and generated flashcards move to the kept question,
+ * tags and personal notes/highlights are combined, statistics are recomputed from the combined attempts
+ * and the most recent review schedule wins. The duplicates are then deleted.
+ */
+export const mergeDuplicateQuestions = (keepId: string, duplicateIds: string[]): boolean => {
+  const ids = duplicateIds.filter(id => id !== keepId);
+  if (ids.length === 0) return false;
+
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+  const placeholders = ids.map(() => '?').join(', ');
+  const groupIds = [keepId, ...ids];
+  const groupPlaceholders = groupIds.map(() => '?').join(', ');
+
+  try {
+    // Tags, tópicos e anotações de todas antes de apagar as duplicadas
+    const tags = new Set<string>();
+    const topics = new Set<string>();
+    const notesById = new Map<string, string>();
+    const highlightsById = new Map<string, string[]>();
+    let latestReviewedId = keepId;
+    let latestReviewed = '';
+    const stmt = database.prepare(`SELECT id, tags, topic_id, last_reviewed, notes, highlights FROM questions WHERE id IN (${groupPlaceholders})`);
+    stmt.bind(groupIds);
+    while (stmt.step()) {
+      const row = stmt.getAsObject();
+      (JSON.parse(row.tags as string || '[]') as string[]).forEach(tag => tags.add(tag));
+      topics.add(row.topic_id as string);
+      if ((row.notes as string)?.trim()) notesById.set(row.id as string, (row.notes as string).trim());
+      highlightsById.set(row.id as string, JSON.parse(row.highlights as string || '[]'));
+      if (row.last_reviewed && (row.last_reviewed as string) > latestReviewed) {
+        latestReviewed = row.last_reviewed as string;
+        latestReviewedId = row.id as string;
+      }
+    }
+    stmt.free();
+
+    // Notas da mantida primeiro, depois as das duplicadas (sem repetir texto igual)
+    const notes = Array.from(new Set(groupIds.map(id => notesById.get(id)).filter((note): note is string => !!note)));
+    const highlights = new Set(groupIds.flatMap(id => highlightsById.get(id) ?? []));
+    // Lido antes de apagar as revisões das duplicadas
+    const remappedAnswers = mapAttemptAnswersToKeeper(keepId, ids);
+
+    database.run('BEGIN TRANSACTION');
+    // As tentativas passam a contar como respostas à revisão atual da questão mantida,
+    // com a alternativa escolhida já expressa nas alternativas dela
+    remappedAnswers.forEach(([attemptId, answer]) => {
+      database.run('UPDATE question_attempts SET answer = ? WHERE id = ?', [answer, attemptId]);
+    });
+    database.run(`
+      UPDATE question_attempts SET question_id = ?, question_revision = (SELECT revision FROM questions WHERE id = ?)
+      WHERE question_id IN (${placeholders})
+    `, [keepId, keepId, ...ids]);
+    database.run(`UPDATE review_logs SET item_id = ? WHERE item_kind = 'question' AND item_id IN (${placeholders})`, [keepId, ...ids]);
+    database.run(`UPDATE flashcards SET source_question_id = ? WHERE source_question_id IN (${placeholders})`, [keepId, ...ids]);
+
+    if (latestReviewedId !== keepId) {
+      database.run(`
+        UPDATE questions SET ${SCHEDULE_COLUMNS.map(column => `${column} = (SELECT ${column} FROM questions WHERE id = ?)`).join(', ')}
+        WHERE id = ?
+      `, [...SCHEDULE_COLUMNS.map(() => latestReviewedId), keepId]);
+    }
+
+    database.run(`UPDATE questions SET tags = ?, notes = ?, highlights = ?, updated_at = datetime('now') WHERE id = ?`, [
+      JSON.stringify(Array.from(tags)),
+      notes.length > 0 ? notes.join('\n\n---\n\n') : null,
+      JSON.stringify(Array.from(highlights)),
+      keepId
+    ]);
+    recomputeQuestionStats(keepId);
+
+    database.run(`DELETE FROM question_revisions WHERE question_id IN (${placeholders})`, ids);
+    database.run(`DELETE FROM questions WHERE id IN (${placeholders})`, ids);
+    database.run('COMMIT');
+
+    topics.forEach(topicId => updateEnemyRoom(topicId));
+
+    console.log(`🔗 ${ids.length} questões duplicadas mescladas em ${keepId}`);
+    scheduleSave();
+    return true;
+  } catch (error) {
+    try { database.run('ROLLBACK'); } catch { /* transação já encerrada */ }
+    console.error('Error merging duplicate questions:', error);
+    return false;
+  }
+};
@@ -0,0 +1,171 @@
+import { getDBOrThrow, getScheduleSave } from '../singleton';
+import type { Question } from '@/types/battle';
+import { getQuestionById } from './questions';
+import { createFlashcard, rowToFlashcard, type FlashcardWithTopic } from './flashcards';
+import { LEECH_TAG } from './leeches';
+
+/**
+ * Flashcards gerados a partir de questões erradas.
+ * Frente = enunciado; verso = alternativa correta + explicação.
+ * O card guarda a questão de origem e uma impressão digital do conteúdo dela,
+ * para oferecer atualização (em vez de duplicar) quando a questão mudar.
+ */
+
+export type QuestionFlashcardStatus = 'created' | 'exists' | 'outdated';
+
+export interface QuestionFlashcardResult {
+  status: QuestionFlashcardStatus;
+  flashcardId: string;
+}
+
+// Campos da questão que vão para o card
+type QuestionFlashcardSource = Pick<Question, 'content' | 'options' | 'correctAnswer' | 'explanation'>;
+
+/**
+ * Texto da resposta correta, com a letra da alternativa quando houver
+ */
+const formatCorrectAnswer = (question: QuestionFlashcardSource): string => {
+  const option = question.options?.find(opt => opt.isCorrect || opt.content === question.correctAnswer);
+  return option ? `${option.label}) ${option.content}` : question.correctAnswer;
+};
+
+/**
+ * Build the flashcard front/back for a question
+ */
+export const buildQuestionFlashcard = (question: QuestionFlashcardSource): { front: string; back: string } => {
+  const answer = formatCorrectAnswer(question);
+  return {
+    front: question.content,
+    back: question.explanation ? `${answer}\n\n${question.explanation}` : answer
+  };
+};
+
+/**
+ * Fingerprint of the question fields that end up on the card (djb2 hash).
+ * updated_at is not used because attempts and room changes also touch it.
+ */
+export const flashcardSourceFingerprint = (question: QuestionFlashcardSource): string => {
+  const { front, back } = buildQuestionFlashcard(question);
+  const source = `${front}\x1f${back}`;
+  let hash = 5381;
+  for (let i = 0; i < source.length; i++) {
+    hash = ((hash << 5) + hash + source.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const findQuestionFlashcard = (questionId: string): { id: string; fingerprint: string | null } | null => {
+  const database = getDBOrThrow();
+  const stmt = database.prepare(`
+    SELECT id, source_fingerprint FROM flashcards
+    WHERE source_question_id = ?
+    ORDER BY created_at ASC
+    LIMIT 1
+  `);
+  stmt.bind([questionId]);
+  const row = stmt.step() ? stmt.getAsObject() : null;
+  stmt.free();
+
+  return row ? { id: row.id as string, fingerprint: (row.source_fingerprint as string) || null } : null;
+};
+
+/**
+ * Turn a (wrongly answered) question into a flashcard linked to it.
+ * Never duplicates: an existing card is reported as 'exists' or, if the question changed, 'outdated'.
+ */
+export const createFlashcardFromQuestion = async (questionId: string): Promise<QuestionFlashcardResult | null> => {
+  const question = getQuestionById(questionId);
+  if (!question) return null;
+
+  const fingerprint = flashcardSourceFingerprint(question);
+  const existing = findQuestionFlashcard(questionId);
+  if (existing) {
+    return {
+      status: existing.fingerprint === fingerprint ? 'exists' : 'outdated',
+      flashcardId: existing.id
+    };
+  }
+
+  const scheduleSave = getScheduleSave();
+  const { front, back } = buildQuestionFlashcard(question);
+  const flashcardId = await createFlashcard({
+    topic_id: question.topicId,
+    front,
+    back,
+    type: 'concept',
+    difficulty: question.difficulty,
+    tags: (question.tags || []).filter(tag => tag !== LEECH_TAG),
+    images: question.images,
+    source_question_id: question.id,
+    source_fingerprint: fingerprint
+  });
+
+  scheduleSave();
+  return { status: 'created', flashcardId };
+};
+
+/**
+ * Get the flashcards whose source question changed since they were generated
+ */
+export const getOutdatedQuestionFlashcards = async (): Promise<FlashcardWithTopic[]> => {
+  try {
+    const database = getDBOrThrow();
+    // INNER JOIN: card de questão apagada continua valendo por conta própria
+    const stmt = database.prepare(`
+      SELECT f.*, t.name as topic_name, s.name as subject_name,
+        q.content as question_content, q.options as question_options,
+        q.correct_answer as question_correct_answer, q.explanation as question_explanation
+      FROM flashcards f
+      JOIN questions q ON q.id = f.source_question_id
+      JOIN study_topics t ON f.topic_id = t.id
+      JOIN study_subjects s ON t.subject_id = s.id
+    `);
+
+    const outdated: FlashcardWithTopic[] = [];
+    while (stmt.step()) {
+      const {
+        question_content, question_options, question_correct_answer, question_explanation, ...row
+      } = stmt.getAsObject();
+      const fingerprint = flashcardSourceFingerprint({
+        content: question_content as string,
+        options: question_options ? JSON.parse(question_options as string) : undefined,
+        correctAnswer: question_correct_answer as string,
+        explanation: question_explanation as string || undefined
+      });
+      if (fingerprint !== row.source_fingerprint) {
+        outdated.push(rowToFlashcard<FlashcardWithTopic>(row));
+      }
+    }
+    stmt.free();
+
+    return outdated;
+  } catch (error) {
+    console.error('Error in getOutdatedQuestionFlashcards:', error);
+    return [];
+  }
+};
+
+/**
+ * Rewrite a generated flashcard from the current version of its question, keeping its schedule
+ */
+export const refreshFlashcardFromQuestion = async (flashcardId: string): Promise<boolean> => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+
+  const stmt = database.prepare('SELECT source_question_id FROM flashcards WHERE id = ?');
+  stmt.bind([flashcardId]);
+  const questionId = stmt.step() ? stmt.getAsObject().source_question_id as string | null : null;
+  stmt.free();
+
+  const question = questionId ? getQuestionById(questionId) : null;
+  if (!question) return false;
+
+  const { front, back } = buildQuestionFlashcard(question);
+  database.run(
+    'UPDATE flashcards SET front = ?, back = ?, images = ?, source_fingerprint = ? WHERE id = ?',
+    [front, back, JSON.stringify(question.images || []), flashcardSourceFingerprint(question), flashcardId]
+  );
+
+  scheduleSave();
+  return true;
+};
@@ -0,0 +1,43 @@
+import { loadTypedSetting, saveTypedSetting } from './appSettings';
+import type { CsvDelimiter, QuestionColumnMapping } from '@/utils/questionCsv';
+
+/**
+ * Presets de mapeamento de colunas da importação de questões por planilha
+ */
+
+export interface QuestionImportPreset {
+  name: string;
+  mapping: QuestionColumnMapping;
+  delimiter?: CsvDelimiter; // Vazio = detectar automaticamente
+  updatedAt: string;
+}
+
+const PRESETS_KEY = 'question_import_presets';
+const PRESETS_DESCRIPTION = 'Presets de mapeamento da importação de questões (CSV/TSV)';
+
+/**
+ * Saved mapping presets, by name
+ */
+export const getQuestionImportPresets = (): QuestionImportPreset[] =>
+  loadTypedSetting<QuestionImportPreset[]>(PRESETS_KEY, [])
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Save a preset (a preset with the same name is replaced)
+ */
+export const saveQuestionImportPreset = (
+  name: string,
+  mapping: QuestionColumnMapping,
+  delimiter?: CsvDelimiter
+): QuestionImportPreset => {
+  const preset: QuestionImportPreset = { name: name.trim(), mapping, delimiter, updatedAt: new Date().toISOString() };
+  const presets = getQuestionImportPresets().filter(p => p.name !== preset.name);
+
+  saveTypedSetting(PRESETS_KEY, [...presets, preset], 'general', PRESETS_DESCRIPTION);
+  console.log(`💾 Preset de importação salvo: ${preset.name}`);
+  return preset;
+};
+
+export const deleteQuestionImportPreset = (name: string): void => {
+  saveTypedSetting(PRESETS_KEY, getQuestionImportPresets().filter(p => p.name !== name), 'general', PRESETS_DESCRIPTION);
+};
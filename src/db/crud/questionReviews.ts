@@ -0,0 +1,339 @@
+import { getDBOrThrow, getScheduleSave } from '../singleton';
+import type { ConfidenceLevel, Room } from '@/types/battle';
+import { classifyEnemyRoom } from '@/types/enemy';
+import {
+  getScheduler,
+  convertReviewCard,
+  type ReviewCard,
+  type ReviewResult,
+  type SchedulerAlgorithm
+} from '@/utils/spacedRepetition';
+import { getExamAdjustedSettings, getReviewSettings, getSchedulerOptions } from './reviewSettings';
+import { getUserProfile } from './enemyReviews';
+import { addReviewLog, getReviewHistory, type ReviewHistory } from './reviewLogs';
+import { balanceReviewDate, getCurrentExamDate } from './reviewLoad';
+import { getExamModeState, orderByRetrievability } from './examMode';
+
+/**
+ * Revisão espaçada por questão.
+ * Cada questão respondida tem seu próprio estado de agendamento (SM-2 ou FSRS);
+ * a sala do tópico passa a ser derivada da memória agregada das suas questões.
+ */
+
+export interface DueQuestion {
+  id: string;
+  topicId: string;
+  topicName: string;
+  subjectName: string;
+  title: string;
+  room: Room;
+  dueDate: Date;
+  interval: number;
+}
+
+// Ordem de gravidade das salas, da pior para a melhor
+export const ROOM_SEVERITY: Room[] = ['vermelha', 'amarela', 'triagem', 'verde'];
+
+/**
+ * Qualidade (0-5) de uma resposta: erro = 1, acerto conforme a confiança declarada
+ */
+const answerQuality = (isCorrect: boolean, confidenceLevel: ConfidenceLevel): number => {
+  if (!isCorrect) return 1;
+  if (confidenceLevel === 'certeza') return 5;
+  if (confidenceLevel === 'duvida') return 4;
+  return 3;
+};
+
+/**
+ * Monta um ReviewCard a partir de uma linha de questions e do histórico de revisões da questão
+ */
+const questionRowToReviewCard = (row: Record<string, unknown>, history?: ReviewHistory): ReviewCard => ({
+  id: row.id as string,
+  topicId: row.topic_id as string,
+  easeFactor: (row.ease_factor as number) || 2.5,
+  interval: (row.interval_days as number) || 0,
+  repetition: (row.repetitions as number) || 0,
+  nextReviewDate: row.due_date ? new Date(row.due_date as string) : new Date(),
+  // last_reviewed vem de datetime('now') (UTC sem fuso)
+  lastReviewDate: row.last_reviewed ? new Date(`${(row.last_reviewed as string).replace(' ', 'T')}Z`) : undefined,
+  averageQuality: history?.averageQuality ?? 0,
+  totalReviews: (row.times_answered as number) || 0,
+  streakCount: (row.repetitions as number) || 0,
+  failureCount: history?.failureCount ?? 0,
+  isBlocked: false,
+  personalizedMultiplier: 1.0,
+  stability: (row.stability as number) || undefined,
+  difficulty: (row.fsrs_difficulty as number) || undefined,
+  algorithm: (row.algorithm as SchedulerAlgorithm) || 'sm2'
+});
+
+/**
+ * Schedule the next review of a question after an answer; returns the new due date
+ */
+export const scheduleQuestionReview = (
+  questionId: string,
+  isCorrect: boolean,
+  confidenceLevel: ConfidenceLevel,
+  responseTime?: number
+): Date | null => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+
+  const selectStmt = database.prepare('SELECT * FROM questions WHERE id = ?');
+  selectStmt.bind([questionId]);
+  const row = selectStmt.step() ? selectStmt.getAsObject() : null;
+  selectStmt.free();
+
+  if (!row) return null;
+
+  const settings = getReviewSettings();
+  const scheduler = getScheduler(settings.algorithm);
+  // O log desta resposta só é gravado depois do agendamento
+  const history = getReviewHistory('question', questionId).get(questionId);
+  const card = convertReviewCard(questionRowToReviewCard(row, history), settings.algorithm);
+  const quality = answerQuality(isCorrect, confidenceLevel);
+  const result: ReviewResult = {
+    quality,
+    responseTime: responseTime ?? 60,
+    confidenceLevel,
+    wasCorrect: isCorrect
+  };
+
+  const examDate = getCurrentExamDate();
+  const updated = scheduler.schedule(
+    { ...card, examDate },
+    result,
+    getUserProfile(),
+    // Modo exame encolhe os intervalos conforme o exame se aproxima
+    getSchedulerOptions(getExamAdjustedSettings(settings, examDate))
+  );
+  // Espalha a data entre dias vizinhos para evitar picos de revisão
+  const { interval, nextReviewDate: dueDate } = balanceReviewDate(updated.interval ?? 1, examDate);
+
+  database.run(`
+    UPDATE questions
+    SET last_reviewed = datetime('now'),
+        due_date = ?,
+        ease_factor = ?,
+        interval_days = ?,
+        repetitions = ?,
+        stability = ?,
+        fsrs_difficulty = ?,
+        algorithm = ?
+    WHERE id = ?
+  `, [
+    dueDate.toISOString(),
+    updated.easeFactor ?? card.easeFactor,
+    interval,
+    updated.repetition ?? 0,
+    updated.stability ?? null,
+    updated.difficulty ?? null,
+    settings.algorithm,
+    questionId
+  ]);
+
+  addReviewLog({
+    itemId: questionId,
+    itemKind: 'question',
+    topicId: card.topicId,
+    rating: quality,
+    responseTime,
+    intervalBefore: card.interval,
+    intervalAfter: interval,
+    algorithm: settings.algorithm
+  });
+
+  scheduleSave();
+  return dueDate;
+};
+
+/**
+ * Get the questions due for review across all topics, most overdue first
+ * (in exam mode, the ones most likely forgotten first)
+ */
+export const getDueQuestions = (limit = 20, now: Date = new Date()): DueQuestion[] => {
+  try {
+    const database = getDBOrThrow();
+    const stmt = database.prepare(`
+      SELECT q.*, t.name as topic_name, s.name as subject_name
+      FROM questions q
+      JOIN study_topics t ON q.topic_id = t.id
+      JOIN study_subjects s ON t.subject_id = s.id
+      WHERE q.due_date IS NOT NULL AND q.due_date <= ?
+        AND (q.suspended IS NULL OR q.suspended = 0)
+      ORDER BY q.due_date ASC
+    `);
+    stmt.bind([now.toISOString()]);
+
+    let rows: Record<string, unknown>[] = [];
+    while (stmt.step()) {
+      rows.push(stmt.getAsObject());
+    }
+    stmt.free();
+
+    const exam = getExamModeState(now);
+    if (exam.active) {
+      rows = orderByRetrievability(rows, questionRowToReviewCard, exam.settings, now);
+    }
+
+    return rows.slice(0, limit).map(row => ({
+      id: row.id as string,
+      topicId: row.topic_id as string,
+      topicName: row.topic_name as string,
+      subjectName: row.subject_name as string,
+      title: row.title as string,
+      room: (row.room as Room) || 'triagem',
+      dueDate: new Date(row.due_date as string),
+      interval: (row.interval_days as number) || 0
+    }));
+  } catch (error) {
+    console.error('Error in getDueQuestions:', error);
+    return [];
+  }
+};
+
+/**
+ * Count the questions due for review
+ */
+export const getDueQuestionsCount = (now: Date = new Date()): number => {
+  try {
+    const database = getDBOrThrow();
+    const stmt = database.prepare(`
+      SELECT COUNT(*) as count FROM questions
+      WHERE due_date IS NOT NULL AND due_date <= ?
+        AND (suspended IS NULL OR suspended = 0)
+    `);
+    stmt.bind([now.toISOString()]);
+    const count = stmt.step() ? stmt.getAsObject().count as number : 0;
+    stmt.free();
+
+    return count;
+  } catch (error) {
+    console.error('Error in getDueQuestionsCount:', error);
+    return 0;
+  }
+};
+
+/**
+ * Worst room among the topics of a set of questions (used as the battle room of a due session)
+ */
+export const getWorstRoom = (rooms: Room[]): Room =>
+  ROOM_SEVERITY.find(room => rooms.includes(room)) ?? 'triagem';
+
+const readAnsweredQuestionCards = (where: string, params: string[] = []): ReviewCard[] => {
+  const database = getDBOrThrow();
+  const stmt = database.prepare(`SELECT * FROM questions WHERE due_date IS NOT NULL ${where}`);
+  stmt.bind(params);
+
+  const cards: ReviewCard[] = [];
+  while (stmt.step()) {
+    cards.push(questionRowToReviewCard(stmt.getAsObject()));
+  }
+  stmt.free();
+
+  return cards;
+};
+
+/**
+ * Memory score (0-100) of a set of answered questions: average retrievability,
+ * where a question whose last answer was wrong counts as forgotten
+ */
+const memoryScore = (cards: ReviewCard[], now: Date): number => {
+  if (cards.length === 0) return 0;
+  const settings = getReviewSettings();
+  const scheduler = getScheduler(settings.algorithm);
+  const total = cards.reduce((sum, card) => (
+    sum + (card.repetition > 0 ? scheduler.retrievability(convertReviewCard(card, settings.algorithm), now) : 0)
+  ), 0);
+  return (total / cards.length) * 100;
+};
+
+/**
+ * Room of a topic derived from the review state of its answered questions
+ */
+export const deriveTopicRoom = (topicId: string, now: Date = new Date()): Room => {
+  try {
+    const cards = readAnsweredQuestionCards('AND topic_id = ?', [topicId]);
+    return classifyEnemyRoom(memoryScore(cards, now), cards.length);
+  } catch (error) {
+    console.error('Error in deriveTopicRoom:', error);
+    return 'triagem';
+  }
+};
+
+/**
+ * Derived room of every topic that has answered questions
+ */
+export const deriveTopicRooms = (now: Date = new Date()): Map<string, Room> => {
+  const rooms = new Map<string, Room>();
+
+  try {
+    const byTopic = new Map<string, ReviewCard[]>();
+    readAnsweredQuestionCards('').forEach(card => {
+      byTopic.set(card.topicId, [...(byTopic.get(card.topicId) || []), card]);
+    });
+    byTopic.forEach((cards, topicId) => {
+      rooms.set(topicId, classifyEnemyRoom(memoryScore(cards, now), cards.length));
+    });
+  } catch (error) {
+    console.error('Error in deriveTopicRooms:', error);
+  }
+
+  return rooms;
+};
+
+/**
+ * Get the scheduler state of every answered question (used by the workload simulator)
+ */
+export const getQuestionReviewCards = (): ReviewCard[] => {
+  try {
+    // O simulador reagenda com SM-2, que usa o histórico de cada questão
+    const history = getReviewHistory('question');
+    return readAnsweredQuestionCards('AND (suspended IS NULL OR suspended = 0)')
+      .map(card => ({ ...card, ...history.get(card.id) }));
+  } catch (error) {
+    console.error('Error in getQuestionReviewCards:', error);
+    return [];
+  }
+};
+
+/**
+ * Convert the stored scheduler state of every answered question to another algorithm
+ */
+export const migrateQuestionsToAlgorithm = (algorithm: SchedulerAlgorithm): number => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+
+  try {
+    const cards = readAnsweredQuestionCards('');
+    const updateStmt = database.prepare(`
+      UPDATE questions
+      SET ease_factor = ?, interval_days = ?, stability = ?, fsrs_difficulty = ?, algorithm = ?
+      WHERE id = ?
+    `);
+
+    let migrated = 0;
+    cards.forEach(card => {
+      if (card.algorithm === algorithm) return;
+
+      const converted = convertReviewCard(card, algorithm);
+      updateStmt.run([
+        converted.easeFactor,
+        converted.interval,
+        converted.stability ?? null,
+        converted.difficulty ?? null,
+        algorithm,
+        card.id
+      ]);
+      migrated++;
+    });
+    updateStmt.free();
+
+    scheduleSave();
+    console.log(`Migrated ${migrated} questions to ${algorithm}`);
+    return migrated;
+  } catch (error) {
+    console.error('Error migrating questions to algorithm:', error);
+    return 0;
+  }
+};
@@ -0,0 +1,236 @@
+import { getDBOrThrow } from '../singleton';
+import type { QuestionOption, Difficulty, QuestionType, RubricCriterion } from '@/types/battle';
+import { matchesShortAnswer } from '@/utils/questionScoring';
+
+/**
+ * Histórico de edições de questões: cada edição grava o diff dos campos alterados e incrementa
+ * questions.revision. As tentativas guardam a revisão respondida, o que permite reconstruir as
+ * alternativas daquela época e recorrigir respostas quando o gabarito muda.
+ */
+
+export interface QuestionSnapshot {
+  topicId: string;
+  title: string;
+  content: string;
+  questionType: QuestionType;
+  rubric: RubricCriterion[];
+  answerTolerance: number | null;
+  options: Omit<QuestionOption, 'id'>[];
+  correctAnswer: string;
+  explanation: string | null;
+  difficulty: Difficulty;
+  tags: string[];
+  images: string[];
+  examiningBoard: string | null;
+  position: string | null;
+  examYear: string | null;
+  institution: string | null;
+}
+
+export type QuestionSnapshotField = keyof QuestionSnapshot;
+
+export interface QuestionFieldChange<K extends QuestionSnapshotField = QuestionSnapshotField> {
+  field: K;
+  before: QuestionSnapshot[K];
+  after: QuestionSnapshot[K];
+}
+
+export interface QuestionRevision {
+  id: string;
+  questionId: string;
+  revision: number;
+  changes: QuestionFieldChange[];
+  regradedAttempts: number;
+  createdAt: Date;
+}
+
+export const QUESTION_FIELD_LABELS: Record<QuestionSnapshotField, string> = {
+  topicId: 'Tema',
+  title: 'Título',
+  content: 'Enunciado',
+  questionType: 'Tipo',
+  rubric: 'Rubrica',
+  answerTolerance: 'Tolerância',
+  options: 'Alternativas',
+  correctAnswer: 'Gabarito',
+  explanation: 'Explicação',
+  difficulty: 'Dificuldade',
+  tags: 'Tags',
+  images: 'Imagens',
+  examiningBoard: 'Banca',
+  position: 'Cargo',
+  examYear: 'Ano',
+  institution: 'Instituição'
+};
+
+const SNAPSHOT_FIELDS = Object.keys(QUESTION_FIELD_LABELS) as QuestionSnapshotField[];
+
+const parseOptions = (value: unknown): Omit<QuestionOption, 'id'>[] => {
+  if (!value) return [];
+  return (JSON.parse(value as string) as QuestionOption[]).map(({ label, content, isCorrect }) => ({
+    label,
+    content,
+    isCorrect: !!isCorrect
+  }));
+};
+
+/**
+ * Editable fields of a question as currently stored (null when the question does not exist)
+ */
+export const readQuestionSnapshot = (questionId: string): (QuestionSnapshot & { revision: number }) | null => {
+  const database = getDBOrThrow();
+  const stmt = database.prepare('SELECT * FROM questions WHERE id = ?');
+  stmt.bind([questionId]);
+  const row = stmt.step() ? stmt.getAsObject() : null;
+  stmt.free();
+  if (!row) return null;
+
+  return {
+    topicId: row.topic_id as string,
+    title: row.title as string,
+    content: row.content as string,
+    questionType: (row.question_type as QuestionType) || 'multiple_choice',
+    rubric: JSON.parse(row.rubric as string || '[]'),
+    answerTolerance: (row.answer_tolerance as number) ?? null,
+    options: parseOptions(row.options),
+    correctAnswer: row.correct_answer as string,
+    explanation: (row.explanation as string) || null,
+    difficulty: row.difficulty as Difficulty,
+    tags: JSON.parse(row.tags as string || '[]'),
+    images: JSON.parse(row.images as string || '[]'),
+    examiningBoard: (row.examining_board as string) || null,
+    position: (row.position as string) || null,
+    examYear: (row.exam_year as string) || null,
+    institution: (row.institution as string) || null,
+    revision: (row.revision as number) || 1
+  };
+};
+
+export const diffQuestionSnapshots = (before: QuestionSnapshot, after: QuestionSnapshot): QuestionFieldChange[] =>
+  SNAPSHOT_FIELDS
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }) as QuestionFieldChange);
+
+// Letra da alternativa correta; sem alternativas (certo/errado) o gabarito é o próprio texto
+const correctKey = (snapshot: QuestionSnapshot): string =>
+  snapshot.options.find(option => option.isCorrect)?.label ??
+  snapshot.options.find(option => option.content === snapshot.correctAnswer)?.label ??
+  snapshot.correctAnswer;
+
+export const answerKeyChanged = (before: QuestionSnapshot, after: QuestionSnapshot): boolean =>
+  correctKey(before) !== correctKey(after) ||
+  (after.options.length === 0 && before.correctAnswer !== after.correctAnswer) ||
+  (after.questionType === 'short_answer' && before.answerTolerance !== after.answerTolerance);
+
+export const insertQuestionRevision = (questionId: string, revision: number, changes: QuestionFieldChange[]) => {
+  const database = getDBOrThrow();
+  const revisionId = `revision_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  database.run(`
+    INSERT INTO question_revisions (id, question_id, revision, changes)
+    VALUES (?, ?, ?, ?)
+  `, [revisionId, questionId, revision, JSON.stringify(changes)]);
+  return revisionId;
+};
+
+/**
+ * Revision history of a question, newest first
+ */
+export const getQuestionRevisions = (questionId: string): QuestionRevision[] => {
+  try {
+    const database = getDBOrThrow();
+    const stmt = database.prepare(`
+      SELECT * FROM question_revisions WHERE question_id = ? ORDER BY revision DESC
+    `);
+    stmt.bind([questionId]);
+
+    const revisions: QuestionRevision[] = [];
+    while (stmt.step()) {
+      const row = stmt.getAsObject();
+      revisions.push({
+        id: row.id as string,
+        questionId: row.question_id as string,
+        revision: row.revision as number,
+        changes: JSON.parse(row.changes as string),
+        regradedAttempts: (row.regraded_attempts as number) || 0,
+        createdAt: new Date(`${(row.created_at as string).replace(' ', 'T')}Z`)
+      });
+    }
+    stmt.free();
+    return revisions;
+  } catch (error) {
+    console.error('Error getting question revisions:', error);
+    return [];
+  }
+};
+
+/**
+ * Rebuild the question as it was at a past revision by undoing the later diffs
+ */
+export const getQuestionSnapshotAt = (questionId: string, revision: number): QuestionSnapshot | null => {
+  const current = readQuestionSnapshot(questionId);
+  if (!current) return null;
+
+  const { revision: _currentRevision, ...snapshot } = current;
+  getQuestionRevisions(questionId)
+    .filter(entry => entry.revision > revision)
+    .forEach(entry => {
+      entry.changes.forEach(change => {
+        Object.assign(snapshot, { [change.field]: change.before });
+      });
+    });
+  return snapshot;
+};
+
+/**
+ * Grade every past attempt again against the current answer key. The chosen option is
+ * found in the options of the revision that was answered and compared by letter, so
+ * attempts survive typo fixes in the option text. Short answers are matched again with
+ * the current accepted answers and tolerance; self-graded (rubric) attempts are kept.
+ * Only is_correct is touched here; returns how many attempts changed.
+ */
+export const regradeQuestionAttempts = (questionId: string, revisionId?: string): number => {
+  const database = getDBOrThrow();
+  const current = readQuestionSnapshot(questionId);
+  if (!current) return 0;
+
+  const snapshots = new Map<number, QuestionSnapshot | null>();
+  const snapshotAt = (revision: number) => {
+    if (!snapshots.has(revision)) {
+      snapshots.set(revision, revision === current.revision ? current : getQuestionSnapshotAt(questionId, revision));
+    }
+    return snapshots.get(revision);
+  };
+
+  const stmt = database.prepare(`
+    SELECT id, answer, is_correct, question_revision FROM question_attempts
+    WHERE question_id = ? AND score IS NULL
+  `);
+  stmt.bind([questionId]);
+  const flips: Array<[string, boolean]> = [];
+  while (stmt.step()) {
+    const row = stmt.getAsObject();
+    const answer = row.answer as string;
+    const answered = snapshotAt((row.question_revision as number) || 1);
+    const label = answered?.options.find(option => option.content === answer)?.label;
+
+    const isCorrect = current.questionType === 'short_answer'
+      ? matchesShortAnswer(answer, current.correctAnswer, current.answerTolerance ?? 0)
+      : label && current.options.length > 0
+        ? label === correctKey(current)
+        : answer === current.correctAnswer;
+
+    if (isCorrect !== !!row.is_correct) {
+      flips.push([row.id as string, isCorrect]);
+    }
+  }
+  stmt.free();
+
+  flips.forEach(([attemptId, isCorrect]) => {
+    database.run('UPDATE question_attempts SET is_correct = ? WHERE id = ?', [isCorrect ? 1 : 0, attemptId]);
+  });
+  if (revisionId) {
+    database.run('UPDATE question_revisions SET regraded_attempts = ? WHERE id = ?', [flips.length, revisionId]);
+  }
+
+  return flips.length;
+};
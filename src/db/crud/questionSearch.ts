@@ -0,0 +1,267 @@
+import { getDBOrThrow } from '../singleton';
+import type { Question, QuestionType, Room, Difficulty } from '@/types/battle';
+
+/**
+ * Busca textual de questões (índice FTS4 questions_fts) combinada com filtros por metadados.
+ * A relevância é BM25 calculado a partir do matchinfo, com peso maior para o título.
+ */
+
+export type QuestionAnswerStatus = 'unanswered' | 'wrong';
+
+export interface QuestionSearchFilters {
+  subjectId?: string;
+  examiningBoard?: string;
+  examYear?: string;
+  institution?: string;
+  position?: string;
+  difficulty?: Difficulty;
+  tag?: string;
+  room?: Room;
+  status?: QuestionAnswerStatus;
+}
+
+export interface QuestionSearchHit {
+  question: Question;
+  score: number;
+  snippet?: string; // Trecho com os termos entre SNIPPET_START e SNIPPET_END
+}
+
+export interface QuestionSearchResult {
+  hits: QuestionSearchHit[];
+  total: number;
+}
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export interface QuestionFacets {
+  examiningBoards: FacetValue[];
+  examYears: FacetValue[];
+  institutions: FacetValue[];
+  positions: FacetValue[];
+  tags: FacetValue[];
+}
+
+// Marcadores do snippet(); caracteres de controle não aparecem no texto das questões
+export const SNIPPET_START = '\u0002';
+export const SNIPPET_END = '\u0003';
+
+const DEFAULT_LIMIT = 100;
+
+// Ordem das colunas em questions_fts: title, content, options, explanation, notes
+const COLUMN_WEIGHTS = [3, 1, 0.8, 0.5, 0.8];
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Turn free text into an FTS prefix query: every word must appear, the last one may be incomplete.
+ * Words are lowercased so they are never read as the AND/OR/NOT/NEAR operators.
+ */
+export const buildMatchQuery = (text: string): string => {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return words.map(word => `${word}*`).join(' ');
+};
+
+/**
+ * BM25 over the 'pcnalx' matchinfo blob (32-bit unsigned integers)
+ */
+const bm25 = (matchinfo: Uint8Array): number => {
+  const info = new Uint32Array(matchinfo.slice().buffer);
+  const [phraseCount, columnCount, documentCount] = info;
+  const averageLength = info.subarray(3, 3 + columnCount);
+  const length = info.subarray(3 + columnCount, 3 + columnCount * 2);
+  const hits = info.subarray(3 + columnCount * 2);
+
+  let score = 0;
+  for (let phrase = 0; phrase < phraseCount; phrase++) {
+    for (let column = 0; column < columnCount; column++) {
+      const base = 3 * (phrase * columnCount + column);
+      const frequency = hits[base];
+      if (frequency === 0) continue;
+
+      const documentsWithHit = hits[base + 2];
+      const idf = Math.log((documentCount - documentsWithHit + 0.5) / (documentsWithHit + 0.5) + 1);
+      const normalizedLength = averageLength[column] > 0 ? length[column] / averageLength[column] : 1;
+      score += (COLUMN_WEIGHTS[column] ?? 1) * idf *
+        (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * normalizedLength));
+    }
+  }
+  return score;
+};
+
+const buildFilterClauses = (filters: QuestionSearchFilters) => {
+  const clauses: string[] = [];
+  const params: (string | number)[] = [];
+
+  const equals: Array<[string, string | undefined]> = [
+    ['t.subject_id', filters.subjectId],
+    ['q.examining_board', filters.examiningBoard],
+    ['q.exam_year', filters.examYear],
+    ['q.institution', filters.institution],
+    ['q.position', filters.position],
+    ['q.difficulty', filters.difficulty],
+    ['q.room', filters.room]
+  ];
+  equals.forEach(([column, value]) => {
+    if (!value) return;
+    clauses.push(`${column} = ?`);
+    params.push(value);
+  });
+
+  if (filters.tag) {
+    clauses.push(`EXISTS (
+      SELECT 1 FROM json_each(CASE WHEN json_valid(q.tags) THEN q.tags ELSE '[]' END) WHERE value = ?
+    )`);
+    params.push(filters.tag);
+  }
+
+  if (filters.status === 'unanswered') {
+    clauses.push('q.times_answered = 0');
+  } else if (filters.status === 'wrong') {
+    clauses.push('q.times_correct < q.times_answered');
+  }
+
+  return { clauses, params };
+};
+
+export const hasActiveSearch = (text: string, filters: QuestionSearchFilters): boolean =>
+  buildMatchQuery(text) !== '' || Object.values(filters).some(Boolean);
+
+const rowToQuestion = (row: Record<string, unknown>): Question => ({
+  id: row.id as string,
+  topicId: row.topic_id as string,
+  title: row.title as string,
+  content: row.content as string,
+  options: row.options ? JSON.parse(row.options as string) : undefined,
+  correctAnswer: row.correct_answer as string,
+  explanation: row.explanation as string || undefined,
+  difficulty: row.difficulty as Difficulty,
+  tags: JSON.parse(row.tags as string || '[]'),
+  images: JSON.parse(row.images as string || '[]'),
+  questionType: (row.question_type as QuestionType) || 'multiple_choice',
+  notes: row.notes as string || undefined,
+  highlights: JSON.parse(row.highlights as string || '[]'),
+  examiningBoard: row.examining_board as string || undefined,
+  position: row.position as string || undefined,
+  examYear: row.exam_year as string || undefined,
+  institution: row.institution as string || undefined,
+  timesAnswered: row.times_answered as number,
+  timesCorrect: row.times_correct as number,
+  accuracyRate: row.accuracy_rate as number,
+  room: row.room as Room,
+  createdAt: new Date(row.created_at as string),
+  updatedAt: new Date(row.updated_at as string),
+  topicName: row.topic_name as string,
+  subjectName: row.subject_name as string
+});
+
+/**
+ * Search questions by text (title, statement, options, explanation and personal notes, accent-insensitive)
+ * and/or facets. With text the hits come ranked by relevance, otherwise newest first.
+ */
+export const searchQuestions = (
+  text: string,
+  filters: QuestionSearchFilters = {},
+  limit: number = DEFAULT_LIMIT
+): QuestionSearchResult => {
+  const database = getDBOrThrow();
+  const matchQuery = buildMatchQuery(text);
+  const { clauses, params } = buildFilterClauses(filters);
+
+  try {
+    const stmt = matchQuery
+      ? database.prepare(`
+          SELECT q.*, t.name as topic_name, s.name as subject_name,
+            matchinfo(questions_fts, 'pcnalx') as match_info,
+            snippet(questions_fts, '${SNIPPET_START}', '${SNIPPET_END}', '…', -1, 16) as snippet
+          FROM questions_fts
+          JOIN questions q ON q.rowid = questions_fts.docid
+          JOIN study_topics t ON q.topic_id = t.id
+          JOIN study_subjects s ON t.subject_id = s.id
+          WHERE questions_fts MATCH ?${clauses.map(clause => ` AND ${clause}`).join('')}
+        `)
+      : database.prepare(`
+          SELECT q.*, t.name as topic_name, s.name as subject_name
+          FROM questions q
+          JOIN study_topics t ON q.topic_id = t.id
+          JOIN study_subjects s ON t.subject_id = s.id
+          ${clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''}
+          ORDER BY q.created_at DESC
+        `);
+    stmt.bind(matchQuery ? [matchQuery, ...params] : params);
+
+    const hits: QuestionSearchHit[] = [];
+    while (stmt.step()) {
+      const row = stmt.getAsObject();
+      hits.push({
+        question: rowToQuestion(row),
+        score: matchQuery ? bm25(row.match_info as Uint8Array) : 0,
+        snippet: (row.snippet as string) || undefined
+      });
+    }
+    stmt.free();
+
+    if (matchQuery) {
+      hits.sort((a, b) => b.score - a.score);
+    }
+
+    return { hits: hits.slice(0, limit), total: hits.length };
+  } catch (error) {
+    console.error('Error searching questions:', error);
+    return { hits: [], total: 0 };
+  }
+};
+
+const loadFacetValues = (column: string): FacetValue[] => {
+  const database = getDBOrThrow();
+  const stmt = database.prepare(`
+    SELECT ${column} as value, COUNT(*) as count
+    FROM questions
+    WHERE ${column} IS NOT NULL AND ${column} != ''
+    GROUP BY ${column}
+    ORDER BY ${column === 'exam_year' ? 'value DESC' : 'count DESC, value'}
+  `);
+
+  const values: FacetValue[] = [];
+  while (stmt.step()) {
+    const row = stmt.getAsObject();
+    values.push({ value: String(row.value), count: row.count as number });
+  }
+  stmt.free();
+  return values;
+};
+
+/**
+ * Distinct metadata values (with question counts) to fill the facet filters
+ */
+export const getQuestionFacets = (): QuestionFacets => {
+  try {
+    const database = getDBOrThrow();
+    const stmt = database.prepare(`
+      SELECT tag.value as value, COUNT(*) as count
+      FROM questions q, json_each(CASE WHEN json_valid(q.tags) THEN q.tags ELSE '[]' END) tag
+      WHERE tag.value != ''
+      GROUP BY tag.value
+      ORDER BY count DESC, value
+    `);
+    const tags: FacetValue[] = [];
+    while (stmt.step()) {
+      const row = stmt.getAsObject();
+      tags.push({ value: String(row.value), count: row.count as number });
+    }
+    stmt.free();
+
+    return {
+      examiningBoards: loadFacetValues('examining_board'),
+      examYears: loadFacetValues('exam_year'),
+      institutions: loadFacetValues('institution'),
+      positions: loadFacetValues('position'),
+      tags
+    };
+  } catch (error) {
+    console.error('Error loading question facets:', error);
+    return { examiningBoards: [], examYears: [], institutions: [], positions: [], tags: [] };
+  }
+};
@@ -1,6 +1,40 @@
 import { getDBOrThrow, getScheduleSave } from '../singleton';
 import { updateEnemyRoom } from './enemies';
-import type { Question, QuestionOption, QuestionAttempt, Room, ConfidenceLevel, Difficulty, ErrorType } from '@/types/battle';
+import { checkQuestionLeech } from './leeches';
+import { scheduleQuestionReview } from './questionReviews';
+import type { DuplicateResolution } from './questionDuplicates';
+import {
+  answerKeyChanged,
+  diffQuestionSnapshots,
+  insertQuestionRevision,
+  readQuestionSnapshot,
+  regradeQuestionAttempts
+} from './questionRevisions';
+import { getScoringPolicy } from './scoringPolicies';
+import { answerOutcome, calculateQuestionXp, normalizeTrueFalseAnswer } from '@/utils/questionScoring';
+import { questionFingerprint } from '@/utils/questionFingerprint';
+import type {
+  Question,
+  QuestionOption,
+  QuestionAttempt,
+  QuestionType,
+  RubricCriterion,
+  Room,
+  ConfidenceLevel,
+  Difficulty,
+  ErrorType
+} from '@/types/battle';
+
+export interface QuestionAnnotations {
+  notes: string;
+  highlights: string[];
+}
+
+// Nota vazia vira NULL; trechos destacados sem espaços nas pontas e sem repetição
+const storedAnnotations = ({ notes, highlights }: QuestionAnnotations): [string | null, string] => [
+  notes.trim() || null,
+  JSON.stringify(Array.from(new Set(highlights.map(passage => passage.trim()).filter(Boolean))))
+];
 
 /**
  * Create a new question
@@ -18,12 +52,29 @@ export const createQuestion = (
   examiningBoard?: string,
   position?: string,
   examYear?: string,
-  institution?: string
+  institution?: string,
+  questionType: QuestionType = 'multiple_choice',
+  rubric?: RubricCriterion[],
+  answerTolerance?: number,
+  annotations?: QuestionAnnotations
 ): string => {
   const database = getDBOrThrow();
   const scheduleSave = getScheduleSave();
   const questionId = `question_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
+  // Itens certo/errado não têm alternativas; o gabarito fica sempre como Certo ou Errado
+  if (questionType === 'true_false') {
+    options = undefined;
+    correctAnswer = normalizeTrueFalseAnswer(correctAnswer) ?? correctAnswer;
+  }
+  // Discursivas e resposta curta são digitadas: não têm alternativas
+  if (questionType === 'discursive' || questionType === 'short_answer') {
+    options = undefined;
+  }
+  const storedRubric = questionType === 'discursive' && rubric?.length ? JSON.stringify(rubric) : null;
+  const storedTolerance = questionType === 'short_answer' && answerTolerance !== undefined ? answerTolerance : null;
+  const [storedNotes, storedHighlights] = storedAnnotations(annotations ?? { notes: '', highlights: [] });
+
   try {
     // First, try to insert with images column
     try {
@@ -31,8 +82,8 @@ export const createQuestion = (
         INSERT INTO questions (
           id, topic_id, title, content, options, correct_answer, 
           explanation, difficulty, tags, images, examining_board, 
-          position, exam_year, institution, room
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          position, exam_year, institution, room, question_type, rubric, answer_tolerance, notes, highlights
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `, [
         questionId,
         topicId,
@@ -48,7 +99,12 @@ export const createQuestion = (
         position || null,
         examYear || null,
         institution || null,
-        'triagem' // All new questions start in triage
+        'triagem', // All new questions start in triage
+        questionType,
+        storedRubric,
+        storedTolerance,
+        storedNotes,
+        storedHighlights
       ]);
     } catch (imgError) {
       // If columns don't exist, add them and try again
@@ -58,13 +114,18 @@ export const createQuestion = (
       try { database.run(`ALTER TABLE questions ADD COLUMN position TEXT`); } catch {}
       try { database.run(`ALTER TABLE questions ADD COLUMN exam_year TEXT`); } catch {}
       try { database.run(`ALTER TABLE questions ADD COLUMN institution TEXT`); } catch {}
+      try { database.run(`ALTER TABLE questions ADD COLUMN question_type TEXT DEFAULT 'multiple_choice'`); } catch { /* coluna já existe */ }
+      try { database.run(`ALTER TABLE questions ADD COLUMN rubric TEXT`); } catch { /* coluna já existe */ }
+      try { database.run(`ALTER TABLE questions ADD COLUMN answer_tolerance REAL`); } catch { /* coluna já existe */ }
+      try { database.run(`ALTER TABLE questions ADD COLUMN notes TEXT`); } catch { /* coluna já existe */ }
+      try { database.run(`ALTER TABLE questions ADD COLUMN highlights TEXT DEFAULT '[]'`); } catch { /* coluna já existe */ }
       
       database.run(`
         INSERT INTO questions (
           id, topic_id, title, content, options, correct_answer, 
           explanation, difficulty, tags, images, examining_board, 
-          position, exam_year, institution, room
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          position, exam_year, institution, room, question_type, rubric, answer_tolerance, notes, highlights
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `, [
         questionId,
         topicId,
@@ -80,7 +141,12 @@ export const createQuestion = (
         position || null,
         examYear || null,
         institution || null,
-        'triagem' // All new questions start in triage
+        'triagem', // All new questions start in triage
+        questionType,
+        storedRubric,
+        storedTolerance,
+        storedNotes,
+        storedHighlights
       ]);
     }
 
@@ -124,6 +190,11 @@ export const getQuestionsByRoom = (room: Room): Question[] => {
         difficulty: row.difficulty as Difficulty,
         tags: JSON.parse(row.tags as string || '[]'),
         images: JSON.parse(row.images as string || '[]'),
+        questionType: (row.question_type as QuestionType) || 'multiple_choice',
+        rubric: row.rubric ? JSON.parse(row.rubric as string) : undefined,
+        answerTolerance: row.answer_tolerance as number ?? undefined,
+        notes: row.notes as string || undefined,
+        highlights: JSON.parse(row.highlights as string || '[]'),
         examiningBoard: row.examining_board as string || undefined,
         position: row.position as string || undefined,
         examYear: row.exam_year as string || undefined,
@@ -179,6 +250,11 @@ export const getQuestionsByTopic = (topicId: string): Question[] => {
         difficulty: row.difficulty as Difficulty,
         tags: JSON.parse(row.tags as string || '[]'),
         images: JSON.parse(row.images as string || '[]'),
+        questionType: (row.question_type as QuestionType) || 'multiple_choice',
+        rubric: row.rubric ? JSON.parse(row.rubric as string) : undefined,
+        answerTolerance: row.answer_tolerance as number ?? undefined,
+        notes: row.notes as string || undefined,
+        highlights: JSON.parse(row.highlights as string || '[]'),
         examiningBoard: row.examining_board as string || undefined,
         position: row.position as string || undefined,
         examYear: row.exam_year as string || undefined,
@@ -234,6 +310,11 @@ export const getQuestionById = (questionId: string): Question | null => {
         difficulty: row.difficulty as Difficulty,
         tags: JSON.parse(row.tags as string || '[]'),
         images: JSON.parse(row.images as string || '[]'),
+        questionType: (row.question_type as QuestionType) || 'multiple_choice',
+        rubric: row.rubric ? JSON.parse(row.rubric as string) : undefined,
+        answerTolerance: row.answer_tolerance as number ?? undefined,
+        notes: row.notes as string || undefined,
+        highlights: JSON.parse(row.highlights as string || '[]'),
         examiningBoard: row.examining_board as string || undefined,
         position: row.position as string || undefined,
         examYear: row.exam_year as string || undefined,
@@ -257,8 +338,15 @@ export const getQuestionById = (questionId: string): Question | null => {
   }
 };
 
+export interface AttemptGrading {
+  score: number; // Nota parcial de 0 a 1
+  rubricGrades?: number[];
+}
+
 /**
- * Record a question attempt
+ * Record a question attempt. Self-graded answers pass their partial score, which feeds
+ * accuracy, room and XP; isCorrect is then whether the score reached the passing mark.
+ * Blank answers are stored for the net score but leave accuracy, leeches and reviews alone.
  */
 export const recordQuestionAttempt = (
   questionId: string,
@@ -267,23 +355,25 @@ export const recordQuestionAttempt = (
   confidenceLevel: ConfidenceLevel,
   battleSessionId?: string,
   timeTaken?: number,
-  errorType?: string
+  errorType?: string,
+  grading?: AttemptGrading
 ): string => {
   const database = getDBOrThrow();
   const scheduleSave = getScheduleSave();
   const attemptId = `attempt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-  // Calculate XP based on difficulty and confidence
+  // Calculate XP based on difficulty, confidence and the board's scoring policy
   const question = getQuestionById(questionId);
-  let xpEarned = 0;
-  
-  if (isCorrect && question) {
-    const baseXp = 10;
-    const confidenceBonus = confidenceLevel === 'certeza' ? 5 : confidenceLevel === 'duvida' ? 3 : 1;
-    const difficultyMultiplier = question.difficulty === 'hard' ? 2 : question.difficulty === 'medium' ? 1.5 : 1;
-    
-    xpEarned = Math.floor(baseXp * difficultyMultiplier + confidenceBonus);
-  }
+  const outcome = answerOutcome(answer, isCorrect);
+  const xpEarned = question
+    ? calculateQuestionXp(
+        question.difficulty,
+        confidenceLevel,
+        outcome,
+        getScoringPolicy(question.examiningBoard),
+        grading?.score
+      )
+    : 0;
 
   try {
     // First, try to insert with error_type column
@@ -291,8 +381,8 @@ export const recordQuestionAttempt = (
       database.run(`
         INSERT INTO question_attempts (
           id, question_id, battle_session_id, answer, is_correct, 
-          confidence_level, time_taken, xp_earned, error_type
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          confidence_level, time_taken, xp_earned, error_type, question_revision, score, rubric_grades
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, (SELECT revision FROM questions WHERE id = ?), ?, ?)
       `, [
         attemptId,
         questionId,
@@ -302,7 +392,10 @@ export const recordQuestionAttempt = (
         confidenceLevel,
         timeTaken || null,
         xpEarned,
-        errorType || null
+        errorType || null,
+        questionId,
+        grading ? grading.score : null,
+        grading?.rubricGrades ? JSON.stringify(grading.rubricGrades) : null
       ]);
     } catch (colError) {
       // If column doesn't exist, add it and try again
@@ -312,8 +405,8 @@ export const recordQuestionAttempt = (
       database.run(`
         INSERT INTO question_attempts (
           id, question_id, battle_session_id, answer, is_correct, 
-          confidence_level, time_taken, xp_earned, error_type
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          confidence_level, time_taken, xp_earned, error_type, question_revision, score, rubric_grades
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, (SELECT revision FROM questions WHERE id = ?), ?, ?)
       `, [
         attemptId,
         questionId,
@@ -323,15 +416,29 @@ export const recordQuestionAttempt = (
         confidenceLevel,
         timeTaken || null,
         xpEarned,
-        errorType || null
+        errorType || null,
+        questionId,
+        grading ? grading.score : null,
+        grading?.rubricGrades ? JSON.stringify(grading.rubricGrades) : null
       ]);
     }
 
-    // Update enemy room after recording the attempt
-    if (question) {
-      console.log(`Updating enemy room for topic ${question.topicId} after question attempt`);
-      const newRoom = updateEnemyRoom(question.topicId);
-      console.log(`Enemy moved to room: ${newRoom}`);
+    // A blank answer only counts for the net score: no lapse, no reschedule, no room change
+    if (outcome !== 'blank') {
+      // Repeated wrong answers turn the question into a leech
+      if (!isCorrect) {
+        checkQuestionLeech(questionId);
+      }
+
+      // Each answer reschedules the question itself before the topic room is derived again
+      scheduleQuestionReview(questionId, isCorrect, confidenceLevel, timeTaken);
+
+      // Update enemy room after recording the attempt
+      if (question) {
+        console.log(`Updating enemy room for topic ${question.topicId} after question attempt`);
+        const newRoom = updateEnemyRoom(question.topicId);
+        console.log(`Enemy moved to room: ${newRoom}`);
+      }
     }
 
     scheduleSave();
@@ -350,6 +457,7 @@ export const deleteQuestion = (questionId: string): boolean => {
   const scheduleSave = getScheduleSave();
 
   try {
+    database.run('DELETE FROM question_revisions WHERE question_id = ?', [questionId]);
     database.run('DELETE FROM questions WHERE id = ?', [questionId]);
     scheduleSave();
     return true;
@@ -359,6 +467,201 @@ export const deleteQuestion = (questionId: string): boolean => {
   }
 };
 
+/**
+ * Save the personal notes (Markdown) and highlighted statement passages of a question.
+ * Annotations are not content: saving them creates no revision.
+ */
+export const updateQuestionNotes = (questionId: string, notes: string, highlights: string[]): boolean => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+
+  try {
+    database.run('UPDATE questions SET notes = ?, highlights = ? WHERE id = ?', [
+      ...storedAnnotations({ notes, highlights }),
+      questionId
+    ]);
+    const updated = database.getRowsModified() > 0;
+    scheduleSave();
+    return updated;
+  } catch (error) {
+    console.error('Error updating question notes:', error);
+    return false;
+  }
+};
+
+export interface QuestionContentUpdate {
+  topicId: string;
+  title: string;
+  content: string;
+  questionType?: QuestionType; // Mantém o tipo atual quando omitido
+  rubric?: RubricCriterion[];
+  answerTolerance?: number;
+  options?: Omit<QuestionOption, 'id'>[];
+  correctAnswer: string;
+  explanation?: string;
+  difficulty: Difficulty;
+  tags: string[];
+  images: string[];
+  examiningBoard?: string;
+  position?: string;
+  examYear?: string;
+  institution?: string;
+}
+
+export interface QuestionUpdateOptions {
+  regradeAttempts?: boolean; // Recorrigir tentativas antigas se o gabarito mudou
+  annotations?: QuestionAnnotations; // Substituem as anotações atuais, sem criar revisão
+}
+
+export interface QuestionUpdateResult {
+  revision: number;
+  changedFields: number;
+  regradedAttempts: number;
+}
+
+/**
+ * Recompute answer counters, accuracy (average partial score) and room of a question
+ * from its non-blank attempts (same room thresholds as the attempt trigger)
+ */
+export const recomputeQuestionStats = (questionId: string) => {
+  const database = getDBOrThrow();
+  database.run(`
+    UPDATE questions SET
+      times_answered = (SELECT COUNT(*) FROM question_attempts WHERE question_id = ? AND answer <> ''),
+      times_correct = (SELECT COUNT(*) FROM question_attempts WHERE question_id = ? AND answer <> '' AND is_correct = 1),
+      accuracy_rate = COALESCE(
+        (SELECT AVG(COALESCE(score, is_correct)) * 100.0 FROM question_attempts WHERE question_id = ? AND answer <> ''), 0
+      )
+    WHERE id = ?
+  `, [questionId, questionId, questionId, questionId]);
+  database.run(`
+    UPDATE questions SET
+      room = CASE
+        WHEN times_answered = 0 THEN room
+        WHEN accuracy_rate < 70 THEN 'vermelha'
+        WHEN accuracy_rate <= 85 THEN 'amarela'
+        ELSE 'verde'
+      END
+    WHERE id = ?
+  `, [questionId]);
+};
+
+/**
+ * Edit a question in place, keeping its attempts, statistics and review schedule.
+ * Every effective change becomes a new revision with the diff of the edited fields;
+ * when the answer key changes, past attempts can be re-graded against the new key.
+ */
+export const updateQuestion = (
+  questionId: string,
+  data: QuestionContentUpdate,
+  options: QuestionUpdateOptions = {}
+): QuestionUpdateResult | null => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+
+  try {
+    const before = readQuestionSnapshot(questionId);
+    if (!before) return null;
+
+    const questionType = data.questionType ?? before.questionType;
+    if (questionType === 'true_false') {
+      data = {
+        ...data,
+        options: undefined,
+        correctAnswer: normalizeTrueFalseAnswer(data.correctAnswer) ?? data.correctAnswer
+      };
+    }
+    if (questionType === 'discursive' || questionType === 'short_answer') {
+      data = { ...data, options: undefined };
+    }
+    // Rubrica só vale para discursivas e tolerância só para resposta curta
+    const rubric = questionType === 'discursive' ? data.rubric ?? [] : [];
+    const answerTolerance = questionType === 'short_answer' ? data.answerTolerance ?? null : null;
+
+    const after = {
+      topicId: data.topicId,
+      title: data.title,
+      content: data.content,
+      questionType,
+      rubric,
+      answerTolerance,
+      options: (data.options || []).map(({ label, content, isCorrect }) => ({ label, content, isCorrect: !!isCorrect })),
+      correctAnswer: data.correctAnswer,
+      explanation: data.explanation || null,
+      difficulty: data.difficulty,
+      tags: data.tags,
+      images: data.images,
+      examiningBoard: data.examiningBoard || null,
+      position: data.position || null,
+      examYear: data.examYear || null,
+      institution: data.institution || null
+    };
+    const { revision: currentRevision, ...current } = before;
+    const changes = diffQuestionSnapshots(current, after);
+    if (changes.length === 0) {
+      if (options.annotations) {
+        database.run('UPDATE questions SET notes = ?, highlights = ? WHERE id = ?', [...storedAnnotations(options.annotations), questionId]);
+        scheduleSave();
+      }
+      return { revision: currentRevision, changedFields: 0, regradedAttempts: 0 };
+    }
+
+    const revision = currentRevision + 1;
+    database.run('BEGIN TRANSACTION');
+    database.run(`
+      UPDATE questions SET
+        topic_id = ?, title = ?, content = ?, question_type = ?, rubric = ?, answer_tolerance = ?,
+        options = ?, correct_answer = ?, explanation = ?,
+        difficulty = ?, tags = ?, images = ?, examining_board = ?, position = ?, exam_year = ?,
+        institution = ?, revision = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `, [
+      data.topicId,
+      data.title,
+      data.content,
+      questionType,
+      rubric.length > 0 ? JSON.stringify(rubric) : null,
+      answerTolerance,
+      data.options ? JSON.stringify(data.options) : null,
+      data.correctAnswer,
+      data.explanation || null,
+      data.difficulty,
+      JSON.stringify(data.tags),
+      JSON.stringify(data.images),
+      data.examiningBoard || null,
+      data.position || null,
+      data.examYear || null,
+      data.institution || null,
+      revision,
+      questionId
+    ]);
+    if (options.annotations) {
+      database.run('UPDATE questions SET notes = ?, highlights = ? WHERE id = ?', [...storedAnnotations(options.annotations), questionId]);
+    }
+    const revisionId = insertQuestionRevision(questionId, revision, changes);
+
+    let regradedAttempts = 0;
+    if (options.regradeAttempts && answerKeyChanged(current, after)) {
+      regradedAttempts = regradeQuestionAttempts(questionId, revisionId);
+      recomputeQuestionStats(questionId);
+    }
+    database.run('COMMIT');
+
+    // Acertos recalculados ou troca de tema mudam a sala dos inimigos envolvidos
+    if (regradedAttempts > 0 || before.topicId !== data.topicId) {
+      new Set([before.topicId, data.topicId]).forEach(topicId => updateEnemyRoom(topicId));
+    }
+
+    console.log(`✏️ Questão ${questionId} editada (revisão ${revision}, ${changes.length} campos, ${regradedAttempts} tentativas recorrigidas)`);
+    scheduleSave();
+    return { revision, changedFields: changes.length, regradedAttempts };
+  } catch (error) {
+    try { database.run('ROLLBACK'); } catch { /* transação já encerrada */ }
+    console.error('Error updating question:', error);
+    return null;
+  }
+};
+
 /**
  * Get questions count by room
  */
@@ -393,11 +696,19 @@ export const getQuestionsCountByRoom = (): Record<Room, number> => {
 };
 
 /**
- * Import questions in batch with proper validation and enemy creation
+ * Import questions in batch with proper validation and enemy creation.
+ * Questions flagged as duplicates (by position in the list) are skipped, overwrite the
+ * existing question, or are kept as a new one, as chosen in the import preview.
  */
-export const importQuestionsInBatch = async (questions: any[], defaultTopicId?: string): Promise<{
+export const importQuestionsInBatch = async (
+  questions: any[],
+  defaultTopicId?: string,
+  duplicateActions: Record<number, { resolution: DuplicateResolution; questionId: string }> = {}
+): Promise<{
   success: number;
   failed: number;
+  skipped: number;
+  overwritten: number;
   errors: string[];
   results: Array<{ success: boolean; questionId?: string; error?: string; title: string; }>
 }> => {
@@ -407,6 +718,8 @@ export const importQuestionsInBatch = async (questions: any[], defaultTopicId?:
   const results = {
     success: 0,
     failed: 0,
+    skipped: 0,
+    overwritten: 0,
     errors: [] as string[],
     results: [] as Array<{ success: boolean; questionId?: string; error?: string; title: string; }>
   };
@@ -422,8 +735,25 @@ export const importQuestionsInBatch = async (questions: any[], defaultTopicId?:
     topicExists.free();
   }
 
-  for (const questionData of questions) {
+  // Impressões digitais das linhas já aceitas: a mesma questão repetida no arquivo entra uma vez só
+  const acceptedFingerprints = new Set<string>();
+
+  for (const [index, questionData] of questions.entries()) {
     try {
+      const duplicate = duplicateActions[index];
+      if (duplicate?.resolution === 'skip') {
+        results.skipped++;
+        console.log(`⏭️ Questão duplicada ignorada: ${questionData.title}`);
+        continue;
+      }
+
+      const fingerprint = questionFingerprint(questionData);
+      if (acceptedFingerprints.has(fingerprint)) {
+        results.skipped++;
+        console.log(`⏭️ Questão repetida no arquivo ignorada: ${questionData.title}`);
+        continue;
+      }
+
       const topicId = questionData.topicId || defaultTopicId;
       
       if (!topicId) {
@@ -454,6 +784,39 @@ export const importQuestionsInBatch = async (questions: any[], defaultTopicId?:
         continue;
       }
 
+      // Anotações do arquivo substituem as atuais; sem anotações no arquivo, as atuais ficam
+      const annotations: QuestionAnnotations | undefined = questionData.notes || questionData.highlights?.length
+        ? { notes: questionData.notes || '', highlights: questionData.highlights || [] }
+        : undefined;
+
+      if (duplicate?.resolution === 'overwrite') {
+        const updated = updateQuestion(duplicate.questionId, {
+          topicId,
+          title: questionData.title,
+          content: questionData.content,
+          questionType: questionData.questionType,
+          rubric: questionData.rubric,
+          answerTolerance: questionData.answerTolerance,
+          options: questionData.options,
+          correctAnswer: questionData.correctAnswer,
+          explanation: questionData.explanation,
+          difficulty: questionData.difficulty || 'medium',
+          tags: questionData.tags || [],
+          images: questionData.images || [],
+          examiningBoard: questionData.examiningBoard,
+          position: questionData.position,
+          examYear: questionData.examYear,
+          institution: questionData.institution
+        }, { annotations });
+        if (!updated) throw new Error('Não foi possível sobrescrever a questão existente');
+
+        acceptedFingerprints.add(fingerprint);
+        results.overwritten++;
+        results.results.push({ success: true, questionId: duplicate.questionId, title: questionData.title });
+        console.log(`♻️ Questão sobrescrita: ${questionData.title} -> ${duplicate.questionId}`);
+        continue;
+      }
+
       // Create question
       const questionId = createQuestion(
         topicId,
@@ -468,9 +831,14 @@ export const importQuestionsInBatch = async (questions: any[], defaultTopicId?:
         questionData.examiningBoard,
         questionData.position,
         questionData.examYear,
-        questionData.institution
+        questionData.institution,
+        questionData.questionType,
+        questionData.rubric,
+        questionData.answerTolerance,
+        annotations
       );
 
+      acceptedFingerprints.add(fingerprint);
       results.success++;
       results.results.push({
         success: true,
@@ -495,7 +863,7 @@ export const importQuestionsInBatch = async (questions: any[], defaultTopicId?:
 
   scheduleSave();
   
-  console.log(`📊 Importação concluída: ${results.success} sucessos, ${results.failed} falhas`);
+  console.log(`📊 Importação concluída: ${results.success} sucessos, ${results.overwritten} sobrescritas, ${results.skipped} duplicadas ignoradas, ${results.failed} falhas`);
   
   return results;
 };
@@ -509,6 +877,7 @@ export const getAllQuestionAttempts = (): QuestionAttempt[] => {
   try {
     const stmt = database.prepare(`
       SELECT qa.*, q.title as question_title, q.difficulty, q.room,
+             q.examining_board, q.question_type,
              t.name as topic_name, s.name as subject_name
       FROM question_attempts qa
       JOIN questions q ON qa.question_id = q.id
@@ -521,6 +890,8 @@ export const getAllQuestionAttempts = (): QuestionAttempt[] => {
       questionTitle?: string; 
       difficulty?: Difficulty; 
       room?: Room;
+      examiningBoard?: string;
+      questionType?: QuestionType;
       topicName?: string;
       subjectName?: string;
     })[] = [];
@@ -533,6 +904,8 @@ export const getAllQuestionAttempts = (): QuestionAttempt[] => {
         battleSessionId: row.battle_session_id as string || undefined,
         answer: row.answer as string,
         isCorrect: Boolean(row.is_correct),
+        score: row.score as number ?? undefined,
+        rubricGrades: row.rubric_grades ? JSON.parse(row.rubric_grades as string) : undefined,
         confidenceLevel: row.confidence_level as ConfidenceLevel,
         errorType: row.error_type as ErrorType || undefined,
         timeTaken: row.time_taken as number || undefined,
@@ -541,6 +914,8 @@ export const getAllQuestionAttempts = (): QuestionAttempt[] => {
         questionTitle: row.question_title as string,
         difficulty: row.difficulty as Difficulty,
         room: row.room as Room,
+        examiningBoard: row.examining_board as string || undefined,
+        questionType: (row.question_type as QuestionType) || 'multiple_choice',
         topicName: row.topic_name as string,
         subjectName: row.subject_name as string
       });
@@ -563,6 +938,7 @@ export const getQuestionAttemptsByDateRange = (startDate: Date, endDate: Date):
   try {
     const stmt = database.prepare(`
       SELECT qa.*, q.title as question_title, q.difficulty, q.room,
+             q.examining_board, q.question_type,
              t.name as topic_name, s.name as subject_name
       FROM question_attempts qa
       JOIN questions q ON qa.question_id = q.id
@@ -578,6 +954,8 @@ export const getQuestionAttemptsByDateRange = (startDate: Date, endDate: Date):
       questionTitle?: string; 
       difficulty?: Difficulty; 
       room?: Room;
+      examiningBoard?: string;
+      questionType?: QuestionType;
       topicName?: string;
       subjectName?: string;
     })[] = [];
@@ -590,6 +968,8 @@ export const getQuestionAttemptsByDateRange = (startDate: Date, endDate: Date):
         battleSessionId: row.battle_session_id as string || undefined,
         answer: row.answer as string,
         isCorrect: Boolean(row.is_correct),
+        score: row.score as number ?? undefined,
+        rubricGrades: row.rubric_grades ? JSON.parse(row.rubric_grades as string) : undefined,
         confidenceLevel: row.confidence_level as ConfidenceLevel,
         errorType: row.error_type as ErrorType || undefined,
         timeTaken: row.time_taken as number || undefined,
@@ -598,6 +978,8 @@ export const getQuestionAttemptsByDateRange = (startDate: Date, endDate: Date):
         questionTitle: row.question_title as string,
         difficulty: row.difficulty as Difficulty,
         room: row.room as Room,
+        examiningBoard: row.examining_board as string || undefined,
+        questionType: (row.question_type as QuestionType) || 'multiple_choice',
         topicName: row.topic_name as string,
         subjectName: row.subject_name as string
       });
@@ -623,7 +1005,7 @@ export const getErrorAnalysis = (): Record<ErrorType | 'undefined', number> => {
         COALESCE(error_type, 'undefined') as error_type,
         COUNT(*) as count
       FROM question_attempts
-      WHERE is_correct = 0
+      WHERE is_correct = 0 AND answer <> ''
       GROUP BY COALESCE(error_type, 'undefined')
     `);
     
@@ -660,9 +1042,11 @@ export const getAccuracyByRoom = (): Record<Room, { total: number; correct: numb
       SELECT 
         q.room,
         COUNT(*) as total_attempts,
-        SUM(CASE WHEN qa.is_correct = 1 THEN 1 ELSE 0 END) as correct_attempts
+        SUM(CASE WHEN qa.is_correct = 1 THEN 1 ELSE 0 END) as correct_attempts,
+        SUM(COALESCE(qa.score, qa.is_correct)) as score_sum
       FROM question_attempts qa
       JOIN questions q ON qa.question_id = q.id
+      WHERE qa.answer <> ''
       GROUP BY q.room
     `);
     
@@ -678,7 +1062,7 @@ export const getAccuracyByRoom = (): Record<Room, { total: number; correct: numb
       const room = row.room as Room;
       const total = row.total_attempts as number;
       const correct = row.correct_attempts as number;
-      const accuracy = total > 0 ? (correct / total) * 100 : 0;
+      const accuracy = total > 0 ? ((row.score_sum as number) / total) * 100 : 0;
       
       result[room] = { total, correct, accuracy };
     }
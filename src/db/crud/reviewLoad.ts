@@ -0,0 +1,80 @@
+import { getDBOrThrow } from '../singleton';
+import { addDays, startOfDay } from 'date-fns';
+import { balanceInterval, dueLoadKey, getFuzzRange } from '@/utils/loadBalancer';
+import { getReviewSettings } from './reviewSettings';
+
+/**
+ * Count reviews already scheduled per day (flashcards, enemy reviews and questions)
+ */
+export const getDueLoad = (from: Date, to: Date): Record<string, number> => {
+  const database = getDBOrThrow();
+  const load: Record<string, number> = {};
+
+  try {
+    const stmt = database.prepare(`
+      SELECT due_date as due FROM flashcards WHERE due_date >= ? AND due_date < ?
+      UNION ALL
+      SELECT next_review_date as due FROM enemy_reviews WHERE next_review_date >= ? AND next_review_date < ?
+      UNION ALL
+      SELECT due_date as due FROM questions WHERE due_date >= ? AND due_date < ?
+    `);
+    const range = [startOfDay(from).toISOString(), startOfDay(addDays(to, 1)).toISOString()];
+    stmt.bind([...range, ...range, ...range]);
+
+    while (stmt.step()) {
+      const key = dueLoadKey(new Date(stmt.getAsObject().due as string));
+      load[key] = (load[key] || 0) + 1;
+    }
+    stmt.free();
+  } catch (error) {
+    console.error('Error getting due load:', error);
+  }
+
+  return load;
+};
+
+/**
+ * Exam date of the most recently updated study plan
+ */
+export const getCurrentExamDate = (): Date | undefined => {
+  const database = getDBOrThrow();
+
+  try {
+    const stmt = database.prepare(`
+      SELECT exam_date FROM study_plans
+      WHERE exam_date IS NOT NULL
+      ORDER BY updated_at DESC
+      LIMIT 1
+    `);
+    const examDate = stmt.step() ? stmt.getAsObject().exam_date as string : null;
+    stmt.free();
+
+    return examDate ? new Date(examDate) : undefined;
+  } catch (error) {
+    console.error('Error getting current exam date:', error);
+    return undefined;
+  }
+};
+
+/**
+ * Apply fuzz and load balancing to a freshly calculated interval
+ */
+export const balanceReviewDate = (
+  interval: number,
+  examDate?: Date,
+  now: Date = new Date()
+): { interval: number; nextReviewDate: Date } => {
+  const settings = getReviewSettings();
+  let balanced = interval;
+
+  if (settings.loadBalancing) {
+    const { max } = getFuzzRange(interval);
+    balanced = balanceInterval(interval, {
+      now,
+      examDate,
+      dueLoad: getDueLoad(now, addDays(now, max))
+    });
+  }
+
+  return { interval: balanced, nextReviewDate: addDays(now, balanced) };
+};
@@ -0,0 +1,272 @@
+import { getDBOrThrow, getScheduleSave } from '../singleton';
+import { format, startOfDay, subDays } from 'date-fns';
+
+/**
+ * Histórico append-only de todas as revisões (flashcards, inimigos e questões)
+ */
+
+export type ReviewItemKind = 'flashcard' | 'enemy_topic' | 'question';
+
+export interface ReviewLogEntry {
+  id: string;
+  itemId: string;
+  itemKind: ReviewItemKind;
+  topicId?: string;
+  reviewedAt: Date;
+  rating: number;          // Qualidade da resposta (0-5)
+  responseTime?: number;   // Segundos
+  intervalBefore: number;  // Dias
+  intervalAfter: number;   // Dias
+  algorithm?: string;
+}
+
+export interface ReviewLogFilter {
+  itemId?: string;
+  itemKind?: ReviewItemKind;
+  topicId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export interface DailyReviewSummary {
+  date: string; // YYYY-MM-DD
+  total: number;
+  correct: number;
+  byKind: Record<ReviewItemKind, number>;
+}
+
+// Histórico de um item no formato que o SM-2 usa
+export interface ReviewHistory {
+  averageQuality: number;
+  failureCount: number; // Falhas consecutivas mais recentes
+}
+
+export interface ReviewLogSummary {
+  totalReviews: number;
+  retentionRate: number; // % de revisões com nota >= 3
+  averageResponseTime: number;
+  byKind: Record<ReviewItemKind, { total: number; correct: number }>;
+  daily: DailyReviewSummary[];
+}
+
+const rowToReviewLog = (row: Record<string, unknown>): ReviewLogEntry => ({
+  id: row.id as string,
+  itemId: row.item_id as string,
+  itemKind: row.item_kind as ReviewItemKind,
+  topicId: (row.topic_id as string) || undefined,
+  reviewedAt: new Date(row.reviewed_at as string),
+  rating: row.rating as number,
+  responseTime: (row.response_time as number) ?? undefined,
+  intervalBefore: (row.interval_before as number) || 0,
+  intervalAfter: (row.interval_after as number) || 0,
+  algorithm: (row.algorithm as string) || undefined
+});
+
+const insertReviewLog = (entry: ReviewLogEntry, ignoreDuplicates = false): number => {
+  const database = getDBOrThrow();
+
+  database.run(`
+    INSERT ${ignoreDuplicates ? 'OR IGNORE ' : ''}INTO review_logs (
+      id, item_id, item_kind, topic_id, reviewed_at, rating,
+      response_time, interval_before, interval_after, algorithm
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `, [
+    entry.id,
+    entry.itemId,
+    entry.itemKind,
+    entry.topicId ?? null,
+    entry.reviewedAt.toISOString(),
+    entry.rating,
+    entry.responseTime ?? null,
+    entry.intervalBefore,
+    entry.intervalAfter,
+    entry.algorithm ?? null
+  ]);
+  // 0 quando o id já existia e o INSERT OR IGNORE não gravou nada
+  return database.getRowsModified();
+};
+
+/**
+ * Registra uma revisão no histórico. Entradas nunca são alteradas depois de gravadas.
+ */
+export const addReviewLog = (
+  entry: Omit<ReviewLogEntry, 'id' | 'reviewedAt'> & { id?: string; reviewedAt?: Date }
+): string | null => {
+  const scheduleSave = getScheduleSave();
+  const id = entry.id || crypto.randomUUID();
+
+  try {
+    insertReviewLog({ ...entry, id, reviewedAt: entry.reviewedAt || new Date() });
+    scheduleSave();
+    return id;
+  } catch (error) {
+    console.error('Error adding review log:', error);
+    return null;
+  }
+};
+
+/**
+ * Importa entradas prontas (backups, outros aplicativos); ids repetidos são ignorados
+ * e não entram na contagem devolvida
+ */
+export const importReviewLogs = (entries: ReviewLogEntry[]): number => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+
+  try {
+    database.run('BEGIN TRANSACTION');
+    const imported = entries.reduce((count, entry) => count + insertReviewLog(entry, true), 0);
+    database.run('COMMIT');
+
+    scheduleSave();
+    return imported;
+  } catch (error) {
+    database.run('ROLLBACK');
+    console.error('Error importing review logs:', error);
+    return 0;
+  }
+};
+
+/**
+ * Consulta o histórico de revisões, do mais recente para o mais antigo
+ */
+export const getReviewLogs = (filter: ReviewLogFilter = {}): ReviewLogEntry[] => {
+  const database = getDBOrThrow();
+
+  try {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filter.itemId) {
+      conditions.push('item_id = ?');
+      params.push(filter.itemId);
+    }
+    if (filter.itemKind) {
+      conditions.push('item_kind = ?');
+      params.push(filter.itemKind);
+    }
+    if (filter.topicId) {
+      conditions.push('topic_id = ?');
+      params.push(filter.topicId);
+    }
+    if (filter.from) {
+      conditions.push('reviewed_at >= ?');
+      params.push(filter.from.toISOString());
+    }
+    if (filter.to) {
+      conditions.push('reviewed_at <= ?');
+      params.push(filter.to.toISOString());
+    }
+
+    let query = 'SELECT * FROM review_logs';
+    if (conditions.length > 0) {
+      query += ` WHERE ${conditions.join(' AND ')}`;
+    }
+    query += ' ORDER BY reviewed_at DESC';
+    if (filter.limit) {
+      query += ' LIMIT ?';
+      params.push(filter.limit);
+    }
+
+    const stmt = database.prepare(query);
+    stmt.bind(params);
+
+    const logs: ReviewLogEntry[] = [];
+    while (stmt.step()) {
+      logs.push(rowToReviewLog(stmt.getAsObject()));
+    }
+    stmt.free();
+
+    return logs;
+  } catch (error) {
+    console.error('Error getting review logs:', error);
+    return [];
+  }
+};
+
+/**
+ * Average rating and current failure streak per item, from reviews ordered most recent first
+ */
+export const summarizeReviewHistory = (
+  reviews: Pick<ReviewLogEntry, 'itemId' | 'rating'>[]
+): Map<string, ReviewHistory> => {
+  const totals = new Map<string, { sum: number; count: number; failureCount: number; streakOpen: boolean }>();
+
+  reviews.forEach(({ itemId, rating }) => {
+    const total = totals.get(itemId) ?? { sum: 0, count: 0, failureCount: 0, streakOpen: true };
+    total.sum += rating;
+    total.count++;
+    // A sequência de falhas termina no acerto mais recente
+    if (total.streakOpen && rating < 3) {
+      total.failureCount++;
+    } else {
+      total.streakOpen = false;
+    }
+    totals.set(itemId, total);
+  });
+
+  return new Map(Array.from(totals, ([itemId, total]) => [
+    itemId,
+    { averageQuality: total.sum / total.count, failureCount: total.failureCount }
+  ]));
+};
+
+/**
+ * Review history (average rating, failure streak) of the items of a kind, or of a single item
+ */
+export const getReviewHistory = (itemKind: ReviewItemKind, itemId?: string): Map<string, ReviewHistory> =>
+  summarizeReviewHistory(getReviewLogs({ itemKind, itemId }));
+
+/**
+ * Resumo do histórico para as telas de analytics
+ */
+export const getReviewLogSummary = (days: number = 30): ReviewLogSummary => {
+  const from = startOfDay(subDays(new Date(), days - 1));
+  const logs = getReviewLogs({ from });
+
+  const emptyKinds = (): Record<ReviewItemKind, number> => ({ flashcard: 0, enemy_topic: 0, question: 0 });
+  const byKind: ReviewLogSummary['byKind'] = {
+    flashcard: { total: 0, correct: 0 },
+    enemy_topic: { total: 0, correct: 0 },
+    question: { total: 0, correct: 0 }
+  };
+
+  const dailyMap = new Map<string, DailyReviewSummary>();
+  for (let i = days - 1; i >= 0; i--) {
+    const date = format(subDays(new Date(), i), 'yyyy-MM-dd');
+    dailyMap.set(date, { date, total: 0, correct: 0, byKind: emptyKinds() });
+  }
+
+  let correct = 0;
+  let responseTimeSum = 0;
+  let responseTimeCount = 0;
+
+  logs.forEach(log => {
+    const isCorrect = log.rating >= 3;
+    byKind[log.itemKind].total++;
+    if (isCorrect) {
+      byKind[log.itemKind].correct++;
+      correct++;
+    }
+    if (log.responseTime) {
+      responseTimeSum += log.responseTime;
+      responseTimeCount++;
+    }
+
+    const day = dailyMap.get(format(log.reviewedAt, 'yyyy-MM-dd'));
+    if (day) {
+      day.total++;
+      day.byKind[log.itemKind]++;
+      if (isCorrect) day.correct++;
+    }
+  });
+
+  return {
+    totalReviews: logs.length,
+    retentionRate: logs.length > 0 ? (correct / logs.length) * 100 : 0,
+    averageResponseTime: responseTimeCount > 0 ? responseTimeSum / responseTimeCount : 0,
+    byKind,
+    daily: Array.from(dailyMap.values())
+  };
+};
@@ -0,0 +1,78 @@
+import { DEFAULT_SCHEDULER_TUNING, type SchedulerAlgorithm, type SchedulerTuning } from '@/utils/spacedRepetition';
+import { optimizeTuning, type TuningOptimizationResult } from '@/utils/schedulerOptimizer';
+import type { SimulationDaySettings, SimulationItem, SimulationProfile } from '@/utils/workloadSimulator';
+import { applyExamMode, getReviewSettings, getSchedulerOptions, isExamModeActive, updateReviewSettings } from './reviewSettings';
+import { getEnemyReviewCards, getUserProfile, migrateEnemyReviewsToAlgorithm } from './enemyReviews';
+import { getFlashcardReviewCards, migrateFlashcardsToAlgorithm } from './flashcards';
+import { getQuestionReviewCards, migrateQuestionsToAlgorithm } from './questionReviews';
+import { getReviewLogs } from './reviewLogs';
+
+export interface AlgorithmSwitchResult {
+  success: boolean;
+  previous: SchedulerAlgorithm;
+  current: SchedulerAlgorithm;
+  enemyReviewsMigrated: number;
+  flashcardsMigrated: number;
+  questionsMigrated: number;
+}
+
+/**
+ * Troca o motor de agendamento e converte o estado salvo de todos os itens revisáveis
+ */
+export const switchReviewAlgorithm = (algorithm: SchedulerAlgorithm): AlgorithmSwitchResult => {
+  const previous = getReviewSettings().algorithm;
+
+  if (previous === algorithm) {
+    return { success: true, previous, current: algorithm, enemyReviewsMigrated: 0, flashcardsMigrated: 0, questionsMigrated: 0 };
+  }
+
+  try {
+    const enemyReviewsMigrated = migrateEnemyReviewsToAlgorithm(algorithm);
+    const flashcardsMigrated = migrateFlashcardsToAlgorithm(algorithm);
+    const questionsMigrated = migrateQuestionsToAlgorithm(algorithm);
+    const success = updateReviewSettings({ algorithm });
+
+    console.log(`Review algorithm switched from ${previous} to ${algorithm}`);
+    return { success, previous, current: algorithm, enemyReviewsMigrated, flashcardsMigrated, questionsMigrated };
+  } catch (error) {
+    console.error('Error switching review algorithm:', error);
+    return { success: false, previous, current: previous, enemyReviewsMigrated: 0, flashcardsMigrated: 0, questionsMigrated: 0 };
+  }
+};
+
+/**
+ * Ajusta os parâmetros do agendamento ao histórico de revisões do usuário (não grava nada)
+ */
+export const optimizeSchedulerTuning = (): TuningOptimizationResult => {
+  // Sem parâmetros salvos, o otimizador parte dos padrões
+  const { tuning = DEFAULT_SCHEDULER_TUNING } = getSchedulerOptions();
+  return optimizeTuning(getReviewLogs(), tuning, getUserProfile());
+};
+
+/**
+ * Grava nas configurações os parâmetros encontrados pelo otimizador
+ */
+export const applySchedulerTuning = (tuning: SchedulerTuning): boolean => {
+  return updateReviewSettings({ ...tuning });
+};
+
+/**
+ * Todos os itens revisáveis com o estado atual, para o simulador de carga
+ */
+export const getSimulationItems = (): SimulationItem[] => [
+  ...getFlashcardReviewCards().map(card => ({ kind: 'flashcard' as const, card })),
+  ...getEnemyReviewCards().map(card => ({ kind: 'enemy_topic' as const, card })),
+  ...getQuestionReviewCards().map(card => ({ kind: 'question' as const, card }))
+];
+
+/**
+ * Configurações de cada dia da simulação: o modo exame do perfil aplicado à distância até o exame
+ */
+export const getSimulationDaySettings = (profile: SimulationProfile) => (daysUntilExam: number): SimulationDaySettings => {
+  const settings = applyExamMode(profile, daysUntilExam);
+  return {
+    settings,
+    schedulerOptions: getSchedulerOptions(settings),
+    examModeActive: isExamModeActive(profile, daysUntilExam)
+  };
+};
@@ -1,4 +1,6 @@
 import { getDBOrThrow, getScheduleSave } from '../singleton';
+import { differenceInCalendarDays } from 'date-fns';
+import type { SchedulerAlgorithm, SchedulerOptions } from '@/utils/spacedRepetition';
 
 /**
  * Configurações personalizáveis para o sistema de revisão espaçada
@@ -7,6 +9,8 @@ import { getDBOrThrow, getScheduleSave } from '../singleton';
 export interface ReviewSettings {
   id: string;
   // Configurações do algoritmo
+  algorithm: SchedulerAlgorithm;  // Motor de agendamento (SM-2 ou FSRS)
+  requestRetention: number;       // Retenção desejada usada pelo FSRS (0.7 - 0.97)
   maxEaseFactor: number;          // Fator máximo de facilidade
   minEaseFactor: number;          // Fator mínimo de facilidade
   easeFactorModifier: number;     // Modificador do fator de facilidade
@@ -28,11 +32,24 @@ export interface ReviewSettings {
   
   // Configurações de exame
   examModeEnabled: boolean;      // Se modo exame está ativo
-  examUrgencyFactor: number;     // Fator de urgência do exame
+  examUrgencyFactor: number;     // Multiplicador de intervalo no dia do exame (0.3 - 1)
+  examModeWindowDays: number;    // Dias antes do exame em que a compressão começa
+  examNewCardCutoffDays: number; // Reta final sem material novo
+  examFinalReviewDays: number;   // Todo tópico estudado é revisto ao menos uma vez nesses dias
   
   // Configurações de sessão
   dailyReviewLimit: number;      // Limite diário de revisões
   newCardsPerDay: number;        // Novos cartões por dia
+  loadBalancing: boolean;        // Espalha revisões entre dias vizinhos (fuzz)
+  
+  // Sanguessugas (itens que falham repetidamente)
+  flashcardLeechThreshold: number; // Lapsos para um flashcard virar sanguessuga (0 = desligado)
+  enemyLeechThreshold: number;     // Revisões falhas de um inimigo
+  questionLeechThreshold: number;  // Erros em uma mesma questão
+  suspendLeeches: boolean;         // Tira sanguessugas das filas até o usuário agir
+  
+  // Questões erradas viram flashcards (padrão das batalhas, pode ser trocado em cada uma)
+  autoFlashcardsFromErrors: boolean;
   
   // Configurações de personalização
   adaptiveLearning: boolean;     // Aprendizado adaptativo
@@ -44,6 +61,9 @@ export interface ReviewSettings {
 }
 
 const DEFAULT_SETTINGS: Omit<ReviewSettings, 'id' | 'createdAt' | 'updatedAt'> = {
+  algorithm: 'sm2',
+  requestRetention: 0.9,
+
   maxEaseFactor: 2.5,
   minEaseFactor: 1.3,
   easeFactorModifier: 0.15,
@@ -62,9 +82,20 @@ const DEFAULT_SETTINGS: Omit<ReviewSettings, 'id' | 'createdAt' | 'updatedAt'> =
   
   examModeEnabled: false,
   examUrgencyFactor: 0.7,
+  examModeWindowDays: 60,
+  examNewCardCutoffDays: 7,
+  examFinalReviewDays: 7,
   
   dailyReviewLimit: 100,
   newCardsPerDay: 20,
+  loadBalancing: true,
+  
+  flashcardLeechThreshold: 8,
+  enemyLeechThreshold: 5,
+  questionLeechThreshold: 4,
+  suspendLeeches: false,
+  
+  autoFlashcardsFromErrors: false,
   
   adaptiveLearning: true,
   personalizedIntervals: true,
@@ -88,7 +119,9 @@ export const getReviewSettings = (): ReviewSettings => {
       const settings = JSON.parse(row.setting_value as string);
       stmt.free();
       
+      // Configurações salvas antes de novos campos recebem os valores padrão
       return {
+        ...DEFAULT_SETTINGS,
         id: row.id as string,
         ...settings,
         createdAt: new Date(row.created_at as string),
@@ -179,6 +212,23 @@ const createDefaultReviewSettings = (): ReviewSettings => {
   return settings;
 };
 
+/**
+ * Traduz as configurações do usuário em parâmetros para o motor de agendamento
+ */
+export const getSchedulerOptions = (settings: Partial<ReviewSettings> = getReviewSettings()): SchedulerOptions => {
+  return {
+    requestRetention: settings.requestRetention,
+    maximumInterval: settings.maxInterval,
+    minimumInterval: settings.minInterval,
+    tuning: {
+      easeFactorModifier: settings.easeFactorModifier ?? DEFAULT_SETTINGS.easeFactorModifier,
+      hardMultiplier: settings.hardMultiplier ?? DEFAULT_SETTINGS.hardMultiplier,
+      lapseMultiplier: settings.lapseMultiplier ?? DEFAULT_SETTINGS.lapseMultiplier,
+      intervalMultiplier: settings.intervalMultiplier ?? DEFAULT_SETTINGS.intervalMultiplier
+    }
+  };
+};
+
 /**
  * Obtém configurações específicas para um tipo de dificuldade
  */
@@ -211,24 +261,53 @@ export const getDifficultySettings = (
  * Configurações otimizadas para modo exame
  */
 export const getExamModeSettings = (daysUntilExam: number): Partial<ReviewSettings> => {
-  const base = getReviewSettings();
-  
-  if (!base.examModeEnabled || daysUntilExam <= 0) {
+  return applyExamMode(getReviewSettings(), daysUntilExam);
+};
+
+/**
+ * Se o modo exame está agindo a essa distância do exame
+ */
+export const isExamModeActive = (base: Partial<ReviewSettings>, daysUntilExam: number): boolean =>
+  !!base.examModeEnabled &&
+  daysUntilExam > 0 &&
+  daysUntilExam <= (base.examModeWindowDays ?? DEFAULT_SETTINGS.examModeWindowDays);
+
+/**
+ * Ajusta um conjunto de configurações para a distância até o exame (sem acessar o banco).
+ * Dentro da janela do modo exame os intervalos encolhem progressivamente até examUrgencyFactor,
+ * o limite de revisões cresce na mesma proporção e o material novo diminui até zerar na reta final.
+ */
+export const applyExamMode = <T extends Partial<ReviewSettings>>(base: T, daysUntilExam: number): T => {
+  if (!isExamModeActive(base, daysUntilExam)) {
     return base;
   }
   
-  // Acelera revisões baseado na proximidade do exame
-  const urgencyFactor = Math.max(0.3, Math.min(1, daysUntilExam / 90)) * base.examUrgencyFactor;
+  const windowDays = base.examModeWindowDays ?? DEFAULT_SETTINGS.examModeWindowDays;
+  const urgencyFactor = base.examUrgencyFactor ?? DEFAULT_SETTINGS.examUrgencyFactor;
+  // 1 no início da janela, examUrgencyFactor no dia do exame
+  const compression = 1 - (1 - daysUntilExam / windowDays) * (1 - urgencyFactor);
+  const finalStretch = daysUntilExam <= (base.examNewCardCutoffDays ?? DEFAULT_SETTINGS.examNewCardCutoffDays);
   
   return {
     ...base,
-    maxInterval: Math.min(base.maxInterval, Math.ceil(daysUntilExam * 0.3)),
-    intervalMultiplier: base.intervalMultiplier * urgencyFactor,
-    dailyReviewLimit: Math.ceil(base.dailyReviewLimit * (2 - urgencyFactor)),
-    newCardsPerDay: Math.ceil(base.newCardsPerDay * (1.5 - urgencyFactor * 0.5))
+    maxInterval: Math.min(base.maxInterval ?? DEFAULT_SETTINGS.maxInterval, Math.max(1, Math.ceil(daysUntilExam * 0.3))),
+    intervalMultiplier: (base.intervalMultiplier ?? DEFAULT_SETTINGS.intervalMultiplier) * compression,
+    dailyReviewLimit: Math.ceil((base.dailyReviewLimit ?? DEFAULT_SETTINGS.dailyReviewLimit) * (2 - compression)),
+    newCardsPerDay: finalStretch ? 0 : Math.floor((base.newCardsPerDay ?? DEFAULT_SETTINGS.newCardsPerDay) * compression)
   };
 };
 
+/**
+ * Configurações com o modo exame aplicado para a data do exame informada
+ */
+export const getExamAdjustedSettings = (
+  settings: ReviewSettings = getReviewSettings(),
+  examDate?: Date,
+  now: Date = new Date()
+): ReviewSettings => {
+  return examDate ? applyExamMode(settings, differenceInCalendarDays(examDate, now)) : settings;
+};
+
 /**
  * Aplica configurações personalizadas baseadas na performance do usuário
  */
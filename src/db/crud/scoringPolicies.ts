@@ -0,0 +1,40 @@
+import { loadTypedSetting, saveTypedSetting } from './appSettings';
+import type { ScoringPolicy } from '@/types/battle';
+import { defaultScoringPolicy } from '@/utils/questionScoring';
+
+/**
+ * Política de pontuação por banca examinadora (só acertos ou certos − errados)
+ */
+
+const POLICIES_KEY = 'board_scoring_policies';
+const POLICIES_DESCRIPTION = 'Política de pontuação por banca (standard ou net)';
+
+// Chave pela banca normalizada: "Cebraspe " e "cebraspe" são a mesma banca
+const boardKey = (examiningBoard: string) => examiningBoard.trim().toLowerCase();
+
+/**
+ * Policies chosen explicitly, by normalized board name
+ */
+export const getBoardScoringPolicies = (): Record<string, ScoringPolicy> =>
+  loadTypedSetting<Record<string, ScoringPolicy>>(POLICIES_KEY, {});
+
+/**
+ * Policy lookup for many questions at once (reads the setting a single time):
+ * the saved choice for the board, else the board default
+ */
+export const createScoringPolicyResolver = () => {
+  const policies = getBoardScoringPolicies();
+  return (examiningBoard?: string): ScoringPolicy => {
+    if (!examiningBoard?.trim()) return 'standard';
+    return policies[boardKey(examiningBoard)] ?? defaultScoringPolicy(examiningBoard);
+  };
+};
+
+export const getScoringPolicy = (examiningBoard?: string): ScoringPolicy =>
+  createScoringPolicyResolver()(examiningBoard);
+
+export const saveBoardScoringPolicy = (examiningBoard: string, policy: ScoringPolicy): void => {
+  const policies = { ...getBoardScoringPolicies(), [boardKey(examiningBoard)]: policy };
+  saveTypedSetting(POLICIES_KEY, policies, 'general', POLICIES_DESCRIPTION);
+  console.log(`⚖️ Pontuação da banca ${examiningBoard}: ${policy}`);
+};
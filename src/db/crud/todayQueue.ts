@@ -0,0 +1,238 @@
+import { differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import { getDBOrThrow } from '../singleton';
+import type { Room } from '@/types/battle';
+import { getScheduler, convertReviewCard, type ReviewCard } from '@/utils/spacedRepetition';
+import { loadTypedSetting, saveTypedSetting } from './appSettings';
+import { getExamModeState } from './examMode';
+import { checkAndUnlockEnemies, getEnemyReviewCards } from './enemyReviews';
+import { getFlashcardReviewCards, getFlashcardsForReview, type FlashcardWithTopic } from './flashcards';
+import { deriveTopicRooms, getDueQuestions, getQuestionReviewCards } from './questionReviews';
+
+/**
+ * Fila "Hoje": junta flashcards vencidos e novos, inimigos desbloqueados e questões vencidas,
+ * respeita os limites diários (revisões e novos) e ordena pela urgência de cada item.
+ * As revisões já feitas hoje vêm do log de revisões; a ordem e os itens pulados ficam
+ * gravados por dia, então recarregar a página não embaralha nem reinicia a fila.
+ */
+
+export type TodayItemKind = 'flashcard' | 'question' | 'enemy';
+
+export interface TodayQueueItem {
+  key: string; // `${kind}:${id}`
+  kind: TodayItemKind;
+  id: string;  // Id do flashcard, da questão ou do tópico (inimigo)
+  topicId: string;
+  topicName: string;
+  subjectName: string;
+  label: string;
+  isNew: boolean;
+  urgency: number; // 0-1+, maior = mais urgente
+  room?: Room;
+  flashcard?: FlashcardWithTopic;
+}
+
+export interface TodayQueue {
+  date: string; // yyyy-MM-dd
+  items: TodayQueueItem[];
+  reviewLimit: number;
+  newLimit: number;
+  reviewsDone: number;
+  newDone: number;
+  deferred: number; // Itens vencidos que ficaram para amanhã por causa dos limites
+}
+
+interface TodayProgress {
+  date: string;
+  order: string[];
+  skipped: string[];
+}
+
+const PROGRESS_KEY = 'today_queue_progress';
+
+// Questões vencidas consideradas de uma vez (o limite diário corta o resto)
+const MAX_DUE_QUESTIONS = 500;
+
+const itemKey = (kind: TodayItemKind, id: string) => `${kind}:${id}`;
+
+const loadProgress = (date: string): TodayProgress => {
+  const progress = loadTypedSetting<TodayProgress | null>(PROGRESS_KEY, null);
+  return progress && progress.date === date ? progress : { date, order: [], skipped: [] };
+};
+
+const saveProgress = (progress: TodayProgress) => {
+  saveTypedSetting(PROGRESS_KEY, progress, 'general', 'Ordem e itens pulados da fila Hoje');
+};
+
+/**
+ * Reviews and new items already done today, from the review log (any screen counts).
+ * Enemy reviews are left out: their questions are already logged one by one.
+ */
+const countDoneToday = (now: Date): { reviews: number; newItems: number } => {
+  const database = getDBOrThrow();
+  const stmt = database.prepare(`
+    SELECT
+      COALESCE(SUM(CASE WHEN item_kind = 'flashcard' AND interval_before = 0 THEN 1 ELSE 0 END), 0) as new_items,
+      COALESCE(SUM(CASE WHEN item_kind = 'flashcard' AND interval_before = 0 THEN 0 ELSE 1 END), 0) as reviews
+    FROM review_logs
+    WHERE reviewed_at >= ? AND item_kind != 'enemy_topic'
+  `);
+  stmt.bind([startOfDay(now).toISOString()]);
+  const row = stmt.step() ? stmt.getAsObject() : {};
+  stmt.free();
+
+  return { reviews: (row.reviews as number) || 0, newItems: (row.new_items as number) || 0 };
+};
+
+/**
+ * Urgency of a review: chance of having forgotten it plus a bonus for overdue days
+ */
+const reviewUrgency = (card: ReviewCard | undefined, now: Date): number => {
+  if (!card) return 0;
+  const settings = getExamModeState(now).settings;
+  const scheduler = getScheduler(settings.algorithm);
+  const forgotten = 1 - scheduler.retrievability(convertReviewCard(card, settings.algorithm), now);
+  const overdueDays = Math.max(0, differenceInCalendarDays(now, card.nextReviewDate));
+  return forgotten + Math.min(overdueDays, 30) / 100;
+};
+
+const ROOM_URGENCY: Record<Room, number> = {
+  vermelha: 0.3,
+  amarela: 0.15,
+  triagem: 0.05,
+  verde: 0
+};
+
+const getUnlockedEnemies = (): { topicId: string; topicName: string; subjectName: string }[] => {
+  const database = getDBOrThrow();
+  const stmt = database.prepare(`
+    SELECT er.topic_id, t.name as topic_name, s.name as subject_name
+    FROM enemy_reviews er
+    JOIN study_topics t ON er.topic_id = t.id
+    JOIN study_subjects s ON t.subject_id = s.id
+    WHERE er.is_blocked = 0 AND (er.suspended IS NULL OR er.suspended = 0)
+  `);
+
+  const enemies: { topicId: string; topicName: string; subjectName: string }[] = [];
+  while (stmt.step()) {
+    const row = stmt.getAsObject();
+    enemies.push({
+      topicId: row.topic_id as string,
+      topicName: row.topic_name as string,
+      subjectName: row.subject_name as string
+    });
+  }
+  stmt.free();
+
+  return enemies;
+};
+
+/**
+ * Build today's queue: due items by urgency (within the review limit), then new flashcards
+ * (within the new limit). Items kept from an earlier build today stay in their position.
+ */
+export const buildTodayQueue = async (now: Date = new Date()): Promise<TodayQueue> => {
+  const date = format(now, 'yyyy-MM-dd');
+  const { settings } = getExamModeState(now);
+  const done = countDoneToday(now);
+
+  checkAndUnlockEnemies();
+
+  const flashcardCards = new Map(getFlashcardReviewCards().map(card => [card.id, card]));
+  const questionCards = new Map(getQuestionReviewCards().map(card => [card.id, card]));
+  const enemyCards = new Map(getEnemyReviewCards().map(card => [card.topicId, card]));
+  const rooms = deriveTopicRooms(now);
+
+  const reviews: TodayQueueItem[] = [];
+  const newItems: TodayQueueItem[] = [];
+
+  (await getFlashcardsForReview()).forEach(flashcard => {
+    const isNew = !flashcard.due_date;
+    const item: TodayQueueItem = {
+      key: itemKey('flashcard', flashcard.id),
+      kind: 'flashcard',
+      id: flashcard.id,
+      topicId: flashcard.topic_id,
+      topicName: flashcard.topic_name,
+      subjectName: flashcard.subject_name,
+      label: flashcard.front,
+      isNew,
+      urgency: isNew ? 0 : reviewUrgency(flashcardCards.get(flashcard.id), now),
+      flashcard
+    };
+    (isNew ? newItems : reviews).push(item);
+  });
+
+  getDueQuestions(MAX_DUE_QUESTIONS, now).forEach(question => {
+    reviews.push({
+      key: itemKey('question', question.id),
+      kind: 'question',
+      id: question.id,
+      topicId: question.topicId,
+      topicName: question.topicName,
+      subjectName: question.subjectName,
+      label: question.title,
+      isNew: false,
+      urgency: reviewUrgency(questionCards.get(question.id), now),
+      room: question.room
+    });
+  });
+
+  getUnlockedEnemies().forEach(enemy => {
+    const room = rooms.get(enemy.topicId) ?? 'triagem';
+    reviews.push({
+      key: itemKey('enemy', enemy.topicId),
+      kind: 'enemy',
+      id: enemy.topicId,
+      topicId: enemy.topicId,
+      topicName: enemy.topicName,
+      subjectName: enemy.subjectName,
+      label: enemy.topicName,
+      isNew: false,
+      urgency: reviewUrgency(enemyCards.get(enemy.topicId), now) + ROOM_URGENCY[room],
+      room
+    });
+  });
+
+  reviews.sort((a, b) => b.urgency - a.urgency);
+
+  const reviewSlots = Math.max(0, settings.dailyReviewLimit - done.reviews);
+  const newSlots = Math.max(0, settings.newCardsPerDay - done.newItems);
+  const selected = [...reviews.slice(0, reviewSlots), ...newItems.slice(0, newSlots)];
+
+  // Mantém a ordem já mostrada hoje; itens que apareceram depois entram no fim, pulados por último
+  const progress = loadProgress(date);
+  const position = new Map(progress.order.map((key, index) => [key, index]));
+  const skipped = new Set(progress.skipped);
+  const ordered = selected
+    .map((item, index) => ({ item, index: position.get(item.key) ?? progress.order.length + index }))
+    .sort((a, b) => Number(skipped.has(a.item.key)) - Number(skipped.has(b.item.key)) || a.index - b.index)
+    .map(({ item }) => item);
+
+  saveProgress({
+    date,
+    order: ordered.map(item => item.key),
+    skipped: progress.skipped.filter(key => ordered.some(item => item.key === key))
+  });
+
+  return {
+    date,
+    items: ordered,
+    reviewLimit: settings.dailyReviewLimit,
+    newLimit: settings.newCardsPerDay,
+    reviewsDone: done.reviews,
+    newDone: done.newItems,
+    deferred: reviews.length - Math.min(reviews.length, reviewSlots)
+  };
+};
+
+/**
+ * Move an item to the end of today's queue (kept across reloads)
+ */
+export const skipTodayItem = (key: string, now: Date = new Date()): void => {
+  const progress = loadProgress(format(now, 'yyyy-MM-dd'));
+  saveProgress({
+    ...progress,
+    order: [...progress.order.filter(k => k !== key), key],
+    skipped: [...progress.skipped.filter(k => k !== key), key]
+  });
+};
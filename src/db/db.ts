@@ -492,7 +492,12 @@ export const clearAllData = (): boolean => {
     
     // List of all tables to clear (in order to respect foreign key constraints)
     const tablesToClear = [
+      'review_logs',
+      'filtered_decks',
+      'mock_exam_results',
+      'mock_exam_blueprints',
       'question_attempts',
+      'question_revisions',
       'battle_sessions', 
       'enemy_reviews',
       'flashcards',
@@ -0,0 +1,50 @@
+import { getDBOrThrow } from './singleton';
+
+/**
+ * Migration for filtered decks: flashcard tags and the filtered_decks table
+ */
+export const runFilteredDeckMigration = () => {
+  const database = getDBOrThrow();
+
+  try {
+    const checkColumn = database.prepare(`
+      PRAGMA table_info(flashcards)
+    `);
+
+    let hasTags = false;
+    while (checkColumn.step()) {
+      if (checkColumn.getAsObject().name === 'tags') hasTags = true;
+    }
+    checkColumn.free();
+
+    if (!hasTags) {
+      database.run("ALTER TABLE flashcards ADD COLUMN tags TEXT DEFAULT '[]'");
+      console.log('✅ tags column added to flashcards');
+    }
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS filtered_decks (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        criteria TEXT NOT NULL DEFAULT '{}',
+        card_limit INTEGER NOT NULL DEFAULT 50,
+        order_by TEXT NOT NULL DEFAULT 'due',
+        reschedule BOOLEAN DEFAULT FALSE,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+    database.run(`
+      CREATE TRIGGER IF NOT EXISTS update_filtered_decks_updated_at
+        AFTER UPDATE ON filtered_decks
+      BEGIN
+        UPDATE filtered_decks SET updated_at = datetime('now') WHERE id = NEW.id;
+      END
+    `);
+
+    console.log('📋 filtered_decks table ready');
+  } catch (error) {
+    console.error('❌ Error running filtered deck migration:', error);
+    throw error;
+  }
+};
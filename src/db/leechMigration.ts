@@ -0,0 +1,26 @@
+import { addMissingColumns } from './migrationUtils';
+
+/**
+ * Migration for leech detection: suspension flags and the enemy lapse counter
+ */
+export const runLeechMigration = () => {
+  try {
+    // Flashcards e questões marcam sanguessugas pela tag "leech" (JSON em tags)
+    addMissingColumns('flashcards', [
+      ['suspended', 'BOOLEAN DEFAULT FALSE']
+    ]);
+    addMissingColumns('questions', [
+      ['suspended', 'BOOLEAN DEFAULT FALSE']
+    ]);
+    addMissingColumns('enemy_reviews', [
+      ['lapses', 'INTEGER DEFAULT 0'],
+      ['is_leech', 'BOOLEAN DEFAULT FALSE'],
+      ['suspended', 'BOOLEAN DEFAULT FALSE']
+    ]);
+
+    console.log('🩸 Leech columns ready');
+  } catch (error) {
+    console.error('❌ Error running leech migration:', error);
+    throw error;
+  }
+};
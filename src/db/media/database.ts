@@ -0,0 +1,33 @@
+import Dexie, { type EntityTable } from 'dexie';
+
+/**
+ * Stored media file, keyed by the SHA-256 of its bytes
+ */
+export interface MediaRecord {
+  id: string;
+  blob: Blob;
+  mimeType: string;
+  size: number;
+  width?: number;
+  height?: number;
+  createdAt: string;
+}
+
+/**
+ * StudyMediaDatabase - Dexie-based IndexedDB store for question and flashcard images
+ * Kept outside the SQLite file so media is not re-exported on every save
+ */
+export class StudyMediaDatabase extends Dexie {
+  media!: EntityTable<MediaRecord, 'id'>;
+
+  constructor() {
+    super('StudyMediaDatabase');
+
+    this.version(1).stores({
+      media: 'id, mimeType, size, createdAt'
+    });
+  }
+}
+
+// Export singleton instance
+export const studyMediaDB = new StudyMediaDatabase();
@@ -0,0 +1,277 @@
+import { getDBOrThrow } from '../singleton';
+import { studyMediaDB, type MediaRecord } from './database';
+import { COMPLETE_SNAPSHOTS_KEY } from '@/utils/storageKeys';
+
+/**
+ * Media store: imagens de questões e flashcards ficam no IndexedDB (fora do arquivo SQLite),
+ * identificadas pelo hash SHA-256 do conteúdo. As tabelas guardam apenas referências "media:<hash>",
+ * então o mesmo arquivo enviado duas vezes é gravado uma única vez.
+ * Data URLs antigos e URLs externos continuam funcionando como fonte de imagem.
+ */
+
+export const MEDIA_REF_PREFIX = 'media:';
+
+// Maior lado da imagem depois do redimensionamento
+export const MAX_IMAGE_DIMENSION = 1600;
+const DOWNSCALE_QUALITY = 0.85;
+
+// Mídias recém-enviadas ainda podem estar num formulário não salvo
+const MEDIA_GC_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// Tabelas com coluna images (JSON array de fontes de imagem)
+const MEDIA_TABLES = ['questions', 'flashcards'] as const;
+
+// Refs dentro do JSON dos snapshots (as imagens podem estar em JSON aninhado, com aspas escapadas)
+const SNAPSHOT_MEDIA_REF_PATTERN = new RegExp(`${MEDIA_REF_PREFIX}([0-9a-f]{64})`, 'g');
+
+export interface MediaStats {
+  count: number;
+  totalSize: number;
+}
+
+export interface MediaFile {
+  id: string;
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+const objectUrlCache = new Map<string, string>();
+
+export const isMediaRef = (src: string): boolean => src.startsWith(MEDIA_REF_PREFIX);
+
+export const toMediaRef = (id: string): string => `${MEDIA_REF_PREFIX}${id}`;
+
+export const getMediaId = (ref: string): string => ref.slice(MEDIA_REF_PREFIX.length);
+
+const hashBytes = async (bytes: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Downscale an image so its longest side fits maxDimension.
+ * SVGs and GIFs (vector/animated) and images that can't be decoded are kept as they are.
+ */
+export const downscaleImage = async (
+  blob: Blob,
+  maxDimension = MAX_IMAGE_DIMENSION
+): Promise<{ blob: Blob; width?: number; height?: number }> => {
+  if (!blob.type.startsWith('image/') || blob.type === 'image/svg+xml' || blob.type === 'image/gif') {
+    return { blob };
+  }
+
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+
+    if (scale === 1) {
+      const { width, height } = bitmap;
+      bitmap.close();
+      return { blob, width, height };
+    }
+
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    // PNG mantém transparência; o resto vira JPEG
+    const type = blob.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    const output = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, DOWNSCALE_QUALITY));
+
+    return output ? { blob: output, width, height } : { blob };
+  } catch (error) {
+    console.warn('⚠️ Could not downscale image, storing original:', error);
+    return { blob };
+  }
+};
+
+/**
+ * Store an image blob (downscaled by default) and return its media reference.
+ * Identical content is stored only once.
+ */
+export const storeMedia = async (blob: Blob, options: { downscale?: boolean } = {}): Promise<string> => {
+  const { downscale = true } = options;
+  const processed = downscale ? await downscaleImage(blob) : { blob };
+  const id = await hashBytes(await processed.blob.arrayBuffer());
+
+  const existing = await studyMediaDB.media.get(id);
+  if (!existing) {
+    await studyMediaDB.media.put({
+      id,
+      blob: processed.blob,
+      mimeType: processed.blob.type || 'application/octet-stream',
+      size: processed.blob.size,
+      width: processed.width,
+      height: processed.height,
+      createdAt: new Date().toISOString()
+    });
+  }
+
+  return toMediaRef(id);
+};
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Move inline data URLs into the media store; media refs and remote URLs are kept as they are
+ */
+export const storeImageSources = async (sources: string[]): Promise<string[]> => {
+  const refs: string[] = [];
+  for (const src of sources) {
+    refs.push(src.startsWith('data:') ? await storeMedia(await dataUrlToBlob(src)) : src);
+  }
+  return refs;
+};
+
+/**
+ * Resolve an image source to something an <img> can display (object URL for media refs)
+ */
+export const getMediaUrl = async (src: string): Promise<string | null> => {
+  if (!isMediaRef(src)) return src;
+
+  const id = getMediaId(src);
+  const cached = objectUrlCache.get(id);
+  if (cached) return cached;
+
+  const record = await studyMediaDB.media.get(id);
+  if (!record) return null;
+
+  const url = URL.createObjectURL(record.blob);
+  objectUrlCache.set(id, url);
+  return url;
+};
+
+/**
+ * Replace media refs by data URLs, for files that leave the app (question exports)
+ */
+export const inlineMediaRefs = async (sources: string[]): Promise<string[]> => {
+  const inlined: string[] = [];
+  for (const src of sources) {
+    if (!isMediaRef(src)) {
+      inlined.push(src);
+      continue;
+    }
+    const record = await studyMediaDB.media.get(getMediaId(src));
+    // Mídia ausente não tem como ser exportada
+    if (record) inlined.push(await blobToDataUrl(record.blob));
+  }
+  return inlined;
+};
+
+/**
+ * Ids of every media referenced by questions and flashcards, including the copies kept
+ * in saved complete snapshots (restoring one must not bring back broken images)
+ */
+export const getReferencedMediaIds = (): Set<string> => {
+  const database = getDBOrThrow();
+  const ids = new Set<string>();
+
+  for (const table of MEDIA_TABLES) {
+    const stmt = database.prepare(`SELECT images FROM ${table} WHERE images LIKE ?`);
+    stmt.bind([`%"${MEDIA_REF_PREFIX}%`]);
+    while (stmt.step()) {
+      try {
+        const images: string[] = JSON.parse((stmt.getAsObject().images as string) || '[]');
+        images.filter(isMediaRef).forEach(ref => ids.add(getMediaId(ref)));
+      } catch {
+        // JSON inválido: nada referenciado
+      }
+    }
+    stmt.free();
+  }
+
+  try {
+    const snapshots = localStorage.getItem(COMPLETE_SNAPSHOTS_KEY) || '';
+    for (const match of snapshots.matchAll(SNAPSHOT_MEDIA_REF_PATTERN)) {
+      ids.add(match[1]);
+    }
+  } catch {
+    // localStorage indisponível: só as referências do banco contam
+  }
+
+  return ids;
+};
+
+/**
+ * Delete media no longer referenced by any question, flashcard or saved snapshot; returns how many were removed
+ */
+export const collectMediaGarbage = async (minAgeMs = MEDIA_GC_GRACE_MS): Promise<number> => {
+  try {
+    const referenced = getReferencedMediaIds();
+    const cutoff = new Date(Date.now() - minAgeMs).toISOString();
+
+    const orphanIds = (await studyMediaDB.media.where('createdAt').below(cutoff).primaryKeys())
+      .filter(id => !referenced.has(id));
+
+    if (orphanIds.length > 0) {
+      await studyMediaDB.media.bulkDelete(orphanIds);
+      orphanIds.forEach(id => {
+        const url = objectUrlCache.get(id);
+        if (url) URL.revokeObjectURL(url);
+        objectUrlCache.delete(id);
+      });
+      console.log(`🧹 Removed ${orphanIds.length} unreferenced media files`);
+    }
+
+    return orphanIds.length;
+  } catch (error) {
+    console.error('❌ Error collecting media garbage:', error);
+    return 0;
+  }
+};
+
+/**
+ * Count and total size of the stored media
+ */
+export const getMediaStats = async (): Promise<MediaStats> => {
+  let totalSize = 0;
+  await studyMediaDB.media.each(record => {
+    totalSize += record.size;
+  });
+  return { count: await studyMediaDB.media.count(), totalSize };
+};
+
+/**
+ * Read every stored media file (for backup archives)
+ */
+export const exportMediaFiles = async (): Promise<MediaFile[]> => {
+  const records: MediaRecord[] = await studyMediaDB.media.toArray();
+  const files: MediaFile[] = [];
+  for (const record of records) {
+    files.push({
+      id: record.id,
+      mimeType: record.mimeType,
+      bytes: new Uint8Array(await record.blob.arrayBuffer())
+    });
+  }
+  return files;
+};
+
+/**
+ * Write media files restored from a backup archive, keeping their ids
+ */
+export const importMediaFiles = async (files: MediaFile[]): Promise<number> => {
+  const now = new Date().toISOString();
+  await studyMediaDB.media.bulkPut(files.map(file => ({
+    id: file.id,
+    blob: new Blob([file.bytes], { type: file.mimeType }),
+    mimeType: file.mimeType,
+    size: file.bytes.length,
+    createdAt: now
+  })));
+  return files.length;
+};
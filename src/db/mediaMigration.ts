@@ -0,0 +1,55 @@
+import { getDBOrThrow, getScheduleSave } from './singleton';
+import { storeImageSources } from './media/mediaStore';
+
+/**
+ * Migration to the IndexedDB media store: adds flashcards.images and moves the
+ * inline data URLs kept in questions.images into the store, leaving media refs behind
+ */
+export const runMediaMigration = async () => {
+  const database = getDBOrThrow();
+  const scheduleSave = getScheduleSave();
+
+  try {
+    const checkColumn = database.prepare(`
+      PRAGMA table_info(flashcards)
+    `);
+
+    const columns: unknown[] = [];
+    while (checkColumn.step()) {
+      columns.push(checkColumn.getAsObject().name);
+    }
+    checkColumn.free();
+
+    if (!columns.includes('images')) {
+      database.run(`ALTER TABLE flashcards ADD COLUMN images TEXT DEFAULT '[]'`);
+      console.log('✅ Images column added to flashcards table');
+    }
+
+    const stmt = database.prepare(`SELECT id, images FROM questions WHERE images LIKE '%"data:%'`);
+    const inlineRows: { id: string; images: string[] }[] = [];
+    while (stmt.step()) {
+      const row = stmt.getAsObject();
+      try {
+        inlineRows.push({ id: row.id as string, images: JSON.parse(row.images as string) });
+      } catch {
+        // JSON inválido: deixa a linha como está
+      }
+    }
+    stmt.free();
+
+    for (const row of inlineRows) {
+      const refs = await storeImageSources(row.images);
+      database.run('UPDATE questions SET images = ? WHERE id = ?', [JSON.stringify(refs), row.id]);
+    }
+
+    if (inlineRows.length > 0) {
+      scheduleSave();
+      console.log(`✅ Moved images of ${inlineRows.length} questions to the media store`);
+    } else {
+      console.log('📋 No inline question images to migrate');
+    }
+  } catch (error) {
+    console.error('❌ Error running media migration:', error);
+    throw error;
+  }
+};
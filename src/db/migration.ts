@@ -2,6 +2,21 @@ import { dbReady } from './singleton';
 import { saveStudyPlan, saveStudySession, saveDailyLogs, saveNamedStudyPlan } from './db';
 import { StudyPlan, StudySession } from '@/types/study';
 import { runImagesMigration } from './imagesMigration';
+import { runSchedulerMigration } from './schedulerMigration';
+import { runReviewLogMigration } from './reviewLogMigration';
+import { runClozeMigration } from './clozeMigration';
+import { runFilteredDeckMigration } from './filteredDeckMigration';
+import { runLeechMigration } from './leechMigration';
+import { runQuestionFlashcardMigration } from './questionFlashcardMigration';
+import { runMediaMigration } from './mediaMigration';
+import { runQuestionReviewMigration } from './questionReviewMigration';
+import { runQuestionNotesMigration } from './questionNotesMigration';
+import { runQuestionSearchMigration } from './questionSearchMigration';
+import { runQuestionRevisionMigration } from './questionRevisionMigration';
+import { runTrueFalseMigration } from './trueFalseMigration';
+import { runQuestionGradingMigration } from './questionGradingMigration';
+import { runMockExamMigration } from './mockExamMigration';
+import { collectMediaGarbage } from './media/mediaStore';
 
 const STORAGE_KEYS = {
   STUDY_PLAN: 'lovable_study_plan',
@@ -31,6 +46,49 @@ export const migrateFromLocalStorage = async (): Promise<boolean> => {
     // Run images migration for questions table
     runImagesMigration();
 
+    // Add SM-2 / FSRS scheduler state to enemy reviews and flashcards
+    runSchedulerMigration();
+
+    // Create the append-only review log
+    runReviewLogMigration();
+
+    // Cloze flashcards (sibling cards and burying)
+    runClozeMigration();
+
+    // Flashcard tags and saved filtered decks
+    runFilteredDeckMigration();
+
+    // Leech detection (suspension flags and enemy lapses)
+    runLeechMigration();
+
+    // Flashcards generated from wrongly answered questions
+    runQuestionFlashcardMigration();
+
+    // Spaced repetition state per question (seeded from the attempt history)
+    runQuestionReviewMigration();
+
+    // Personal notes and highlighted passages on questions (indexed by the full-text search)
+    runQuestionNotesMigration();
+
+    // Full-text index over questions (rebuilt when out of sync)
+    runQuestionSearchMigration();
+
+    // Question edits keep a revision history; attempts remember the revision answered
+    runQuestionRevisionMigration();
+
+    // Certo/errado questions become a question type of their own
+    runTrueFalseMigration();
+
+    // Discursive (rubric) and short-answer questions with partial scores
+    runQuestionGradingMigration();
+
+    // Mock exam blueprints and their results
+    runMockExamMigration();
+
+    // Images move out of the SQLite file into the IndexedDB media store
+    await runMediaMigration();
+    await collectMediaGarbage();
+
     // Check if migration has already been done
     if (localStorage.getItem('lovable_migration_completed')) {
       console.log('Migration already completed');
@@ -0,0 +1,30 @@
+import { getDBOrThrow } from './singleton';
+
+export type ColumnDefinition = [string, string];
+
+/**
+ * Add the given columns to a table when they are missing
+ */
+export const addMissingColumns = (table: string, definitions: ColumnDefinition[]) => {
+  const database = getDBOrThrow();
+
+  const checkColumn = database.prepare(`
+    PRAGMA table_info(${table})
+  `);
+
+  const columns = [];
+  while (checkColumn.step()) {
+    columns.push(checkColumn.getAsObject().name);
+  }
+  checkColumn.free();
+
+  const missingColumns = definitions.filter(([name]) => !columns.includes(name));
+
+  missingColumns.forEach(([name, definition]) => {
+    database.run(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+  });
+
+  if (missingColumns.length > 0) {
+    console.log(`✅ Columns added to ${table}: ${missingColumns.map(([name]) => name).join(', ')}`);
+  }
+};
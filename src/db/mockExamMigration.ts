@@ -0,0 +1,64 @@
+import { getDBOrThrow } from './singleton';
+
+/**
+ * Migration for mock exams: the mock_exam_blueprints and mock_exam_results tables
+ */
+export const runMockExamMigration = () => {
+  const database = getDBOrThrow();
+
+  try {
+    database.run(`
+      CREATE TABLE IF NOT EXISTS mock_exam_blueprints (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        sections TEXT NOT NULL DEFAULT '[]',
+        examining_board TEXT,
+        year_from INTEGER,
+        year_to INTEGER,
+        difficulty_mix TEXT,
+        time_limit_minutes INTEGER NOT NULL DEFAULT 60,
+        scoring TEXT CHECK (scoring IN ('board', 'standard', 'net')) DEFAULT 'board',
+        cutoff_score REAL NOT NULL DEFAULT 60,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+    database.run(`
+      CREATE TABLE IF NOT EXISTS mock_exam_results (
+        id TEXT PRIMARY KEY,
+        blueprint_id TEXT,
+        blueprint_name TEXT NOT NULL,
+        scoring TEXT NOT NULL,
+        cutoff_score REAL NOT NULL,
+        time_limit_minutes INTEGER NOT NULL,
+        time_spent INTEGER NOT NULL,
+        question_count INTEGER NOT NULL,
+        correct INTEGER NOT NULL DEFAULT 0,
+        wrong INTEGER NOT NULL DEFAULT 0,
+        blank INTEGER NOT NULL DEFAULT 0,
+        score REAL NOT NULL DEFAULT 0,
+        score_percent REAL NOT NULL DEFAULT 0,
+        passed BOOLEAN DEFAULT FALSE,
+        answers TEXT NOT NULL DEFAULT '[]',
+        started_at TEXT NOT NULL,
+        finished_at TEXT NOT NULL,
+        FOREIGN KEY (blueprint_id) REFERENCES mock_exam_blueprints(id) ON DELETE SET NULL
+      )
+    `);
+    database.run(`
+      CREATE INDEX IF NOT EXISTS idx_mock_exam_results_blueprint_id ON mock_exam_results(blueprint_id, finished_at)
+    `);
+    database.run(`
+      CREATE TRIGGER IF NOT EXISTS update_mock_exam_blueprints_updated_at
+        AFTER UPDATE ON mock_exam_blueprints
+      BEGIN
+        UPDATE mock_exam_blueprints SET updated_at = datetime('now') WHERE id = NEW.id;
+      END
+    `);
+
+    console.log('📝 mock exam tables ready');
+  } catch (error) {
+    console.error('❌ Error running mock exam migration:', error);
+    throw error;
+  }
+};
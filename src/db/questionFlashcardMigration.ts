@@ -0,0 +1,35 @@
+import { getDBOrThrow } from './singleton';
+
+/**
+ * Migration linking flashcards generated from wrong answers back to their source question
+ */
+export const runQuestionFlashcardMigration = () => {
+  const database = getDBOrThrow();
+
+  try {
+    const checkColumn = database.prepare(`
+      PRAGMA table_info(flashcards)
+    `);
+
+    const columns: unknown[] = [];
+    while (checkColumn.step()) {
+      columns.push(checkColumn.getAsObject().name);
+    }
+    checkColumn.free();
+
+    if (!columns.includes('source_question_id')) {
+      database.run('ALTER TABLE flashcards ADD COLUMN source_question_id TEXT');
+      console.log('✅ source_question_id column added to flashcards');
+    }
+    if (!columns.includes('source_fingerprint')) {
+      database.run('ALTER TABLE flashcards ADD COLUMN source_fingerprint TEXT');
+      console.log('✅ source_fingerprint column added to flashcards');
+    }
+
+    database.run('CREATE INDEX IF NOT EXISTS idx_flashcards_source_question_id ON flashcards(source_question_id)');
+    console.log('📋 Question flashcard columns ready');
+  } catch (error) {
+    console.error('❌ Error running question flashcard migration:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,72 @@
+import { getDBOrThrow } from './singleton';
+import { addMissingColumns } from './migrationUtils';
+
+// Mesma definição do schema.sql: a acurácia é a média das notas parciais, sem as respostas em branco
+const ACCURACY_TRIGGER = `
+  CREATE TRIGGER update_question_accuracy_after_attempt
+      AFTER INSERT ON question_attempts
+      WHEN NEW.answer <> ''
+  BEGIN
+      UPDATE questions
+      SET
+          times_answered = times_answered + 1,
+          times_correct = times_correct + CASE WHEN NEW.is_correct THEN 1 ELSE 0 END,
+          accuracy_rate = (
+              SELECT AVG(COALESCE(score, is_correct)) * 100.0 FROM question_attempts WHERE question_id = NEW.question_id AND answer <> ''
+          ),
+          room = CASE
+              WHEN (SELECT AVG(COALESCE(score, is_correct)) * 100.0 FROM question_attempts WHERE question_id = NEW.question_id AND answer <> '') < 70 THEN 'vermelha'
+              WHEN (SELECT AVG(COALESCE(score, is_correct)) * 100.0 FROM question_attempts WHERE question_id = NEW.question_id AND answer <> '') <= 85 THEN 'amarela'
+              ELSE 'verde'
+          END
+      WHERE id = NEW.question_id;
+  END
+`;
+
+/**
+ * Migration for discursive and short-answer questions: rubric and numeric tolerance on
+ * questions, partial score and rubric grades on attempts, and an accuracy trigger that
+ * averages partial scores and skips blank answers. Existing attempts keep score NULL and count by is_correct.
+ */
+export const runQuestionGradingMigration = () => {
+  const database = getDBOrThrow();
+
+  try {
+    addMissingColumns('questions', [
+      ['rubric', 'TEXT'],
+      ['answer_tolerance', 'REAL']
+    ]);
+    addMissingColumns('question_attempts', [
+      ['score', 'REAL'],
+      ['rubric_grades', 'TEXT']
+    ]);
+
+    const triggerStmt = database.prepare(`
+      SELECT sql FROM sqlite_master WHERE type = 'trigger' AND name = 'update_question_accuracy_after_attempt'
+    `);
+    const triggerSql = triggerStmt.step() ? (triggerStmt.getAsObject().sql as string) : '';
+    triggerStmt.free();
+
+    if (!triggerSql.includes("NEW.answer <> ''")) {
+      database.run('DROP TRIGGER IF EXISTS update_question_accuracy_after_attempt');
+      database.run(ACCURACY_TRIGGER);
+      console.log('✅ Question accuracy trigger now averages partial scores and skips blank answers');
+
+      // Blank answers already counted by the previous trigger leave the counters
+      database.run(`
+        UPDATE questions SET
+          times_answered = (SELECT COUNT(*) FROM question_attempts WHERE question_id = questions.id AND answer <> ''),
+          times_correct = (SELECT COUNT(*) FROM question_attempts WHERE question_id = questions.id AND answer <> '' AND is_correct = 1),
+          accuracy_rate = COALESCE(
+            (SELECT AVG(COALESCE(score, is_correct)) * 100.0 FROM question_attempts WHERE question_id = questions.id AND answer <> ''), 0
+          )
+        WHERE id IN (SELECT question_id FROM question_attempts WHERE answer = '')
+      `);
+    }
+
+    console.log('📝 Discursive and short-answer grading ready');
+  } catch (error) {
+    console.error('❌ Error running question grading migration:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,36 @@
+import { getDBOrThrow } from './singleton';
+
+/**
+ * Migration for personal annotations on questions: a Markdown note and the passages
+ * of the statement highlighted by the user (JSON array of strings)
+ */
+export const runQuestionNotesMigration = () => {
+  const database = getDBOrThrow();
+
+  try {
+    const checkColumn = database.prepare(`
+      PRAGMA table_info(questions)
+    `);
+
+    const columns = [];
+    while (checkColumn.step()) {
+      columns.push(checkColumn.getAsObject().name);
+    }
+    checkColumn.free();
+
+    if (!columns.includes('notes')) {
+      database.run(`ALTER TABLE questions ADD COLUMN notes TEXT`);
+      console.log('✅ notes column added to questions');
+    }
+
+    if (!columns.includes('highlights')) {
+      database.run(`ALTER TABLE questions ADD COLUMN highlights TEXT DEFAULT '[]'`);
+      console.log('✅ highlights column added to questions');
+    }
+
+    console.log('🗒️ Question notes ready');
+  } catch (error) {
+    console.error('❌ Error running question notes migration:', error);
+    throw error;
+  }
+};
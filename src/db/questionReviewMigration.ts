@@ -0,0 +1,108 @@
+import { addDays } from 'date-fns';
+import { getDBOrThrow } from './singleton';
+
+type ColumnDefinition = [string, string];
+
+// Mesma escada do SM-2: 1 dia, 6 dias e depois x2.5 a cada acerto seguido
+const seedInterval = (streak: number): number => {
+  if (streak <= 0) return 0;
+  if (streak === 1) return 1;
+  return Math.min(365, Math.round(6 * Math.pow(2.5, streak - 2)));
+};
+
+// created_at vem de datetime('now') (UTC sem fuso)
+const parseSqliteDate = (value: string): Date => new Date(`${value.replace(' ', 'T')}Z`);
+
+/**
+ * Seed the review state of already answered questions from their attempt history:
+ * the trailing run of correct answers sets the interval, a wrong last answer makes it due now
+ */
+const seedQuestionReviewState = () => {
+  const database = getDBOrThrow();
+
+  const stmt = database.prepare(`
+    SELECT qa.question_id, qa.is_correct, qa.created_at
+    FROM question_attempts qa
+    JOIN questions q ON q.id = qa.question_id
+    WHERE q.due_date IS NULL AND qa.answer <> ''
+    ORDER BY qa.question_id, qa.created_at
+  `);
+
+  const history = new Map<string, { streak: number; lastAttempt: string }>();
+  while (stmt.step()) {
+    const row = stmt.getAsObject();
+    const questionId = row.question_id as string;
+    const previous = history.get(questionId);
+    history.set(questionId, {
+      streak: row.is_correct ? (previous?.streak ?? 0) + 1 : 0,
+      lastAttempt: row.created_at as string
+    });
+  }
+  stmt.free();
+
+  const updateStmt = database.prepare(`
+    UPDATE questions
+    SET due_date = ?, last_reviewed = ?, interval_days = ?, repetitions = ?
+    WHERE id = ?
+  `);
+  history.forEach(({ streak, lastAttempt }, questionId) => {
+    const interval = seedInterval(streak);
+    updateStmt.run([
+      addDays(parseSqliteDate(lastAttempt), interval).toISOString(),
+      lastAttempt,
+      interval,
+      streak,
+      questionId
+    ]);
+  });
+  updateStmt.free();
+
+  if (history.size > 0) {
+    console.log(`✅ Review state seeded for ${history.size} answered questions`);
+  }
+};
+
+/**
+ * Migration giving every answered question its own spaced repetition state
+ */
+export const runQuestionReviewMigration = () => {
+  const database = getDBOrThrow();
+
+  try {
+    const checkColumn = database.prepare(`
+      PRAGMA table_info(questions)
+    `);
+
+    const columns: unknown[] = [];
+    while (checkColumn.step()) {
+      columns.push(checkColumn.getAsObject().name);
+    }
+    checkColumn.free();
+
+    const definitions: ColumnDefinition[] = [
+      ['due_date', 'TEXT'],
+      ['last_reviewed', 'TEXT'],
+      ['ease_factor', 'REAL DEFAULT 2.5'],
+      ['interval_days', 'INTEGER DEFAULT 0'],
+      ['repetitions', 'INTEGER DEFAULT 0'],
+      ['stability', 'REAL'],
+      ['fsrs_difficulty', 'REAL'],
+      ['algorithm', "TEXT DEFAULT 'sm2'"]
+    ];
+    const missingColumns = definitions.filter(([name]) => !columns.includes(name));
+
+    missingColumns.forEach(([name, definition]) => {
+      database.run(`ALTER TABLE questions ADD COLUMN ${name} ${definition}`);
+    });
+    if (missingColumns.length > 0) {
+      console.log(`✅ Review columns added to questions: ${missingColumns.map(([name]) => name).join(', ')}`);
+    }
+
+    database.run('CREATE INDEX IF NOT EXISTS idx_questions_due_date ON questions(due_date)');
+    seedQuestionReviewState();
+    console.log('📋 Question review state ready');
+  } catch (error) {
+    console.error('❌ Error running question review migration:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,37 @@
+import { getDBOrThrow } from './singleton';
+import { addMissingColumns } from './migrationUtils';
+
+/**
+ * Migration for question editing: revision counter on questions, the revision each attempt
+ * answered and the question_revisions history table. Existing data is revision 1.
+ */
+export const runQuestionRevisionMigration = () => {
+  const database = getDBOrThrow();
+
+  try {
+    addMissingColumns('questions', [
+      ['revision', 'INTEGER DEFAULT 1']
+    ]);
+    addMissingColumns('question_attempts', [
+      ['question_revision', 'INTEGER DEFAULT 1']
+    ]);
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS question_revisions (
+        id TEXT PRIMARY KEY,
+        question_id TEXT NOT NULL,
+        revision INTEGER NOT NULL,
+        changes TEXT NOT NULL,
+        regraded_attempts INTEGER DEFAULT 0,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        FOREIGN KEY (question_id) REFERENCES questions(id) ON DELETE CASCADE
+      )
+    `);
+    database.run('CREATE INDEX IF NOT EXISTS idx_question_revisions_question_id ON question_revisions(question_id, revision)');
+
+    console.log('📝 Question revision tracking ready');
+  } catch (error) {
+    console.error('❌ Error running question revision migration:', error);
+    throw error;
+  }
+};
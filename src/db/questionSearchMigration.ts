@@ -0,0 +1,106 @@
+import { getDBOrThrow } from './singleton';
+
+// Texto das alternativas (JSON) concatenado para o índice
+const optionsText = (column: string) => `
+  (SELECT group_concat(json_extract(value, '$.content'), ' ')
+   FROM json_each(CASE WHEN json_valid(${column}) THEN ${column} ELSE '[]' END))
+`;
+
+const FTS_TRIGGERS = ['questions_fts_after_insert', 'questions_fts_after_update', 'questions_fts_after_delete'];
+
+/**
+ * Migration to create the questions_fts full-text index, the triggers that keep it in sync
+ * and to rebuild it whenever it no longer matches the questions table (or predates the notes column)
+ */
+export const runQuestionSearchMigration = () => {
+  const database = getDBOrThrow();
+
+  try {
+    const checkTable = database.prepare(`
+      SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'questions_fts'
+    `);
+    let exists = checkTable.step();
+    checkTable.free();
+
+    if (exists) {
+      const checkColumns = database.prepare('PRAGMA table_info(questions_fts)');
+      const columns = [];
+      while (checkColumns.step()) {
+        columns.push(checkColumns.getAsObject().name);
+      }
+      checkColumns.free();
+
+      // Índice de antes das anotações: a tabela virtual não ganha colunas, é recriada
+      if (!columns.includes('notes')) {
+        FTS_TRIGGERS.forEach(trigger => database.run(`DROP TRIGGER IF EXISTS ${trigger}`));
+        database.run('DROP TABLE questions_fts');
+        exists = false;
+        console.log('🔄 questions_fts recreated to index question notes');
+      }
+    }
+
+    if (!exists) {
+      database.run(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS questions_fts USING fts4(
+          title, content, options, explanation, notes,
+          tokenize=unicode61 "remove_diacritics=1"
+        )
+      `);
+      database.run(`
+        CREATE TRIGGER IF NOT EXISTS questions_fts_after_insert
+          AFTER INSERT ON questions
+        BEGIN
+          INSERT INTO questions_fts (docid, title, content, options, explanation, notes)
+          VALUES (
+            NEW.rowid, NEW.title, NEW.content, ${optionsText('NEW.options')},
+            COALESCE(NEW.explanation, ''), COALESCE(NEW.notes, '')
+          );
+        END
+      `);
+      database.run(`
+        CREATE TRIGGER IF NOT EXISTS questions_fts_after_update
+          AFTER UPDATE OF title, content, options, explanation, notes ON questions
+        BEGIN
+          DELETE FROM questions_fts WHERE docid = OLD.rowid;
+          INSERT INTO questions_fts (docid, title, content, options, explanation, notes)
+          VALUES (
+            NEW.rowid, NEW.title, NEW.content, ${optionsText('NEW.options')},
+            COALESCE(NEW.explanation, ''), COALESCE(NEW.notes, '')
+          );
+        END
+      `);
+      database.run(`
+        CREATE TRIGGER IF NOT EXISTS questions_fts_after_delete
+          AFTER DELETE ON questions
+        BEGIN
+          DELETE FROM questions_fts WHERE docid = OLD.rowid;
+        END
+      `);
+      console.log('✅ questions_fts index created');
+    }
+
+    // Questões de antes do índice (ou de um banco importado) ficam de fora até reconstruir
+    const countStmt = database.prepare(`
+      SELECT (SELECT COUNT(*) FROM questions) as questions, (SELECT COUNT(*) FROM questions_fts) as indexed
+    `);
+    countStmt.step();
+    const counts = countStmt.getAsObject();
+    countStmt.free();
+
+    if (counts.questions === counts.indexed) {
+      console.log('📋 questions_fts index up to date');
+      return;
+    }
+
+    database.run('DELETE FROM questions_fts');
+    database.run(`
+      INSERT INTO questions_fts (docid, title, content, options, explanation, notes)
+      SELECT rowid, title, content, ${optionsText('options')}, COALESCE(explanation, ''), COALESCE(notes, '')
+      FROM questions
+    `);
+    console.log(`🔎 questions_fts rebuilt with ${counts.questions} questions`);
+  } catch (error) {
+    console.error('❌ Error running question search migration:', error);
+    throw error;
+  }
+};
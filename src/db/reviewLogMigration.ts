@@ -0,0 +1,44 @@
+import { getDBOrThrow } from './singleton';
+
+/**
+ * Migration to create the append-only review_logs table
+ */
+export const runReviewLogMigration = () => {
+  const database = getDBOrThrow();
+
+  try {
+    const checkTable = database.prepare(`
+      SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'review_logs'
+    `);
+    const exists = checkTable.step();
+    checkTable.free();
+
+    if (exists) {
+      console.log('📋 review_logs table already exists');
+      return;
+    }
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS review_logs (
+        id TEXT PRIMARY KEY,
+        item_id TEXT NOT NULL,
+        item_kind TEXT CHECK (item_kind IN ('flashcard', 'enemy_topic', 'question')) NOT NULL,
+        topic_id TEXT,
+        reviewed_at TEXT NOT NULL,
+        rating INTEGER NOT NULL,
+        response_time INTEGER,
+        interval_before INTEGER DEFAULT 0,
+        interval_after INTEGER DEFAULT 0,
+        algorithm TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+    database.run('CREATE INDEX IF NOT EXISTS idx_review_logs_item ON review_logs(item_kind, item_id)');
+    database.run('CREATE INDEX IF NOT EXISTS idx_review_logs_reviewed_at ON review_logs(reviewed_at)');
+
+    console.log('✅ review_logs table created');
+  } catch (error) {
+    console.error('❌ Error running review log migration:', error);
+    throw error;
+  }
+};
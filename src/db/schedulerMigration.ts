@@ -0,0 +1,35 @@
+import { getDBOrThrow } from './singleton';
+import { addMissingColumns } from './migrationUtils';
+
+/**
+ * Migration to add scheduler state columns (SM-2 / FSRS) to enemy_reviews and flashcards
+ */
+export const runSchedulerMigration = () => {
+  const database = getDBOrThrow();
+
+  try {
+    addMissingColumns('enemy_reviews', [
+      ['interval_days', 'INTEGER DEFAULT 0'],
+      ['stability', 'REAL'],
+      ['difficulty', 'REAL'],
+      ['algorithm', "TEXT DEFAULT 'sm2'"]
+    ]);
+
+    // flashcards.difficulty already holds the user-facing label, so FSRS difficulty gets its own column
+    addMissingColumns('flashcards', [
+      ['due_date', 'TEXT'],
+      ['ease_factor', 'REAL DEFAULT 2.5'],
+      ['interval_days', 'INTEGER DEFAULT 0'],
+      ['repetitions', 'INTEGER DEFAULT 0'],
+      ['lapses', 'INTEGER DEFAULT 0'],
+      ['stability', 'REAL'],
+      ['fsrs_difficulty', 'REAL'],
+      ['algorithm', "TEXT DEFAULT 'sm2'"]
+    ]);
+
+    database.run('CREATE INDEX IF NOT EXISTS idx_flashcards_due_date ON flashcards(due_date)');
+  } catch (error) {
+    console.error('❌ Error running scheduler migration:', error);
+    throw error;
+  }
+};
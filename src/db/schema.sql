@@ -208,19 +208,91 @@ CREATE TABLE IF NOT EXISTS flashcards (
     topic_id TEXT NOT NULL,
     front TEXT NOT NULL,
     back TEXT NOT NULL,
-    type TEXT CHECK (type IN ('concept', 'definition', 'formula', 'custom')) DEFAULT 'concept',
+    type TEXT CHECK (type IN ('concept', 'definition', 'formula', 'custom', 'cloze')) DEFAULT 'concept',
     difficulty TEXT CHECK (difficulty IN ('easy', 'medium', 'hard')) DEFAULT 'medium',
     times_reviewed INTEGER DEFAULT 0,
     last_reviewed TEXT,
+    -- Scheduler state (SM-2 / FSRS)
+    due_date TEXT,
+    ease_factor REAL DEFAULT 2.5,
+    interval_days INTEGER DEFAULT 0,
+    repetitions INTEGER DEFAULT 0,
+    lapses INTEGER DEFAULT 0,
+    stability REAL,
+    fsrs_difficulty REAL,
+    algorithm TEXT CHECK (algorithm IN ('sm2', 'fsrs')) DEFAULT 'sm2',
+    -- Cloze notes: one card per cloze number, siblings share note_id
+    note_id TEXT,
+    cloze_index INTEGER,
+    buried_until TEXT,
+    tags TEXT DEFAULT '[]', -- JSON array
+    suspended BOOLEAN DEFAULT FALSE, -- Fora das filas (sanguessuga suspensa)
+    -- Cards gerados a partir de questões erradas
+    source_question_id TEXT,
+    source_fingerprint TEXT, -- Impressão digital da questão quando o card foi gerado
+    images TEXT DEFAULT '[]', -- JSON array of media refs (media:<sha256>)
     created_at TEXT NOT NULL DEFAULT (datetime('now')),
     updated_at TEXT NOT NULL DEFAULT (datetime('now')),
     FOREIGN KEY (topic_id) REFERENCES study_topics(id) ON DELETE CASCADE
 );
 
+-- Filtered decks (saved flashcard queries)
+CREATE TABLE IF NOT EXISTS filtered_decks (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    criteria TEXT NOT NULL DEFAULT '{}', -- JSON FilteredDeckCriteria
+    card_limit INTEGER NOT NULL DEFAULT 50,
+    order_by TEXT NOT NULL DEFAULT 'due',
+    reschedule BOOLEAN DEFAULT FALSE,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Mock Exam Blueprints Table (simulados: quantas questões de cada matéria/tópico e com quais filtros)
+CREATE TABLE IF NOT EXISTS mock_exam_blueprints (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    sections TEXT NOT NULL DEFAULT '[]', -- JSON array of { subjectId, topicId?, questionCount }
+    examining_board TEXT,
+    year_from INTEGER,
+    year_to INTEGER,
+    difficulty_mix TEXT, -- JSON { easy, medium, hard } em %, NULL = qualquer dificuldade
+    time_limit_minutes INTEGER NOT NULL DEFAULT 60,
+    scoring TEXT CHECK (scoring IN ('board', 'standard', 'net')) DEFAULT 'board',
+    cutoff_score REAL NOT NULL DEFAULT 60, -- % da nota máxima
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Mock Exam Results Table (uma linha por simulado feito, com as respostas para o relatório por matéria)
+CREATE TABLE IF NOT EXISTS mock_exam_results (
+    id TEXT PRIMARY KEY,
+    blueprint_id TEXT,
+    blueprint_name TEXT NOT NULL,
+    scoring TEXT NOT NULL,
+    cutoff_score REAL NOT NULL,
+    time_limit_minutes INTEGER NOT NULL,
+    time_spent INTEGER NOT NULL, -- seconds
+    question_count INTEGER NOT NULL,
+    correct INTEGER NOT NULL DEFAULT 0,
+    wrong INTEGER NOT NULL DEFAULT 0,
+    blank INTEGER NOT NULL DEFAULT 0,
+    score REAL NOT NULL DEFAULT 0, -- Pontos com a política do simulado
+    score_percent REAL NOT NULL DEFAULT 0, -- score / question_count * 100
+    passed BOOLEAN DEFAULT FALSE,
+    answers TEXT NOT NULL DEFAULT '[]', -- JSON array of MockExamAnswer
+    started_at TEXT NOT NULL,
+    finished_at TEXT NOT NULL,
+    FOREIGN KEY (blueprint_id) REFERENCES mock_exam_blueprints(id) ON DELETE SET NULL
+);
+
 -- Additional Indexes for new tables
 CREATE INDEX IF NOT EXISTS idx_app_settings_key ON app_settings(setting_key);
 CREATE INDEX IF NOT EXISTS idx_flashcards_topic_id ON flashcards(topic_id);
 CREATE INDEX IF NOT EXISTS idx_flashcards_last_reviewed ON flashcards(last_reviewed);
+CREATE INDEX IF NOT EXISTS idx_flashcards_due_date ON flashcards(due_date);
+CREATE INDEX IF NOT EXISTS idx_flashcards_note_id ON flashcards(note_id);
+CREATE INDEX IF NOT EXISTS idx_flashcards_source_question_id ON flashcards(source_question_id);
 CREATE INDEX IF NOT EXISTS idx_app_settings_category ON app_settings(category);
 CREATE INDEX IF NOT EXISTS idx_study_goals_status ON study_goals(status);
 CREATE INDEX IF NOT EXISTS idx_study_goals_deadline ON study_goals(deadline);
@@ -257,8 +329,13 @@ CREATE TABLE IF NOT EXISTS questions (
     correct_answer TEXT NOT NULL,
     explanation TEXT,
     difficulty TEXT CHECK (difficulty IN ('easy', 'medium', 'hard')) DEFAULT 'medium',
+    question_type TEXT CHECK (question_type IN ('multiple_choice', 'true_false', 'discursive', 'short_answer')) DEFAULT 'multiple_choice', -- true_false: gabarito 'Certo'/'Errado'; discursive: gabarito = resposta modelo
+    rubric TEXT, -- JSON array of { description, weight } (discursivas)
+    answer_tolerance REAL, -- Diferença aceita em respostas numéricas (resposta curta)
+    notes TEXT, -- Anotações pessoais (Markdown)
+    highlights TEXT DEFAULT '[]', -- JSON array com os trechos destacados do enunciado
     tags TEXT, -- JSON array
-    images TEXT, -- JSON array of base64 image data
+    images TEXT, -- JSON array of media refs (media:<sha256>); legacy rows may hold data URLs
     examining_board TEXT, -- Banca examinadora
     position TEXT, -- Cargo
     exam_year TEXT, -- Ano da prova
@@ -267,21 +344,46 @@ CREATE TABLE IF NOT EXISTS questions (
     times_correct INTEGER DEFAULT 0,
     accuracy_rate REAL DEFAULT 0, -- calculated field (times_correct / times_answered)
     room TEXT CHECK (room IN ('triagem', 'vermelha', 'amarela', 'verde')) DEFAULT 'triagem',
+    suspended BOOLEAN DEFAULT FALSE, -- Fora das batalhas (sanguessuga suspensa)
+    -- Revisão espaçada por questão (preenchida a partir da primeira resposta)
+    due_date TEXT,
+    last_reviewed TEXT,
+    ease_factor REAL DEFAULT 2.5,
+    interval_days INTEGER DEFAULT 0,
+    repetitions INTEGER DEFAULT 0,
+    stability REAL,
+    fsrs_difficulty REAL,
+    algorithm TEXT CHECK (algorithm IN ('sm2', 'fsrs')) DEFAULT 'sm2',
+    revision INTEGER DEFAULT 1, -- Incrementada a cada edição (ver question_revisions)
     created_at TEXT NOT NULL DEFAULT (datetime('now')),
     updated_at TEXT NOT NULL DEFAULT (datetime('now')),
     FOREIGN KEY (topic_id) REFERENCES study_topics(id) ON DELETE CASCADE
 );
 
+-- Question Revisions Table (uma linha por edição, com o diff dos campos alterados)
+CREATE TABLE IF NOT EXISTS question_revisions (
+    id TEXT PRIMARY KEY,
+    question_id TEXT NOT NULL,
+    revision INTEGER NOT NULL, -- Revisão criada por esta edição (a original é a 1)
+    changes TEXT NOT NULL, -- JSON array of { field, before, after }
+    regraded_attempts INTEGER DEFAULT 0, -- Tentativas cuja correção mudou com o novo gabarito
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (question_id) REFERENCES questions(id) ON DELETE CASCADE
+);
+
 -- Question Attempts Table
 CREATE TABLE IF NOT EXISTS question_attempts (
     id TEXT PRIMARY KEY,
     question_id TEXT NOT NULL,
     battle_session_id TEXT,
-    answer TEXT NOT NULL,
+    answer TEXT NOT NULL, -- '' quando deixada em branco
     is_correct BOOLEAN NOT NULL,
+    score REAL, -- Nota parcial 0-1 (discursivas autocorrigidas); NULL = is_correct
+    rubric_grades TEXT, -- JSON array com a fração atendida de cada critério
     confidence_level TEXT CHECK (confidence_level IN ('certeza', 'duvida', 'chute')) DEFAULT 'certeza',
     time_taken INTEGER, -- seconds
     xp_earned INTEGER DEFAULT 0,
+    question_revision INTEGER DEFAULT 1, -- Revisão da questão respondida
     created_at TEXT NOT NULL DEFAULT (datetime('now')),
     FOREIGN KEY (question_id) REFERENCES questions(id) ON DELETE CASCADE,
     FOREIGN KEY (battle_session_id) REFERENCES battle_sessions(id) ON DELETE SET NULL
@@ -334,22 +436,51 @@ CREATE TABLE IF NOT EXISTS enemy_reviews (
     streak_count INTEGER DEFAULT 0, -- Sequência de acertos consecutivos
     failure_count INTEGER DEFAULT 0, -- Contador de falhas consecutivas
     personalized_multiplier REAL DEFAULT 1.0, -- Multiplicador personalizado
+    -- Estado do motor de agendamento (SM-2 ou FSRS)
+    interval_days INTEGER DEFAULT 0, -- Intervalo atual em dias
+    stability REAL, -- Estabilidade da memória (FSRS)
+    difficulty REAL, -- Dificuldade intrínseca 1-10 (FSRS)
+    algorithm TEXT CHECK (algorithm IN ('sm2', 'fsrs')) DEFAULT 'sm2',
+    -- Detecção de sanguessugas
+    lapses INTEGER DEFAULT 0, -- Total de revisões com falha
+    is_leech BOOLEAN DEFAULT FALSE,
+    suspended BOOLEAN DEFAULT FALSE, -- Não desbloqueia para revisão
     created_at TEXT NOT NULL DEFAULT (datetime('now')),
     updated_at TEXT NOT NULL DEFAULT (datetime('now')),
     FOREIGN KEY (topic_id) REFERENCES study_topics(id) ON DELETE CASCADE
 );
 
+-- Review log table (append-only history of every review)
+CREATE TABLE IF NOT EXISTS review_logs (
+    id TEXT PRIMARY KEY,
+    item_id TEXT NOT NULL, -- flashcard id, topic id or question id
+    item_kind TEXT CHECK (item_kind IN ('flashcard', 'enemy_topic', 'question')) NOT NULL,
+    topic_id TEXT, -- Tópico relacionado (para análises por tópico)
+    reviewed_at TEXT NOT NULL, -- ISO timestamp
+    rating INTEGER NOT NULL, -- Qualidade da resposta (0-5)
+    response_time INTEGER, -- Tempo de resposta em segundos
+    interval_before INTEGER DEFAULT 0, -- Intervalo em dias antes da revisão
+    interval_after INTEGER DEFAULT 0, -- Intervalo em dias após a revisão
+    algorithm TEXT, -- Motor que agendou a revisão (sm2 ou fsrs)
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
 -- Indexes for new tables
 CREATE INDEX IF NOT EXISTS idx_questions_topic_id ON questions(topic_id);
 CREATE INDEX IF NOT EXISTS idx_questions_room ON questions(room);
 CREATE INDEX IF NOT EXISTS idx_questions_accuracy_rate ON questions(accuracy_rate);
+CREATE INDEX IF NOT EXISTS idx_questions_due_date ON questions(due_date);
 CREATE INDEX IF NOT EXISTS idx_question_attempts_question_id ON question_attempts(question_id);
 CREATE INDEX IF NOT EXISTS idx_question_attempts_battle_session_id ON question_attempts(battle_session_id);
+CREATE INDEX IF NOT EXISTS idx_question_revisions_question_id ON question_revisions(question_id, revision);
+CREATE INDEX IF NOT EXISTS idx_review_logs_item ON review_logs(item_kind, item_id);
+CREATE INDEX IF NOT EXISTS idx_review_logs_reviewed_at ON review_logs(reviewed_at);
 CREATE INDEX IF NOT EXISTS idx_battle_sessions_room ON battle_sessions(room);
 CREATE INDEX IF NOT EXISTS idx_battle_sessions_start_time ON battle_sessions(start_time);
 CREATE INDEX IF NOT EXISTS idx_enemy_reviews_topic_id ON enemy_reviews(topic_id);
 CREATE INDEX IF NOT EXISTS idx_enemy_reviews_next_review_date ON enemy_reviews(next_review_date);
 CREATE INDEX IF NOT EXISTS idx_enemy_reviews_is_blocked ON enemy_reviews(is_blocked);
+CREATE INDEX IF NOT EXISTS idx_mock_exam_results_blueprint_id ON mock_exam_results(blueprint_id, finished_at);
 
 -- Triggers for updated_at on new tables
 CREATE TRIGGER IF NOT EXISTS update_questions_updated_at 
@@ -382,24 +513,76 @@ BEGIN
     UPDATE flashcards SET updated_at = datetime('now') WHERE id = NEW.id;
 END;
 
+CREATE TRIGGER IF NOT EXISTS update_filtered_decks_updated_at 
+    AFTER UPDATE ON filtered_decks
+BEGIN
+    UPDATE filtered_decks SET updated_at = datetime('now') WHERE id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS update_mock_exam_blueprints_updated_at
+    AFTER UPDATE ON mock_exam_blueprints
+BEGIN
+    UPDATE mock_exam_blueprints SET updated_at = datetime('now') WHERE id = NEW.id;
+END;
+
 -- Trigger to update question accuracy when new attempt is added
+-- Accuracy averages the partial score of each attempt (is_correct when there is none)
+-- Blank answers (answer = '') count neither as answered nor in the accuracy
 CREATE TRIGGER IF NOT EXISTS update_question_accuracy_after_attempt
     AFTER INSERT ON question_attempts
+    WHEN NEW.answer <> ''
 BEGIN
     UPDATE questions 
     SET 
         times_answered = times_answered + 1,
         times_correct = times_correct + CASE WHEN NEW.is_correct THEN 1 ELSE 0 END,
-        accuracy_rate = CASE 
-            WHEN times_answered + 1 > 0 
-            THEN (times_correct + CASE WHEN NEW.is_correct THEN 1 ELSE 0 END) * 100.0 / (times_answered + 1)
-            ELSE 0 
-        END,
+        accuracy_rate = (
+            SELECT AVG(COALESCE(score, is_correct)) * 100.0 FROM question_attempts WHERE question_id = NEW.question_id AND answer <> ''
+        ),
         room = CASE 
-            WHEN (times_correct + CASE WHEN NEW.is_correct THEN 1 ELSE 0 END) * 100.0 / (times_answered + 1) < 70 THEN 'vermelha'
-            WHEN (times_correct + CASE WHEN NEW.is_correct THEN 1 ELSE 0 END) * 100.0 / (times_answered + 1) <= 85 THEN 'amarela'
-            WHEN (times_correct + CASE WHEN NEW.is_correct THEN 1 ELSE 0 END) * 100.0 / (times_answered + 1) > 85 THEN 'verde'
-            ELSE room
+            WHEN (SELECT AVG(COALESCE(score, is_correct)) * 100.0 FROM question_attempts WHERE question_id = NEW.question_id AND answer <> '') < 70 THEN 'vermelha'
+            WHEN (SELECT AVG(COALESCE(score, is_correct)) * 100.0 FROM question_attempts WHERE question_id = NEW.question_id AND answer <> '') <= 85 THEN 'amarela'
+            ELSE 'verde'
         END
     WHERE id = NEW.question_id;
-END;
\ No newline at end of file
+END;
+
+-- Busca textual de questões (FTS4; docid = rowid da questão)
+-- unicode61 com remove_diacritics faz "acentuacao" encontrar "acentuação"
+CREATE VIRTUAL TABLE IF NOT EXISTS questions_fts USING fts4(
+    title, content, options, explanation, notes,
+    tokenize=unicode61 "remove_diacritics=1"
+);
+
+CREATE TRIGGER IF NOT EXISTS questions_fts_after_insert
+    AFTER INSERT ON questions
+BEGIN
+    INSERT INTO questions_fts (docid, title, content, options, explanation, notes)
+    VALUES (
+        NEW.rowid, NEW.title, NEW.content,
+        (SELECT group_concat(json_extract(value, '$.content'), ' ')
+         FROM json_each(CASE WHEN json_valid(NEW.options) THEN NEW.options ELSE '[]' END)),
+        COALESCE(NEW.explanation, ''),
+        COALESCE(NEW.notes, '')
+    );
+END;
+
+CREATE TRIGGER IF NOT EXISTS questions_fts_after_update
+    AFTER UPDATE OF title, content, options, explanation, notes ON questions
+BEGIN
+    DELETE FROM questions_fts WHERE docid = OLD.rowid;
+    INSERT INTO questions_fts (docid, title, content, options, explanation, notes)
+    VALUES (
+        NEW.rowid, NEW.title, NEW.content,
+        (SELECT group_concat(json_extract(value, '$.content'), ' ')
+         FROM json_each(CASE WHEN json_valid(NEW.options) THEN NEW.options ELSE '[]' END)),
+        COALESCE(NEW.explanation, ''),
+        COALESCE(NEW.notes, '')
+    );
+END;
+
+CREATE TRIGGER IF NOT EXISTS questions_fts_after_delete
+    AFTER DELETE ON questions
+BEGIN
+    DELETE FROM questions_fts WHERE docid = OLD.rowid;
+END;
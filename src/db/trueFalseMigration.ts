@@ -0,0 +1,71 @@
+import { getDBOrThrow } from './singleton';
+import { FALSE_ANSWER, FALSE_SPELLINGS, TRUE_ANSWER, TRUE_SPELLINGS } from '@/utils/questionScoring';
+
+const sqlList = (values: string[]) => values.map(value => `'${value}'`).join(', ');
+
+/**
+ * Migration for first-class true/false questions: adds questions.question_type and turns the
+ * legacy option-less Verdadeiro/Falso questions (and their attempts) into Certo/Errado items
+ */
+export const runTrueFalseMigration = () => {
+  const database = getDBOrThrow();
+
+  try {
+    const checkColumn = database.prepare(`
+      PRAGMA table_info(questions)
+    `);
+
+    const columns: unknown[] = [];
+    while (checkColumn.step()) {
+      columns.push(checkColumn.getAsObject().name);
+    }
+    checkColumn.free();
+
+    if (!columns.includes('question_type')) {
+      database.run(`
+        ALTER TABLE questions ADD COLUMN question_type TEXT
+        CHECK (question_type IN ('multiple_choice', 'true_false', 'discursive', 'short_answer')) DEFAULT 'multiple_choice'
+      `);
+      console.log('✅ question_type column added to questions');
+    }
+
+    const legacyCondition = `
+      COALESCE(question_type, 'multiple_choice') = 'multiple_choice'
+      AND (options IS NULL OR options = '' OR options = '[]')
+      AND lower(trim(correct_answer)) IN (${sqlList([...TRUE_SPELLINGS, ...FALSE_SPELLINGS])})
+    `;
+
+    const legacyStmt = database.prepare(`SELECT id FROM questions WHERE ${legacyCondition}`);
+    const legacyIds: string[] = [];
+    while (legacyStmt.step()) {
+      legacyIds.push(legacyStmt.getAsObject().id as string);
+    }
+    legacyStmt.free();
+
+    if (legacyIds.length === 0) {
+      console.log('📋 No legacy true/false questions to convert');
+      return;
+    }
+
+    const placeholders = legacyIds.map(() => '?').join(', ');
+    database.run(`
+      UPDATE question_attempts SET answer = CASE
+        WHEN lower(trim(answer)) IN (${sqlList(TRUE_SPELLINGS)}) THEN '${TRUE_ANSWER}'
+        WHEN lower(trim(answer)) IN (${sqlList(FALSE_SPELLINGS)}) THEN '${FALSE_ANSWER}'
+        ELSE answer
+      END
+      WHERE question_id IN (${placeholders})
+    `, legacyIds);
+    database.run(`
+      UPDATE questions SET
+        question_type = 'true_false',
+        correct_answer = CASE WHEN lower(trim(correct_answer)) IN (${sqlList(TRUE_SPELLINGS)}) THEN '${TRUE_ANSWER}' ELSE '${FALSE_ANSWER}' END
+      WHERE id IN (${placeholders})
+    `, legacyIds);
+
+    console.log(`✅ ${legacyIds.length} legacy questions converted to certo/errado`);
+  } catch (error) {
+    console.error('❌ Error running true/false migration:', error);
+    throw error;
+  }
+};
@@ -288,21 +288,8 @@ export class StudyAppDatabase {
         data: {} as Record<string, any[]>
       };
 
-      // Get all table names
-      const tablesStmt = this.db.prepare(`
-        SELECT name FROM sqlite_master 
-        WHERE type='table' AND name NOT LIKE 'sqlite_%'
-      `);
-      
-      const tables = [];
-      while (tablesStmt.step()) {
-        const row = tablesStmt.getAsObject();
-        tables.push(row.name as string);
-      }
-      tablesStmt.free();
-
       // Export each table
-      for (const tableName of tables) {
+      for (const tableName of this.getBackupTables(this.db)) {
         const dataStmt = this.db.prepare(`SELECT * FROM ${tableName}`);
         const tableData = [];
         
@@ -321,6 +308,32 @@ export class StudyAppDatabase {
     }
   }
 
+  /**
+   * Plain tables that go into backups. Virtual tables (the questions_fts search index) and
+   * their shadow tables are left out: their rows cannot be inserted back as plain rows.
+   */
+  private getBackupTables(database: Database): string[] {
+    const tablesStmt = database.prepare(`
+      SELECT name, sql FROM sqlite_master 
+      WHERE type='table' AND name NOT LIKE 'sqlite_%'
+    `);
+
+    const tables: { name: string; sql: string }[] = [];
+    while (tablesStmt.step()) {
+      const row = tablesStmt.getAsObject();
+      tables.push({ name: row.name as string, sql: (row.sql as string) || '' });
+    }
+    tablesStmt.free();
+
+    const virtualTables = tables
+      .filter(table => /^CREATE VIRTUAL TABLE/i.test(table.sql))
+      .map(table => table.name);
+
+    return tables
+      .map(table => table.name)
+      .filter(name => !virtualTables.some(virtual => name === virtual || name.startsWith(`${virtual}_`)));
+  }
+
   /**
    * Import data from JSON backup
    */
@@ -342,14 +355,22 @@ export class StudyAppDatabase {
       this.db.run('BEGIN TRANSACTION');
 
       try {
+        // Backups antigos trazem o índice de busca (questions_fts e tabelas internas):
+        // ele não é restaurado, os triggers de questions o preenchem de novo
+        const backupTables = new Set(this.getBackupTables(this.db));
+        const entries = Object.entries(importData.data).filter(([table]) => backupTables.has(table));
+        const skipped = Object.keys(importData.data).filter(table => !backupTables.has(table));
+        if (skipped.length > 0) {
+          console.log(`⏭️ Tables not restored from backup: ${skipped.join(', ')}`);
+        }
+
         // Clear existing data (except for structure)
-        const tables = Object.keys(importData.data);
-        for (const table of tables) {
+        for (const [table] of entries) {
           this.db.run(`DELETE FROM ${table}`);
         }
 
         // Import data
-        for (const [tableName, tableData] of Object.entries(importData.data)) {
+        for (const [tableName, tableData] of entries) {
           if (!Array.isArray(tableData)) continue;
           
           for (const row of tableData) {
@@ -394,7 +415,8 @@ export class StudyAppDatabase {
       const tables = [
         'study_plans', 'study_subjects', 'study_topics', 'study_subtopics',
         'study_sessions', 'saved_plans', 'questions', 'flashcards',
-        'user_progress', 'app_settings', 'study_goals', 'performance_metrics'
+        'user_progress', 'app_settings', 'study_goals', 'performance_metrics',
+        'review_logs', 'filtered_decks'
       ];
 
       for (const table of tables) {
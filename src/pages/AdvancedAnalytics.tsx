@@ -8,6 +8,7 @@ import { StudyPatterns } from '@/components/analytics/StudyPatterns';
 import { InsightsPanel } from '@/components/analytics/InsightsPanel';
 import { QuestionAnalytics } from '@/components/analytics/QuestionAnalytics';
 import { QuestionInsights } from '@/components/analytics/QuestionInsights';
+import { ReviewLogAnalytics } from '@/components/analytics/ReviewLogAnalytics';
 import { StudySession } from '@/types/study';
 import { PerformanceMetric } from '@/db/crud/performanceMetrics';
 import { QuestionAttempt } from '@/types/battle';
@@ -18,6 +19,7 @@ import {
   getAccuracyByRoom, 
   getErrorAnalysis 
 } from '@/db/crud/questions';
+import { getReviewLogSummary, type ReviewLogSummary } from '@/db/crud/reviewLogs';
 import { 
   BarChart3, 
   TrendingUp, 
@@ -27,7 +29,8 @@ import {
   Clock,
   Target,
   Zap,
-  Lightbulb
+  Lightbulb,
+  History
 } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -38,11 +41,13 @@ export default function AdvancedAnalytics() {
     questionTitle?: string; 
     difficulty?: 'easy' | 'medium' | 'hard'; 
     room?: 'triagem' | 'vermelha' | 'amarela' | 'verde';
+    examiningBoard?: string;
     topicName?: string;
     subjectName?: string;
   })[]>([]);
   const [accuracyByRoom, setAccuracyByRoom] = useState<Record<string, { total: number; correct: number; accuracy: number }>>({});
   const [errorAnalysis, setErrorAnalysis] = useState<Record<string, number>>({});
+  const [reviewSummary, setReviewSummary] = useState<ReviewLogSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [targetExamDate, setTargetExamDate] = useState<Date | undefined>();
 
@@ -74,6 +79,9 @@ export default function AdvancedAnalytics() {
       const errorData = getErrorAnalysis();
       setErrorAnalysis(errorData);
 
+      // Load review history
+      setReviewSummary(getReviewLogSummary(30));
+
       // TODO: Load target exam date from settings or active study plan
       // For now, we'll set it to 3 months from now as an example
       const examDate = new Date();
@@ -102,7 +110,8 @@ export default function AdvancedAnalytics() {
         metricsData: metrics,
         questionData: questionAttempts,
         accuracyByRoom,
-        errorAnalysis
+        errorAnalysis,
+        reviewSummary
       };
 
       const blob = new Blob([JSON.stringify(reportData, null, 2)], {
@@ -218,7 +227,7 @@ export default function AdvancedAnalytics() {
 
         {/* Main Analytics Tabs */}
         <Tabs defaultValue="heatmap" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3 lg:grid-cols-6">
+          <TabsList className="grid w-full grid-cols-4 lg:grid-cols-7">
             <TabsTrigger value="heatmap" className="flex items-center gap-2">
               <BarChart3 className="h-4 w-4" />
               <span className="hidden sm:inline">Heatmap</span>
@@ -243,6 +252,10 @@ export default function AdvancedAnalytics() {
               <Lightbulb className="h-4 w-4" />
               <span className="hidden sm:inline">Q-Insights</span>
             </TabsTrigger>
+            <TabsTrigger value="reviews" className="flex items-center gap-2">
+              <History className="h-4 w-4" />
+              <span className="hidden sm:inline">Revisões</span>
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="heatmap" className="space-y-6">
@@ -276,6 +289,10 @@ export default function AdvancedAnalytics() {
           <TabsContent value="question-insights" className="space-y-6">
             <QuestionInsights attempts={questionAttempts} />
           </TabsContent>
+
+          <TabsContent value="reviews" className="space-y-6">
+            {reviewSummary && <ReviewLogAnalytics summary={reviewSummary} />}
+          </TabsContent>
         </Tabs>
 
         {/* No Data State */}
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -18,11 +19,14 @@ import {
   FileText,
   TrendingUp,
   Crown,
-  Loader2
+  Loader2,
+  RotateCcw,
+  ClipboardList
 } from 'lucide-react';
 import { getEnemiesByRoom, getEnemyQuestions } from '@/db/crud/enemies';
 import { getUserProgress } from '@/db/crud/battle';
 import { checkAndUnlockEnemies, completeEnemyReview } from '@/db/crud/enemyReviews';
+import { getDueQuestions, getDueQuestionsCount, getWorstRoom, type DueQuestion } from '@/db/crud/questionReviews';
 import { useStudyContext } from '@/contexts/StudyContext';
 import { useDB } from '@/contexts/DBProvider';
 import type { Room, UserProgress } from '@/types/battle';
@@ -31,9 +35,13 @@ import BattleArena from '@/components/battle/BattleArena';
 import UserProgressWidget from '@/components/battle/UserProgressWidget';
 import { EnemyCard } from '@/components/battle/EnemyCard';
 
+// Questões por batalha de revisão
+const DUE_BATTLE_SIZE = 20;
+
 const BattleFieldPage = () => {
   // Check if database is ready first
   const { isLoading: isDBLoading, error: dbError } = useDB();
+  const navigate = useNavigate();
   
   // Always call useStudyContext (hooks must be called unconditionally)
   const { subjects, isDBLoading: contextDBLoading, dbError: contextDBError } = useStudyContext();
@@ -51,6 +59,9 @@ const BattleFieldPage = () => {
   const [userProgress, setUserProgress] = useState<UserProgress | null>(null);
   const [battleMode, setBattleMode] = useState(false);
   const [selectedEnemy, setSelectedEnemy] = useState<Enemy | null>(null);
+  const [dueQuestions, setDueQuestions] = useState<DueQuestion[]>([]);
+  const [dueCount, setDueCount] = useState(0);
+  const [dueBattle, setDueBattle] = useState<DueQuestion[] | null>(null);
 
   const rooms = [
     {
@@ -67,7 +78,7 @@ const BattleFieldPage = () => {
       icon: AlertTriangle,
       color: 'bg-red-500',
       textColor: 'text-red-600',
-      description: 'Taxa de acerto < 70% - Estado crítico'
+      description: 'Retenção < 70% - Estado crítico'
     },
     {
       id: 'amarela' as Room,
@@ -75,7 +86,7 @@ const BattleFieldPage = () => {
       icon: Target,
       color: 'bg-yellow-500',
       textColor: 'text-yellow-600',
-      description: 'Taxa de acerto 70-85% - Em desenvolvimento'
+      description: 'Retenção 70-85% - Em desenvolvimento'
     },
     {
       id: 'verde' as Room,
@@ -83,7 +94,7 @@ const BattleFieldPage = () => {
       icon: CheckCircle,
       color: 'bg-green-500',
       textColor: 'text-green-600',
-      description: 'Taxa de acerto > 85% - Dominados'
+      description: 'Retenção > 85% - Dominados'
     }
   ];
 
@@ -114,6 +125,8 @@ const BattleFieldPage = () => {
       
       setEnemies(enemyStats);
       setUserProgress(progress);
+      setDueQuestions(getDueQuestions(DUE_BATTLE_SIZE));
+      setDueCount(getDueQuestionsCount());
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -191,6 +204,12 @@ const BattleFieldPage = () => {
     loadData(); // Reload to update enemy stats and rooms
   };
 
+  const handleDueBattleComplete = () => {
+    // Cada resposta já reagendou a própria questão; não avança ciclos de inimigos
+    setDueBattle(null);
+    loadData();
+  };
+
   // Show loading screen if database is loading or if there's an error
   if (isDBLoading || contextDBLoading) {
     return (
@@ -220,6 +239,17 @@ const BattleFieldPage = () => {
   const dominatedEnemies = enemies.verde.length;
   const totalQuestions = Object.values(enemies).flat().reduce((sum, enemy) => sum + enemy.totalQuestions, 0);
 
+  if (dueBattle) {
+    return (
+      <BattleArena
+        questionIds={dueBattle.map(q => q.id)}
+        room={getWorstRoom(dueBattle.map(q => q.room))}
+        onComplete={handleDueBattleComplete}
+        onBack={() => setDueBattle(null)}
+      />
+    );
+  }
+
   if (battleMode && selectedEnemy) {
     const enemyQuestions = getEnemyQuestions(selectedEnemy.topicId);
     return (
@@ -313,6 +343,52 @@ const BattleFieldPage = () => {
           </Card>
         </div>
 
+        {/* Due questions across topics */}
+        {dueCount > 0 && (
+          <Card className="border-primary/40">
+            <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div className="space-y-2 min-w-0">
+                <div className="flex items-center gap-2">
+                  <RotateCcw className="h-5 w-5 text-primary" />
+                  <p className="font-semibold">Questões para revisar</p>
+                  <Badge variant="secondary">{dueCount}</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Questões de vários tópicos cuja revisão venceu, das mais atrasadas para as mais recentes
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {Array.from(new Set(dueQuestions.map(q => q.topicName))).slice(0, 6).map(topicName => (
+                    <Badge key={topicName} variant="outline" className="text-xs">{topicName}</Badge>
+                  ))}
+                </div>
+              </div>
+              <Button onClick={() => setDueBattle(dueQuestions)} className="shrink-0">
+                <Sword className="h-4 w-4 mr-2" />
+                Revisar {Math.min(dueCount, DUE_BATTLE_SIZE)} questões
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Mock exams */}
+        <Card>
+          <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <ClipboardList className="h-5 w-5 text-primary" />
+                <p className="font-semibold">Simulados</p>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Provas cronometradas montadas por matéria, banca e dificuldade, com relatório contra a nota de corte
+              </p>
+            </div>
+            <Button variant="outline" onClick={() => navigate('/mock-exams')} className="shrink-0">
+              <ClipboardList className="h-4 w-4 mr-2" />
+              Abrir simulados
+            </Button>
+          </CardContent>
+        </Card>
+
         {/* Filters */}
         <div className="flex flex-col sm:flex-row gap-4">
           <div className="relative flex-1">
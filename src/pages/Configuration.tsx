@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowLeft, BookOpen, FolderOpen, Settings2, Brain, Trash2 } from 'lucide-react';
+import { ArrowLeft, BookOpen, FolderOpen, Settings2, Brain, Trash2, Scale } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import CycleConfiguration from '@/components/study/CycleConfiguration';
 import StudyPlanManager from '@/components/study/StudyPlanManager';
@@ -10,6 +10,7 @@ import PlanAdjustmentModal from '@/components/study/PlanAdjustmentModal';
 import SubjectTopicManager from '@/components/study/SubjectTopicManager';
 import ReviewSettingsModal from '@/components/study/ReviewSettingsModal';
 import ReviewStatsWidget from '@/components/study/ReviewStatsWidget';
+import { BoardScoringPanel } from '@/components/questions/BoardScoringPanel';
 import { useStudyContext } from '@/contexts/StudyContext';
 import { StudyPlan } from '@/types/study';
 import { migrateReviewSystem } from '@/db/migration-review-system';
@@ -226,7 +227,48 @@ const Configuration = () => {
             </Card>
           )}
           
-          {/* Data Recovery and Debugging Section */}
+          {/* Spaced Repetition Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Brain className="h-5 w-5" />
+                Revisão Espaçada
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ReviewStatsWidget />
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={() => setIsReviewSettingsOpen(true)}
+                className="flex items-center gap-2"
+              >
+                <Settings2 className="h-4 w-4" />
+                Configurar Revisões
+              </Button>
+              
+              <ReviewSettingsModal
+                open={isReviewSettingsOpen}
+                onOpenChange={setIsReviewSettingsOpen}
+                examDate={studyPlan.examDate}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Scoring per examining board */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Scale className="h-5 w-5" />
+                Pontuação por Banca
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <BoardScoringPanel />
+            </CardContent>
+          </Card>
+          
+                    {/* Data Recovery and Debugging Section */}
           <StudyDataRecovery />
         </div>
       </div>
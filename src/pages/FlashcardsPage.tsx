@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, BookOpen, Clock, BarChart3, Edit, Trash2, Eye } from 'lucide-react';
+import { Plus, BookOpen, Clock, BarChart3, Edit, Trash2, Eye, Package, RefreshCw } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -15,13 +15,21 @@ import {
   getFlashcardsForReview, 
   getFlashcardStats,
   createFlashcard,
+  createClozeNote,
   updateFlashcard,
+  updateClozeNote,
   deleteFlashcard,
   getAllTopics,
   type FlashcardWithTopic,
   type Flashcard
 } from '@/db/crud/flashcards';
 import FlashcardReviewSession from '@/components/study/FlashcardReviewSession';
+import AnkiPackageModal from '@/components/study/AnkiPackageModal';
+import FilteredDecksPanel from '@/components/study/FilteredDecksPanel';
+import LeechesPanel from '@/components/study/LeechesPanel';
+import MediaPicker from '@/components/media/MediaPicker';
+import { getOutdatedQuestionFlashcards, refreshFlashcardFromQuestion } from '@/db/crud/questionFlashcards';
+import { hasCloze, renderClozeText } from '@/utils/cloze';
 
 const FlashcardsPage = () => {
   const [flashcards, setFlashcards] = useState<FlashcardWithTopic[]>([]);
@@ -40,6 +48,8 @@ const FlashcardsPage = () => {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [editingCard, setEditingCard] = useState<Flashcard | null>(null);
   const [isReviewSessionActive, setIsReviewSessionActive] = useState(false);
+  const [isAnkiModalOpen, setIsAnkiModalOpen] = useState(false);
+  const [outdatedIds, setOutdatedIds] = useState<Set<string>>(new Set());
   const { toast } = useToast();
 
   // Form state
@@ -47,8 +57,10 @@ const FlashcardsPage = () => {
     topic_id: '',
     front: '',
     back: '',
-    type: 'concept' as 'concept' | 'definition' | 'formula' | 'custom',
-    difficulty: 'medium' as 'easy' | 'medium' | 'hard'
+    type: 'concept' as Flashcard['type'],
+    difficulty: 'medium' as 'easy' | 'medium' | 'hard',
+    tags: '', // Separadas por vírgula
+    images: [] as string[]
   });
 
   useEffect(() => {
@@ -76,7 +88,10 @@ const FlashcardsPage = () => {
       const topicsData = await getAllTopics();
       console.log('Topics loaded:', topicsData.length);
       
+      const outdatedCards = await getOutdatedQuestionFlashcards();
+      
       setFlashcards(allCards);
+      setOutdatedIds(new Set(outdatedCards.map(card => card.id)));
       setReviewCards(reviewCardsData);
       setStats(statsData);
       setTopics(topicsData);
@@ -94,8 +109,24 @@ const FlashcardsPage = () => {
     }
   };
 
+  const isCloze = formData.type === 'cloze';
+  const formTags = formData.tags.split(',').map(tag => tag.trim()).filter(Boolean);
+
+  const validateClozeText = () => {
+    if (isCloze && !hasCloze(formData.front)) {
+      toast({
+        title: "Erro",
+        description: "Marque ao menos uma omissão no formato {{c1::texto}}",
+        variant: "destructive"
+      });
+      return false;
+    }
+    return true;
+  };
+
   const handleCreateCard = async () => {
-    if (!formData.topic_id || !formData.front.trim() || !formData.back.trim()) {
+    // Em notas de omissão o verso é opcional (informação extra)
+    if (!formData.topic_id || !formData.front.trim() || (!isCloze && !formData.back.trim())) {
       toast({
         title: "Erro",
         description: "Todos os campos são obrigatórios",
@@ -103,20 +134,38 @@ const FlashcardsPage = () => {
       });
       return;
     }
+    if (!validateClozeText()) return;
 
     try {
-      await createFlashcard(formData);
-      toast({
-        title: "Sucesso",
-        description: "Flashcard criado com sucesso"
-      });
+      if (isCloze) {
+        const ids = await createClozeNote({
+          topic_id: formData.topic_id,
+          text: formData.front,
+          extra: formData.back,
+          difficulty: formData.difficulty,
+          tags: formTags,
+          images: formData.images
+        });
+        toast({
+          title: "Sucesso",
+          description: `Nota de omissão criada com ${ids.length} card(s)`
+        });
+      } else {
+        await createFlashcard({ ...formData, tags: formTags });
+        toast({
+          title: "Sucesso",
+          description: "Flashcard criado com sucesso"
+        });
+      }
       setIsCreateModalOpen(false);
       setFormData({
         topic_id: '',
         front: '',
         back: '',
         type: 'concept',
-        difficulty: 'medium'
+        difficulty: 'medium',
+        tags: '',
+        images: []
       });
       loadData();
     } catch (error) {
@@ -130,14 +179,28 @@ const FlashcardsPage = () => {
 
   const handleUpdateCard = async () => {
     if (!editingCard) return;
+    if (!validateClozeText()) return;
 
     try {
-      await updateFlashcard(editingCard.id, {
-        front: formData.front,
-        back: formData.back,
-        type: formData.type,
-        difficulty: formData.difficulty
-      });
+      if (editingCard.type === 'cloze' && editingCard.note_id) {
+        // Atualiza todos os cards irmãos da nota
+        await updateClozeNote(editingCard.note_id, {
+          text: formData.front,
+          extra: formData.back,
+          difficulty: formData.difficulty,
+          tags: formTags,
+          images: formData.images
+        });
+      } else {
+        await updateFlashcard(editingCard.id, {
+          front: formData.front,
+          back: formData.back,
+          type: formData.type,
+          difficulty: formData.difficulty,
+          tags: formTags,
+          images: formData.images
+        });
+      }
       toast({
         title: "Sucesso",
         description: "Flashcard atualizado com sucesso"
@@ -170,6 +233,25 @@ const FlashcardsPage = () => {
     }
   };
 
+  const handleRefreshFromQuestion = async (ids: string[]) => {
+    try {
+      for (const id of ids) {
+        await refreshFlashcardFromQuestion(id);
+      }
+      toast({
+        title: "Sucesso",
+        description: ids.length === 1 ? "Flashcard atualizado a partir da questão" : `${ids.length} flashcards atualizados`
+      });
+      loadData();
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: "Erro ao atualizar flashcards a partir das questões",
+        variant: "destructive"
+      });
+    }
+  };
+
   const openEditModal = (card: Flashcard) => {
     setEditingCard(card);
     setFormData({
@@ -177,10 +259,14 @@ const FlashcardsPage = () => {
       front: card.front,
       back: card.back,
       type: card.type,
-      difficulty: card.difficulty
+      difficulty: card.difficulty,
+      tags: (card.tags || []).join(', '),
+      images: card.images || []
     });
   };
 
+  const availableTags = Array.from(new Set(flashcards.flatMap(card => card.tags || []))).sort();
+
   const filteredCards = flashcards.filter(card => {
     const matchesSearch = card.front.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          card.back.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -208,6 +294,49 @@ const FlashcardsPage = () => {
     }
   };
 
+  const renderTextFields = () => (
+    <>
+      <div>
+        <Label htmlFor="front">{isCloze ? 'Texto com Omissões' : 'Frente (Pergunta)'}</Label>
+        <Textarea
+          id="front"
+          value={formData.front}
+          onChange={(e) => setFormData({ ...formData, front: e.target.value })}
+          placeholder={isCloze
+            ? "Ex.: A capital do Brasil é {{c1::Brasília}}, fundada em {{c2::1960::ano}}."
+            : "Digite a pergunta ou conceito..."}
+        />
+        {isCloze && (
+          <p className="text-xs text-muted-foreground mt-1">
+            Cada número de omissão ({'{{c1::...}}'}, {'{{c2::...}}'}) gera um card com revisão própria.
+          </p>
+        )}
+      </div>
+      <div>
+        <Label htmlFor="back">{isCloze ? 'Extra (opcional)' : 'Verso (Resposta)'}</Label>
+        <Textarea
+          id="back"
+          value={formData.back}
+          onChange={(e) => setFormData({ ...formData, back: e.target.value })}
+          placeholder={isCloze ? "Informação exibida junto com a resposta..." : "Digite a resposta ou explicação..."}
+        />
+      </div>
+      <div>
+        <Label htmlFor="tags">Tags</Label>
+        <Input
+          id="tags"
+          value={formData.tags}
+          onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
+          placeholder="Ex.: lei 8112, revisar (separadas por vírgula)"
+        />
+      </div>
+      <div>
+        <Label>Imagens (opcional)</Label>
+        <MediaPicker images={formData.images} onChange={(images) => setFormData(prev => ({ ...prev, images }))} />
+      </div>
+    </>
+  );
+
   if (loading) {
     return (
       <div className="container mx-auto p-4 space-y-6">
@@ -224,88 +353,85 @@ const FlashcardsPage = () => {
           <h1 className="text-3xl font-bold">Flashcards</h1>
           <p className="text-muted-foreground">Sistema de revisão espaçada para memorização eficiente</p>
         </div>
-        <Dialog open={isCreateModalOpen} onOpenChange={setIsCreateModalOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Novo Card
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl">
-            <DialogHeader>
-              <DialogTitle>Criar Novo Flashcard</DialogTitle>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div>
-                <Label htmlFor="topic">Tópico</Label>
-                <Select value={formData.topic_id} onValueChange={(value) => setFormData({ ...formData, topic_id: value })}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Selecione um tópico" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {topics.map(topic => (
-                      <SelectItem key={topic.id} value={topic.id}>
-                        {topic.subject_name} - {topic.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-              <div>
-                <Label htmlFor="front">Frente (Pergunta)</Label>
-                <Textarea
-                  id="front"
-                  value={formData.front}
-                  onChange={(e) => setFormData({ ...formData, front: e.target.value })}
-                  placeholder="Digite a pergunta ou conceito..."
-                />
-              </div>
-              <div>
-                <Label htmlFor="back">Verso (Resposta)</Label>
-                <Textarea
-                  id="back"
-                  value={formData.back}
-                  onChange={(e) => setFormData({ ...formData, back: e.target.value })}
-                  placeholder="Digite a resposta ou explicação..."
-                />
-              </div>
-              <div className="grid grid-cols-2 gap-4">
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsAnkiModalOpen(true)}>
+            <Package className="h-4 w-4 mr-2" />
+            Anki
+          </Button>
+          <Dialog open={isCreateModalOpen} onOpenChange={setIsCreateModalOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Novo Card
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Criar Novo Flashcard</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
                 <div>
-                  <Label htmlFor="type">Tipo</Label>
-                  <Select value={formData.type} onValueChange={(value: any) => setFormData({ ...formData, type: value })}>
+                  <Label htmlFor="topic">Tópico</Label>
+                  <Select value={formData.topic_id} onValueChange={(value) => setFormData({ ...formData, topic_id: value })}>
                     <SelectTrigger>
-                      <SelectValue />
+                      <SelectValue placeholder="Selecione um tópico" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="concept">Conceito</SelectItem>
-                      <SelectItem value="definition">Definição</SelectItem>
-                      <SelectItem value="formula">Fórmula</SelectItem>
-                      <SelectItem value="custom">Personalizado</SelectItem>
+                      {topics.map(topic => (
+                        <SelectItem key={topic.id} value={topic.id}>
+                          {topic.subject_name} - {topic.name}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
-                <div>
-                  <Label htmlFor="difficulty">Dificuldade</Label>
-                  <Select value={formData.difficulty} onValueChange={(value: any) => setFormData({ ...formData, difficulty: value })}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="easy">Fácil</SelectItem>
-                      <SelectItem value="medium">Médio</SelectItem>
-                      <SelectItem value="hard">Difícil</SelectItem>
-                    </SelectContent>
-                  </Select>
+                {renderTextFields()}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="type">Tipo</Label>
+                    <Select value={formData.type} onValueChange={(value: any) => setFormData({ ...formData, type: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="concept">Conceito</SelectItem>
+                        <SelectItem value="definition">Definição</SelectItem>
+                        <SelectItem value="formula">Fórmula</SelectItem>
+                        <SelectItem value="custom">Personalizado</SelectItem>
+                        <SelectItem value="cloze">Omissão (Cloze)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="difficulty">Dificuldade</Label>
+                    <Select value={formData.difficulty} onValueChange={(value: any) => setFormData({ ...formData, difficulty: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="easy">Fácil</SelectItem>
+                        <SelectItem value="medium">Médio</SelectItem>
+                        <SelectItem value="hard">Difícil</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
+                <Button onClick={handleCreateCard} className="w-full">
+                  Criar Flashcard
+                </Button>
               </div>
-              <Button onClick={handleCreateCard} className="w-full">
-                Criar Flashcard
-              </Button>
-            </div>
-          </DialogContent>
-        </Dialog>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      <AnkiPackageModal
+        open={isAnkiModalOpen}
+        onOpenChange={setIsAnkiModalOpen}
+        topics={topics}
+        onImported={loadData}
+      />
+
       {/* Statistics */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card>
@@ -358,9 +484,11 @@ const FlashcardsPage = () => {
 
       {/* Tabs */}
       <Tabs defaultValue="all" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="all">Todos os Cards</TabsTrigger>
           <TabsTrigger value="review">Para Revisar ({reviewCards.length})</TabsTrigger>
+          <TabsTrigger value="filtered">Decks Filtrados</TabsTrigger>
+          <TabsTrigger value="leeches">Sanguessugas</TabsTrigger>
         </TabsList>
         
         <TabsContent value="all" className="space-y-4">
@@ -387,6 +515,20 @@ const FlashcardsPage = () => {
             </Select>
           </div>
 
+          {outdatedIds.size > 0 && (
+            <Card className="border-yellow-300 bg-yellow-50/50">
+              <CardContent className="p-4 flex items-center justify-between gap-4">
+                <p className="text-sm">
+                  {outdatedIds.size} flashcard(s) gerado(s) de questões que foram alteradas depois.
+                </p>
+                <Button variant="outline" size="sm" onClick={() => handleRefreshFromQuestion(Array.from(outdatedIds))}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Atualizar todos
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Cards Grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {filteredCards.map(card => (
@@ -398,6 +540,16 @@ const FlashcardsPage = () => {
                       <CardTitle className="text-sm">{card.topic_name}</CardTitle>
                     </div>
                     <div className="flex gap-1">
+                      {outdatedIds.has(card.id) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="A questão de origem mudou - atualizar card"
+                          onClick={() => handleRefreshFromQuestion([card.id])}
+                        >
+                          <RefreshCw className="h-4 w-4 text-yellow-600" />
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="sm"
@@ -420,16 +572,34 @@ const FlashcardsPage = () => {
                   <div className="space-y-3">
                     <div>
                       <p className="text-xs text-muted-foreground mb-1">Frente:</p>
-                      <p className="text-sm line-clamp-2">{card.front}</p>
+                      <p className="text-sm line-clamp-2">
+                        {card.type === 'cloze' ? renderClozeText(card.front, card.cloze_index ?? 1, false) : card.front}
+                      </p>
                     </div>
                     <div>
                       <p className="text-xs text-muted-foreground mb-1">Verso:</p>
-                      <p className="text-sm line-clamp-2 opacity-75">{card.back}</p>
+                      <p className="text-sm line-clamp-2 opacity-75">
+                        {card.type === 'cloze' ? renderClozeText(card.front, card.cloze_index ?? 1, true) : card.back}
+                      </p>
                     </div>
                     <div className="flex justify-between items-center">
-                      <Badge className={getDifficultyColor(card.difficulty)}>
-                        {card.difficulty}
-                      </Badge>
+                      <div className="flex gap-1">
+                        <Badge className={getDifficultyColor(card.difficulty)}>
+                          {card.difficulty}
+                        </Badge>
+                        {card.type === 'cloze' && (
+                          <Badge variant="outline">c{card.cloze_index}</Badge>
+                        )}
+                        {card.tags?.slice(0, 2).map(tag => (
+                          <Badge key={tag} variant="secondary">{tag}</Badge>
+                        ))}
+                        {card.suspended && (
+                          <Badge variant="outline">Suspenso</Badge>
+                        )}
+                        {card.source_question_id && (
+                          <Badge variant="outline">Questão</Badge>
+                        )}
+                      </div>
                       <div className="text-xs text-muted-foreground">
                         Revisado {card.times_reviewed}x
                       </div>
@@ -458,6 +628,24 @@ const FlashcardsPage = () => {
             )}
           </div>
         </TabsContent>
+
+        <TabsContent value="filtered" className="space-y-4">
+          <FilteredDecksPanel
+            topics={topics}
+            availableTags={availableTags}
+            onSessionComplete={loadData}
+          />
+        </TabsContent>
+
+        <TabsContent value="leeches" className="space-y-4">
+          <LeechesPanel
+            onEditFlashcard={(id) => {
+              const card = flashcards.find(flashcard => flashcard.id === id);
+              if (card) openEditModal(card);
+            }}
+            onChanged={loadData}
+          />
+        </TabsContent>
       </Tabs>
 
       {/* Edit Modal */}
@@ -467,28 +655,15 @@ const FlashcardsPage = () => {
             <DialogTitle>Editar Flashcard</DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
-            <div>
-              <Label htmlFor="front">Frente (Pergunta)</Label>
-              <Textarea
-                id="front"
-                value={formData.front}
-                onChange={(e) => setFormData({ ...formData, front: e.target.value })}
-                placeholder="Digite a pergunta ou conceito..."
-              />
-            </div>
-            <div>
-              <Label htmlFor="back">Verso (Resposta)</Label>
-              <Textarea
-                id="back"
-                value={formData.back}
-                onChange={(e) => setFormData({ ...formData, back: e.target.value })}
-                placeholder="Digite a resposta ou explicação..."
-              />
-            </div>
+            {renderTextFields()}
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <Label htmlFor="type">Tipo</Label>
-                <Select value={formData.type} onValueChange={(value: any) => setFormData({ ...formData, type: value })}>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value: any) => setFormData({ ...formData, type: value })}
+                  disabled={editingCard?.type === 'cloze'}
+                >
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
@@ -497,6 +672,7 @@ const FlashcardsPage = () => {
                     <SelectItem value="definition">Definição</SelectItem>
                     <SelectItem value="formula">Fórmula</SelectItem>
                     <SelectItem value="custom">Personalizado</SelectItem>
+                    {editingCard?.type === 'cloze' && <SelectItem value="cloze">Omissão (Cloze)</SelectItem>}
                   </SelectContent>
                 </Select>
               </div>
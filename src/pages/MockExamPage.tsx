@@ -0,0 +1,336 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ArrowLeft, ClipboardList, Clock, Edit, History, Loader2, Play, Plus, Trash2 } from 'lucide-react';
+import { useDB } from '@/contexts/DBProvider';
+import { useStudyContext } from '@/contexts/StudyContext';
+import { toast } from '@/hooks/use-toast';
+import {
+  MOCK_EXAM_SCORING_LABELS,
+  deleteMockExamBlueprint,
+  deleteMockExamResult,
+  drawMockExamQuestions,
+  getMockExamBlueprints,
+  getMockExamResults,
+  type MockExamBlueprint,
+  type MockExamConfig,
+  type MockExamResult
+} from '@/db/crud/mockExams';
+import BlueprintModal from '@/components/mockExam/BlueprintModal';
+import MockExamRunner from '@/components/mockExam/MockExamRunner';
+import MockExamReport from '@/components/mockExam/MockExamReport';
+
+// Tentativas mostradas na evolução de cada simulado
+const EVOLUTION_SIZE = 5;
+
+const formatPercent = (value: number) => `${value.toFixed(1).replace('.', ',')}%`;
+
+const configFromBlueprint = (blueprint: MockExamBlueprint): MockExamConfig => ({
+  blueprintId: blueprint.id,
+  name: blueprint.name,
+  timeLimitMinutes: blueprint.timeLimitMinutes,
+  scoring: blueprint.scoring,
+  cutoffScore: blueprint.cutoffScore
+});
+
+const MockExamPage = () => {
+  const navigate = useNavigate();
+  const { isLoading: isDBLoading, error: dbError } = useDB();
+  const { subjects, isDBLoading: contextDBLoading, dbError: contextDBError } = useStudyContext();
+
+  const [blueprints, setBlueprints] = useState<MockExamBlueprint[]>([]);
+  const [results, setResults] = useState<MockExamResult[]>([]);
+  const [editingBlueprint, setEditingBlueprint] = useState<MockExamBlueprint | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [exam, setExam] = useState<{ config: MockExamConfig; questionIds: string[] } | null>(null);
+  const [viewingResult, setViewingResult] = useState<MockExamResult | null>(null);
+
+  const loadData = () => {
+    setBlueprints(getMockExamBlueprints());
+    setResults(getMockExamResults());
+  };
+
+  useEffect(() => {
+    if (!isDBLoading && !dbError && !contextDBLoading && !contextDBError) {
+      loadData();
+    }
+  }, [isDBLoading, dbError, contextDBLoading, contextDBError]);
+
+  const resultsOf = (blueprintId: string) => results.filter(result => result.blueprintId === blueprintId);
+
+  // Tentativa anterior do mesmo simulado (resultados vêm do mais recente para o mais antigo)
+  const previousResult = (result: MockExamResult) => {
+    const sameExam = results.filter(other => result.blueprintId
+      ? other.blueprintId === result.blueprintId
+      : !other.blueprintId && other.blueprintName === result.blueprintName);
+    return sameExam[sameExam.findIndex(other => other.id === result.id) + 1];
+  };
+
+  const openModal = (blueprint: MockExamBlueprint | null) => {
+    setEditingBlueprint(blueprint);
+    setIsModalOpen(true);
+  };
+
+  const handleStart = (blueprint: MockExamBlueprint) => {
+    const draw = drawMockExamQuestions(blueprint);
+    if (draw.questionIds.length === 0) {
+      toast({
+        title: "Sem questões",
+        description: "Nenhuma questão atende a este simulado. Ajuste as matérias ou os filtros.",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (draw.shortages.length > 0) {
+      toast({
+        title: `Simulado com ${draw.questionIds.length} questões`,
+        description: draw.shortages.join('; ')
+      });
+    }
+    setViewingResult(null);
+    setExam({ config: configFromBlueprint(blueprint), questionIds: draw.questionIds });
+  };
+
+  const handleRetakeSameQuestions = (result: MockExamResult) => {
+    setViewingResult(null);
+    setExam({
+      config: {
+        blueprintId: result.blueprintId,
+        name: result.blueprintName,
+        timeLimitMinutes: result.timeLimitMinutes,
+        scoring: result.scoring,
+        cutoffScore: result.cutoffScore
+      },
+      questionIds: result.answers.map(answer => answer.questionId)
+    });
+  };
+
+  const handleFinish = (result: MockExamResult) => {
+    setExam(null);
+    loadData();
+    setViewingResult(result);
+  };
+
+  const handleDeleteBlueprint = (blueprint: MockExamBlueprint) => {
+    if (!confirm(`Excluir o simulado "${blueprint.name}"? Os resultados continuam no histórico.`)) return;
+
+    try {
+      deleteMockExamBlueprint(blueprint.id);
+      loadData();
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: "Erro ao excluir simulado",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteResult = (result: MockExamResult) => {
+    if (!confirm('Excluir este resultado do histórico? As respostas continuam nas estatísticas das questões.')) return;
+
+    try {
+      deleteMockExamResult(result.id);
+      loadData();
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: "Erro ao excluir resultado",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (isDBLoading || contextDBLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background to-muted p-4 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
+          <p className="text-muted-foreground">Carregando simulados...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (dbError || contextDBError) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background to-muted p-4 flex items-center justify-center">
+        <div className="text-center">
+          <AlertTriangle className="h-8 w-8 text-red-500 mx-auto mb-4" />
+          <p className="text-muted-foreground">Erro ao carregar o banco de dados: {dbError || contextDBError}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (exam) {
+    return (
+      <MockExamRunner
+        config={exam.config}
+        questionIds={exam.questionIds}
+        onFinish={handleFinish}
+        onBack={() => setExam(null)}
+      />
+    );
+  }
+
+  if (viewingResult) {
+    const blueprint = blueprints.find(item => item.id === viewingResult.blueprintId);
+    return (
+      <MockExamReport
+        result={viewingResult}
+        previous={previousResult(viewingResult)}
+        onRetakeSameQuestions={() => handleRetakeSameQuestions(viewingResult)}
+        onRetakeNewDraw={blueprint ? () => handleStart(blueprint) : undefined}
+        onBack={() => setViewingResult(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted p-4 pb-24">
+      <div className="max-w-5xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <Button variant="ghost" size="sm" onClick={() => navigate('/battle')}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold">📝 Simulados</h1>
+              <p className="text-muted-foreground">
+                Monte a prova, faça no tempo e compare com a nota de corte
+              </p>
+            </div>
+          </div>
+          <Button onClick={() => openModal(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Novo Simulado
+          </Button>
+        </div>
+
+        {blueprints.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <ClipboardList className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-lg font-semibold mb-2">Nenhum simulado criado</p>
+              <p className="text-muted-foreground">
+                Defina quantas questões de cada matéria, banca, anos, dificuldade, tempo e nota de corte.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {blueprints.map(blueprint => {
+              const blueprintResults = resultsOf(blueprint.id);
+              const totalQuestions = blueprint.sections.reduce((sum, section) => sum + section.questionCount, 0);
+              const best = blueprintResults.reduce<number | null>(
+                (max, result) => (max === null || result.scorePercent > max ? result.scorePercent : max), null
+              );
+              return (
+                <Card key={blueprint.id}>
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start justify-between">
+                      <CardTitle className="text-base">{blueprint.name}</CardTitle>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openModal(blueprint)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteBlueprint(blueprint)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex flex-wrap gap-2">
+                      <Badge variant="secondary">{totalQuestions} questões</Badge>
+                      <Badge variant="outline">
+                        <Clock className="h-3 w-3 mr-1" />
+                        {blueprint.timeLimitMinutes} min
+                      </Badge>
+                      <Badge variant="outline">Corte {formatPercent(blueprint.cutoffScore)}</Badge>
+                      <Badge variant="outline">{MOCK_EXAM_SCORING_LABELS[blueprint.scoring]}</Badge>
+                      {blueprint.examiningBoard && <Badge variant="outline">{blueprint.examiningBoard}</Badge>}
+                      {(blueprint.yearFrom || blueprint.yearTo) && (
+                        <Badge variant="outline">
+                          {blueprint.yearFrom ?? '…'}–{blueprint.yearTo ?? '…'}
+                        </Badge>
+                      )}
+                    </div>
+                    {blueprintResults.length > 0 && (
+                      <div className="text-sm text-muted-foreground">
+                        <span>Evolução: </span>
+                        {blueprintResults.slice(0, EVOLUTION_SIZE).reverse().map((result, index) => (
+                          <span key={result.id}>
+                            {index > 0 && ' → '}
+                            <span className={result.passed ? 'text-green-600' : 'text-red-600'}>
+                              {formatPercent(result.scorePercent)}
+                            </span>
+                          </span>
+                        ))}
+                        {best !== null && <span> · melhor {formatPercent(best)}</span>}
+                      </div>
+                    )}
+                    <Button size="sm" className="w-full" onClick={() => handleStart(blueprint)}>
+                      <Play className="h-4 w-4 mr-2" />
+                      {blueprintResults.length > 0 ? 'Refazer' : 'Iniciar'}
+                    </Button>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Histórico
+            </CardTitle>
+            <CardDescription>Cada prova entregue, da mais recente para a mais antiga</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {results.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhum simulado feito ainda.</p>
+            ) : (
+              <div className="space-y-2">
+                {results.map(result => (
+                  <div key={result.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                    <button className="flex-1 min-w-0 text-left" onClick={() => setViewingResult(result)}>
+                      <p className="font-medium truncate">{result.blueprintName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(result.finishedAt).toLocaleString('pt-BR')} · {result.correct} certas, {result.wrong} erradas, {result.blank} em branco
+                      </p>
+                    </button>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant={result.passed ? 'default' : 'destructive'}>
+                        {formatPercent(result.scorePercent)}
+                      </Badge>
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteResult(result)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <BlueprintModal
+        open={isModalOpen}
+        onOpenChange={setIsModalOpen}
+        blueprint={editingBlueprint}
+        subjects={subjects}
+        onSaved={loadData}
+      />
+    </div>
+  );
+};
+
+export default MockExamPage;
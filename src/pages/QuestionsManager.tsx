@@ -1,5 +1,5 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { Search, Plus, Filter, Target, AlertTriangle, BookOpen, Users, FileText, Upload, Download } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useDeferredValue, useRef } from 'react';
+import { Search, Plus, Filter, Target, AlertTriangle, BookOpen, Users, FileText, Upload, Download, Copy } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,12 +10,28 @@ import { QuestionsSection } from '@/components/questions/QuestionsSection';
 import { AddQuestionModal } from '@/components/questions/AddQuestionModal';
 import { ImportQuestionsModal } from '@/components/questions/ImportQuestionsModal';
 import { ExportQuestionsModal } from '@/components/questions/ExportQuestionsModal';
+import { DuplicateQuestionsModal } from '@/components/questions/DuplicateQuestionsModal';
+import { QuestionSearchFilters } from '@/components/questions/QuestionSearchFilters';
+import { QuestionSearchResults } from '@/components/questions/QuestionSearchResults';
+import { QuestionNotesPanel } from '@/components/questions/QuestionNotesPanel';
+import RichText from '@/components/RichText';
+import MediaImage from '@/components/media/MediaImage';
 import { Subject, Topic, Question } from '@/types/questions';
 import { useStudyContext } from '@/contexts/StudyContext';
-import { getQuestionsByTopic, deleteQuestion } from '@/db/crud/questions';
+import { getQuestionsByTopic, getQuestionById, deleteQuestion } from '@/db/crud/questions';
+import {
+  searchQuestions,
+  getQuestionFacets,
+  hasActiveSearch,
+  type QuestionFacets,
+  type QuestionSearchFilters as SearchFilters,
+  type QuestionSearchResult
+} from '@/db/crud/questionSearch';
+import type { Difficulty } from '@/types/battle';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { toast } from '@/hooks/use-toast';
 
+const EMPTY_FACETS: QuestionFacets = { examiningBoards: [], examYears: [], institutions: [], positions: [], tags: [] };
 
 export default function QuestionsManager() {
   // Get subjects from StudyContext (the same ones used in planner)
@@ -48,6 +64,8 @@ export default function QuestionsManager() {
               correctAnswer: q.correctAnswer,
               explanation: q.explanation,
               difficulty: q.difficulty,
+              notes: q.notes,
+              highlights: q.highlights,
               tags: q.tags || [],
               createdAt: q.createdAt,
               updatedAt: q.updatedAt
@@ -68,21 +86,41 @@ export default function QuestionsManager() {
   const [selectedSubject, setSelectedSubject] = useState<string>('all');
   const [selectedDifficulty, setSelectedDifficulty] = useState<string>('all');
   const [showEnemiesOnly, setShowEnemiesOnly] = useState(false);
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>({});
+  const [facets, setFacets] = useState<QuestionFacets>(EMPTY_FACETS);
+  const [searchResult, setSearchResult] = useState<QuestionSearchResult | null>(null);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [isDuplicatesModalOpen, setIsDuplicatesModalOpen] = useState(false);
   const [selectedTopic, setSelectedTopic] = useState<Topic | null>(null);
+  const [editingQuestion, setEditingQuestion] = useState<Question | null>(null);
   const [viewedQuestion, setViewedQuestion] = useState<Question | null>(null);
   const [isViewOpen, setIsViewOpen] = useState(false);
+  const viewStatementRef = useRef<HTMLDivElement>(null);
+
+  // A busca roda a cada tecla; o valor adiado mantém o campo responsivo
+  const deferredSearchTerm = useDeferredValue(searchTerm);
+  const isSearching = hasActiveSearch(deferredSearchTerm, searchFilters);
+
+  // Questões recarregadas (subjects) também atualizam filtros e resultados
+  useEffect(() => {
+    setFacets(getQuestionFacets());
+  }, [subjects]);
+
+  useEffect(() => {
+    setSearchResult(isSearching
+      ? searchQuestions(deferredSearchTerm, {
+          ...searchFilters,
+          subjectId: selectedSubject === 'all' ? undefined : selectedSubject,
+          difficulty: selectedDifficulty === 'all' ? undefined : selectedDifficulty as Difficulty
+        })
+      : null);
+  }, [isSearching, deferredSearchTerm, searchFilters, selectedSubject, selectedDifficulty, subjects]);
 
   const filteredSubjects = useMemo(() => {
     return subjects.filter(subject => {
-      const matchesSearch = subject.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        subject.topics.some(topic => topic.name.toLowerCase().includes(searchTerm.toLowerCase()));
-      
-      const matchesSubject = selectedSubject === 'all' || subject.id === selectedSubject;
-      
-      return matchesSearch && matchesSubject;
+      return selectedSubject === 'all' || subject.id === selectedSubject;
     }).map(subject => ({
       ...subject,
       topics: subject.topics.filter(topic => {
@@ -92,7 +130,7 @@ export default function QuestionsManager() {
         return matchesDifficulty && matchesEnemyFilter;
       })
     })).filter(subject => subject.topics.length > 0);
-  }, [subjects, searchTerm, selectedSubject, selectedDifficulty, showEnemiesOnly]);
+  }, [subjects, selectedSubject, selectedDifficulty, showEnemiesOnly]);
 
   const stats = useMemo(() => {
     const totalTopics = subjects.reduce((acc, subject) => acc + subject.topics.length, 0);
@@ -141,6 +179,8 @@ export default function QuestionsManager() {
               correctAnswer: q.correctAnswer,
               explanation: q.explanation,
               difficulty: q.difficulty,
+              notes: q.notes,
+              highlights: q.highlights,
               tags: q.tags || [],
               createdAt: q.createdAt,
               updatedAt: q.updatedAt
@@ -159,10 +199,16 @@ export default function QuestionsManager() {
   };
 
   const handleViewQuestion = (q: Question) => {
-    setViewedQuestion(q);
+    // A lista por tema não traz imagens; a visualização parte da questão completa
+    setViewedQuestion(getQuestionById(q.id) ?? q);
     setIsViewOpen(true);
   };
 
+  const handleNotesSaved = (notes: string, highlights: string[]) => {
+    setViewedQuestion(prev => prev && { ...prev, notes: notes || undefined, highlights });
+    handleQuestionAdded();
+  };
+
   const handleDeleteQuestion = (id: string) => {
     const ok = deleteQuestion(id);
     if (ok) {
@@ -174,7 +220,14 @@ export default function QuestionsManager() {
   };
 
   const handleEditQuestion = (q: Question) => {
-    toast({ title: 'Em breve', description: 'Edição de questões será adicionada em breve.' });
+    // A lista por tema não traz imagens e metadados; a edição parte da questão completa
+    const question = getQuestionById(q.id);
+    if (!question) {
+      toast({ title: 'Erro', description: 'Questão não encontrada.', variant: 'destructive' });
+      return;
+    }
+    setEditingQuestion(question);
+    setIsAddModalOpen(true);
   };
 
   return (
@@ -199,12 +252,16 @@ export default function QuestionsManager() {
               </Button>
               <Button onClick={() => setIsImportModalOpen(true)} variant="outline" className="gap-2">
                 <Upload className="h-4 w-4" />
-                Importar JSON
+                Importar
               </Button>
               <Button onClick={() => setIsExportModalOpen(true)} variant="outline" className="gap-2">
                 <Download className="h-4 w-4" />
                 Exportar
               </Button>
+              <Button onClick={() => setIsDuplicatesModalOpen(true)} variant="outline" className="gap-2">
+                <Copy className="h-4 w-4" />
+                Duplicadas
+              </Button>
             </div>
           </div>
 
@@ -278,7 +335,7 @@ export default function QuestionsManager() {
                 <div className="relative">
                   <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                   <Input
-                    placeholder="Buscar por matéria ou tema..."
+                    placeholder="Buscar no enunciado, alternativas ou explicação..."
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
                     className="pl-10"
@@ -323,6 +380,14 @@ export default function QuestionsManager() {
                 </Button>
               </div>
             </div>
+
+            <div className="mt-4">
+              <QuestionSearchFilters
+                facets={facets}
+                filters={searchFilters}
+                onFiltersChange={setSearchFilters}
+              />
+            </div>
           </CardContent>
         </Card>
       </div>
@@ -330,7 +395,14 @@ export default function QuestionsManager() {
       {/* Content */}
       <div className="max-w-7xl mx-auto">
         <div className="space-y-6">
-          {filteredSubjects.length === 0 ? (
+          {searchResult ? (
+            <QuestionSearchResults
+              result={searchResult}
+              onViewQuestion={handleViewQuestion}
+              onEditQuestion={handleEditQuestion}
+              onDeleteQuestion={handleDeleteQuestion}
+            />
+          ) : filteredSubjects.length === 0 ? (
             <Card>
               <CardContent className="p-12 text-center">
                 <BookOpen className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -374,8 +446,10 @@ export default function QuestionsManager() {
         onClose={() => {
           setIsAddModalOpen(false);
           setSelectedTopic(null);
+          setEditingQuestion(null);
         }}
         topic={selectedTopic}
+        question={editingQuestion}
         subjects={subjects}
         onQuestionAdded={handleQuestionAdded}
       />
@@ -387,11 +461,88 @@ export default function QuestionsManager() {
         onQuestionsImported={handleQuestionAdded}
       />
 
+      <Dialog open={isViewOpen} onOpenChange={setIsViewOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          {viewedQuestion && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{viewedQuestion.title}</DialogTitle>
+                <DialogDescription>
+                  {[viewedQuestion.examiningBoard, viewedQuestion.examYear, viewedQuestion.institution]
+                    .filter(Boolean)
+                    .join(' · ') || 'Selecione trechos do enunciado para destacá-los'}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div ref={viewStatementRef}>
+                  <RichText text={viewedQuestion.content} highlights={viewedQuestion.highlights} />
+                </div>
+
+                {viewedQuestion.images && viewedQuestion.images.length > 0 && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {viewedQuestion.images.map((image, index) => (
+                      <MediaImage
+                        key={index}
+                        src={image}
+                        alt={`Imagem da questão ${index + 1}`}
+                        className="w-full max-h-64 object-contain rounded-lg border"
+                      />
+                    ))}
+                  </div>
+                )}
+
+                {viewedQuestion.options && viewedQuestion.options.length > 0 ? (
+                  <div className="space-y-2">
+                    {viewedQuestion.options.map(option => (
+                      <div
+                        key={option.id ?? option.label}
+                        className={`p-3 border rounded-lg text-sm ${option.isCorrect ? 'border-study-success bg-study-success/10' : ''}`}
+                      >
+                        <span className="font-medium mr-2">{option.label})</span>
+                        <RichText text={option.content} inline />
+                      </div>
+                    ))}
+                  </div>
+                ) : viewedQuestion.correctAnswer && (
+                  <div>
+                    <p className="font-medium text-sm mb-1">Gabarito</p>
+                    <RichText text={viewedQuestion.correctAnswer} className="prose-sm" />
+                  </div>
+                )}
+
+                {viewedQuestion.explanation && (
+                  <div>
+                    <p className="font-medium text-sm mb-1">Explicação</p>
+                    <RichText text={viewedQuestion.explanation} className="prose-sm prose-p:text-muted-foreground" />
+                  </div>
+                )}
+
+                <QuestionNotesPanel
+                  key={viewedQuestion.id}
+                  questionId={viewedQuestion.id}
+                  notes={viewedQuestion.notes}
+                  highlights={viewedQuestion.highlights}
+                  statementRef={viewStatementRef}
+                  onSaved={handleNotesSaved}
+                />
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
       <ExportQuestionsModal
         isOpen={isExportModalOpen}
         onClose={() => setIsExportModalOpen(false)}
         subjects={subjects}
       />
+
+      <DuplicateQuestionsModal
+        isOpen={isDuplicatesModalOpen}
+        onClose={() => setIsDuplicatesModalOpen(false)}
+        onQuestionsMerged={handleQuestionAdded}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,229 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { CalendarCheck, CheckCircle, CreditCard, Loader2, Play, SkipForward, Sword, Target } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { buildTodayQueue, skipTodayItem, type TodayItemKind, type TodayQueue, type TodayQueueItem } from '@/db/crud/todayQueue';
+import { getEnemyQuestions } from '@/db/crud/enemies';
+import { completeEnemyReview } from '@/db/crud/enemyReviews';
+import { getWorstRoom } from '@/db/crud/questionReviews';
+import type { FlashcardWithTopic } from '@/db/crud/flashcards';
+import { renderClozeText } from '@/utils/cloze';
+import FlashcardReviewSession from '@/components/study/FlashcardReviewSession';
+import BattleArena from '@/components/battle/BattleArena';
+
+// Itens seguidos do mesmo tipo feitos numa mesma sessão
+const MAX_SEGMENT_SIZE = 20;
+
+const KIND_LABELS: Record<TodayItemKind, string> = {
+  flashcard: 'Flashcard',
+  question: 'Questão',
+  enemy: 'Inimigo'
+};
+
+const KIND_ICONS: Record<TodayItemKind, React.ElementType> = {
+  flashcard: CreditCard,
+  question: Target,
+  enemy: Sword
+};
+
+/**
+ * Próximo bloco da fila: um inimigo sozinho ou uma sequência de flashcards/questões
+ */
+const takeSegment = (items: TodayQueueItem[]): TodayQueueItem[] => {
+  const [head] = items;
+  if (!head || head.kind === 'enemy') return head ? [head] : [];
+
+  const segment: TodayQueueItem[] = [];
+  for (const item of items) {
+    if (item.kind !== head.kind || segment.length >= MAX_SEGMENT_SIZE) break;
+    segment.push(item);
+  }
+  return segment;
+};
+
+const TodayPage = () => {
+  const [queue, setQueue] = useState<TodayQueue | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [segment, setSegment] = useState<TodayQueueItem[] | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      setQueue(await buildTodayQueue());
+    } catch (error) {
+      console.error('Error loading today queue:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível montar a fila de hoje",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const finishSegment = () => {
+    setSegment(null);
+    loadQueue();
+  };
+
+  const handleEnemyComplete = (topicId: string) => {
+    completeEnemyReview(topicId);
+    finishSegment();
+  };
+
+  const handleSkip = (item: TodayQueueItem) => {
+    skipTodayItem(item.key);
+    loadQueue();
+  };
+
+  const renderLabel = (item: TodayQueueItem) =>
+    item.flashcard?.type === 'cloze' && item.flashcard.cloze_index
+      ? renderClozeText(item.label, item.flashcard.cloze_index, true)
+      : item.label;
+
+  if (segment && segment.length > 0) {
+    const [head] = segment;
+
+    if (head.kind === 'flashcard') {
+      return (
+        <div className="min-h-screen bg-gradient-to-br from-background to-muted p-4 pb-24">
+          <div className="max-w-4xl mx-auto">
+            <FlashcardReviewSession
+              cards={segment.map(item => item.flashcard).filter((card): card is FlashcardWithTopic => !!card)}
+              onComplete={finishSegment}
+              onClose={finishSegment}
+              title="Revisão de Hoje"
+            />
+          </div>
+        </div>
+      );
+    }
+
+    if (head.kind === 'question') {
+      return (
+        <BattleArena
+          questionIds={segment.map(item => item.id)}
+          room={getWorstRoom(segment.map(item => item.room ?? 'triagem'))}
+          onComplete={finishSegment}
+          onBack={finishSegment}
+        />
+      );
+    }
+
+    return (
+      <BattleArena
+        questionIds={getEnemyQuestions(head.topicId).map(q => q.id)}
+        room={head.room ?? 'triagem'}
+        onComplete={() => handleEnemyComplete(head.topicId)}
+        onBack={finishSegment}
+      />
+    );
+  }
+
+  const doneToday = queue ? queue.reviewsDone + queue.newDone : 0;
+  const remaining = queue?.items.length ?? 0;
+  const progress = doneToday + remaining > 0 ? (doneToday / (doneToday + remaining)) * 100 : 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted p-4 pb-24">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center space-x-3">
+          <div className="p-3 rounded-full bg-gradient-to-r from-study-primary to-study-accent">
+            <CalendarCheck className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold">📅 Hoje</h1>
+            <p className="text-muted-foreground">
+              Flashcards, questões e inimigos do dia numa única fila, por urgência
+            </p>
+          </div>
+        </div>
+
+        {loading && !queue ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : queue && (
+          <>
+            <Card>
+              <CardContent className="p-4 space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-2xl font-bold">{doneToday} / {doneToday + remaining}</p>
+                    <p className="text-sm text-muted-foreground">Itens feitos hoje</p>
+                  </div>
+                  <Button onClick={() => setSegment(takeSegment(queue.items))} disabled={remaining === 0}>
+                    <Play className="h-4 w-4 mr-2" />
+                    {doneToday > 0 ? 'Continuar' : 'Começar'}
+                  </Button>
+                </div>
+                <Progress value={progress} />
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline">Revisões: {queue.reviewsDone} / {queue.reviewLimit}</Badge>
+                  <Badge variant="outline">Novos: {queue.newDone} / {queue.newLimit}</Badge>
+                  {queue.deferred > 0 && (
+                    <Badge variant="secondary">{queue.deferred} revisões ficam para amanhã (limite diário)</Badge>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  Fila de hoje
+                  <Badge variant="outline">{remaining} itens</Badge>
+                </CardTitle>
+                <CardDescription>
+                  Revisões com maior risco de esquecimento primeiro, depois o material novo
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {remaining === 0 ? (
+                  <div className="text-center py-8">
+                    <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+                    <p className="text-muted-foreground">Tudo em dia! Nada mais para hoje.</p>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {queue.items.map(item => {
+                      const Icon = KIND_ICONS[item.kind];
+                      return (
+                        <div key={item.key} className="flex items-center justify-between gap-4 border rounded-md p-3">
+                          <div className="flex items-start gap-3 min-w-0">
+                            <Icon className="h-4 w-4 mt-1 shrink-0 text-muted-foreground" />
+                            <div className="min-w-0 space-y-1">
+                              <div className="flex flex-wrap items-center gap-2">
+                                <Badge variant="outline">{KIND_LABELS[item.kind]}</Badge>
+                                {item.isNew && <Badge variant="secondary">Novo</Badge>}
+                              </div>
+                              <p className="text-sm font-medium line-clamp-2">{renderLabel(item)}</p>
+                              <p className="text-xs text-muted-foreground">{item.subjectName} • {item.topicName}</p>
+                            </div>
+                          </div>
+                          <Button variant="ghost" size="sm" onClick={() => handleSkip(item)} title="Deixar para o fim">
+                            <SkipForward className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TodayPage;
@@ -2,6 +2,12 @@ export type Room = 'triagem' | 'vermelha' | 'amarela' | 'verde';
 export type ConfidenceLevel = 'certeza' | 'duvida' | 'chute';
 export type Difficulty = 'easy' | 'medium' | 'hard';
 export type ErrorType = 'interpretacao' | 'conteudo' | 'distracao' | 'nao_definido';
+// Certo/errado (estilo Cebraspe) guarda o gabarito como 'Certo' ou 'Errado', sem alternativas.
+// Discursiva guarda a resposta modelo no gabarito e é autocorrigida pela rubrica;
+// resposta curta compara texto (sem acento/caixa) ou número com tolerância.
+export type QuestionType = 'multiple_choice' | 'true_false' | 'discursive' | 'short_answer';
+// 'net': cada erro anula um acerto (nota líquida = certos − errados)
+export type ScoringPolicy = 'standard' | 'net';
 
 export interface Question {
   id: string;
@@ -12,6 +18,11 @@ export interface Question {
   correctAnswer: string;
   explanation?: string;
   difficulty: Difficulty;
+  questionType?: QuestionType; // Ausente = múltipla escolha
+  rubric?: RubricCriterion[]; // Critérios da autocorreção (discursivas)
+  answerTolerance?: number; // Diferença aceita em respostas numéricas (resposta curta)
+  notes?: string; // Anotações pessoais (Markdown)
+  highlights?: string[]; // Trechos do enunciado destacados pelo usuário
   tags?: string[];
   images?: string[];
   examiningBoard?: string;
@@ -36,12 +47,19 @@ export interface QuestionOption {
   isCorrect: boolean;
 }
 
+export interface RubricCriterion {
+  description: string;
+  weight: number;
+}
+
 export interface QuestionAttempt {
   id: string;
   questionId: string;
   battleSessionId?: string;
-  answer: string;
+  answer: string; // Vazia quando deixada em branco
   isCorrect: boolean;
+  score?: number; // Nota parcial de 0 a 1 (discursivas); ausente = 1 se correta, 0 se não
+  rubricGrades?: number[]; // Fração atendida de cada critério da rubrica
   confidenceLevel: ConfidenceLevel;
   errorType?: ErrorType;
   timeTaken?: number;
@@ -22,6 +22,9 @@ export interface Enemy {
   isBlocked: boolean;
   currentReviewCycle: number;
   totalReviews: number;
+  // Sanguessuga: falhou repetidamente nas revisões
+  isLeech?: boolean;
+  isSuspended?: boolean;
 }
 
 export interface EnemyStats {
@@ -1,3 +1,5 @@
+import type { QuestionType, RubricCriterion } from './battle';
+
 export interface Subject {
   id: string;
   name: string;
@@ -25,6 +27,11 @@ export interface Question {
   correctAnswer?: string;
   explanation?: string;
   difficulty: 'easy' | 'medium' | 'hard';
+  questionType?: QuestionType;
+  rubric?: RubricCriterion[];
+  answerTolerance?: number;
+  notes?: string;
+  highlights?: string[];
   tags?: string[];
   images?: string[];
   examiningBoard?: string;
@@ -49,10 +56,44 @@ export interface QuestionFormData {
   correctAnswer?: string;
   explanation?: string;
   difficulty: 'easy' | 'medium' | 'hard';
+  questionType: QuestionType;
+  rubric: RubricCriterion[];
+  answerTolerance: string; // Texto do campo; vazio = sem tolerância
   tags: string[];
   images?: string[];
   examiningBoard?: string;
   position?: string;
   examYear?: string;
   institution?: string;
-}
\ No newline at end of file
+}
+export interface ImportQuestion {
+  topicId?: string;
+  title: string;
+  content: string;
+  options?: Array<{
+    label: string;
+    content: string;
+    isCorrect: boolean;
+  }>;
+  correctAnswer?: string;
+  explanation?: string;
+  difficulty?: 'easy' | 'medium' | 'hard';
+  questionType?: QuestionType;
+  rubric?: RubricCriterion[];
+  answerTolerance?: number;
+  notes?: string;
+  highlights?: string[];
+  tags?: string[];
+  images?: string[];
+  examiningBoard?: string;
+  position?: string;
+  examYear?: string;
+  institution?: string;
+}
+
+// Resultado da leitura de um arquivo de questões (CSV, Moodle XML, GIFT) antes da importação
+export interface ImportParseResult {
+  questions: ImportQuestion[];
+  errors: string[];   // Questões/linhas descartadas
+  warnings: string[]; // Importadas com ressalvas (ex.: tópico não encontrado, recurso não suportado)
+}
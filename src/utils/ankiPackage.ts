@@ -0,0 +1,459 @@
+import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
+import { strToU8, unzipSync, zipSync } from 'fflate';
+
+/**
+ * Leitura e escrita de pacotes do Anki (.apkg)
+ * Um .apkg é um zip com a coleção em SQLite (collection.anki2 / collection.anki21)
+ * e um arquivo "media" com o mapa das mídias. Este módulo só converte entre o
+ * formato do Anki e estruturas simples; a gravação no banco fica em db/crud/ankiPackages.
+ */
+
+export type AnkiCardKind = 'basic' | 'cloze';
+
+export interface AnkiCardData {
+  ankiId: number;
+  noteId: number;
+  deckName: string;
+  kind: AnkiCardKind;
+  front: string;           // Em cartões de omissão, o texto da nota com {{cN::...}}
+  back: string;            // Em cartões de omissão, o campo Extra
+  clozeIndex?: number;
+  tags: string[];
+  isNew: boolean;
+  dueDate?: Date;
+  interval: number;
+  easeFactor: number;
+  reviews: number;
+  lapses: number;
+}
+
+export interface AnkiReviewData {
+  id: number;              // Timestamp (ms) da revisão, único na coleção
+  cardId: number;
+  ease: number;            // 1 = de novo, 2 = difícil, 3 = bom, 4 = fácil
+  interval: number;        // Dias (valores negativos do Anki = segundos de aprendizado)
+  lastInterval: number;
+  timeMs: number;
+}
+
+export interface AnkiPackageContent {
+  cards: AnkiCardData[];
+  reviews: AnkiReviewData[];
+}
+
+export interface AnkiExportCard {
+  noteKey: string;         // Cartões com a mesma chave viram uma única nota (irmãos de omissão)
+  deckName: string;
+  kind: AnkiCardKind;
+  front: string;
+  back: string;
+  clozeIndex?: number;
+  tags: string[];
+  isNew: boolean;
+  dueDate?: Date;
+  interval: number;
+  easeFactor: number;
+  reviews: number;
+  lapses: number;
+  reviewLog: Array<{ reviewedAt: Date; ease: number; interval: number; lastInterval: number; timeMs: number }>;
+}
+
+interface AnkiModel {
+  type: number;
+  flds: Array<{ name: string; ord: number }>;
+  tmpls: Array<{ ord: number; qfmt: string; afmt: string }>;
+}
+
+const DAY_SECONDS = 86400;
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+const getSqlJs = (): Promise<SqlJsStatic> => {
+  if (!sqlJsPromise) {
+    sqlJsPromise = initSqlJs({
+      locateFile: (file: string) => `https://sql.js.org/dist/${file}`
+    });
+  }
+  return sqlJsPromise;
+};
+
+const queryRows = (db: Database, sql: string): Record<string, unknown>[] => {
+  const stmt = db.prepare(sql);
+  const rows: Record<string, unknown>[] = [];
+  while (stmt.step()) {
+    rows.push(stmt.getAsObject());
+  }
+  stmt.free();
+  return rows;
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+/**
+ * Converte o HTML de um campo do Anki em texto simples (quebras de linha preservadas)
+ */
+export const ankiHtmlToText = (html: string): string =>
+  html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const textToAnkiHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br>');
+
+/**
+ * Campos da nota referenciados por um template ({{Campo}}, {{text:Campo}}, {{cloze:Campo}}...)
+ */
+const templateFields = (template: string, fieldNames: string[]): string[] => {
+  const fields: string[] = [];
+  for (const match of template.matchAll(/\{\{([^#^/}][^}]*)\}\}/g)) {
+    const name = match[1].split(':').pop()!.trim();
+    if (fieldNames.includes(name) && !fields.includes(name)) {
+      fields.push(name);
+    }
+  }
+  return fields;
+};
+
+/**
+ * Extrai cartões e histórico de revisões de uma coleção do Anki já aberta
+ */
+export const parseAnkiCollection = (db: Database): AnkiPackageContent => {
+  const [col] = queryRows(db, 'SELECT crt, models, decks FROM col');
+  if (!col) {
+    throw new Error('Coleção do Anki inválida');
+  }
+
+  const crt = col.crt as number;
+  const models = JSON.parse(col.models as string) as Record<string, AnkiModel>;
+  const decks = JSON.parse(col.decks as string) as Record<string, { name: string }>;
+  const nowSeconds = Date.now() / 1000;
+  const todayIndex = Math.floor((nowSeconds - crt) / DAY_SECONDS);
+
+  const notes = new Map<number, { mid: string; fields: string[]; tags: string[] }>();
+  queryRows(db, 'SELECT id, mid, flds, tags FROM notes').forEach(row => {
+    notes.set(row.id as number, {
+      mid: String(row.mid),
+      fields: (row.flds as string).split('\x1f'),
+      tags: (row.tags as string).split(/\s+/).filter(Boolean)
+    });
+  });
+
+  const cards: AnkiCardData[] = [];
+  queryRows(db, 'SELECT id, nid, did, ord, type, queue, due, ivl, factor, reps, lapses, odue, odid FROM cards').forEach(row => {
+    const note = notes.get(row.nid as number);
+    const model = note ? models[note.mid] : undefined;
+    if (!note || !model) return;
+
+    const fieldNames = [...model.flds].sort((a, b) => a.ord - b.ord).map(field => field.name);
+    const fieldValue = (name: string) => ankiHtmlToText(note.fields[fieldNames.indexOf(name)] ?? '');
+    const ord = row.ord as number;
+
+    let front: string;
+    let back: string;
+    if (model.type === 1) {
+      front = ankiHtmlToText(note.fields[0] ?? '');
+      back = ankiHtmlToText(note.fields[1] ?? '');
+    } else {
+      const template = model.tmpls.find(tmpl => tmpl.ord === ord) || model.tmpls[0];
+      const questionFields = template ? templateFields(template.qfmt, fieldNames) : [fieldNames[0]];
+      const answerFields = template
+        ? templateFields(template.afmt, fieldNames).filter(name => !questionFields.includes(name))
+        : fieldNames.slice(1, 2);
+      front = questionFields.map(fieldValue).filter(Boolean).join('\n');
+      back = answerFields.map(fieldValue).filter(Boolean).join('\n');
+    }
+    if (!front) return;
+
+    // Cartões em baralhos filtrados guardam o baralho e a data originais em odid/odue
+    const deckId = (row.odid as number) || (row.did as number);
+    const due = (row.odid as number) ? (row.odue as number) : (row.due as number);
+    const type = row.type as number;
+    const queue = row.queue as number;
+    const isNew = type === 0;
+
+    let dueDate: Date | undefined;
+    if (!isNew) {
+      // Fila 1 (aprendizado) usa timestamp em segundos; as demais, dias desde a criação da coleção
+      dueDate = queue === 1
+        ? new Date(due * 1000)
+        : new Date((nowSeconds + (due - todayIndex) * DAY_SECONDS) * 1000);
+    }
+
+    cards.push({
+      ankiId: row.id as number,
+      noteId: row.nid as number,
+      deckName: decks[String(deckId)]?.name || 'Default',
+      kind: model.type === 1 ? 'cloze' : 'basic',
+      front,
+      back,
+      clozeIndex: model.type === 1 ? ord + 1 : undefined,
+      tags: note.tags,
+      isNew,
+      dueDate,
+      interval: Math.max(0, row.ivl as number),
+      easeFactor: (row.factor as number) > 0 ? (row.factor as number) / 1000 : 2.5,
+      reviews: row.reps as number,
+      lapses: row.lapses as number
+    });
+  });
+
+  const reviews: AnkiReviewData[] = queryRows(db, 'SELECT id, cid, ease, ivl, lastIvl, time, type FROM revlog')
+    // Tipo 4 = reagendamento manual, sem resposta do usuário
+    .filter(row => (row.ease as number) > 0 && (row.type as number) !== 4)
+    .map(row => ({
+      id: row.id as number,
+      cardId: row.cid as number,
+      ease: row.ease as number,
+      interval: row.ivl as number,
+      lastInterval: row.lastIvl as number,
+      timeMs: row.time as number
+    }));
+
+  return { cards, reviews };
+};
+
+/**
+ * Abre um arquivo .apkg e extrai seus cartões e revisões
+ */
+export const readAnkiPackage = async (data: ArrayBuffer | Uint8Array): Promise<AnkiPackageContent> => {
+  const files = unzipSync(data instanceof Uint8Array ? data : new Uint8Array(data));
+
+  // Pacotes novos trazem em collection.anki2 apenas uma nota pedindo atualização do Anki
+  if (files['collection.anki21b'] && !files['collection.anki21']) {
+    throw new Error('Pacote no formato novo do Anki. Exporte novamente marcando "Suporte a versões antigas do Anki".');
+  }
+
+  const collection = files['collection.anki21'] || files['collection.anki2'];
+  if (!collection) {
+    throw new Error('Arquivo .apkg inválido: coleção não encontrada');
+  }
+
+  const SQL = await getSqlJs();
+  const db = new SQL.Database(collection);
+  try {
+    return parseAnkiCollection(db);
+  } finally {
+    db.close();
+  }
+};
+
+const COLLECTION_SCHEMA = `
+  CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+    ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null,
+    models text not null, decks text not null, dconf text not null, tags text not null);
+  CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null,
+    usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null,
+    flags integer not null, data text not null);
+  CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null,
+    mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null,
+    ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null,
+    odue integer not null, odid integer not null, flags integer not null, data text not null);
+  CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+    ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn on notes (usn);
+  CREATE INDEX ix_cards_usn on cards (usn);
+  CREATE INDEX ix_revlog_usn on revlog (usn);
+  CREATE INDEX ix_cards_nid on cards (nid);
+  CREATE INDEX ix_cards_sched on cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid on revlog (cid);
+  CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const BASIC_MODEL_ID = 1700000000001;
+const CLOZE_MODEL_ID = 1700000000002;
+const MODEL_CSS = '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }\n.cloze { font-weight: bold; color: blue; }';
+
+const buildField = (name: string, ord: number) => ({
+  name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: []
+});
+
+const buildModels = (deckId: number, mod: number) => ({
+  [BASIC_MODEL_ID]: {
+    id: BASIC_MODEL_ID, name: 'Básico (Flashcards)', type: 0, mod, usn: -1, sortf: 0, did: deckId,
+    tmpls: [{
+      name: 'Cartão 1', ord: 0, qfmt: '{{Frente}}', afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Verso}}',
+      did: null, bqfmt: '', bafmt: ''
+    }],
+    flds: [buildField('Frente', 0), buildField('Verso', 1)],
+    css: MODEL_CSS, latexPre: '', latexPost: '', tags: [], vers: [], req: [[0, 'any', [0]]]
+  },
+  [CLOZE_MODEL_ID]: {
+    id: CLOZE_MODEL_ID, name: 'Omissão (Flashcards)', type: 1, mod, usn: -1, sortf: 0, did: deckId,
+    tmpls: [{
+      name: 'Omissão', ord: 0, qfmt: '{{cloze:Texto}}', afmt: '{{cloze:Texto}}<br>\n{{Extra}}',
+      did: null, bqfmt: '', bafmt: ''
+    }],
+    flds: [buildField('Texto', 0), buildField('Extra', 1)],
+    css: MODEL_CSS, latexPre: '', latexPost: '', tags: [], vers: []
+  }
+});
+
+const buildDeck = (id: number, name: string, mod: number) => ({
+  id, name, mod, usn: -1, desc: '', dyn: 0, conf: 1, collapsed: false, extendNew: 10, extendRev: 50,
+  newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0]
+});
+
+const DECK_CONFIG = {
+  1: {
+    id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+    new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, separate: true, order: 1, perDay: 20, bury: false },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+    rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: false, hardFactor: 1.2 }
+  }
+};
+
+/**
+ * Soma de verificação usada pelo Anki para detectar duplicatas (8 primeiros dígitos do SHA-1)
+ */
+const fieldChecksum = async (text: string): Promise<number> => {
+  const digest = await crypto.subtle.digest('SHA-1', strToU8(text));
+  const hex = Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+  return parseInt(hex.slice(0, 8), 16);
+};
+
+/**
+ * Grava os cartões em uma coleção do Anki vazia
+ */
+export const writeAnkiCollection = async (db: Database, cards: AnkiExportCard[], now: Date = new Date()): Promise<void> => {
+  const mod = now.getTime();
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  // Coleção "criada" no dia da revisão mais antiga, para que nenhum vencimento fique negativo
+  const earliest = cards.reduce((min, card) => (card.dueDate && card.dueDate < min ? card.dueDate : min), today);
+  const crtDate = new Date(earliest);
+  crtDate.setHours(0, 0, 0, 0);
+  const crt = Math.floor(crtDate.getTime() / 1000);
+
+  const deckIds = new Map<string, number>();
+  cards.forEach(card => {
+    if (!deckIds.has(card.deckName)) deckIds.set(card.deckName, mod + deckIds.size + 1);
+  });
+  const decks: Record<string, unknown> = { 1: buildDeck(1, 'Default', mod) };
+  deckIds.forEach((id, name) => {
+    decks[id] = buildDeck(id, name, mod);
+  });
+  const firstDeckId = deckIds.values().next().value ?? 1;
+
+  db.run(COLLECTION_SCHEMA);
+  db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+    crt,
+    mod,
+    mod,
+    JSON.stringify({ nextPos: cards.length + 1, curDeck: firstDeckId, activeDecks: [firstDeckId], curModel: BASIC_MODEL_ID, estTimes: true, dueCounts: true, newSpread: 0, collapseTime: 1200, timeLim: 0, sortType: 'noteFld', sortBackwards: false, addToCur: true }),
+    JSON.stringify(buildModels(firstDeckId, Math.floor(mod / 1000))),
+    JSON.stringify(decks),
+    JSON.stringify(DECK_CONFIG),
+    '{}'
+  ]);
+
+  const notes = new Map<string, AnkiExportCard[]>();
+  cards.forEach(card => {
+    notes.set(card.noteKey, [...(notes.get(card.noteKey) || []), card]);
+  });
+
+  let nextId = mod;
+  let newPosition = 1;
+  const usedReviewIds = new Set<number>();
+  const noteStmt = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+  const cardStmt = db.prepare('INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, \'\')');
+  const revlogStmt = db.prepare('INSERT INTO revlog VALUES (?, ?, -1, ?, ?, ?, ?, ?, ?)');
+
+  for (const [noteKey, siblings] of notes) {
+    const first = siblings[0];
+    const noteId = nextId++;
+    const fields = [textToAnkiHtml(first.front), textToAnkiHtml(first.back)];
+    noteStmt.run([
+      noteId,
+      noteKey,
+      first.kind === 'cloze' ? CLOZE_MODEL_ID : BASIC_MODEL_ID,
+      Math.floor(mod / 1000),
+      // Tags do Anki: separadas por espaço, com espaços nas pontas
+      first.tags.length > 0 ? ` ${first.tags.map(tag => tag.replace(/\s+/g, '_')).join(' ')} ` : '',
+      fields.join('\x1f'),
+      first.front,
+      await fieldChecksum(first.front)
+    ]);
+
+    siblings.forEach(card => {
+      const cardId = nextId++;
+      const due = card.isNew
+        ? newPosition++
+        : Math.max(0, Math.floor(((card.dueDate || today).getTime() / 1000 - crt) / DAY_SECONDS));
+      const factor = Math.round(card.easeFactor * 1000);
+
+      cardStmt.run([
+        cardId,
+        noteId,
+        deckIds.get(card.deckName)!,
+        card.kind === 'cloze' ? (card.clozeIndex ?? 1) - 1 : 0,
+        Math.floor(mod / 1000),
+        card.isNew ? 0 : 2,
+        card.isNew ? 0 : 2,
+        due,
+        card.isNew ? 0 : Math.max(1, card.interval),
+        card.isNew ? 0 : factor,
+        card.reviews,
+        card.lapses
+      ]);
+
+      card.reviewLog.forEach(review => {
+        let reviewId = review.reviewedAt.getTime();
+        while (usedReviewIds.has(reviewId)) reviewId++;
+        usedReviewIds.add(reviewId);
+        revlogStmt.run([
+          reviewId,
+          cardId,
+          review.ease,
+          review.interval,
+          review.lastInterval,
+          factor,
+          Math.min(60000, review.timeMs),
+          review.lastInterval > 0 ? 1 : 0
+        ]);
+      });
+    });
+  }
+
+  noteStmt.free();
+  cardStmt.free();
+  revlogStmt.free();
+};
+
+/**
+ * Monta um arquivo .apkg que o Anki consegue importar
+ */
+export const buildAnkiPackage = async (cards: AnkiExportCard[]): Promise<Uint8Array> => {
+  const SQL = await getSqlJs();
+  const db = new SQL.Database();
+  try {
+    await writeAnkiCollection(db, cards);
+    return zipSync({
+      'collection.anki2': db.export(),
+      media: strToU8('{}')
+    });
+  } finally {
+    db.close();
+  }
+};
@@ -3,8 +3,10 @@
  * Following HeroTask pattern for offline-first data management
  */
 
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from 'fflate';
 import { studyDB } from '@/lib/studyDatabase';
 import { toast } from '@/hooks/use-toast';
+import { exportMediaFiles, importMediaFiles, type MediaFile } from '@/db/media/mediaStore';
 
 export interface BackupMetadata {
   version: number;
@@ -12,25 +14,76 @@ export interface BackupMetadata {
   appName: string;
   totalRecords: number;
   tables: string[];
+  mediaFiles?: number;
 }
 
+// Layout do arquivo .zip: backup.json + media/manifest.json + media/<hash>
+const ARCHIVE_DATA_FILE = 'backup.json';
+const ARCHIVE_MEDIA_MANIFEST = 'media/manifest.json';
+const ARCHIVE_MEDIA_DIR = 'media/';
+
+interface MediaManifestEntry {
+  id: string;
+  mimeType: string;
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const isArchiveFile = (file: File) =>
+  file.name.endsWith('.zip') || file.type === 'application/zip' || file.type === 'application/x-zip-compressed';
+
 /**
- * Create and download JSON backup
+ * Read a backup file (.zip archive or legacy .json) into its JSON text and media files
  */
-export async function createJsonBackup(): Promise<void> {
+async function readBackupFile(file: File): Promise<{ text: string; media: MediaFile[] }> {
+  if (!isArchiveFile(file)) {
+    return { text: await file.text(), media: [] };
+  }
+
+  const files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  if (!files[ARCHIVE_DATA_FILE]) {
+    throw new Error('Arquivo de backup sem backup.json');
+  }
+
+  const manifest: MediaManifestEntry[] = files[ARCHIVE_MEDIA_MANIFEST]
+    ? JSON.parse(strFromU8(files[ARCHIVE_MEDIA_MANIFEST]))
+    : [];
+
+  const media = manifest
+    .filter(entry => files[`${ARCHIVE_MEDIA_DIR}${entry.id}`])
+    .map(entry => ({ ...entry, bytes: files[`${ARCHIVE_MEDIA_DIR}${entry.id}`] }));
+
+  return { text: strFromU8(files[ARCHIVE_DATA_FILE]), media };
+}
+
+/**
+ * Create and download a .zip backup (JSON data + media store)
+ */
+export async function createArchiveBackup(): Promise<void> {
   try {
-    console.log('📤 Creating JSON backup...');
+    console.log('📤 Creating backup archive...');
     
     const jsonData = await studyDB.exportAllData();
     const backup = JSON.parse(jsonData);
+    const mediaFiles = await exportMediaFiles();
     
     // Add metadata
     const metadata: BackupMetadata = {
       version: backup.version,
       exportedAt: backup.exportedAt,
       appName: 'StudyApp',
-      totalRecords: Object.values(backup.data as Record<string, any[]>).reduce((sum: number, table: any[]) => sum + (Array.isArray(table) ? table.length : 0), 0),
-      tables: Object.keys(backup.data)
+      totalRecords: Object.values(backup.data as Record<string, unknown[]>).reduce((sum: number, table: unknown[]) => sum + (Array.isArray(table) ? table.length : 0), 0),
+      tables: Object.keys(backup.data),
+      mediaFiles: mediaFiles.length
     };
 
     const finalBackup = {
@@ -38,31 +91,32 @@ export async function createJsonBackup(): Promise<void> {
       ...backup
     };
 
-    // Create download
-    const blob = new Blob([JSON.stringify(finalBackup, null, 2)], { 
-      type: 'application/json' 
+    const manifest: MediaManifestEntry[] = mediaFiles.map(({ id, mimeType }) => ({ id, mimeType }));
+    const archive: Zippable = {
+      [ARCHIVE_DATA_FILE]: strToU8(JSON.stringify(finalBackup, null, 2)),
+      [ARCHIVE_MEDIA_MANIFEST]: strToU8(JSON.stringify(manifest))
+    };
+    // Imagens já vêm comprimidas: ficam sem nova compressão no zip
+    mediaFiles.forEach(file => {
+      archive[`${ARCHIVE_MEDIA_DIR}${file.id}`] = [file.bytes, { level: 0 }];
     });
-    
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `study-app-backup-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+
+    downloadBlob(
+      new Blob([zipSync(archive)], { type: 'application/zip' }),
+      `study-app-backup-${new Date().toISOString().split('T')[0]}.zip`
+    );
 
     toast({
       title: "Backup Criado",
-      description: `Backup JSON baixado com ${metadata.totalRecords} registros`
+      description: `Backup baixado com ${metadata.totalRecords} registros e ${mediaFiles.length} mídias`
     });
 
-    console.log('✅ JSON backup created successfully');
+    console.log('✅ Backup archive created successfully');
   } catch (error) {
-    console.error('❌ Error creating JSON backup:', error);
+    console.error('❌ Error creating backup archive:', error);
     toast({
       title: "Erro",
-      description: "Falha ao criar backup JSON",
+      description: "Falha ao criar backup",
       variant: "destructive"
     });
     throw error;
@@ -76,16 +130,10 @@ export function createSQLiteBackup(): void {
   try {
     console.log('📤 Creating SQLite backup...');
     
-    const blob = studyDB.createBackup();
-    
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `study-app-database-${new Date().toISOString().split('T')[0]}.sqlite`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(
+      studyDB.createBackup(),
+      `study-app-database-${new Date().toISOString().split('T')[0]}.sqlite`
+    );
 
     toast({
       title: "Backup SQLite Criado",
@@ -105,13 +153,13 @@ export function createSQLiteBackup(): void {
 }
 
 /**
- * Restore from JSON backup file
+ * Restore from a backup file (.zip archive or legacy JSON)
  */
-export async function restoreFromJsonBackup(file: File): Promise<void> {
+export async function restoreFromBackup(file: File): Promise<void> {
   try {
-    console.log('📥 Restoring from JSON backup...');
+    console.log('📥 Restoring from backup...');
     
-    const text = await file.text();
+    const { text, media } = await readBackupFile(file);
     let backupData;
     
     try {
@@ -135,6 +183,8 @@ export async function restoreFromJsonBackup(file: File): Promise<void> {
       return;
     }
 
+    // Mídias primeiro: as questões restauradas já encontram suas imagens
+    await importMediaFiles(media);
     await studyDB.importAllData(text);
 
     toast({
@@ -143,7 +193,7 @@ export async function restoreFromJsonBackup(file: File): Promise<void> {
       duration: 5000
     });
 
-    console.log('✅ JSON backup restored successfully');
+    console.log(`✅ Backup restored successfully (${media.length} media files)`);
     
     // Suggest page reload
     setTimeout(() => {
@@ -153,7 +203,7 @@ export async function restoreFromJsonBackup(file: File): Promise<void> {
     }, 2000);
     
   } catch (error) {
-    console.error('❌ Error restoring JSON backup:', error);
+    console.error('❌ Error restoring backup:', error);
     const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
     toast({
       title: "Erro na Restauração",
@@ -169,11 +219,11 @@ export async function restoreFromJsonBackup(file: File): Promise<void> {
  */
 export async function validateBackupFile(file: File): Promise<{ isValid: boolean; metadata?: BackupMetadata; error?: string }> {
   try {
-    if (file.type !== 'application/json' && !file.name.endsWith('.json')) {
-      return { isValid: false, error: 'Apenas arquivos JSON são suportados' };
+    if (!isArchiveFile(file) && file.type !== 'application/json' && !file.name.endsWith('.json')) {
+      return { isValid: false, error: 'Apenas arquivos .zip ou .json são suportados' };
     }
 
-    const text = await file.text();
+    const { text } = await readBackupFile(file);
     const data = JSON.parse(text);
 
     if (!data.data || !data.version) {
@@ -187,7 +237,7 @@ export async function validateBackupFile(file: File): Promise<{ isValid: boolean
   } catch (error) {
     return { 
       isValid: false, 
-      error: 'Arquivo JSON corrompido ou inválido' 
+      error: 'Arquivo de backup corrompido ou inválido' 
     };
   }
 }
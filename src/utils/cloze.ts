@@ -0,0 +1,67 @@
+/**
+ * Omissões (cloze deletions) no formato do Anki: {{c1::resposta}} ou {{c1::resposta::dica}}
+ * Uma nota gera um cartão por número de omissão; cada cartão esconde apenas as
+ * omissões do seu número e mostra as demais como texto normal.
+ */
+
+export interface ClozeSegment {
+  text: string;
+  clozeIndex?: number; // Presente apenas nos trechos que são omissões
+  hint?: string;
+}
+
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+/**
+ * Divide o texto em trechos normais e omissões
+ */
+export const parseClozeSegments = (text: string): ClozeSegment[] => {
+  const segments: ClozeSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, start) });
+    }
+    segments.push({
+      text: match[2],
+      clozeIndex: parseInt(match[1], 10),
+      hint: match[3] || undefined
+    });
+    lastIndex = start + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex) });
+  }
+
+  return segments;
+};
+
+/**
+ * Números de omissão presentes no texto, sem repetição e em ordem crescente
+ */
+export const getClozeNumbers = (text: string): number[] => {
+  const numbers = new Set<number>();
+  parseClozeSegments(text).forEach(segment => {
+    if (segment.clozeIndex !== undefined && segment.clozeIndex > 0) {
+      numbers.add(segment.clozeIndex);
+    }
+  });
+  return Array.from(numbers).sort((a, b) => a - b);
+};
+
+export const hasCloze = (text: string): boolean => getClozeNumbers(text).length > 0;
+
+/**
+ * Versão em texto simples de um cartão (usada em listagens e buscas)
+ */
+export const renderClozeText = (text: string, clozeIndex: number, revealed: boolean): string =>
+  parseClozeSegments(text)
+    .map(segment => {
+      if (segment.clozeIndex !== clozeIndex) return segment.text;
+      if (revealed) return segment.text;
+      return segment.hint ? `[${segment.hint}]` : '[...]';
+    })
+    .join('');
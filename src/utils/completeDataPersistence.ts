@@ -2,6 +2,7 @@
 import { StudyPlan, StudySession } from '@/types/study';
 import { Question } from '@/types/questions';
 import { Enemy } from '@/types/enemy';
+import { COMPLETE_SNAPSHOTS_KEY } from '@/utils/storageKeys';
 import { 
   loadStudySessions,
   getAllQuestionAttempts,
@@ -22,7 +23,10 @@ import {
   savePerformanceMetric,
   saveAppSetting,
   saveStudyGoal,
-  saveDailyLogs as dbSaveDailyLogs
+  saveDailyLogs as dbSaveDailyLogs,
+  getReviewLogs,
+  importReviewLogs,
+  type ReviewLogEntry
 } from '@/db/crud';
 
 // Complete data snapshot interface
@@ -49,6 +53,9 @@ export interface CompleteDataSnapshot {
   flashcards: any[];
   flashcardReviews: any[];
   
+  // Review history (flashcards, enemies and questions)
+  reviewLogs?: ReviewLogEntry[];
+  
   // Analytics and metrics
   performanceMetrics: any[];
   
@@ -76,8 +83,6 @@ export interface SavedCompleteSnapshot {
   updatedAt: Date;
 }
 
-const COMPLETE_SNAPSHOTS_KEY = 'lovable_complete_snapshots';
-
 // Create a complete data snapshot
 export const createCompleteSnapshot = async (plan: StudyPlan, name: string, description?: string): Promise<string> => {
   try {
@@ -106,6 +111,7 @@ export const createCompleteSnapshot = async (plan: StudyPlan, name: string, desc
     ];
     
     const flashcards = await getAllFlashcards();
+    const reviewLogs = getReviewLogs();
     const performanceMetrics = loadPerformanceMetrics();
     const appSettings = loadAppSettings();
     const studyGoals = loadStudyGoals();
@@ -145,6 +151,9 @@ export const createCompleteSnapshot = async (plan: StudyPlan, name: string, desc
       flashcards,
       flashcardReviews: [], // Will be filled if function exists
       
+      // Review history
+      reviewLogs,
+      
       // Analytics and metrics
       performanceMetrics,
       
@@ -261,13 +270,26 @@ export const restoreCompleteSnapshot = async (snapshotId: string): Promise<boole
           front: flashcard.front,
           back: flashcard.back,
           type: flashcard.type,
-          difficulty: flashcard.difficulty
+          difficulty: flashcard.difficulty,
+          note_id: flashcard.note_id,
+          cloze_index: flashcard.cloze_index,
+          tags: flashcard.tags,
+          images: flashcard.images
         });
       } catch (error) {
         console.error('Error restoring flashcard:', error);
       }
     }
     
+    // Restore review history
+    if (snapshot.reviewLogs?.length) {
+      console.log('🕒 Restoring review history...');
+      importReviewLogs(snapshot.reviewLogs.map(log => ({
+        ...log,
+        reviewedAt: new Date(log.reviewedAt)
+      })));
+    }
+    
     // Restore performance metrics
     console.log('📊 Restoring performance metrics...');
     snapshot.performanceMetrics.forEach(metric => {
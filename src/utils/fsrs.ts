@@ -0,0 +1,212 @@
+import { addDays, differenceInDays, isAfter } from 'date-fns';
+import type {
+  ReviewCard,
+  ReviewResult,
+  ReviewScheduler,
+  SchedulerOptions,
+  UserProfile
+} from './spacedRepetition';
+
+/**
+ * Free Spaced Repetition Scheduler (FSRS v4.5)
+ * Modela cada cartão por estabilidade (S), dificuldade (D) e recuperabilidade (R)
+ */
+
+export type FsrsRating = 1 | 2 | 3 | 4; // 1=Errei, 2=Difícil, 3=Bom, 4=Fácil
+
+// Pesos padrão publicados para o FSRS v4.5
+export const FSRS_DEFAULT_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031,
+  1.6474, 0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755
+];
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+const MIN_STABILITY = 0.1;
+
+const clampDifficulty = (difficulty: number): number => Math.min(10, Math.max(1, difficulty));
+
+/**
+ * Converte a qualidade SM-2 (0-5) na nota de 4 botões do FSRS
+ */
+export const qualityToRating = (quality: number): FsrsRating => {
+  if (quality < 3) return 1;
+  if (quality < 4) return 2;
+  if (quality < 5) return 3;
+  return 4;
+};
+
+/**
+ * Probabilidade de lembrar após `elapsedDays` com estabilidade `stability`
+ */
+export const forgettingCurve = (elapsedDays: number, stability: number): number => {
+  return Math.pow(1 + FACTOR * Math.max(0, elapsedDays) / Math.max(MIN_STABILITY, stability), DECAY);
+};
+
+/**
+ * Intervalo (em dias) que leva a recuperabilidade até a retenção desejada
+ */
+export const nextIntervalForRetention = (stability: number, requestRetention: number): number => {
+  return stability / FACTOR * (Math.pow(requestRetention, 1 / DECAY) - 1);
+};
+
+export const initialStability = (rating: FsrsRating, w: number[] = FSRS_DEFAULT_WEIGHTS): number => {
+  return Math.max(MIN_STABILITY, w[rating - 1]);
+};
+
+export const initialDifficulty = (rating: FsrsRating, w: number[] = FSRS_DEFAULT_WEIGHTS): number => {
+  return clampDifficulty(w[4] - (rating - 3) * w[5]);
+};
+
+export const nextDifficulty = (difficulty: number, rating: FsrsRating, w: number[] = FSRS_DEFAULT_WEIGHTS): number => {
+  const updated = difficulty - w[6] * (rating - 3);
+  // Reversão à média para evitar que a dificuldade fique presa nos extremos
+  return clampDifficulty(w[7] * initialDifficulty(3, w) + (1 - w[7]) * updated);
+};
+
+export const nextRecallStability = (
+  difficulty: number,
+  stability: number,
+  retrievability: number,
+  rating: FsrsRating,
+  w: number[] = FSRS_DEFAULT_WEIGHTS
+): number => {
+  const hardPenalty = rating === 2 ? w[15] : 1;
+  const easyBonus = rating === 4 ? w[16] : 1;
+
+  return stability * (
+    1 +
+    Math.exp(w[8]) *
+    (11 - difficulty) *
+    Math.pow(stability, -w[9]) *
+    (Math.exp(w[10] * (1 - retrievability)) - 1) *
+    hardPenalty *
+    easyBonus
+  );
+};
+
+export const nextForgetStability = (
+  difficulty: number,
+  stability: number,
+  retrievability: number,
+  w: number[] = FSRS_DEFAULT_WEIGHTS
+): number => {
+  const forgotten = w[11] *
+    Math.pow(difficulty, -w[12]) *
+    (Math.pow(stability + 1, w[13]) - 1) *
+    Math.exp(w[14] * (1 - retrievability));
+
+  // Um lapso nunca deve aumentar a estabilidade
+  return Math.max(MIN_STABILITY, Math.min(forgotten, stability));
+};
+
+/**
+ * Recuperabilidade atual de um cartão (1 para cartões novos ou sem estado FSRS)
+ */
+export const getRetrievability = (card: ReviewCard, now: Date = new Date()): number => {
+  if (!card.stability || !card.lastReviewDate) return 1;
+  return forgettingCurve(differenceInDays(now, card.lastReviewDate), card.stability);
+};
+
+/**
+ * Deriva estabilidade/dificuldade a partir do estado SM-2 (fator de facilidade e intervalo)
+ */
+const adoptFromSm2 = (card: ReviewCard): ReviewCard => {
+  if (card.stability && card.difficulty) {
+    return { ...card, algorithm: 'fsrs' };
+  }
+
+  if (card.totalReviews === 0) {
+    return { ...card, stability: undefined, difficulty: undefined, algorithm: 'fsrs' };
+  }
+
+  // Fator 2.5 ≈ dificuldade média (5); fator 1.3 ≈ dificuldade máxima (10)
+  const difficulty = clampDifficulty(5 + (2.5 - card.easeFactor) * (5 / 1.2));
+  // Com retenção de 90% o intervalo do FSRS coincide com a estabilidade
+  const stability = Math.max(MIN_STABILITY, card.interval);
+
+  return { ...card, stability, difficulty, algorithm: 'fsrs' };
+};
+
+export const fsrsScheduler: ReviewScheduler = {
+  algorithm: 'fsrs',
+  label: 'FSRS',
+
+  schedule: (
+    card: ReviewCard,
+    result: ReviewResult,
+    _userProfile: UserProfile,
+    options: SchedulerOptions = {}
+  ): Partial<ReviewCard> => {
+    const { quality, confidenceLevel, wasCorrect } = result;
+    const requestRetention = options.requestRetention ?? 0.9;
+    const maximumInterval = options.maximumInterval ?? 365;
+    const minimumInterval = options.minimumInterval ?? 1;
+    const weights = options.weights ?? FSRS_DEFAULT_WEIGHTS;
+    const now = options.now ?? new Date();
+
+    // Chutes certos nunca contam como "Fácil"
+    let rating = qualityToRating(quality);
+    if (confidenceLevel === 'chute' && wasCorrect) {
+      rating = Math.min(rating, 2) as FsrsRating;
+    }
+
+    const adopted = card.algorithm === 'fsrs' ? card : adoptFromSm2(card);
+    const isNew = !adopted.stability || !adopted.difficulty || !adopted.lastReviewDate;
+
+    let stability: number;
+    let difficulty: number;
+
+    if (isNew) {
+      stability = initialStability(rating, weights);
+      difficulty = initialDifficulty(rating, weights);
+    } else {
+      const elapsedDays = Math.max(0, differenceInDays(now, adopted.lastReviewDate!));
+      const retrievability = forgettingCurve(elapsedDays, adopted.stability!);
+      difficulty = nextDifficulty(adopted.difficulty!, rating, weights);
+      stability = rating === 1
+        ? nextForgetStability(adopted.difficulty!, adopted.stability!, retrievability, weights)
+        : nextRecallStability(adopted.difficulty!, adopted.stability!, retrievability, rating, weights);
+    }
+
+    const intervalMultiplier = options.tuning?.intervalMultiplier ?? 1;
+    let newInterval = rating === 1
+      ? minimumInterval
+      : Math.round(nextIntervalForRetention(stability, requestRetention) * intervalMultiplier);
+
+    // Nunca agenda depois do exame
+    if (card.examDate) {
+      const daysUntilExam = differenceInDays(card.examDate, now);
+      if (daysUntilExam > 0 && isAfter(addDays(now, newInterval), card.examDate)) {
+        newInterval = Math.max(1, daysUntilExam - 1);
+      }
+    }
+
+    newInterval = Math.max(minimumInterval, Math.min(newInterval, maximumInterval));
+
+    const newRepetition = rating === 1 ? 0 : card.repetition + 1;
+    const newAverageQuality = (card.averageQuality * card.totalReviews + quality) / (card.totalReviews + 1);
+
+    return {
+      algorithm: 'fsrs',
+      stability,
+      difficulty,
+      // Mantém o fator de facilidade coerente para telas que ainda o exibem
+      easeFactor: Math.max(1.3, Math.min(2.5, 2.5 - (difficulty - 5) * (1.2 / 5))),
+      interval: newInterval,
+      repetition: newRepetition,
+      nextReviewDate: addDays(now, newInterval),
+      lastReviewDate: now,
+      quality,
+      averageQuality: newAverageQuality,
+      totalReviews: card.totalReviews + 1,
+      streakCount: wasCorrect ? card.streakCount + 1 : 0,
+      failureCount: wasCorrect ? 0 : card.failureCount + 1,
+      isBlocked: true
+    };
+  },
+
+  convertCard: adoptFromSm2,
+
+  retrievability: getRetrievability
+};
@@ -0,0 +1,74 @@
+import { addDays, differenceInDays, format, startOfDay } from 'date-fns';
+
+/**
+ * Fuzz e balanceamento de carga das datas de revisão
+ * Espalha itens estudados no mesmo dia entre dias vizinhos, preferindo os dias
+ * com menos revisões já agendadas, sem nunca passar da data do exame.
+ */
+
+export interface LoadBalanceOptions {
+  now?: Date;
+  examDate?: Date;
+  dueLoad: Record<string, number>; // Revisões já agendadas por dia (YYYY-MM-DD)
+  random?: () => number;
+}
+
+export const dueLoadKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+/**
+ * Faixa de dias aceitável em torno do intervalo calculado
+ */
+export const getFuzzRange = (interval: number): { min: number; max: number } => {
+  if (interval < 3) {
+    return { min: interval, max: interval };
+  }
+
+  let fuzz: number;
+  if (interval < 7) {
+    fuzz = interval * 0.15;
+  } else if (interval < 20) {
+    fuzz = interval * 0.1;
+  } else {
+    fuzz = interval * 0.05;
+  }
+  fuzz = Math.max(1, Math.round(fuzz));
+
+  return { min: Math.max(1, interval - fuzz), max: interval + fuzz };
+};
+
+/**
+ * Escolhe o intervalo dentro da faixa de fuzz com menor carga já agendada
+ */
+export const balanceInterval = (interval: number, options: LoadBalanceOptions): number => {
+  const now = startOfDay(options.now || new Date());
+  const random = options.random || Math.random;
+  let { min, max } = getFuzzRange(interval);
+
+  // Nunca agenda depois do exame
+  if (options.examDate) {
+    const daysUntilExam = differenceInDays(startOfDay(options.examDate), now);
+    if (daysUntilExam > 1) {
+      max = Math.min(max, daysUntilExam - 1);
+      min = Math.min(min, max);
+    } else if (daysUntilExam > 0) {
+      return Math.min(interval, daysUntilExam);
+    }
+  }
+
+  if (min === max) return min;
+
+  let lowestLoad = Infinity;
+  let candidates: number[] = [];
+  for (let days = min; days <= max; days++) {
+    const load = options.dueLoad[dueLoadKey(addDays(now, days))] || 0;
+    if (load < lowestLoad) {
+      lowestLoad = load;
+      candidates = [days];
+    } else if (load === lowestLoad) {
+      candidates.push(days);
+    }
+  }
+
+  // Empates são sorteados, o que também funciona como fuzz quando não há carga
+  return candidates[Math.floor(random() * candidates.length)];
+};
@@ -0,0 +1,702 @@
+import type { ImportParseResult, ImportQuestion, Subject } from '@/types/questions';
+import type { Question } from '@/types/battle';
+import { findTopicIdByNames } from './questionCsv';
+import {
+  ANSWER_SEPARATOR,
+  FALSE_ANSWER,
+  TRUE_ANSWER,
+  acceptedAnswers,
+  normalizeTrueFalseAnswer,
+  parseAnswerNumber
+} from './questionScoring';
+
+/**
+ * Formatos de questões do Moodle: Moodle XML e GIFT
+ * Suporta múltipla escolha (uma resposta correta), verdadeiro/falso, resposta curta, numérica
+ * (vira resposta curta com tolerância) e dissertativa.
+ * O feedback geral vira a explicação e as categorias viram matéria/tópico (últimos dois níveis).
+ * Construções sem equivalente aqui são relatadas por questão, sem derrubar o arquivo inteiro.
+ */
+
+export type MoodleFormat = 'moodle-xml' | 'gift';
+
+export interface MoodleExportResult {
+  content: string;
+  warnings: string[];
+}
+
+
+// Respostas de até este tamanho (uma linha) saem como resposta curta; maiores, como dissertativa
+const SHORT_ANSWER_MAX_LENGTH = 100;
+
+const TITLE_LENGTH = 80;
+
+const CATEGORY_PREFIXES = ['$course$', '$system$', '$module$', '$cat1$', '$cat2$', '$cat3$', 'top'];
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml'
+};
+
+interface CategoryNames {
+  subject: string;
+  topic: string;
+}
+
+const titleFrom = (name: string, content: string): string =>
+  name.trim() || (content.length > TITLE_LENGTH ? `${content.slice(0, TITLE_LENGTH).trim()}…` : content);
+
+const optionLabel = (index: number) => String.fromCharCode(65 + index);
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+
+/**
+ * Moodle HTML to plain text with line breaks (the app renders Markdown, not HTML)
+ */
+const htmlToText = (html: string): string =>
+  decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+      .replace(/<li[^>]*>/gi, '- ')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const textToHtml = (text: string): string =>
+  text.split(/\n{2,}/).map(paragraph => `<p>${escapeXml(paragraph).replace(/\n/g, '<br>')}</p>`).join('');
+
+/**
+ * "$course$/top/Direito/Penal" -> matéria "Direito", tópico "Penal" ("//" escapa uma barra no nome)
+ */
+const parseCategoryPath = (path: string): CategoryNames => {
+  const parts = path
+    .trim()
+    .split(/(?<!\/)\/(?!\/)/)
+    .map(part => part.replace(/\/\//g, '/').trim())
+    .filter(part => part && !CATEGORY_PREFIXES.includes(part.toLowerCase()) && !/^(padrão|default) (para|for) /i.test(part));
+
+  return {
+    subject: parts.length >= 2 ? parts[parts.length - 2] : '',
+    topic: parts[parts.length - 1] || ''
+  };
+};
+
+const categoryPath = (subjectName = '', topicName = ''): string =>
+  ['$course$', 'top', subjectName, topicName]
+    .filter(Boolean)
+    .map(part => part.replace(/\//g, '//'))
+    .join('/');
+
+/**
+ * Resolve the current category to a topic; warns once per unknown category
+ */
+const createCategoryResolver = (subjects: Subject[], result: ImportParseResult) => {
+  const cache = new Map<string, string | undefined>();
+
+  return (category: CategoryNames): string | undefined => {
+    if (!category.topic) return undefined;
+    const key = `${category.subject}/${category.topic}`;
+    if (!cache.has(key)) {
+      const topicId = findTopicIdByNames(subjects, category.subject, category.topic) ??
+        findTopicIdByNames(subjects, '', category.topic);
+      if (!topicId) {
+        result.warnings.push(`Categoria "${key.replace(/^\//, '')}" sem tópico correspondente: será usado o tópico padrão`);
+      }
+      cache.set(key, topicId);
+    }
+    return cache.get(key);
+  };
+};
+
+/* ------------------------------------------------------------------ */
+/* Moodle XML                                                          */
+/* ------------------------------------------------------------------ */
+
+const childElement = (element: Element, tag: string): Element | undefined =>
+  Array.from(element.children).find(child => child.tagName === tag);
+
+const childElements = (element: Element, tag: string): Element[] =>
+  Array.from(element.children).filter(child => child.tagName === tag);
+
+/**
+ * Text of a Moodle "text field" (<questiontext format="html"><text>…</text></questiontext>)
+ */
+const fieldText = (element: Element | undefined): string => {
+  if (!element) return '';
+  const raw = childElement(element, 'text')?.textContent ?? '';
+  const format = element.getAttribute('format') || 'html';
+  return format === 'html' || format === 'moodle_auto_format' ? htmlToText(raw) : raw.trim();
+};
+
+const fieldImages = (element: Element | undefined): string[] =>
+  element
+    ? childElements(element, 'file')
+      .filter(file => file.getAttribute('encoding') === 'base64')
+      .map(file => {
+        const extension = (file.getAttribute('name') || '').split('.').pop()?.toLowerCase() || '';
+        const mime = IMAGE_MIME_TYPES[extension];
+        return mime ? `data:${mime};base64,${(file.textContent || '').replace(/\s+/g, '')}` : '';
+      })
+      .filter(Boolean)
+    : [];
+
+const answerFraction = (answer: Element): number => parseFloat(answer.getAttribute('fraction') || '0') || 0;
+
+/**
+ * Read a Moodle XML quiz file
+ */
+export const parseMoodleXml = (xml: string, subjects: Subject[]): ImportParseResult => {
+  const result: ImportParseResult = { questions: [], errors: [], warnings: [] };
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.tagName !== 'quiz') {
+    throw new Error('Arquivo não é um Moodle XML válido (elemento <quiz> não encontrado)');
+  }
+
+  const resolveTopic = createCategoryResolver(subjects, result);
+  let category: CategoryNames = { subject: '', topic: '' };
+  let position = 0;
+
+  childElements(doc.documentElement, 'question').forEach(element => {
+    const type = element.getAttribute('type') || '';
+    if (type === 'category') {
+      category = parseCategoryPath(fieldText(childElement(element, 'category')));
+      return;
+    }
+
+    position++;
+    const name = fieldText(childElement(element, 'name'));
+    const label = `Questão ${position}${name ? ` ("${name}")` : ''}`;
+    const questionText = childElement(element, 'questiontext');
+    const content = fieldText(questionText);
+    const answers = childElements(element, 'answer');
+    const generalFeedback = fieldText(childElement(element, 'generalfeedback'));
+
+    if (!['multichoice', 'truefalse', 'shortanswer', 'numerical', 'essay'].includes(type)) {
+      result.errors.push(`${label}: tipo "${type}" não suportado`);
+      return;
+    }
+    if (!content) {
+      result.errors.push(`${label}: enunciado vazio`);
+      return;
+    }
+
+    const question: ImportQuestion = {
+      topicId: resolveTopic(category),
+      title: titleFrom(name, content),
+      content,
+      explanation: generalFeedback || undefined,
+      difficulty: 'medium',
+      tags: childElement(element, 'tags')
+        ? childElements(childElement(element, 'tags') as Element, 'tag').map(tag => fieldText(tag)).filter(Boolean)
+        : [],
+      images: fieldImages(questionText)
+    };
+
+    if (answers.some(answer => childElements(answer, 'file').length > 0)) {
+      result.warnings.push(`${label}: imagens nas alternativas não são importadas`);
+    }
+
+    if (type === 'multichoice') {
+      const single = (childElement(element, 'single')?.textContent || 'true').trim() !== 'false';
+      const correct = answers.filter(answer => answerFraction(answer) >= 100);
+      if (!single && answers.filter(answer => answerFraction(answer) > 0).length > 1) {
+        result.errors.push(`${label}: múltiplas respostas corretas não são suportadas`);
+        return;
+      }
+      if (correct.length !== 1) {
+        result.errors.push(`${label}: a questão precisa ter exatamente uma alternativa com 100% de crédito`);
+        return;
+      }
+      if (answers.some(answer => answerFraction(answer) > 0 && answerFraction(answer) < 100)) {
+        result.warnings.push(`${label}: créditos parciais ignorados (alternativas parciais contam como erradas)`);
+      }
+
+      question.options = answers.map((answer, index) => ({
+        label: optionLabel(index),
+        content: fieldText(answer),
+        isCorrect: answer === correct[0]
+      }));
+      question.correctAnswer = fieldText(correct[0]);
+      question.explanation = question.explanation || fieldText(childElement(correct[0], 'feedback')) || undefined;
+    } else if (type === 'truefalse') {
+      const correct = answers.find(answer => answerFraction(answer) >= 100);
+      if (!correct) {
+        result.errors.push(`${label}: verdadeiro/falso sem resposta correta`);
+        return;
+      }
+      question.questionType = 'true_false';
+      question.correctAnswer = fieldText(correct).toLowerCase() === 'true' ? TRUE_ANSWER : FALSE_ANSWER;
+      question.explanation = question.explanation || fieldText(childElement(correct, 'feedback')) || undefined;
+    } else if (type === 'shortanswer') {
+      const accepted = answers.filter(answer => answerFraction(answer) >= 100).map(answer => fieldText(answer));
+      if (accepted.length === 0) {
+        result.errors.push(`${label}: resposta curta sem resposta aceita com 100%`);
+        return;
+      }
+      question.questionType = 'short_answer';
+      question.correctAnswer = accepted.join(` ${ANSWER_SEPARATOR} `);
+    } else if (type === 'numerical') {
+      const correct = answers.find(answer => answerFraction(answer) >= 100);
+      const value = correct ? parseAnswerNumber(fieldText(correct)) : null;
+      if (!correct || value === null) {
+        result.errors.push(`${label}: numérica sem resposta aceita com 100%`);
+        return;
+      }
+      question.questionType = 'short_answer';
+      question.correctAnswer = String(value);
+      question.answerTolerance = Math.abs(parseFloat(childElement(correct, 'tolerance')?.textContent || '0') || 0) || undefined;
+    } else {
+      question.questionType = 'discursive';
+      question.correctAnswer = fieldText(childElement(element, 'graderinfo'));
+      if (!question.correctAnswer) {
+        result.warnings.push(`${label}: dissertativa sem resposta de referência`);
+      }
+    }
+
+    result.questions.push(question);
+  });
+
+  return result;
+};
+
+const xmlField = (tag: string, text: string, attributes = ''): string =>
+  `<${tag}${attributes} format="html"><text><![CDATA[${textToHtml(text).replace(/]]>/g, ']]]]><![CDATA[>')}]]></text></${tag}>`;
+
+const xmlPlain = (tag: string, text: string): string => `<${tag}><text>${escapeXml(text)}</text></${tag}>`;
+
+const isTrueFalse = (question: Question) =>
+  question.questionType === 'true_false' ||
+  ((question.questionType || 'multiple_choice') === 'multiple_choice' &&
+    (!question.options || question.options.length === 0) &&
+    normalizeTrueFalseAnswer(question.correctAnswer) !== null);
+
+// Questões antigas sem tipo próprio saem como resposta curta ou dissertativa pelo tamanho do gabarito
+const isShortAnswer = (question: Question) => {
+  if (question.questionType === 'short_answer') return true;
+  if (question.questionType === 'discursive') return false;
+  const answer = question.correctAnswer || '';
+  return !answer.includes('\n') && answer.length <= SHORT_ANSWER_MAX_LENGTH;
+};
+
+const toleranceOf = (question: Question): number =>
+  question.questionType === 'short_answer' ? question.answerTolerance ?? 0 : 0;
+
+/**
+ * Question text with its images as Moodle plugin files
+ */
+const xmlQuestionText = (question: Question): string => {
+  const images = (question.images || []).filter(src => src.startsWith('data:'));
+  const files = images.map((src, index) => {
+    const [, mime = 'image/png', data = ''] = src.match(/^data:([^;]+);base64,(.*)$/) || [];
+    const extension = Object.keys(IMAGE_MIME_TYPES).find(ext => IMAGE_MIME_TYPES[ext] === mime) || 'png';
+    return { name: `imagem${index + 1}.${extension}`, data };
+  });
+  const html = textToHtml(question.content) +
+    files.map(file => `<p><img src="@@PLUGINFILE@@/${file.name}" alt=""></p>`).join('');
+
+  return `<questiontext format="html"><text><![CDATA[${html.replace(/]]>/g, ']]]]><![CDATA[>')}]]></text>` +
+    files.map(file => `<file name="${file.name}" path="/" encoding="base64">${file.data}</file>`).join('') +
+    '</questiontext>';
+};
+
+/**
+ * Write questions (images already inlined as data URLs) as Moodle XML, one category per topic
+ */
+export const exportMoodleXml = (questions: Question[]): MoodleExportResult => {
+  const warnings: string[] = [];
+  const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>', '<quiz>'];
+  let currentCategory = '';
+
+  questions.forEach(question => {
+    const path = categoryPath(question.subjectName, question.topicName);
+    if (path !== currentCategory) {
+      currentCategory = path;
+      lines.push(`  <question type="category"><category><text>${escapeXml(path)}</text></category></question>`);
+    }
+
+    if ((question.images || []).some(src => !src.startsWith('data:'))) {
+      warnings.push(`"${question.title}": imagens externas não foram incluídas`);
+    }
+
+    const common = [
+      xmlPlain('name', question.title),
+      xmlQuestionText(question),
+      xmlField('generalfeedback', question.explanation || ''),
+      '<defaultgrade>1</defaultgrade>',
+      '<penalty>0</penalty>',
+      '<hidden>0</hidden>',
+      (question.tags || []).length > 0
+        ? `<tags>${(question.tags || []).map(tag => `<tag><text>${escapeXml(tag)}</text></tag>`).join('')}</tags>`
+        : ''
+    ];
+
+    let type: string;
+    let body: string[];
+    if (question.options && question.options.length > 0) {
+      type = 'multichoice';
+      body = [
+        '<single>true</single>',
+        '<shuffleanswers>true</shuffleanswers>',
+        '<answernumbering>ABCD</answernumbering>',
+        ...question.options.map(option => xmlField('answer', option.content, ` fraction="${option.isCorrect ? 100 : 0}"`))
+      ];
+    } else if (isTrueFalse(question)) {
+      type = 'truefalse';
+      const isTrue = normalizeTrueFalseAnswer(question.correctAnswer) === TRUE_ANSWER;
+      body = [
+        `<answer fraction="${isTrue ? 100 : 0}" format="moodle_auto_format"><text>true</text></answer>`,
+        `<answer fraction="${isTrue ? 0 : 100}" format="moodle_auto_format"><text>false</text></answer>`
+      ];
+    } else if (toleranceOf(question) > 0 && parseAnswerNumber(question.correctAnswer || '') !== null) {
+      type = 'numerical';
+      body = [
+        `<answer fraction="100" format="moodle_auto_format"><text>${parseAnswerNumber(question.correctAnswer)}</text>` +
+          `<tolerance>${toleranceOf(question)}</tolerance></answer>`
+      ];
+    } else if (isShortAnswer(question)) {
+      type = 'shortanswer';
+      // Resposta curta é comparada como texto puro, sem HTML; cada variação aceita vira uma resposta
+      const accepted = question.questionType === 'short_answer'
+        ? acceptedAnswers(question.correctAnswer || '')
+        : [question.correctAnswer || ''];
+      body = [
+        '<usecase>0</usecase>',
+        ...accepted.map(answer => `<answer fraction="100" format="moodle_auto_format"><text>${escapeXml(answer)}</text></answer>`)
+      ];
+    } else {
+      type = 'essay';
+      body = ['<responseformat>editor</responseformat>', xmlField('graderinfo', question.correctAnswer || '')];
+    }
+
+    lines.push(`  <question type="${type}">`, ...[...common, ...body].filter(Boolean).map(line => `    ${line}`), '  </question>');
+  });
+
+  lines.push('</quiz>');
+  return { content: lines.join('\n'), warnings };
+};
+
+/* ------------------------------------------------------------------ */
+/* GIFT                                                                */
+/* ------------------------------------------------------------------ */
+
+const GIFT_SPECIAL = /[~=#{}:\\]/g;
+
+const escapeGift = (text: string): string => text.replace(GIFT_SPECIAL, match => `\\${match}`).replace(/\n/g, '\\n');
+
+const unescapeGift = (text: string): string =>
+  text.replace(/\\(n|[~=#{}:\\])/g, (_, char) => (char === 'n' ? '\n' : char)).trim();
+
+/**
+ * Index of the first unescaped occurrence of any of the characters, from a position
+ */
+const findUnescaped = (text: string, chars: string, from = 0): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (chars.includes(text[i])) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Split on an unescaped separator (single char or "####")
+ */
+const splitUnescaped = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text.startsWith(separator, i)) {
+      parts.push(text.slice(start, i));
+      start = i + separator.length;
+      i += separator.length - 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+};
+
+/**
+ * Text with an optional [html]/[markdown]/[plain]/[moodle] format prefix
+ */
+const giftText = (raw: string): string => {
+  const match = raw.trim().match(/^\[(html|markdown|plain|moodle)\]([\s\S]*)$/i);
+  const text = unescapeGift(match ? match[2] : raw);
+  return match && match[1].toLowerCase() === 'html' ? htmlToText(text) : text;
+};
+
+interface GiftAnswer {
+  correct: boolean;
+  weight?: number;
+  text: string;
+  feedback: string;
+}
+
+/**
+ * Answers of a "{…}" block: "=right#feedback ~wrong ~%50%partial"
+ */
+const parseGiftAnswers = (body: string): GiftAnswer[] => {
+  const answers: GiftAnswer[] = [];
+  let start = findUnescaped(body, '=~');
+  while (start >= 0) {
+    const next = findUnescaped(body, '=~', start + 1);
+    const raw = body.slice(start + 1, next >= 0 ? next : undefined);
+    const weightMatch = raw.match(/^%(-?\d+(?:\.\d+)?)%/);
+    const [text, feedback = ''] = splitUnescaped(weightMatch ? raw.slice(weightMatch[0].length) : raw, '#');
+    answers.push({
+      correct: body[start] === '=',
+      weight: weightMatch ? parseFloat(weightMatch[1]) : undefined,
+      text: giftText(text),
+      feedback: giftText(feedback)
+    });
+    start = next;
+  }
+  return answers;
+};
+
+/**
+ * Heuristic for .txt files: GIFT has "::title::", "$CATEGORY:" or answer blocks like "{=…", "{~…", "{T}"
+ */
+export const looksLikeGift = (text: string): boolean =>
+  /(^|\n)\s*(::[^\n]*::|\$CATEGORY:)/.test(text) || /\{\s*(=|~|#|T\s*\}|F\s*\}|TRUE|FALSE|\})/.test(text);
+
+/**
+ * Read a GIFT file
+ */
+export const parseGift = (text: string, subjects: Subject[]): ImportParseResult => {
+  const result: ImportParseResult = { questions: [], errors: [], warnings: [] };
+  const resolveTopic = createCategoryResolver(subjects, result);
+  let category: CategoryNames = { subject: '', topic: '' };
+  let position = 0;
+
+  // Comentários "// [tag:x]" antes da questão viram tags
+  const blocks: { body: string; tags: string[] }[] = [];
+  let lines: string[] = [];
+  let tags: string[] = [];
+  const flush = () => {
+    if (lines.some(line => line.trim())) blocks.push({ body: lines.join('\n'), tags });
+    lines = [];
+    tags = [];
+  };
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach(line => {
+    if (/^\s*\/\//.test(line)) {
+      tags.push(...Array.from(line.matchAll(/\[tag:([^\]]+)\]/g), match => match[1].trim()));
+    } else if (line.trim() === '') {
+      flush();
+    } else {
+      lines.push(line);
+    }
+  });
+  flush();
+
+  blocks.forEach(block => {
+    const body = block.body.trim();
+    const categoryMatch = body.match(/^\$CATEGORY:\s*(.+)$/);
+    if (categoryMatch) {
+      category = parseCategoryPath(categoryMatch[1]);
+      return;
+    }
+
+    position++;
+    let rest = body;
+    let name = '';
+    if (rest.startsWith('::')) {
+      const end = rest.indexOf('::', 2);
+      if (end > 0) {
+        name = unescapeGift(rest.slice(2, end));
+        rest = rest.slice(end + 2);
+      }
+    }
+    const label = `Questão ${position}${name ? ` ("${name}")` : ''}`;
+
+    const open = findUnescaped(rest, '{');
+    const close = open >= 0 ? findUnescaped(rest, '}', open) : -1;
+    if (open < 0 || close < 0) {
+      result.errors.push(`${label}: bloco de respostas {…} não encontrado (texto informativo não é importado)`);
+      return;
+    }
+
+    const before = rest.slice(0, open);
+    const after = rest.slice(close + 1);
+    // Questão de lacuna ("texto {…} texto"): a lacuna vira "_____" no enunciado
+    const content = giftText(after.trim() ? `${before.trimEnd()} _____ ${after.trimStart()}` : before);
+    if (!content) {
+      result.errors.push(`${label}: enunciado vazio`);
+      return;
+    }
+
+    const [answerBody, generalFeedback = ''] = splitUnescaped(rest.slice(open + 1, close), '####');
+    const trimmed = answerBody.trim();
+    const question: ImportQuestion = {
+      topicId: resolveTopic(category),
+      title: titleFrom(name, content),
+      content,
+      explanation: giftText(generalFeedback) || undefined,
+      difficulty: 'medium',
+      tags: block.tags,
+      images: []
+    };
+
+    if (trimmed.startsWith('#')) {
+      // "{#3,14:0,01}" ou "{#=3.14:0.01}": vira resposta curta com tolerância
+      const [answerText, feedbackText = ''] = splitUnescaped(trimmed.slice(1).replace(/^=/, ''), '#');
+      const [valueText, toleranceText = '0'] = answerText.split(':');
+      const value = parseAnswerNumber(valueText);
+      if (value === null || answerText.includes('=')) {
+        result.errors.push(`${label}: questão numérica com intervalo ou várias respostas não é suportada`);
+        return;
+      }
+      question.questionType = 'short_answer';
+      question.correctAnswer = String(value);
+      question.answerTolerance = Math.abs(parseAnswerNumber(toleranceText) ?? 0) || undefined;
+      question.explanation = question.explanation || giftText(feedbackText) || undefined;
+      result.questions.push(question);
+      return;
+    }
+    if (/(^|[^\\])->/.test(trimmed)) {
+      result.errors.push(`${label}: questão de associação não suportada`);
+      return;
+    }
+
+    const trueFalse = trimmed.match(/^(T|TRUE|F|FALSE)\b(.*)$/is);
+    if (trueFalse) {
+      const [, value, feedbackPart] = trueFalse;
+      question.questionType = 'true_false';
+      question.correctAnswer = value.toUpperCase().startsWith('T') ? TRUE_ANSWER : FALSE_ANSWER;
+      // "{T#feedback errado#feedback certo}": o feedback da resposta certa é o segundo
+      const feedbacks = splitUnescaped(feedbackPart, '#').slice(1).map(giftText);
+      question.explanation = question.explanation || feedbacks[1] || feedbacks[0] || undefined;
+      result.questions.push(question);
+      return;
+    }
+
+    if (!trimmed) {
+      if (after.trim()) {
+        result.errors.push(`${label}: lacuna sem resposta`);
+        return;
+      }
+      question.questionType = 'discursive';
+      question.correctAnswer = '';
+      result.warnings.push(`${label}: dissertativa sem resposta de referência`);
+      result.questions.push(question);
+      return;
+    }
+
+    const answers = parseGiftAnswers(trimmed);
+    if (answers.length === 0) {
+      result.errors.push(`${label}: respostas em formato não reconhecido`);
+      return;
+    }
+
+    const hasWrong = answers.some(answer => !answer.correct);
+    if (!hasWrong) {
+      // Só "=": resposta curta, com todas as variações aceitas
+      question.questionType = 'short_answer';
+      question.correctAnswer = answers.map(answer => answer.text).join(` ${ANSWER_SEPARATOR} `);
+      question.explanation = question.explanation || answers[0].feedback || undefined;
+      result.questions.push(question);
+      return;
+    }
+
+    const isCorrect = (answer: GiftAnswer) => answer.correct || (answer.weight ?? 0) >= 100;
+    const correct = answers.filter(isCorrect);
+    if (answers.filter(answer => !answer.correct && (answer.weight ?? 0) > 0).length > 1) {
+      result.errors.push(`${label}: múltiplas respostas corretas não são suportadas`);
+      return;
+    }
+    if (correct.length !== 1) {
+      result.errors.push(`${label}: a questão precisa ter exatamente uma alternativa correta`);
+      return;
+    }
+    if (answers.some(answer => !isCorrect(answer) && (answer.weight ?? 0) > 0)) {
+      result.warnings.push(`${label}: créditos parciais ignorados (alternativas parciais contam como erradas)`);
+    }
+
+    question.options = answers.map((answer, index) => ({
+      label: optionLabel(index),
+      content: answer.text,
+      isCorrect: answer === correct[0]
+    }));
+    question.correctAnswer = correct[0].text;
+    question.explanation = question.explanation || correct[0].feedback || undefined;
+    result.questions.push(question);
+  });
+
+  return result;
+};
+
+/**
+ * Write questions as GIFT (Markdown text, one category per topic). GIFT has no images
+ * and no reference answer for essays; those losses are reported per question.
+ */
+export const exportGift = (questions: Question[]): MoodleExportResult => {
+  const warnings: string[] = [];
+  const blocks: string[] = [];
+  let currentCategory = '';
+
+  questions.forEach(question => {
+    const path = categoryPath(question.subjectName, question.topicName);
+    if (path !== currentCategory) {
+      currentCategory = path;
+      blocks.push(`$CATEGORY: ${path}`);
+    }
+
+    if ((question.images || []).length > 0) {
+      warnings.push(`"${question.title}": GIFT não suporta imagens, elas ficaram de fora`);
+    }
+
+    const feedback = question.explanation ? `####${escapeGift(question.explanation)}` : '';
+    let answers: string;
+    if (question.options && question.options.length > 0) {
+      answers = question.options.map(option => `\t${option.isCorrect ? '=' : '~'}${escapeGift(option.content)}`).join('\n');
+      answers = `\n${answers}\n${feedback ? `\t${feedback}\n` : ''}`;
+    } else if (isTrueFalse(question)) {
+      answers = `${normalizeTrueFalseAnswer(question.correctAnswer) === TRUE_ANSWER ? 'TRUE' : 'FALSE'}${feedback}`;
+    } else if (toleranceOf(question) > 0 && parseAnswerNumber(question.correctAnswer || '') !== null) {
+      answers = `#${parseAnswerNumber(question.correctAnswer)}:${toleranceOf(question)}${feedback}`;
+    } else if (isShortAnswer(question) && question.correctAnswer) {
+      const accepted = question.questionType === 'short_answer'
+        ? acceptedAnswers(question.correctAnswer)
+        : [question.correctAnswer];
+      answers = `${accepted.map(answer => `=${escapeGift(answer)}`).join(' ')}${feedback}`;
+    } else {
+      if (question.correctAnswer) {
+        warnings.push(`"${question.title}": a resposta de referência da dissertativa não cabe em GIFT e foi omitida`);
+      }
+      answers = feedback;
+    }
+
+    const tagLine = (question.tags || []).length > 0
+      ? `// ${(question.tags || []).map(tag => `[tag:${tag.replace(/\]/g, '')}]`).join(' ')}\n`
+      : '';
+    blocks.push(`${tagLine}::${escapeGift(question.title)}::[markdown]${escapeGift(question.content)}{${answers}}`);
+  });
+
+  return { content: `${blocks.join('\n\n')}\n`, warnings };
+};
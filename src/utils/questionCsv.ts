@@ -0,0 +1,334 @@
+import type { ImportParseResult, Subject } from '@/types/questions';
+import { normalizeTrueFalseAnswer } from './questionScoring';
+
+/**
+ * Importação de questões por planilha (CSV/TSV)
+ * Detecta codificação (UTF-8 ou Latin-1) e separador, lê as linhas respeitando aspas
+ * e converte cada linha em ImportQuestion a partir de um mapeamento coluna -> campo.
+ * A gravação continua com importQuestionsInBatch; presets ficam em db/crud/questionImportPresets.
+ */
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export type CsvEncoding = 'utf-8' | 'latin-1';
+
+export type QuestionCsvField =
+  | 'title'
+  | 'content'
+  | 'optionA'
+  | 'optionB'
+  | 'optionC'
+  | 'optionD'
+  | 'optionE'
+  | 'correctAnswer'
+  | 'explanation'
+  | 'notes'
+  | 'examiningBoard'
+  | 'examYear'
+  | 'institution'
+  | 'tags'
+  | 'subject'
+  | 'topic';
+
+// Campo -> nome da coluna no cabeçalho (por nome, para o preset servir em outros arquivos)
+export type QuestionColumnMapping = Partial<Record<QuestionCsvField, string>>;
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+  delimiter: CsvDelimiter;
+  encoding: CsvEncoding;
+}
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+
+export const QUESTION_CSV_FIELDS: { field: QuestionCsvField; label: string; required?: boolean }[] = [
+  { field: 'title', label: 'Título' },
+  { field: 'content', label: 'Enunciado', required: true },
+  { field: 'optionA', label: 'Alternativa A' },
+  { field: 'optionB', label: 'Alternativa B' },
+  { field: 'optionC', label: 'Alternativa C' },
+  { field: 'optionD', label: 'Alternativa D' },
+  { field: 'optionE', label: 'Alternativa E' },
+  { field: 'correctAnswer', label: 'Gabarito' },
+  { field: 'explanation', label: 'Explicação' },
+  { field: 'notes', label: 'Anotações' },
+  { field: 'examiningBoard', label: 'Banca' },
+  { field: 'examYear', label: 'Ano' },
+  { field: 'institution', label: 'Instituição' },
+  { field: 'tags', label: 'Tags' },
+  { field: 'subject', label: 'Matéria' },
+  { field: 'topic', label: 'Tópico' }
+];
+
+const OPTION_FIELDS: { field: QuestionCsvField; label: string }[] = [
+  { field: 'optionA', label: 'A' },
+  { field: 'optionB', label: 'B' },
+  { field: 'optionC', label: 'C' },
+  { field: 'optionD', label: 'D' },
+  { field: 'optionE', label: 'E' }
+];
+
+// Nomes de coluna comuns (já normalizados) usados para sugerir o mapeamento
+const HEADER_ALIASES: Record<QuestionCsvField, string[]> = {
+  title: ['titulo', 'title', 'nome'],
+  content: ['enunciado', 'conteudo', 'content', 'pergunta', 'questao', 'statement'],
+  optionA: ['a', 'alternativa a', 'opcao a', 'option a', 'alt a'],
+  optionB: ['b', 'alternativa b', 'opcao b', 'option b', 'alt b'],
+  optionC: ['c', 'alternativa c', 'opcao c', 'option c', 'alt c'],
+  optionD: ['d', 'alternativa d', 'opcao d', 'option d', 'alt d'],
+  optionE: ['e', 'alternativa e', 'opcao e', 'option e', 'alt e'],
+  correctAnswer: ['gabarito', 'resposta', 'resposta correta', 'correta', 'answer', 'correct answer'],
+  explanation: ['explicacao', 'comentario', 'justificativa', 'explanation'],
+  notes: ['anotacoes', 'anotacao', 'notas', 'observacoes', 'notes'],
+  examiningBoard: ['banca', 'banca examinadora', 'board'],
+  examYear: ['ano', 'ano da prova', 'year'],
+  institution: ['instituicao', 'orgao', 'institution'],
+  tags: ['tags', 'etiquetas', 'palavras-chave'],
+  subject: ['materia', 'disciplina', 'subject'],
+  topic: ['topico', 'assunto', 'topic']
+};
+
+// Tamanho do título gerado a partir do enunciado quando não há coluna de título
+const GENERATED_TITLE_LENGTH = 80;
+
+const normalize = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[_:]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+/**
+ * Decode file bytes as UTF-8, falling back to Latin-1 (Windows-1252) when the bytes are not valid UTF-8
+ */
+export const decodeCsvBytes = (buffer: ArrayBuffer): { text: string; encoding: CsvEncoding } => {
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' };
+  } catch {
+    // Planilhas salvas pelo Excel em português costumam vir em Windows-1252
+    return { text: new TextDecoder('windows-1252').decode(buffer), encoding: 'latin-1' };
+  }
+};
+
+/**
+ * Split delimited text into rows, honouring quoted fields ("" escapes a quote, line breaks allowed inside quotes)
+ */
+export const parseDelimited = (text: string, delimiter: CsvDelimiter): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+/**
+ * Pick the delimiter that splits the first lines into the same (largest) number of columns
+ */
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const sample = text.split(/\r?\n/).slice(0, 20).join('\n');
+
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+  CSV_DELIMITERS.forEach(delimiter => {
+    const rows = parseDelimited(sample, delimiter).slice(0, 10);
+    if (rows.length === 0) return;
+    const columns = rows[0].length;
+    if (columns < 2) return;
+    const consistent = rows.filter(row => row.length === columns).length / rows.length;
+    const score = columns * consistent;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+/**
+ * Split decoded text into header and rows (delimiter detected when not given)
+ */
+export const parseCsvText = (text: string, encoding: CsvEncoding, delimiter?: CsvDelimiter): CsvTable => {
+  const chosen = delimiter ?? detectDelimiter(text);
+  const [headerRow = [], ...rows] = parseDelimited(text.replace(/^\uFEFF/, ''), chosen);
+  // Cabeçalhos vazios ou repetidos ganham nomes únicos (o mapeamento é por nome)
+  const headers: string[] = [];
+  headerRow.forEach((header, index) => {
+    const base = header.trim() || `Coluna ${index + 1}`;
+    let name = base;
+    for (let n = 2; headers.includes(name); n++) name = `${base} (${n})`;
+    headers.push(name);
+  });
+
+  return { headers, rows, delimiter: chosen, encoding };
+};
+
+/**
+ * Suggest a mapping from the header names
+ */
+export const guessColumnMapping = (headers: string[]): QuestionColumnMapping => {
+  const mapping: QuestionColumnMapping = {};
+  const used = new Set<string>();
+
+  QUESTION_CSV_FIELDS.forEach(({ field }) => {
+    const header = headers.find(h => !used.has(h) && HEADER_ALIASES[field].includes(normalize(h)));
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Keep only the mapped columns that exist in this file (presets may come from another spreadsheet)
+ */
+export const applyMappingToHeaders = (mapping: QuestionColumnMapping, headers: string[]): QuestionColumnMapping =>
+  Object.fromEntries(
+    Object.entries(mapping).filter(([, header]) => header && headers.includes(header))
+  ) as QuestionColumnMapping;
+
+/**
+ * Find the topic by subject and/or topic name (accents and case are ignored)
+ */
+export const findTopicIdByNames = (subjects: Subject[], subjectName: string, topicName: string): string | undefined => {
+  const candidates = subjectName
+    ? subjects.filter(subject => normalize(subject.name) === normalize(subjectName))
+    : subjects;
+  const topics = candidates.flatMap(subject => subject.topics);
+
+  if (topicName) return topics.find(topic => normalize(topic.name) === normalize(topicName))?.id;
+  // Só a matéria: serve se ela tiver um único tópico
+  return subjectName && topics.length === 1 ? topics[0].id : undefined;
+};
+
+/**
+ * Which option the answer key points to: a letter ("C", "Letra C", "c)") or the option text
+ */
+const findCorrectOption = (answer: string, options: { label: string; content: string }[]): number => {
+  const letter = answer.match(/^(?:letra\s+|alternativa\s+)?([a-e])\s*[).]?$/i);
+  if (letter) return options.findIndex(option => option.label === letter[1].toUpperCase());
+  return options.findIndex(option => normalize(option.content) === normalize(answer));
+};
+
+/**
+ * Turn spreadsheet rows into questions. Rows without a statement, or whose answer key does
+ * not match any option, are reported and left out.
+ */
+export const mapCsvRows = (
+  table: Pick<CsvTable, 'headers' | 'rows'>,
+  mapping: QuestionColumnMapping,
+  subjects: Subject[]
+): ImportParseResult => {
+  const result: ImportParseResult = { questions: [], errors: [], warnings: [] };
+  const columnIndex = new Map(table.headers.map((header, index) => [header, index]));
+
+  table.rows.forEach((row, index) => {
+    const line = index + 2; // Linha na planilha (o cabeçalho é a 1)
+    const value = (field: QuestionCsvField): string => {
+      const header = mapping[field];
+      const column = header !== undefined ? columnIndex.get(header) : undefined;
+      return column !== undefined ? (row[column] ?? '').trim() : '';
+    };
+
+    const content = value('content');
+    if (!content) {
+      result.errors.push(`Linha ${line}: enunciado vazio`);
+      return;
+    }
+
+    const options = OPTION_FIELDS
+      .map(({ field, label }) => ({ label, content: value(field), isCorrect: false }))
+      .filter(option => option.content !== '');
+
+    const answer = value('correctAnswer');
+    let correctAnswer: string | undefined = answer || undefined;
+    // Sem alternativas e gabarito C/E (Certo, Errado, V, F...): item certo/errado
+    const trueFalseAnswer = options.length === 0 ? normalizeTrueFalseAnswer(answer) : null;
+    if (trueFalseAnswer) {
+      correctAnswer = trueFalseAnswer;
+    }
+    if (options.length > 0) {
+      const correctIndex = answer ? findCorrectOption(answer, options) : -1;
+      if (correctIndex < 0) {
+        result.errors.push(answer
+          ? `Linha ${line}: gabarito "${answer}" não corresponde a nenhuma alternativa`
+          : `Linha ${line}: questão de alternativas sem gabarito`);
+        return;
+      }
+      options[correctIndex].isCorrect = true;
+      correctAnswer = options[correctIndex].content;
+    }
+
+    const subjectName = value('subject');
+    const topicName = value('topic');
+    let topicId: string | undefined;
+    if (subjectName || topicName) {
+      topicId = findTopicIdByNames(subjects, subjectName, topicName);
+      if (!topicId) {
+        result.warnings.push(`Linha ${line}: tópico "${[subjectName, topicName].filter(Boolean).join(' / ')}" não encontrado, será usado o tópico padrão`);
+      }
+    }
+
+    const title = value('title') ||
+      (content.length > GENERATED_TITLE_LENGTH ? `${content.slice(0, GENERATED_TITLE_LENGTH).trim()}…` : content);
+
+    result.questions.push({
+      topicId,
+      title,
+      content,
+      questionType: trueFalseAnswer ? 'true_false' : 'multiple_choice',
+      options: options.length > 0 ? options : undefined,
+      correctAnswer,
+      explanation: value('explanation') || undefined,
+      notes: value('notes') || undefined,
+      difficulty: 'medium',
+      tags: value('tags').split(/[,;|]/).map(tag => tag.trim()).filter(Boolean),
+      images: [],
+      examiningBoard: value('examiningBoard') || undefined,
+      examYear: value('examYear') || undefined,
+      institution: value('institution') || undefined
+    });
+  });
+
+  return result;
+};
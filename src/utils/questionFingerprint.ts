@@ -0,0 +1,96 @@
+/**
+ * Impressão digital de questões para achar duplicatas
+ * A comparação exata ignora espaços, pontuação, acentos e maiúsculas; a aproximada usa a
+ * semelhança (Jaccard) entre as palavras do enunciado e das alternativas.
+ */
+
+export interface FingerprintSource {
+  content: string;
+  options?: Array<{ content: string }>;
+}
+
+export interface SimilarMatch {
+  id: string;
+  similarity: number; // 0-1
+}
+
+// A partir desta semelhança duas questões são tratadas como quase iguais
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+
+// Palavras muito curtas (artigos, preposições) não ajudam a distinguir questões
+const MIN_TOKEN_LENGTH = 3;
+
+export const normalizeQuestionText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * FNV-1a (32 bits) em hexadecimal: curto e estável o bastante para comparar textos normalizados
+ */
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Same statement and same set of options (in any order) give the same fingerprint
+ */
+export const questionFingerprint = (question: FingerprintSource): string => {
+  const options = (question.options || []).map(option => normalizeQuestionText(option.content)).sort();
+  const normalized = [normalizeQuestionText(question.content), ...options].join('|');
+  return `${hashText(normalized)}${normalized.length.toString(16)}`;
+};
+
+export const questionTokens = (question: FingerprintSource): Set<string> =>
+  new Set(
+    [question.content, ...(question.options || []).map(option => option.content)]
+      .flatMap(text => normalizeQuestionText(text).split(' '))
+      .filter(token => token.length >= MIN_TOKEN_LENGTH)
+  );
+
+/**
+ * Inverted index over question tokens; only questions sharing words are ever compared
+ */
+export const createSimilarityIndex = (items: Array<{ id: string; tokens: Set<string> }>) => {
+  const postings = new Map<string, string[]>();
+  const sizes = new Map<string, number>();
+
+  items.forEach(({ id, tokens }) => {
+    sizes.set(id, tokens.size);
+    tokens.forEach(token => {
+      const ids = postings.get(token);
+      if (ids) {
+        ids.push(id);
+      } else {
+        postings.set(token, [id]);
+      }
+    });
+  });
+
+  return {
+    findSimilar: (tokens: Set<string>, minSimilarity: number = DEFAULT_SIMILARITY_THRESHOLD): SimilarMatch[] => {
+      if (tokens.size === 0) return [];
+
+      const overlaps = new Map<string, number>();
+      tokens.forEach(token => {
+        (postings.get(token) || []).forEach(id => overlaps.set(id, (overlaps.get(id) || 0) + 1));
+      });
+
+      const matches: SimilarMatch[] = [];
+      overlaps.forEach((overlap, id) => {
+        const similarity = overlap / (tokens.size + (sizes.get(id) || 0) - overlap);
+        if (similarity >= minSimilarity) matches.push({ id, similarity });
+      });
+
+      return matches.sort((a, b) => b.similarity - a.similarity);
+    }
+  };
+};
@@ -0,0 +1,175 @@
+import type { ConfidenceLevel, Difficulty, Question, RubricCriterion, ScoringPolicy } from '@/types/battle';
+
+/**
+ * Pontuação de questões: itens certo/errado, resposta em branco e política por banca.
+ * Na política 'net' (Cebraspe) cada erro anula um acerto e deixar em branco vale zero.
+ * Discursivas recebem nota parcial (0 a 1) pela rubrica; resposta curta aceita variações.
+ */
+
+export type AnswerOutcome = 'correct' | 'wrong' | 'blank';
+
+export const TRUE_ANSWER = 'Certo';
+export const FALSE_ANSWER = 'Errado';
+// Resposta gravada quando o item é deixado em branco
+export const BLANK_ANSWER = '';
+
+// Bancas que descontam erros por padrão (pode ser mudado por banca nas configurações)
+const NET_SCORING_BOARDS = /cespe|cebraspe/i;
+
+// Nota parcial a partir da qual uma discursiva conta como acerto (mesmo corte da sala vermelha)
+export const PASSING_SCORE = 0.7;
+
+// Separa as respostas aceitas de uma questão de resposta curta ("SP | São Paulo")
+export const ANSWER_SEPARATOR = '|';
+
+// Níveis da autocorreção de cada critério da rubrica
+export const RUBRIC_LEVELS = [
+  { value: 0, label: 'Não atendeu' },
+  { value: 0.5, label: 'Parcial' },
+  { value: 1, label: 'Atendeu' }
+];
+
+// Rubrica usada quando a discursiva não tem critérios cadastrados
+export const DEFAULT_RUBRIC: RubricCriterion[] = [{ description: 'Resposta completa e correta', weight: 1 }];
+
+// Grafias aceitas para certo/errado (comparadas sem acento e em minúsculas)
+export const TRUE_SPELLINGS = ['certo', 'c', 'verdadeiro', 'v', 'true'];
+export const FALSE_SPELLINGS = ['errado', 'e', 'falso', 'f', 'false'];
+
+/**
+ * Read any spelling of a true/false answer (Certo, C, Verdadeiro, V, true...) as Certo or Errado
+ */
+export const normalizeTrueFalseAnswer = (value?: string): string | null => {
+  const normalized = (value || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+  if (TRUE_SPELLINGS.includes(normalized)) return TRUE_ANSWER;
+  if (FALSE_SPELLINGS.includes(normalized)) return FALSE_ANSWER;
+  return null;
+};
+
+const normalizeText = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').replace(/[.;!]+$/, '').trim();
+
+/**
+ * Number typed in Brazilian or international notation ("1.234,5", "1234.5", "3,14"); null when not a number
+ */
+export const parseAnswerNumber = (value: string): number | null => {
+  let text = value.trim().replace(/\s/g, '');
+  if (!/^[-+]?[\d.,]+$/.test(text)) return null;
+  if (text.includes(',')) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  }
+  const number = Number(text);
+  return Number.isFinite(number) ? number : null;
+};
+
+export const acceptedAnswers = (correctAnswer: string): string[] =>
+  correctAnswer.split(ANSWER_SEPARATOR).map(answer => answer.trim()).filter(Boolean);
+
+/**
+ * Short answer check: numbers match within the tolerance, text ignores accents, case,
+ * extra spaces and a final period. Any of the accepted answers counts.
+ */
+export const matchesShortAnswer = (answer: string, correctAnswer: string, tolerance = 0): boolean => {
+  const typed = answer.trim();
+  if (!typed) return false;
+  const typedNumber = parseAnswerNumber(typed);
+
+  return acceptedAnswers(correctAnswer).some(expected => {
+    const expectedNumber = parseAnswerNumber(expected);
+    if (typedNumber !== null && expectedNumber !== null) {
+      // Margem mínima para erros de arredondamento em ponto flutuante
+      return Math.abs(typedNumber - expectedNumber) <= Math.abs(tolerance) + 1e-9;
+    }
+    return normalizeText(typed) === normalizeText(expected);
+  });
+};
+
+/**
+ * Automatic grading of an objective answer. True/false compares the key in any spelling
+ * (C, Certo, Verdadeiro...); discursive answers are self-graded and never match here.
+ */
+export const isAnswerCorrect = (question: Question, answer: string): boolean => {
+  if (answer === BLANK_ANSWER) return false;
+  if (question.questionType === 'short_answer') {
+    return matchesShortAnswer(answer, question.correctAnswer, question.answerTolerance ?? 0);
+  }
+  if (!question.options?.length) {
+    const expected = normalizeTrueFalseAnswer(question.correctAnswer);
+    if (expected) return normalizeTrueFalseAnswer(answer) === expected;
+  }
+  return answer === question.correctAnswer;
+};
+
+/**
+ * Partial score (0-1) of a self-graded answer: weighted average of the criterion grades
+ */
+export const rubricScore = (rubric: RubricCriterion[], grades: number[]): number => {
+  const criteria = rubric.length > 0 ? rubric : DEFAULT_RUBRIC;
+  const totalWeight = criteria.reduce((sum, criterion) => sum + Math.max(0, criterion.weight), 0);
+  if (totalWeight === 0) return 0;
+  const earned = criteria.reduce((sum, criterion, index) => (
+    sum + Math.max(0, criterion.weight) * Math.min(1, Math.max(0, grades[index] ?? 0))
+  ), 0);
+  return earned / totalWeight;
+};
+
+export const defaultScoringPolicy = (examiningBoard?: string): ScoringPolicy =>
+  examiningBoard && NET_SCORING_BOARDS.test(examiningBoard) ? 'net' : 'standard';
+
+export const answerOutcome = (answer: string, isCorrect: boolean): AnswerOutcome =>
+  answer === BLANK_ANSWER ? 'blank' : isCorrect ? 'correct' : 'wrong';
+
+/**
+ * Points of one answer: +1 right, -1 wrong under net scoring, 0 otherwise
+ */
+export const questionPoints = (outcome: AnswerOutcome, policy: ScoringPolicy): number => {
+  if (outcome === 'correct') return 1;
+  if (outcome === 'wrong' && policy === 'net') return -1;
+  return 0;
+};
+
+/**
+ * XP of one answer. A wrong answer under net scoring costs the base XP a right answer would
+ * have earned (without the confidence bonus), mirroring the points it cancels. A partial
+ * score (self-graded discursive answers) earns that share of the full XP and is never penalized.
+ */
+export const calculateQuestionXp = (
+  difficulty: Difficulty,
+  confidence: ConfidenceLevel,
+  outcome: AnswerOutcome,
+  policy: ScoringPolicy,
+  score?: number
+): number => {
+  const baseXp = 10;
+  const difficultyMultiplier = difficulty === 'hard' ? 2 : difficulty === 'medium' ? 1.5 : 1;
+
+  if (score !== undefined) {
+    const confidenceBonus = confidence === 'certeza' ? 5 : confidence === 'duvida' ? 3 : 1;
+    return Math.floor((baseXp * difficultyMultiplier + confidenceBonus) * score);
+  }
+  if (outcome === 'correct') {
+    const confidenceBonus = confidence === 'certeza' ? 5 : confidence === 'duvida' ? 3 : 1;
+    return Math.floor(baseXp * difficultyMultiplier + confidenceBonus);
+  }
+  if (outcome === 'wrong' && policy === 'net') {
+    return -Math.floor(baseXp * difficultyMultiplier);
+  }
+  return 0;
+};
+
+export interface ScoreSummary {
+  correct: number;
+  wrong: number;
+  blank: number;
+  netScore: number; // Soma dos pontos com a política de cada questão
+  penalized: boolean; // Alguma questão usou a política 'net'
+}
+
+export const summarizeScore = (answers: Array<{ outcome: AnswerOutcome; policy: ScoringPolicy }>): ScoreSummary =>
+  answers.reduce<ScoreSummary>((summary, { outcome, policy }) => ({
+    correct: summary.correct + (outcome === 'correct' ? 1 : 0),
+    wrong: summary.wrong + (outcome === 'wrong' ? 1 : 0),
+    blank: summary.blank + (outcome === 'blank' ? 1 : 0),
+    netScore: summary.netScore + questionPoints(outcome, policy),
+    penalized: summary.penalized || policy === 'net'
+  }), { correct: 0, wrong: 0, blank: 0, netScore: 0, penalized: false });
@@ -0,0 +1,155 @@
+import { Marked } from 'marked';
+import katex from 'katex';
+import DOMPurify from 'dompurify';
+
+/**
+ * Renderização segura de texto rico (Markdown + LaTeX) para questões, explicações e flashcards.
+ * O texto original é sempre o que fica gravado; o HTML é gerado só na exibição.
+ *
+ * Pipeline: fórmulas ($...$, $$...$$, \(...\), \[...\]) viram marcadores fora dos blocos de código,
+ * o Markdown é convertido, os marcadores recebem o HTML do KaTeX e o resultado passa pelo DOMPurify.
+ */
+
+interface MathSegment {
+  tex: string;
+  displayMode: boolean;
+}
+
+// Ordem importa: delimitadores de bloco antes dos inline
+const MATH_PATTERN = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|\$(?!\s)((?:\\\$|[^$\n])+?)(?<!\s)\$(?!\d)/g;
+
+// Blocos cercados (```) e código inline (`...`) não são tocados pela extração de fórmulas
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/g;
+
+const placeholder = (index: number) => `KATEXMATH${index}END`;
+const PLACEHOLDER_PATTERN = /KATEXMATH(\d+)END/g;
+
+const markdown = new Marked({ gfm: true, breaks: true, async: false });
+
+const extractMath = (text: string, segments: MathSegment[]): string =>
+  text
+    .split(CODE_PATTERN)
+    .map((part, index) => {
+      // Índices ímpares são os trechos de código capturados pelo split
+      if (index % 2 === 1) return part;
+
+      return part.replace(MATH_PATTERN, (_match, block, bracket, paren, inline) => {
+        const displayMode = block !== undefined || bracket !== undefined;
+        segments.push({ tex: (block ?? bracket ?? paren ?? inline).trim(), displayMode });
+        return placeholder(segments.length - 1);
+      });
+    })
+    .join('');
+
+const renderMath = ({ tex, displayMode }: MathSegment): string =>
+  katex.renderToString(tex, { displayMode, throwOnError: false, output: 'html', strict: 'ignore' });
+
+/**
+ * Convert Markdown + LaTeX source into sanitized HTML
+ */
+export const renderRichText = (text: string): string => {
+  if (!text) return '';
+
+  const segments: MathSegment[] = [];
+  const source = extractMath(text, segments);
+
+  const html = (markdown.parse(source) as string).replace(PLACEHOLDER_PATTERN, (match, index) => {
+    const segment = segments[Number(index)];
+    return segment ? renderMath(segment) : match;
+  });
+
+  return DOMPurify.sanitize(html);
+};
+
+/**
+ * Inline variant (no wrapping paragraph), for titles and option labels
+ */
+export const renderRichTextInline = (text: string): string => {
+  if (!text) return '';
+
+  const segments: MathSegment[] = [];
+  const source = extractMath(text, segments);
+
+  const html = (markdown.parseInline(source) as string).replace(PLACEHOLDER_PATTERN, (match, index) => {
+    const segment = segments[Number(index)];
+    return segment ? renderMath(segment) : match;
+  });
+
+  return DOMPurify.sanitize(html);
+};
+
+/**
+ * Collapse runs of whitespace (line breaks between paragraphs included), as passages are matched
+ */
+export const normalizePassage = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Wrap every occurrence of the given passages in <mark>, on already sanitized HTML.
+ * Passages are matched on the visible text, so they may cross formatting (bold, links, paragraphs);
+ * formulas are left out of the match.
+ */
+export const highlightPassages = (html: string, passages: string[]): string => {
+  const targets = passages.map(normalizePassage).filter(Boolean);
+  if (!html || targets.length === 0) return html;
+
+  const template = document.createElement('template');
+  template.innerHTML = html;
+
+  // Texto visível com espaços colapsados e, para cada caractere, o nó e a posição de origem
+  const nodes: Text[] = [];
+  const origins: { node: number; offset: number }[] = [];
+  let text = '';
+  const walker = document.createTreeWalker(template.content, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    if (node.parentElement?.closest('.katex')) continue;
+    nodes.push(node);
+    for (let offset = 0; offset < node.data.length; offset++) {
+      const isSpace = /\s/.test(node.data[offset]);
+      if (isSpace && (text === '' || text.endsWith(' '))) continue;
+      text += isSpace ? ' ' : node.data[offset];
+      origins.push({ node: nodes.length - 1, offset });
+    }
+  }
+
+  // Intervalos [início, fim) por nó de texto
+  const ranges = new Map<number, [number, number][]>();
+  targets.forEach(target => {
+    for (let start = text.indexOf(target); start >= 0; start = text.indexOf(target, start + target.length)) {
+      let previousNode = -1;
+      for (let index = start; index < start + target.length; index++) {
+        const { node, offset } = origins[index];
+        const nodeRanges = ranges.get(node) ?? [];
+        if (node === previousNode) {
+          nodeRanges[nodeRanges.length - 1][1] = offset + 1;
+        } else {
+          nodeRanges.push([offset, offset + 1]);
+        }
+        ranges.set(node, nodeRanges);
+        previousNode = node;
+      }
+    }
+  });
+
+  ranges.forEach((nodeRanges, index) => {
+    const node = nodes[index];
+    const fragment = document.createDocumentFragment();
+    let cursor = 0;
+    nodeRanges
+      .sort((a, b) => a[0] - b[0])
+      .forEach(([start, end]) => {
+        if (start < cursor) start = cursor;
+        if (start >= end) return;
+        if (start > cursor) fragment.append(node.data.slice(cursor, start));
+        const mark = document.createElement('mark');
+        mark.className = 'bg-yellow-200 dark:bg-yellow-500/40 text-inherit rounded-sm';
+        mark.textContent = node.data.slice(start, end);
+        fragment.append(mark);
+        cursor = end;
+      });
+    if (cursor < node.data.length) fragment.append(node.data.slice(cursor));
+    node.replaceWith(fragment);
+  });
+
+  return template.innerHTML;
+};
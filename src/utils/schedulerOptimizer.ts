@@ -0,0 +1,198 @@
+import { differenceInHours } from 'date-fns';
+import {
+  sm2Scheduler,
+  DEFAULT_SCHEDULER_TUNING,
+  type ReviewCard,
+  type SchedulerTuning,
+  type UserProfile
+} from './spacedRepetition';
+import type { ReviewLogEntry } from '@/db/crud/reviewLogs';
+
+/**
+ * Otimizador dos ajustes finos do agendamento
+ * Reexecuta o histórico de revisões com o SM-2 e procura os parâmetros que melhor
+ * preveem se cada item foi lembrado (minimiza a log-loss das previsões).
+ */
+
+export interface TuningEvaluation {
+  tuning: SchedulerTuning;
+  loss: number;               // Log-loss média das previsões
+  expectedRetention: number;  // Retenção média prevista pelo modelo (%)
+}
+
+export interface TuningOptimizationResult {
+  sufficientData: boolean;
+  reviewsUsed: number;
+  actualRetention: number;    // Retenção observada no histórico (%)
+  before: TuningEvaluation;
+  after: TuningEvaluation;
+}
+
+// Intervalos permitidos (os mesmos da tela de configurações)
+export const TUNING_BOUNDS: Record<keyof SchedulerTuning, { min: number; max: number; step: number }> = {
+  easeFactorModifier: { min: 0.05, max: 0.3, step: 0.01 },
+  hardMultiplier: { min: 0.3, max: 1.0, step: 0.1 },
+  lapseMultiplier: { min: 0.1, max: 1.0, step: 0.1 },
+  intervalMultiplier: { min: 0.5, max: 2.0, step: 0.1 }
+};
+
+export const MIN_REVIEWS_FOR_OPTIMIZATION = 30;
+
+// Retenção que o SM-2 assume no fim de cada intervalo
+const TARGET_RETENTION = 0.9;
+// Penalidade leve para não se afastar dos padrões com pouco histórico
+const REGULARIZATION = 0.002;
+const SEARCH_ROUNDS = 5;
+
+interface ReplayEvent {
+  rating: number;
+  reviewedAt: Date;
+  responseTime?: number;
+}
+
+const clampProbability = (p: number) => Math.min(0.999, Math.max(0.001, p));
+
+/**
+ * Agrupa o histórico por item, em ordem cronológica
+ */
+const groupByItem = (logs: ReviewLogEntry[]): ReplayEvent[][] => {
+  const groups = new Map<string, ReplayEvent[]>();
+
+  logs.forEach(log => {
+    const key = `${log.itemKind}:${log.itemId}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push({ rating: log.rating, reviewedAt: log.reviewedAt, responseTime: log.responseTime });
+  });
+
+  return Array.from(groups.values())
+    .map(events => events.sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime()))
+    .filter(events => events.length > 1);
+};
+
+const createReplayCard = (): ReviewCard => ({
+  id: 'replay',
+  topicId: 'replay',
+  easeFactor: 2.5,
+  interval: 1,
+  repetition: 0,
+  nextReviewDate: new Date(),
+  averageQuality: 0,
+  totalReviews: 0,
+  streakCount: 0,
+  failureCount: 0,
+  isBlocked: true,
+  personalizedMultiplier: 1.0,
+  algorithm: 'sm2'
+});
+
+/**
+ * Avalia um conjunto de ajustes contra o histórico
+ */
+export const evaluateTuning = (
+  histories: ReplayEvent[][],
+  tuning: SchedulerTuning,
+  userProfile: UserProfile
+): TuningEvaluation & { predictions: number } => {
+  let lossSum = 0;
+  let predictedSum = 0;
+  let predictions = 0;
+
+  histories.forEach(events => {
+    let card = createReplayCard();
+
+    events.forEach((event, index) => {
+      if (index > 0) {
+        const elapsedDays = Math.max(0, differenceInHours(event.reviewedAt, events[index - 1].reviewedAt) / 24);
+        const predicted = clampProbability(Math.pow(TARGET_RETENTION, elapsedDays / Math.max(1, card.interval)));
+        const recalled = event.rating >= 3 ? 1 : 0;
+
+        lossSum -= recalled * Math.log(predicted) + (1 - recalled) * Math.log(1 - predicted);
+        predictedSum += predicted;
+        predictions++;
+      }
+
+      const updated = sm2Scheduler.schedule(card, {
+        quality: event.rating,
+        responseTime: event.responseTime ?? userProfile.averageResponseTime,
+        confidenceLevel: 'certeza',
+        wasCorrect: event.rating >= 3
+      }, userProfile, { tuning, now: event.reviewedAt });
+      card = { ...card, ...updated };
+    });
+  });
+
+  const penalty = (Object.keys(TUNING_BOUNDS) as (keyof SchedulerTuning)[]).reduce((sum, key) => {
+    const { min, max } = TUNING_BOUNDS[key];
+    const distance = (tuning[key] - DEFAULT_SCHEDULER_TUNING[key]) / (max - min);
+    return sum + distance * distance;
+  }, 0);
+
+  return {
+    tuning,
+    loss: predictions > 0 ? lossSum / predictions + REGULARIZATION * penalty : 0,
+    expectedRetention: predictions > 0 ? (predictedSum / predictions) * 100 : 0,
+    predictions
+  };
+};
+
+const roundToStep = (value: number, step: number) => Number((Math.round(value / step) * step).toFixed(2));
+
+/**
+ * Busca coordenada a coordenada com passo decrescente
+ */
+export const optimizeTuning = (
+  logs: ReviewLogEntry[],
+  current: SchedulerTuning,
+  userProfile: UserProfile
+): TuningOptimizationResult => {
+  const histories = groupByItem(logs);
+  const before = evaluateTuning(histories, current, userProfile);
+
+  const recalledCount = histories.reduce(
+    (sum, events) => sum + events.slice(1).filter(event => event.rating >= 3).length,
+    0
+  );
+  const actualRetention = before.predictions > 0 ? (recalledCount / before.predictions) * 100 : 0;
+
+  if (before.predictions < MIN_REVIEWS_FOR_OPTIMIZATION) {
+    const { predictions, ...evaluation } = before;
+    return {
+      sufficientData: false,
+      reviewsUsed: predictions,
+      actualRetention,
+      before: evaluation,
+      after: evaluation
+    };
+  }
+
+  let best = before;
+  const keys = Object.keys(TUNING_BOUNDS) as (keyof SchedulerTuning)[];
+
+  for (let round = 0; round < SEARCH_ROUNDS; round++) {
+    keys.forEach(key => {
+      const { min, max, step } = TUNING_BOUNDS[key];
+      const searchStep = Math.max(step, ((max - min) / 4) / Math.pow(2, round));
+
+      [-searchStep, searchStep].forEach(delta => {
+        const value = roundToStep(Math.min(max, Math.max(min, best.tuning[key] + delta)), step);
+        if (value === best.tuning[key]) return;
+
+        const candidate = evaluateTuning(histories, { ...best.tuning, [key]: value }, userProfile);
+        if (candidate.loss < best.loss) {
+          best = candidate;
+        }
+      });
+    });
+  }
+
+  const { predictions, ...beforeEvaluation } = before;
+  const { predictions: _bestPredictions, ...afterEvaluation } = best;
+
+  return {
+    sufficientData: true,
+    reviewsUsed: predictions,
+    actualRetention,
+    before: beforeEvaluation,
+    after: afterEvaluation
+  };
+};
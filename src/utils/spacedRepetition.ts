@@ -1,10 +1,13 @@
 import { addDays, differenceInDays, isAfter } from 'date-fns';
+import { fsrsScheduler } from './fsrs';
 
 /**
  * Algoritmo de Repetição Espaçada Inteligente (SM-2 Melhorado)
  * Baseado no SuperMemo SM-2 com melhorias personalizadas
  */
 
+export type SchedulerAlgorithm = 'sm2' | 'fsrs';
+
 export interface ReviewCard {
   id: string;
   topicId: string;
@@ -21,6 +24,10 @@ export interface ReviewCard {
   isBlocked: boolean;          // Se está bloqueado até próxima revisão
   personalizedMultiplier: number; // Multiplicador personalizado
   examDate?: Date;             // Data do exame para ajustar urgência
+  // Estado do FSRS (ausente em cartões agendados apenas pelo SM-2)
+  stability?: number;          // Estabilidade da memória em dias
+  difficulty?: number;         // Dificuldade intrínseca (1 - 10)
+  algorithm?: SchedulerAlgorithm; // Motor que produziu o estado atual
 }
 
 export interface ReviewResult {
@@ -39,13 +46,63 @@ export interface UserProfile {
   totalReviewsSessions: number; // Total de sessões de revisão
 }
 
+/**
+ * Parâmetros vindos de ReviewSettings que os motores podem respeitar
+ */
+export interface SchedulerOptions {
+  requestRetention?: number;   // Retenção desejada (FSRS)
+  maximumInterval?: number;    // Intervalo máximo em dias
+  minimumInterval?: number;    // Intervalo mínimo em dias
+  weights?: number[];          // Pesos personalizados (FSRS)
+  tuning?: SchedulerTuning;    // Ajustes finos vindos de ReviewSettings
+  now?: Date;                  // Momento da revisão (padrão: agora)
+}
+
+/**
+ * Ajustes finos do agendamento (ajustáveis manualmente ou pelo otimizador)
+ */
+export interface SchedulerTuning {
+  easeFactorModifier: number;  // Passo de ajuste do fator de facilidade
+  hardMultiplier: number;      // Multiplicador para respostas difíceis
+  lapseMultiplier: number;     // Multiplicador para lapsos
+  intervalMultiplier: number;  // Multiplicador geral de intervalo
+}
+
+// Valores de referência: com eles o SM-2 se comporta exatamente como o original
+export const DEFAULT_SCHEDULER_TUNING: SchedulerTuning = {
+  easeFactorModifier: 0.15,
+  hardMultiplier: 0.8,
+  lapseMultiplier: 0.5,
+  intervalMultiplier: 1.0
+};
+
+/**
+ * Contrato comum para os motores de agendamento (SM-2, FSRS, ...)
+ */
+export interface ReviewScheduler {
+  algorithm: SchedulerAlgorithm;
+  label: string;
+  /** Calcula o novo estado do cartão após uma revisão */
+  schedule: (
+    card: ReviewCard,
+    result: ReviewResult,
+    userProfile: UserProfile,
+    options?: SchedulerOptions
+  ) => Partial<ReviewCard>;
+  /** Converte o estado produzido por outro motor para este motor */
+  convertCard: (card: ReviewCard) => ReviewCard;
+  /** Probabilidade estimada de lembrar o cartão agora (0 - 1) */
+  retrievability: (card: ReviewCard, now?: Date) => number;
+}
+
 /**
  * Calcula a próxima data de revisão usando SM-2 melhorado
  */
 export const calculateNextReview = (
   card: ReviewCard, 
   result: ReviewResult, 
-  userProfile: UserProfile
+  userProfile: UserProfile,
+  now: Date = new Date()
 ): Partial<ReviewCard> => {
   const { quality, responseTime, confidenceLevel, wasCorrect } = result;
   
@@ -114,16 +171,16 @@ export const calculateNextReview = (
   
   // Ajusta baseado na proximidade do exame
   if (card.examDate) {
-    const daysUntilExam = differenceInDays(card.examDate, new Date());
+    const daysUntilExam = differenceInDays(card.examDate, now);
     if (daysUntilExam > 0) {
       // Acelera revisões próximo ao exame
       const examUrgency = Math.max(0.5, Math.min(1, daysUntilExam / 60));
       newInterval = Math.ceil(newInterval * examUrgency);
       
       // Nunca agenda depois do exame
-      const nextReviewDate = addDays(new Date(), newInterval);
+      const nextReviewDate = addDays(now, newInterval);
       if (isAfter(nextReviewDate, card.examDate)) {
-        newInterval = Math.max(1, differenceInDays(card.examDate, new Date()) - 1);
+        newInterval = Math.max(1, differenceInDays(card.examDate, now) - 1);
       }
     }
   }
@@ -131,7 +188,7 @@ export const calculateNextReview = (
   // Limita intervalos muito longos ou curtos
   newInterval = Math.max(1, Math.min(newInterval, 365));
   
-  const nextReviewDate = addDays(new Date(), newInterval);
+  const nextReviewDate = addDays(now, newInterval);
   const newAverageQuality = (card.averageQuality * card.totalReviews + adjustedQuality) / (card.totalReviews + 1);
   
   return {
@@ -139,7 +196,7 @@ export const calculateNextReview = (
     interval: newInterval,
     repetition: newRepetition,
     nextReviewDate,
-    lastReviewDate: new Date(),
+    lastReviewDate: now,
     quality: adjustedQuality,
     averageQuality: newAverageQuality,
     totalReviews: card.totalReviews + 1,
@@ -174,6 +231,116 @@ export const createReviewCard = (
   };
 };
 
+/**
+ * Deriva fator de facilidade e intervalo a partir do estado FSRS
+ */
+const adoptFromFsrs = (card: ReviewCard): ReviewCard => {
+  if (card.algorithm !== 'fsrs' || !card.stability || !card.difficulty) {
+    return { ...card, algorithm: 'sm2' };
+  }
+
+  return {
+    ...card,
+    // Dificuldade média (5) ≈ fator 2.5; dificuldade máxima (10) ≈ fator 1.3
+    easeFactor: Math.max(1.3, Math.min(2.5, 2.5 - (card.difficulty - 5) * (1.2 / 5))),
+    interval: Math.max(1, Math.round(card.stability)),
+    // O estado FSRS deixa de ser atualizado e seria enganoso numa nova troca
+    stability: undefined,
+    difficulty: undefined,
+    algorithm: 'sm2'
+  };
+};
+
+/**
+ * Aplica os ajustes finos ao resultado do SM-2.
+ * Os multiplicadores de dificuldade, lapso e facilidade são relativos aos valores de referência.
+ */
+export const applySm2Tuning = (
+  card: ReviewCard,
+  quality: number,
+  base: { easeFactor: number; interval: number },
+  tuning: SchedulerTuning = DEFAULT_SCHEDULER_TUNING
+): { easeFactor: number; interval: number } => {
+  const easeScale = tuning.easeFactorModifier / DEFAULT_SCHEDULER_TUNING.easeFactorModifier;
+  const easeFactor = Math.max(1.3, card.easeFactor + (base.easeFactor - card.easeFactor) * easeScale);
+
+  let interval = base.interval;
+  if (quality < 3) {
+    interval *= tuning.lapseMultiplier / DEFAULT_SCHEDULER_TUNING.lapseMultiplier;
+  } else {
+    interval *= tuning.intervalMultiplier;
+    if (quality === 3) {
+      interval *= tuning.hardMultiplier / DEFAULT_SCHEDULER_TUNING.hardMultiplier;
+    }
+  }
+
+  return { easeFactor, interval: Math.max(1, Math.round(interval)) };
+};
+
+export const sm2Scheduler: ReviewScheduler = {
+  algorithm: 'sm2',
+  label: 'SM-2 Inteligente',
+  schedule: (card, result, userProfile, options = {}) => {
+    const now = options.now ?? new Date();
+    const updated = calculateNextReview(card, result, userProfile, now);
+    if (!options.tuning) {
+      return { ...updated, algorithm: 'sm2' };
+    }
+
+    const tuned = applySm2Tuning(
+      card,
+      updated.quality ?? result.quality,
+      { easeFactor: updated.easeFactor ?? card.easeFactor, interval: updated.interval ?? 1 },
+      options.tuning
+    );
+    let interval = Math.min(tuned.interval, options.maximumInterval ?? 365);
+    // Nunca agenda depois do exame
+    if (card.examDate && updated.interval !== undefined && interval > updated.interval) {
+      const daysUntilExam = differenceInDays(card.examDate, now);
+      if (daysUntilExam > 0) {
+        interval = Math.min(interval, Math.max(1, daysUntilExam - 1));
+      }
+    }
+
+    return {
+      ...updated,
+      easeFactor: tuned.easeFactor,
+      interval,
+      nextReviewDate: addDays(now, interval),
+      algorithm: 'sm2'
+    };
+  },
+  convertCard: adoptFromFsrs,
+  retrievability: (card, now = new Date()) => {
+    if (!card.lastReviewDate || card.interval <= 0) return 1;
+    // Curva exponencial calibrada para ~90% de retenção no fim do intervalo
+    const elapsed = Math.max(0, differenceInDays(now, card.lastReviewDate));
+    return Math.pow(0.9, elapsed / card.interval);
+  }
+};
+
+const SCHEDULERS: Record<SchedulerAlgorithm, ReviewScheduler> = {
+  sm2: sm2Scheduler,
+  fsrs: fsrsScheduler
+};
+
+/**
+ * Retorna o motor de agendamento para o algoritmo escolhido
+ */
+export const getScheduler = (algorithm: SchedulerAlgorithm = 'sm2'): ReviewScheduler => {
+  return SCHEDULERS[algorithm] || sm2Scheduler;
+};
+
+export const getAvailableSchedulers = (): ReviewScheduler[] => Object.values(SCHEDULERS);
+
+/**
+ * Converte o estado de um cartão para o algoritmo de destino
+ */
+export const convertReviewCard = (card: ReviewCard, target: SchedulerAlgorithm): ReviewCard => {
+  if ((card.algorithm || 'sm2') === target) return card;
+  return getScheduler(target).convertCard(card);
+};
+
 /**
  * Atualiza o perfil do usuário baseado na performance
  */
@@ -0,0 +1,6 @@
+/**
+ * localStorage keys shared by modules that must not import each other
+ */
+
+// Snapshots completos salvos pelo usuário (também lidos pela coleta de lixo das mídias)
+export const COMPLETE_SNAPSHOTS_KEY = 'lovable_complete_snapshots';
@@ -0,0 +1,194 @@
+import { addDays, differenceInDays, format, startOfDay } from 'date-fns';
+import {
+  getScheduler,
+  convertReviewCard,
+  type ReviewCard,
+  type SchedulerOptions,
+  type UserProfile
+} from './spacedRepetition';
+import { balanceInterval, dueLoadKey } from './loadBalancer';
+import type { ReviewSettings } from '@/db/crud/reviewSettings';
+
+/**
+ * Simulador de carga de revisões
+ * Projeta, dia a dia até o exame, quantas revisões e cartões novos o usuário terá
+ * e a retenção esperada, para comparar dois perfis de configuração.
+ */
+
+export type SimulationItemKind = 'flashcard' | 'enemy_topic' | 'question';
+
+export interface SimulationItem {
+  kind: SimulationItemKind;
+  card: ReviewCard;
+}
+
+export type SimulationProfile = Pick<
+  ReviewSettings,
+  | 'algorithm'
+  | 'requestRetention'
+  | 'dailyReviewLimit'
+  | 'newCardsPerDay'
+  | 'loadBalancing'
+  | 'examModeEnabled'
+  | 'examUrgencyFactor'
+  | 'examModeWindowDays'
+  | 'examNewCardCutoffDays'
+  | 'maxInterval'
+  | 'minInterval'
+  | 'easeFactorModifier'
+  | 'hardMultiplier'
+  | 'lapseMultiplier'
+  | 'intervalMultiplier'
+>;
+
+export interface SimulationDaySettings {
+  settings: SimulationProfile;       // Perfil já ajustado pelo modo exame para o dia
+  schedulerOptions: SchedulerOptions;
+  examModeActive: boolean;           // Revisões do dia ordenadas pela chance de lembrar
+}
+
+export interface SimulationDay {
+  date: string; // YYYY-MM-DD
+  reviews: number;
+  newCards: number;
+  backlog: number;           // Revisões vencidas que ficaram para o dia seguinte
+  expectedRetention: number; // % médio de lembrança dos itens já estudados
+}
+
+export interface SimulationResult {
+  days: SimulationDay[];
+  totalReviews: number;
+  averageDailyReviews: number;
+  peakReviews: number;
+  newCardsIntroduced: number;
+  newCardsRemaining: number;
+  finalRetention: number;
+}
+
+export interface SimulationOptions {
+  startDate?: Date;
+  endDate: Date;
+  userProfile: UserProfile;
+  settingsForDay: (daysUntilExam: number) => SimulationDaySettings; // Montado por quem chama
+  seed?: number;
+}
+
+// Limite de segurança para exames muito distantes
+const MAX_SIMULATION_DAYS = 730;
+
+interface SimulatedItem {
+  kind: SimulationItemKind;
+  card: ReviewCard;
+  due: Date | null; // null = cartão novo ainda não apresentado
+}
+
+/**
+ * Gerador pseudoaleatório determinístico (mulberry32) para que perfis diferentes
+ * sejam comparados com a mesma sequência de acertos e erros
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const simulateWorkload = (
+  items: SimulationItem[],
+  profile: SimulationProfile,
+  options: SimulationOptions
+): SimulationResult => {
+  const start = startOfDay(options.startDate || new Date());
+  const totalDays = Math.min(MAX_SIMULATION_DAYS, Math.max(1, differenceInDays(options.endDate, start)));
+  const scheduler = getScheduler(profile.algorithm);
+  const random = createRandom(options.seed ?? 42);
+
+  const simulated: SimulatedItem[] = items.map(item => {
+    const card = convertReviewCard(item.card, profile.algorithm);
+    const isNew = item.kind === 'flashcard' && card.totalReviews === 0;
+    return { kind: item.kind, card, due: isNew ? null : startOfDay(card.nextReviewDate) };
+  });
+  const newQueue = simulated.filter(item => item.due === null);
+
+  // Carga agendada por dia, usada pelo balanceamento
+  const dueLoad: Record<string, number> = {};
+  simulated.forEach(item => {
+    if (item.due) dueLoad[dueLoadKey(item.due)] = (dueLoad[dueLoadKey(item.due)] || 0) + 1;
+  });
+
+  const days: SimulationDay[] = [];
+  let newCardsIntroduced = 0;
+
+  const review = (item: SimulatedItem, date: Date, quality: number, dayProfile: SimulationDaySettings, daysUntilExam: number) => {
+    const updated = scheduler.schedule(item.card, {
+      quality,
+      responseTime: options.userProfile.averageResponseTime,
+      confidenceLevel: 'certeza',
+      wasCorrect: quality >= 3
+    }, options.userProfile, { ...dayProfile.schedulerOptions, now: date });
+
+    // Nunca agenda depois do exame
+    let interval = Math.max(1, Math.min(updated.interval ?? 1, Math.max(1, daysUntilExam)));
+    if (dayProfile.settings.loadBalancing) {
+      interval = balanceInterval(interval, { now: date, examDate: options.endDate, dueLoad, random });
+    }
+
+    item.card = { ...item.card, ...updated, interval, lastReviewDate: date };
+    item.due = addDays(date, interval);
+    dueLoad[dueLoadKey(item.due)] = (dueLoad[dueLoadKey(item.due)] || 0) + 1;
+  };
+
+  for (let day = 0; day < totalDays; day++) {
+    const date = addDays(start, day);
+    const daysUntilExam = differenceInDays(options.endDate, date);
+    const dayProfile = options.settingsForDay(daysUntilExam);
+    const daySettings = dayProfile.settings;
+
+    // Revisões vencidas, das mais atrasadas para as mais recentes
+    // (no modo exame, as com menor chance de lembrar primeiro)
+    const due = simulated
+      .filter(item => item.due !== null && item.due <= date)
+      .sort(dayProfile.examModeActive
+        ? (a, b) => scheduler.retrievability(a.card, date) - scheduler.retrievability(b.card, date)
+        : (a, b) => a.due!.getTime() - b.due!.getTime());
+    const toReview = due.slice(0, daySettings.dailyReviewLimit);
+
+    toReview.forEach(item => {
+      const recalled = random() < scheduler.retrievability(item.card, date);
+      review(item, date, recalled ? 4 : 1, dayProfile, daysUntilExam);
+    });
+
+    // Cartões novos ocupam a capacidade que sobrou no dia
+    const capacity = Math.max(0, daySettings.dailyReviewLimit - toReview.length);
+    const newToday = newQueue.splice(0, Math.min(daySettings.newCardsPerDay, capacity));
+    newToday.forEach(item => review(item, date, 4, dayProfile, daysUntilExam));
+    newCardsIntroduced += newToday.length;
+
+    const studied = simulated.filter(item => item.due !== null);
+    const retentionSum = studied.reduce((sum, item) => sum + scheduler.retrievability(item.card, date), 0);
+
+    days.push({
+      date: format(date, 'yyyy-MM-dd'),
+      reviews: toReview.length,
+      newCards: newToday.length,
+      backlog: due.length - toReview.length,
+      expectedRetention: studied.length > 0 ? (retentionSum / studied.length) * 100 : 0
+    });
+  }
+
+  const totalReviews = days.reduce((sum, day) => sum + day.reviews + day.newCards, 0);
+
+  return {
+    days,
+    totalReviews,
+    averageDailyReviews: days.length > 0 ? totalReviews / days.length : 0,
+    peakReviews: days.reduce((peak, day) => Math.max(peak, day.reviews + day.newCards), 0),
+    newCardsIntroduced,
+    newCardsRemaining: newQueue.length,
+    finalRetention: days.length > 0 ? days[days.length - 1].expectedRetention : 0
+  };
+};